@@ -9,10 +9,14 @@ set -euo pipefail
 
 SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
 
-# Build frontend (Vite will load .env.production for production API base URL)
 cd "$SCRIPT_DIR"
+
+# Build frontend (Vite will load .env.production for production API base URL)
 echo "Building frontend (env: VITE_API_BASE_URL from .env.production or current shell)..."
-npm ci
+npm ci # postinstall fetches the proctoring object detector into public/models
+if [ ! -f public/models/efficientdet_lite0.tflite ]; then
+  echo "Warning: object detection model missing; phone/book detection will be disabled."
+fi
 npm run build
 
 # Deploy to Firebase Hosting using firebase.json and .firebaserc in this folder
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+// Downloads the proctoring object detector (phone / book) into public/models so
+// it is served from our own origin. Runs on `npm install` / `npm ci`.
+// Models are pinned to a versioned URL and a SHA-256; a download that fails or
+// does not match only warns: the app then runs without the object stage.
+
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
+
+const MODELS = [
+  {
+    path: "public/models/efficientdet_lite0.tflite",
+    url: "https://storage.googleapis.com/mediapipe-models/object_detector/efficientdet_lite0/float16/1/efficientdet_lite0.tflite",
+    // Digest of version 1 above; a model without one is never installed
+    sha256: "",
+  },
+];
+
+for (const model of MODELS) {
+  const target = join(ROOT, model.path);
+  if (existsSync(target)) continue;
+  try {
+    console.log(`Downloading ${model.path}...`);
+    const res = await fetch(model.url, { signal: AbortSignal.timeout(60_000) });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const data = Buffer.from(await res.arrayBuffer());
+    const sha256 = createHash("sha256").update(data).digest("hex");
+    if (!model.sha256) throw new Error(`no pinned SHA-256 (download has ${sha256})`);
+    if (sha256 !== model.sha256) throw new Error(`SHA-256 mismatch (expected ${model.sha256}, got ${sha256})`);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(`${target}.part`, data);
+    await rename(`${target}.part`, target);
+  } catch (err) {
+    console.warn(`Could not download ${model.path} (${err instanceof Error ? err.message : err}); object detection will be disabled.`);
+  }
+}
@@ -19,6 +19,9 @@
  *   /coding/report/:id       → CodingReportView (protected)
  *   /admin/users             → AdminUsersPage (admin/manager/college)
  *   /admin/assignments       → AdminAssignmentsPage (admin/manager/college)
+ *   /admin/question-banks    → AdminQuestionBanksPage (admin/manager/college)
+ *   /admin/scoring-profiles  → AdminScoringProfilesPage (admin/manager/college)
+ *   /admin/appeals           → AdminAppealsPage (admin/manager/college)
  */
 
 import { Routes, Route, Navigate } from "react-router-dom";
@@ -39,7 +42,10 @@ import { CodingReportView } from "./components/CodingReportView";
 import { AdminUsersPage } from "./components/AdminUsersPage";
 import { AdminAssignmentsPage } from "./components/AdminAssignmentsPage";
 import { AdminTemplatesPage } from "./components/AdminTemplatesPage";
+import { AdminQuestionBanksPage } from "./components/AdminQuestionBanksPage";
+import { AdminScoringProfilesPage } from "./components/AdminScoringProfilesPage";
 import { AdminErrorsPage } from "./components/AdminErrorsPage";
+import { AdminAppealsPage } from "./components/AdminAppealsPage";
 import { PricingPage } from "./components/PricingPage";
 import { BillingPage } from "./components/BillingPage";
 import { CodingQuestionsPage } from "./components/CodingQuestionsPage";
@@ -47,6 +53,7 @@ import { CodingQuestionDetailPage } from "./components/CodingQuestionDetailPage"
 import { ProfessionalInterviewSession } from "./components/ProfessionalInterviewSession";
 import { ProfessionalConsentPage } from "./components/ProfessionalConsentPage";
 import { LiveKitObserverRoom } from "./components/LiveKitObserverRoom";
+import { ProctorWallPage } from "./components/ProctorWallPage";
 import { FullInterviewFlowPage } from "./components/FullInterviewFlowPage";
 import { FullFlowReportPage } from "./components/FullFlowReportPage";
 import { ProtectedRoute } from "./routes/ProtectedRoute";
@@ -94,6 +101,10 @@ export default function App() {
             <Route path="/admin/users" element={<AdminUsersPage />} />
             <Route path="/admin/assignments" element={<AdminAssignmentsPage />} />
             <Route path="/admin/templates" element={<AdminTemplatesPage />} />
+            <Route path="/admin/question-banks" element={<AdminQuestionBanksPage />} />
+            <Route path="/admin/scoring-profiles" element={<AdminScoringProfilesPage />} />
+            <Route path="/admin/appeals" element={<AdminAppealsPage />} />
+            <Route path="/proctor/wall" element={<ProctorWallPage />} />
           </Route>
           {/* ---- Admin-only: Error log ---- */}
           <Route element={<ProtectedRoute allowedRoles={["ADMIN"]} />}>
@@ -0,0 +1,244 @@
+/**
+ * AdminAppealsPage — Review candidate appeals against proctoring flags.
+ *
+ * Reviewers accept or reject each appeal with an optional note. Accepted
+ * flags are excluded when the backend recomputes the session risk score.
+ */
+
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import {
+  useListAppealsQuery,
+  useReviewAppealMutation,
+  type AppealSessionType,
+  type AppealStatus,
+  type FlagAppeal,
+} from "../store/endpoints/appeals";
+import { useToast } from "./Toast";
+import { BoltIcon } from "./AppLogo";
+import { formatTs } from "./FlagsTimeline";
+
+const REPORT_PATH: Record<AppealSessionType, string> = {
+  INTERVIEW: "/interview/report",
+  APTITUDE: "/aptitude/report",
+  CODING: "/coding/report",
+};
+
+export function AdminAppealsPage() {
+  const navigate = useNavigate();
+  const toast = useToast();
+
+  const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<AppealStatus | "">("PENDING");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useListAppealsQuery({
+    page,
+    limit: 20,
+    ...(statusFilter && { status: statusFilter }),
+  });
+  const [reviewAppeal, { isLoading: reviewing }] = useReviewAppealMutation();
+
+  const handleReview = async (appeal: FlagAppeal, status: "ACCEPTED" | "REJECTED") => {
+    const reviewerNote = notes[appeal.id]?.trim();
+    try {
+      const res = await reviewAppeal({
+        id: appeal.id,
+        status,
+        ...(reviewerNote && { reviewerNote }),
+      }).unwrap();
+      toast.success(
+        status === "ACCEPTED"
+          ? `Appeal accepted${res.adjustedRiskScore != null ? ` — risk score now ${res.adjustedRiskScore}/100` : ""}`
+          : "Appeal rejected",
+      );
+      setNotes((prev) => {
+        const next = { ...prev };
+        delete next[appeal.id];
+        return next;
+      });
+    } catch (err) {
+      const msg = (err as { data?: { error?: string } })?.data?.error ?? "Failed to review appeal";
+      toast.error(msg);
+    }
+  };
+
+  return (
+    <div className="dash">
+      <header className="dash__topbar">
+        <button type="button" className="dash__brand" onClick={() => navigate("/dashboard")} title="Dashboard">
+          <div className="dash__brand-icon">
+            <BoltIcon />
+          </div>
+          <span className="dash__brand-name">VocalHireAI</span>
+        </button>
+        <div className="dash__user-section">
+          <button type="button" className="dash__topbar-btn" onClick={() => navigate("/dashboard")}>
+            ← Dashboard
+          </button>
+        </div>
+      </header>
+
+      <div className="dash__content">
+        <div className="admin-page__body">
+          <h1 className="dash__welcome-title">Flag Appeals</h1>
+          <p className="pg-muted" style={{ marginBottom: "1rem" }}>
+            Candidates contesting proctoring flags. Accepted flags no longer count toward the session risk score.
+          </p>
+
+          <div className="admin-page__controls" style={{ marginBottom: "1rem" }}>
+            <select
+              className="auth-input"
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value as AppealStatus | "");
+                setPage(1);
+              }}
+              style={{ maxWidth: 200 }}
+            >
+              <option value="PENDING">Pending</option>
+              <option value="ACCEPTED">Accepted</option>
+              <option value="REJECTED">Rejected</option>
+              <option value="">All</option>
+            </select>
+          </div>
+
+          {isLoading ? (
+            <div className="admin-page__loading">Loading appeals...</div>
+          ) : (
+            <>
+              <div className="dash__table-wrap">
+                <table className="dash__table">
+                  <thead>
+                    <tr>
+                      <th>Candidate</th>
+                      <th>Session</th>
+                      <th>Flag</th>
+                      <th>Appeal</th>
+                      <th>Submitted</th>
+                      <th>Review</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data?.data.map((appeal) => (
+                      <tr key={appeal.id} className="dash__row">
+                        <td>
+                          {appeal.candidate.name}
+                          <br />
+                          <span className="pg-muted" style={{ fontSize: "0.85rem" }}>
+                            {appeal.candidate.email}
+                          </span>
+                        </td>
+                        <td>
+                          <Link to={`${REPORT_PATH[appeal.sessionType]}/${appeal.sessionId}`}>
+                            {appeal.sessionType.charAt(0) + appeal.sessionType.slice(1).toLowerCase()}
+                          </Link>
+                        </td>
+                        <td style={{ maxWidth: 240 }}>
+                          <span className="dash__mono">{formatTs(appeal.flagTimestamp)}</span> {appeal.flagMessage}
+                        </td>
+                        <td style={{ maxWidth: 260 }}>
+                          <strong>{appeal.reason}</strong>
+                          {appeal.note && (
+                            <>
+                              <br />
+                              <span className="pg-muted" style={{ fontSize: "0.85rem" }}>
+                                {appeal.note}
+                              </span>
+                            </>
+                          )}
+                        </td>
+                        <td>{new Date(appeal.createdAt).toLocaleString()}</td>
+                        <td style={{ minWidth: 220 }}>
+                          {appeal.status === "PENDING" ? (
+                            <div className="admin-appeals__review">
+                              <input
+                                className="auth-input"
+                                type="text"
+                                placeholder="Note to candidate (optional)"
+                                value={notes[appeal.id] ?? ""}
+                                onChange={(e) => setNotes((prev) => ({ ...prev, [appeal.id]: e.target.value }))}
+                              />
+                              <div className="admin-appeals__buttons">
+                                <button
+                                  type="button"
+                                  className="btn btn--primary btn--sm"
+                                  disabled={reviewing}
+                                  onClick={() => handleReview(appeal, "ACCEPTED")}
+                                >
+                                  Accept
+                                </button>
+                                <button
+                                  type="button"
+                                  className="btn btn--danger btn--sm"
+                                  disabled={reviewing}
+                                  onClick={() => handleReview(appeal, "REJECTED")}
+                                >
+                                  Reject
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <>
+                              <span className={`flag-appeals__status flag-appeals__status--${appeal.status.toLowerCase()}`}>
+                                {appeal.status === "ACCEPTED" ? "Accepted" : "Rejected"}
+                              </span>
+                              {appeal.reviewer && (
+                                <span className="pg-muted" style={{ fontSize: "0.8rem" }}>
+                                  {" "}by {appeal.reviewer.name}
+                                </span>
+                              )}
+                              {appeal.reviewerNote && (
+                                <>
+                                  <br />
+                                  <span className="pg-muted" style={{ fontSize: "0.85rem" }}>
+                                    {appeal.reviewerNote}
+                                  </span>
+                                </>
+                              )}
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                    {data?.data.length === 0 && (
+                      <tr>
+                        <td colSpan={6} style={{ textAlign: "center", padding: "2rem" }}>
+                          No appeals to show.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {data && data.pagination.totalPages > 1 && (
+                <div className="admin-page__pagination">
+                  <button
+                    className="btn btn--ghost"
+                    type="button"
+                    disabled={!data.pagination.hasPrev}
+                    onClick={() => setPage((p) => p - 1)}
+                  >
+                    Previous
+                  </button>
+                  <span>
+                    Page {data.pagination.page} of {data.pagination.totalPages} ({data.pagination.total} total)
+                  </span>
+                  <button
+                    className="btn btn--ghost"
+                    type="button"
+                    disabled={!data.pagination.hasNext}
+                    onClick={() => setPage((p) => p + 1)}
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
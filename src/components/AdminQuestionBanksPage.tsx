@@ -0,0 +1,388 @@
+/**
+ * AdminQuestionBanksPage — List, add, and update question banks: fixed
+ * questions (competency, difficulty, expected-answer rubric) that job
+ * templates attach so every candidate for a role gets the same questions in
+ * the same order. For ADMIN, HIRING_MANAGER, COLLEGE.
+ */
+
+import { useState, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  useListQuestionBanksQuery,
+  useCreateQuestionBankMutation,
+  useUpdateQuestionBankMutation,
+  useDeleteQuestionBankMutation,
+  type QuestionBank,
+  type QuestionBankInput,
+} from "../store/endpoints/questionBanks";
+import { useToast } from "./Toast";
+import { BoltIcon } from "./AppLogo";
+import { logErrorToServer } from "../lib/logError";
+import { QUESTION_DIFFICULTIES, QUESTION_DIFFICULTY_LABELS } from "../lib/question-bank";
+import type { QuestionDifficulty } from "../types/gemini";
+
+const LIMIT = 20;
+const MAX_QUESTIONS = 50;
+
+type QuestionDraft = QuestionBankInput["questions"][number];
+
+const emptyQuestion = (): QuestionDraft => ({ text: "", competency: "", difficulty: "medium", rubric: "" });
+
+const emptyForm = (): QuestionBankInput => ({ name: "", description: "", questions: [emptyQuestion()] });
+
+export function AdminQuestionBanksPage() {
+  const navigate = useNavigate();
+  const toast = useToast();
+
+  const [page, setPage] = useState(1);
+  /** null = closed, "new" = add, otherwise the bank being edited */
+  const [editing, setEditing] = useState<QuestionBank | "new" | null>(null);
+  const [form, setForm] = useState<QuestionBankInput>(emptyForm);
+
+  const { data, isLoading, refetch } = useListQuestionBanksQuery({ page, limit: LIMIT });
+  const [createQuestionBank, { isLoading: creating }] = useCreateQuestionBankMutation();
+  const [updateQuestionBank, { isLoading: updating }] = useUpdateQuestionBankMutation();
+  const [deleteQuestionBank, { isLoading: deleting }] = useDeleteQuestionBankMutation();
+
+  const banks = data?.data ?? [];
+  const pagination = data?.pagination;
+  const totalPages = pagination?.totalPages ?? 1;
+  const hasNext = pagination?.hasNext ?? false;
+  const hasPrev = pagination?.hasPrev ?? false;
+
+  const openAdd = useCallback(() => {
+    setEditing("new");
+    setForm(emptyForm());
+  }, []);
+
+  const openEdit = useCallback((bank: QuestionBank) => {
+    setEditing(bank);
+    setForm({
+      name: bank.name,
+      description: bank.description ?? "",
+      questions: bank.questions.map((q) => ({ ...q })),
+    });
+  }, []);
+
+  const close = useCallback(() => {
+    setEditing(null);
+    setForm(emptyForm());
+  }, []);
+
+  const setQuestions = (questions: QuestionDraft[]) => setForm((f) => ({ ...f, questions }));
+  const updateQuestion = (index: number, patch: Partial<QuestionDraft>) =>
+    setQuestions(form.questions.map((q, i) => (i === index ? { ...q, ...patch } : q)));
+  const move = (index: number, by: -1 | 1) => {
+    const questions = [...form.questions];
+    const [question] = questions.splice(index, 1);
+    questions.splice(index + by, 0, question!);
+    setQuestions(questions);
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const payload: QuestionBankInput = {
+      name: form.name.trim(),
+      description: form.description?.trim() || null,
+      questions: form.questions
+        .map((q) => ({ ...q, text: q.text.trim(), competency: q.competency.trim(), rubric: q.rubric.trim() }))
+        .filter((q) => q.text),
+    };
+    if (!payload.name) {
+      toast.error("Name is required.");
+      return;
+    }
+    if (payload.questions.length === 0) {
+      toast.error("Add at least one question.");
+      return;
+    }
+    if (payload.questions.some((q) => !q.competency || !q.rubric)) {
+      toast.error("Every question needs a competency and an expected-answer rubric.");
+      return;
+    }
+    try {
+      if (editing === "new") {
+        await createQuestionBank(payload).unwrap();
+        toast.success("Question bank created");
+      } else {
+        await updateQuestionBank({ id: editing.id, data: payload }).unwrap();
+        toast.success("Question bank updated");
+      }
+      close();
+      refetch();
+    } catch (err: unknown) {
+      const msg = (err as { data?: { error?: string } })?.data?.error ?? "Failed to save question bank";
+      toast.error(msg);
+      logErrorToServer(msg, { source: "admin_question_banks" });
+    }
+  };
+
+  const handleDelete = async (bank: QuestionBank) => {
+    if (!confirm(`Delete question bank "${bank.name}"? Templates using it will go back to generated questions.`)) return;
+    try {
+      await deleteQuestionBank(bank.id).unwrap();
+      toast.success("Question bank deleted");
+      if (editing !== "new" && editing?.id === bank.id) close();
+      refetch();
+    } catch (err: unknown) {
+      const msg = (err as { data?: { error?: string } })?.data?.error ?? "Failed to delete question bank";
+      toast.error(msg);
+      logErrorToServer(msg, { source: "admin_question_banks" });
+    }
+  };
+
+  const saving = creating || updating;
+
+  return (
+    <div className="dash">
+      <header className="dash__topbar">
+        <button type="button" className="dash__brand" onClick={() => navigate("/dashboard")} title="Dashboard">
+          <div className="dash__brand-icon">
+            <BoltIcon />
+          </div>
+          <span className="dash__brand-name">VocalHireAI</span>
+        </button>
+        <div className="dash__user-section">
+          <button type="button" className="dash__topbar-btn" onClick={() => navigate("/admin/templates")}>
+            Templates
+          </button>
+          <button type="button" className="dash__topbar-btn" onClick={() => navigate("/dashboard")}>
+            ← Dashboard
+          </button>
+        </div>
+      </header>
+
+      <div className="dash__content">
+        <div className="admin-page__body">
+          <div className="admin-page__title-row">
+            <div>
+              <h1 className="dash__welcome-title">Question Banks</h1>
+              <p className="admin-page__subtitle">
+                Fixed questions for a role. Attach a bank to a job template and the interviewer asks its questions in order,
+                using each rubric to score the answer without revealing it.
+              </p>
+            </div>
+          </div>
+
+          <div className="admin-page__controls">
+            <button type="button" className="btn btn--primary" onClick={openAdd}>
+              Add question bank
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="admin-page__loading">Loading question banks...</div>
+          ) : (
+            <>
+              <div className="dash__table-wrap">
+                <table className="dash__table">
+                  <thead>
+                    <tr>
+                      <th>Name</th>
+                      <th>Questions</th>
+                      <th>Competencies</th>
+                      <th>Creator</th>
+                      <th>Created</th>
+                      <th>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {banks.map((b) => {
+                      const competencies = [...new Set(b.questions.map((q) => q.competency))];
+                      return (
+                        <tr key={b.id} className="dash__row">
+                          <td>
+                            <span title={b.description ?? b.name}>{b.name}</span>
+                          </td>
+                          <td>{b.questions.length}</td>
+                          <td>{competencies.length ? competencies.join(", ") : "—"}</td>
+                          <td>{b.creator?.name ?? "—"}</td>
+                          <td>{b.createdAt ? new Date(b.createdAt).toLocaleDateString() : "—"}</td>
+                          <td>
+                            <span style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+                              <button type="button" className="btn btn--primary btn--sm" onClick={() => openEdit(b)}>
+                                Edit
+                              </button>
+                              <button
+                                type="button"
+                                className="btn btn--danger btn--sm"
+                                onClick={() => handleDelete(b)}
+                                disabled={deleting}
+                              >
+                                Delete
+                              </button>
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                    {banks.length === 0 && (
+                      <tr><td colSpan={6} style={{ textAlign: "center", padding: "2rem" }}>No question banks yet.</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {totalPages > 1 && (
+                <div className="admin-page__pagination">
+                  <button type="button" className="btn btn--ghost" disabled={!hasPrev} onClick={() => setPage((p) => Math.max(1, p - 1))}>
+                    Previous
+                  </button>
+                  <span>Page {page} of {totalPages}</span>
+                  <button type="button" className="btn btn--ghost" disabled={!hasNext} onClick={() => setPage((p) => p + 1)}>
+                    Next
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Add / edit modal */}
+      {editing && (
+        <div
+          className="billing-modal-overlay"
+          onClick={close}
+          onKeyDown={(e) => e.key === "Escape" && close()}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="admin-question-bank-modal-title"
+        >
+          <div className="billing-modal admin-template-modal" onClick={(e) => e.stopPropagation()}>
+            <h2 id="admin-question-bank-modal-title" className="billing-modal__title">
+              {editing === "new" ? "Add question bank" : `Edit question bank: ${editing.name}`}
+            </h2>
+            <form
+              className="admin-template-modal__form"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSave();
+              }}
+            >
+              <label className="admin-template-modal__label">
+                Name
+                <input
+                  type="text"
+                  className="auth-input"
+                  value={form.name}
+                  onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+                  maxLength={200}
+                  placeholder="e.g. Backend Developer — core"
+                  autoFocus
+                />
+              </label>
+              <label className="admin-template-modal__label">
+                Description
+                <input
+                  type="text"
+                  className="auth-input"
+                  value={form.description ?? ""}
+                  onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+                  maxLength={500}
+                  placeholder="Optional"
+                />
+              </label>
+
+              <fieldset className="plan-editor">
+                <legend className="plan-editor__legend">Questions (asked in this order)</legend>
+                <ol className="plan-editor__phases">
+                  {form.questions.map((q, i) => (
+                    <li key={q.id ?? `new-${i}`} className="plan-editor__phase">
+                      <div className="plan-editor__row">
+                        <span className="qbank-editor__number">{i + 1}.</span>
+                        <input
+                          type="text"
+                          className="plan-editor__input plan-editor__input--name"
+                          value={q.competency}
+                          maxLength={80}
+                          placeholder="Competency (e.g. System design)"
+                          aria-label="Competency"
+                          onChange={(e) => updateQuestion(i, { competency: e.target.value })}
+                        />
+                        <select
+                          className="plan-editor__select"
+                          value={q.difficulty}
+                          aria-label="Difficulty"
+                          onChange={(e) => updateQuestion(i, { difficulty: e.target.value as QuestionDifficulty })}
+                        >
+                          {QUESTION_DIFFICULTIES.map((d) => (
+                            <option key={d} value={d}>
+                              {QUESTION_DIFFICULTY_LABELS[d]}
+                            </option>
+                          ))}
+                        </select>
+                        <span className="plan-editor__actions">
+                          <button type="button" className="btn btn--secondary btn--sm" disabled={i === 0} onClick={() => move(i, -1)} aria-label="Move up">
+                            ↑
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn--secondary btn--sm"
+                            disabled={i === form.questions.length - 1}
+                            onClick={() => move(i, 1)}
+                            aria-label="Move down"
+                          >
+                            ↓
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn--secondary btn--sm"
+                            disabled={form.questions.length <= 1}
+                            onClick={() => setQuestions(form.questions.filter((_, j) => j !== i))}
+                          >
+                            Remove
+                          </button>
+                        </span>
+                      </div>
+                      <textarea
+                        className="plan-editor__input"
+                        rows={2}
+                        value={q.text}
+                        maxLength={1000}
+                        placeholder="Question"
+                        aria-label="Question"
+                        onChange={(e) => updateQuestion(i, { text: e.target.value })}
+                      />
+                      <textarea
+                        className="plan-editor__input"
+                        rows={2}
+                        value={q.rubric}
+                        maxLength={2000}
+                        placeholder="Expected answer rubric — what a good answer covers (never shown to the candidate)"
+                        aria-label="Expected answer rubric"
+                        onChange={(e) => updateQuestion(i, { rubric: e.target.value })}
+                      />
+                    </li>
+                  ))}
+                </ol>
+                <div className="plan-editor__footer">
+                  <button
+                    type="button"
+                    className="btn btn--secondary btn--sm"
+                    disabled={form.questions.length >= MAX_QUESTIONS}
+                    onClick={() => setQuestions([...form.questions, emptyQuestion()])}
+                  >
+                    + Add question
+                  </button>
+                  <span className="pg-muted">
+                    {form.questions.length} of {MAX_QUESTIONS} questions
+                  </span>
+                </div>
+              </fieldset>
+
+              <div className="admin-template-modal__actions">
+                <button type="button" className="btn btn--secondary" onClick={close}>
+                  Cancel
+                </button>
+                <button type="submit" className="btn btn--primary" disabled={saving}>
+                  {saving ? "Saving…" : editing === "new" ? "Create question bank" : "Save"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
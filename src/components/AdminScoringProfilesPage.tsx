@@ -0,0 +1,441 @@
+/**
+ * AdminScoringProfilesPage — List, add, and update scoring profiles: the
+ * section weights, red-flag penalties and recommendation cut-offs reports
+ * are scored with. Templates pick a profile; the organization default covers
+ * the rest. Saving an edit creates a new version. For ADMIN, HIRING_MANAGER, COLLEGE.
+ */
+
+import { useState, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  useListScoringProfilesQuery,
+  useCreateScoringProfileMutation,
+  useUpdateScoringProfileMutation,
+  useDeleteScoringProfileMutation,
+  type ScoringProfileInput,
+  type ScoringProfileRecord,
+} from "../store/endpoints/scoringProfiles";
+import { useToast } from "./Toast";
+import { BoltIcon } from "./AppLogo";
+import { logErrorToServer } from "../lib/logError";
+import { RUBRIC_CRITERIA, RUBRIC_CRITERION_LABELS } from "../lib/interview-tools";
+import { DEFAULT_SCORING_PROFILE, normalizeScoringProfile, scoringProfileLabel } from "../lib/scoring-profile";
+
+type HardStopKey = keyof ScoringProfileInput["hardStops"];
+
+const HARD_STOPS: Array<{ key: HardStopKey; label: string }> = [
+  { key: "redFlagAtLeast", label: "Red-flag score at least" },
+  { key: "technicalAtMost", label: "Technical skills at most" },
+  { key: "behavioralAtMost", label: "Behavioral at most" },
+];
+
+const THRESHOLDS: Array<{ key: keyof ScoringProfileInput["thresholds"]; label: string }> = [
+  { key: "strongHire", label: "Strong Hire from" },
+  { key: "hire", label: "Hire from" },
+  { key: "consider", label: "Consider from" },
+];
+
+const emptyForm = (): ScoringProfileInput => ({
+  name: "",
+  description: "",
+  isOrgDefault: false,
+  weights: { ...DEFAULT_SCORING_PROFILE.weights },
+  redFlagPenalties: DEFAULT_SCORING_PROFILE.redFlagPenalties.map((p) => ({ ...p })),
+  thresholds: { ...DEFAULT_SCORING_PROFILE.thresholds },
+  hardStops: { ...DEFAULT_SCORING_PROFILE.hardStops },
+});
+
+export function AdminScoringProfilesPage() {
+  const navigate = useNavigate();
+  const toast = useToast();
+
+  /** null = closed, "new" = add, otherwise the profile being edited */
+  const [editing, setEditing] = useState<ScoringProfileRecord | "new" | null>(null);
+  const [form, setForm] = useState<ScoringProfileInput>(emptyForm);
+
+  const { data: profiles = [], isLoading, refetch } = useListScoringProfilesQuery();
+  const [createScoringProfile, { isLoading: creating }] = useCreateScoringProfileMutation();
+  const [updateScoringProfile, { isLoading: updating }] = useUpdateScoringProfileMutation();
+  const [deleteScoringProfile, { isLoading: deleting }] = useDeleteScoringProfileMutation();
+
+  const openAdd = useCallback(() => {
+    setEditing("new");
+    setForm(emptyForm());
+  }, []);
+
+  const openEdit = useCallback((p: ScoringProfileRecord) => {
+    setEditing(p);
+    setForm({
+      name: p.name,
+      description: p.description ?? "",
+      isOrgDefault: p.isOrgDefault,
+      weights: { ...p.weights },
+      redFlagPenalties: p.redFlagPenalties.map((r) => ({ ...r })),
+      thresholds: { ...p.thresholds },
+      hardStops: { ...p.hardStops },
+    });
+  }, []);
+
+  const close = useCallback(() => {
+    setEditing(null);
+    setForm(emptyForm());
+  }, []);
+
+  const weightTotal = RUBRIC_CRITERIA.reduce((sum, c) => sum + (form.weights[c] || 0), 0);
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (!form.name.trim()) {
+      toast.error("Name is required.");
+      return;
+    }
+    const normalized = normalizeScoringProfile(form);
+    if (!normalized) {
+      toast.error("Give at least one section a weight above 0.");
+      return;
+    }
+    const { thresholds } = form;
+    if (!(thresholds.strongHire >= thresholds.hire && thresholds.hire >= thresholds.consider)) {
+      toast.error("Cut-offs must go down from Strong Hire to Hire to Consider.");
+      return;
+    }
+    const payload: ScoringProfileInput = {
+      name: normalized.name,
+      description: form.description?.trim() || null,
+      isOrgDefault: form.isOrgDefault ?? false,
+      weights: normalized.weights,
+      redFlagPenalties: normalized.redFlagPenalties,
+      thresholds: normalized.thresholds,
+      hardStops: normalized.hardStops,
+    };
+    try {
+      if (editing === "new") {
+        await createScoringProfile(payload).unwrap();
+        toast.success("Scoring profile created");
+      } else {
+        const saved = await updateScoringProfile({ id: editing.id, data: payload }).unwrap();
+        toast.success(`Saved as ${scoringProfileLabel(saved)}`);
+      }
+      close();
+      refetch();
+    } catch (err: unknown) {
+      const msg = (err as { data?: { error?: string } })?.data?.error ?? "Failed to save scoring profile";
+      toast.error(msg);
+      logErrorToServer(msg, { source: "admin_scoring_profiles" });
+    }
+  };
+
+  const handleDelete = async (p: ScoringProfileRecord) => {
+    if (!confirm(`Delete scoring profile "${p.name}"? Templates using it will use the organization default. Existing reports keep their scores.`)) return;
+    try {
+      await deleteScoringProfile(p.id).unwrap();
+      toast.success("Scoring profile deleted");
+      if (editing !== "new" && editing?.id === p.id) close();
+      refetch();
+    } catch (err: unknown) {
+      const msg = (err as { data?: { error?: string } })?.data?.error ?? "Failed to delete scoring profile";
+      toast.error(msg);
+      logErrorToServer(msg, { source: "admin_scoring_profiles" });
+    }
+  };
+
+  const saving = creating || updating;
+
+  return (
+    <div className="dash">
+      <header className="dash__topbar">
+        <button type="button" className="dash__brand" onClick={() => navigate("/dashboard")} title="Dashboard">
+          <div className="dash__brand-icon">
+            <BoltIcon />
+          </div>
+          <span className="dash__brand-name">VocalHireAI</span>
+        </button>
+        <div className="dash__user-section">
+          <button type="button" className="dash__topbar-btn" onClick={() => navigate("/admin/templates")}>
+            Templates
+          </button>
+          <button type="button" className="dash__topbar-btn" onClick={() => navigate("/dashboard")}>
+            ← Dashboard
+          </button>
+        </div>
+      </header>
+
+      <div className="dash__content">
+        <div className="admin-page__body">
+          <div className="admin-page__title-row">
+            <div>
+              <h1 className="dash__welcome-title">Scoring Profiles</h1>
+              <p className="admin-page__subtitle">
+                How the overall interview score and recommendation are computed for a role. Templates without a profile use the
+                organization default, or the standard profile when none is set. Editing saves a new version; existing reports keep
+                the version they were scored with.
+              </p>
+            </div>
+          </div>
+
+          <div className="admin-page__controls">
+            <button type="button" className="btn btn--primary" onClick={openAdd}>
+              Add scoring profile
+            </button>
+          </div>
+
+          {isLoading ? (
+            <div className="admin-page__loading">Loading scoring profiles...</div>
+          ) : (
+            <div className="dash__table-wrap">
+              <table className="dash__table">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Version</th>
+                    <th>Top weights</th>
+                    <th>Hire from</th>
+                    <th>Org default</th>
+                    <th>Updated</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {profiles.map((p) => {
+                    const top = [...RUBRIC_CRITERIA]
+                      .sort((a, b) => p.weights[b] - p.weights[a])
+                      .slice(0, 3)
+                      .map((c) => `${RUBRIC_CRITERION_LABELS[c]} ${Math.round(p.weights[c] * 100)}%`);
+                    return (
+                      <tr key={p.id} className="dash__row">
+                        <td>
+                          <span title={p.description ?? p.name}>{p.name}</span>
+                        </td>
+                        <td>v{p.version}</td>
+                        <td>{top.join(", ")}</td>
+                        <td>{p.thresholds.hire}</td>
+                        <td>{p.isOrgDefault ? "Yes" : "—"}</td>
+                        <td>{p.updatedAt ? new Date(p.updatedAt).toLocaleDateString() : "—"}</td>
+                        <td>
+                          <span style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+                            <button type="button" className="btn btn--primary btn--sm" onClick={() => openEdit(p)}>
+                              Edit
+                            </button>
+                            <button
+                              type="button"
+                              className="btn btn--danger btn--sm"
+                              onClick={() => handleDelete(p)}
+                              disabled={deleting}
+                            >
+                              Delete
+                            </button>
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {profiles.length === 0 && (
+                    <tr>
+                      <td colSpan={7} style={{ textAlign: "center", padding: "2rem" }}>
+                        No scoring profiles yet — every report uses the standard profile.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Add / edit modal */}
+      {editing && (
+        <div
+          className="billing-modal-overlay"
+          onClick={close}
+          onKeyDown={(e) => e.key === "Escape" && close()}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="admin-scoring-profile-modal-title"
+        >
+          <div className="billing-modal admin-template-modal" onClick={(e) => e.stopPropagation()}>
+            <h2 id="admin-scoring-profile-modal-title" className="billing-modal__title">
+              {editing === "new" ? "Add scoring profile" : `Edit ${scoringProfileLabel(editing)}`}
+            </h2>
+            <form
+              className="admin-template-modal__form"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSave();
+              }}
+            >
+              <label className="admin-template-modal__label">
+                Name
+                <input
+                  type="text"
+                  className="auth-input"
+                  value={form.name}
+                  onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+                  maxLength={80}
+                  placeholder="e.g. Sales — communication first"
+                  autoFocus
+                />
+              </label>
+              <label className="admin-template-modal__label">
+                Description
+                <input
+                  type="text"
+                  className="auth-input"
+                  value={form.description ?? ""}
+                  onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+                  maxLength={500}
+                  placeholder="Optional"
+                />
+              </label>
+              <label className="admin-template-modal__label admin-template-modal__label--row">
+                <input
+                  type="checkbox"
+                  checked={form.isOrgDefault ?? false}
+                  onChange={(e) => setForm((f) => ({ ...f, isOrgDefault: e.target.checked }))}
+                />
+                <span>Organization default (for templates without a profile)</span>
+              </label>
+
+              <fieldset className="plan-editor">
+                <legend className="plan-editor__legend">Section weights</legend>
+                {RUBRIC_CRITERIA.map((c) => (
+                  <div key={c} className="plan-editor__row">
+                    <span className="scoring-editor__label">{RUBRIC_CRITERION_LABELS[c]}</span>
+                    <input
+                      type="number"
+                      className="plan-editor__input plan-editor__input--short"
+                      min={0}
+                      step={0.05}
+                      value={form.weights[c]}
+                      aria-label={`${RUBRIC_CRITERION_LABELS[c]} weight`}
+                      onChange={(e) => setForm((f) => ({ ...f, weights: { ...f.weights, [c]: Number(e.target.value) } }))}
+                    />
+                    <span className="pg-muted">
+                      {weightTotal > 0 ? `${Math.round(((form.weights[c] || 0) / weightTotal) * 100)}%` : "—"}
+                    </span>
+                  </div>
+                ))}
+                <span className="pg-muted">Weights are scaled to add up to 100% when saved.</span>
+              </fieldset>
+
+              <fieldset className="plan-editor">
+                <legend className="plan-editor__legend">Recommendation cut-offs (overall score 0–10)</legend>
+                {THRESHOLDS.map(({ key, label }) => (
+                  <div key={key} className="plan-editor__row">
+                    <span className="scoring-editor__label">{label}</span>
+                    <input
+                      type="number"
+                      className="plan-editor__input plan-editor__input--short"
+                      min={0}
+                      max={10}
+                      step={0.5}
+                      value={form.thresholds[key]}
+                      aria-label={label}
+                      onChange={(e) => setForm((f) => ({ ...f, thresholds: { ...f.thresholds, [key]: Number(e.target.value) } }))}
+                    />
+                  </div>
+                ))}
+                <span className="pg-muted">Below “Consider” is Reject.</span>
+              </fieldset>
+
+              <fieldset className="plan-editor">
+                <legend className="plan-editor__legend">Automatic reject (leave empty to turn off)</legend>
+                {HARD_STOPS.map(({ key, label }) => (
+                  <div key={key} className="plan-editor__row">
+                    <span className="scoring-editor__label">{label}</span>
+                    <input
+                      type="number"
+                      className="plan-editor__input plan-editor__input--short"
+                      min={0}
+                      max={10}
+                      value={form.hardStops[key] ?? ""}
+                      placeholder="–"
+                      aria-label={label}
+                      onChange={(e) =>
+                        setForm((f) => ({
+                          ...f,
+                          hardStops: { ...f.hardStops, [key]: e.target.value === "" ? undefined : Number(e.target.value) },
+                        }))
+                      }
+                    />
+                  </div>
+                ))}
+              </fieldset>
+
+              <fieldset className="plan-editor">
+                <legend className="plan-editor__legend">Red-flag penalties</legend>
+                <ol className="plan-editor__phases">
+                  {form.redFlagPenalties.map((p, i) => (
+                    <li key={i} className="plan-editor__row">
+                      <label className="plan-editor__number">
+                        Red-flag score above
+                        <input
+                          type="number"
+                          className="plan-editor__input"
+                          min={0}
+                          max={10}
+                          value={p.above}
+                          onChange={(e) =>
+                            setForm((f) => ({
+                              ...f,
+                              redFlagPenalties: f.redFlagPenalties.map((r, j) => (j === i ? { ...r, above: Number(e.target.value) } : r)),
+                            }))
+                          }
+                        />
+                      </label>
+                      <label className="plan-editor__number">
+                        subtract
+                        <input
+                          type="number"
+                          className="plan-editor__input"
+                          min={0}
+                          max={10}
+                          step={0.5}
+                          value={p.penalty}
+                          onChange={(e) =>
+                            setForm((f) => ({
+                              ...f,
+                              redFlagPenalties: f.redFlagPenalties.map((r, j) => (j === i ? { ...r, penalty: Number(e.target.value) } : r)),
+                            }))
+                          }
+                        />
+                      </label>
+                      <span className="plan-editor__actions">
+                        <button
+                          type="button"
+                          className="btn btn--secondary btn--sm"
+                          onClick={() => setForm((f) => ({ ...f, redFlagPenalties: f.redFlagPenalties.filter((_, j) => j !== i) }))}
+                        >
+                          Remove
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+                <div className="plan-editor__footer">
+                  <button
+                    type="button"
+                    className="btn btn--secondary btn--sm"
+                    onClick={() => setForm((f) => ({ ...f, redFlagPenalties: [...f.redFlagPenalties, { above: 0, penalty: 0.5 }] }))}
+                  >
+                    + Add penalty
+                  </button>
+                  <span className="pg-muted">Only the rule with the highest threshold below the score applies.</span>
+                </div>
+              </fieldset>
+
+              <div className="admin-template-modal__actions">
+                <button type="button" className="btn btn--secondary" onClick={close}>
+                  Cancel
+                </button>
+                <button type="submit" className="btn btn--primary" disabled={saving}>
+                  {saving ? "Saving…" : editing === "new" ? "Create scoring profile" : "Save new version"}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,9 +14,15 @@ import {
   useDeleteTemplateMutation,
   type Template,
 } from "../store/endpoints/templates";
+import { useListQuestionBanksQuery } from "../store/endpoints/questionBanks";
+import { useListScoringProfilesQuery } from "../store/endpoints/scoringProfiles";
+import { scoringProfileLabel } from "../lib/scoring-profile";
 import { useToast } from "./Toast";
 import { BoltIcon } from "./AppLogo";
+import { InterviewPlanEditor } from "./InterviewPlanEditor";
 import { logErrorToServer } from "../lib/logError";
+import { normalizeInterviewPlan } from "../lib/interviewPlan";
+import type { InterviewPlan } from "../types/gemini";
 
 const LIMIT = 20;
 
@@ -26,8 +32,17 @@ const emptyAddForm = {
   customerWants: "",
   candidateOffers: "",
   isPublic: false,
+  plan: null as InterviewPlan | null,
+  questionBankId: null as string | null,
+  scoringProfileId: null as string | null,
 };
 
+/** Custom plan as stored (null = default); undefined when it has no usable phase */
+function planForSave(plan: InterviewPlan | null | undefined): InterviewPlan | null | undefined {
+  if (!plan) return null;
+  return normalizeInterviewPlan(plan) ?? undefined;
+}
+
 export function AdminTemplatesPage() {
   const navigate = useNavigate();
   const toast = useToast();
@@ -36,7 +51,7 @@ export function AdminTemplatesPage() {
   const [page, setPage] = useState(1);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [editModal, setEditModal] = useState<Template | null>(null);
-  const [editForm, setEditForm] = useState<Partial<Pick<Template, "name" | "aiBehavior" | "customerWants" | "candidateOffers" | "isPublic">>>({});
+  const [editForm, setEditForm] = useState<Partial<Pick<Template, "name" | "aiBehavior" | "customerWants" | "candidateOffers" | "isPublic" | "plan" | "questionBankId" | "scoringProfileId">>>({});
   const [addModalOpen, setAddModalOpen] = useState(false);
   const [addForm, setAddForm] = useState(emptyAddForm);
 
@@ -44,6 +59,10 @@ export function AdminTemplatesPage() {
   const [createTemplate, { isLoading: creating }] = useCreateTemplateMutation();
   const [updateTemplate, { isLoading: updating }] = useUpdateTemplateMutation();
   const [deleteTemplate, { isLoading: deleting }] = useDeleteTemplateMutation();
+  const { data: banksData } = useListQuestionBanksQuery({ limit: 100 });
+  const questionBanks = banksData?.data ?? [];
+  const { data: scoringProfiles = [] } = useListScoringProfilesQuery();
+  const orgDefaultProfile = scoringProfiles.find((p) => p.isOrgDefault);
 
   const canAddTemplate = currentUser.role === "ADMIN" || currentUser.role === "HIRING_MANAGER" || currentUser.role === "COLLEGE";
 
@@ -61,6 +80,9 @@ export function AdminTemplatesPage() {
       customerWants: t.customerWants,
       candidateOffers: t.candidateOffers,
       isPublic: t.isPublic,
+      plan: t.plan ?? null,
+      questionBankId: t.questionBankId ?? null,
+      scoringProfileId: t.scoringProfileId ?? null,
     });
   }, []);
 
@@ -85,6 +107,11 @@ export function AdminTemplatesPage() {
       toast.error("Name, AI behavior, customer wants, and candidate offers are required.");
       return;
     }
+    const plan = planForSave(addForm.plan);
+    if (plan === undefined) {
+      toast.error("The interview plan needs at least one phase before the close.");
+      return;
+    }
     try {
       await createTemplate({
         name: name.trim(),
@@ -92,6 +119,9 @@ export function AdminTemplatesPage() {
         customerWants: customerWants.trim(),
         candidateOffers: candidateOffers.trim(),
         isPublic: isPublic ?? false,
+        plan,
+        questionBankId: addForm.questionBankId,
+        scoringProfileId: addForm.scoringProfileId,
       }).unwrap();
       toast.success("Template created");
       closeAddModal();
@@ -111,11 +141,18 @@ export function AdminTemplatesPage() {
       customerWants: editForm.customerWants ?? editModal.customerWants,
       candidateOffers: editForm.candidateOffers ?? editModal.candidateOffers,
       isPublic: editForm.isPublic ?? editModal.isPublic,
+      plan: planForSave(editForm.plan === undefined ? editModal.plan : editForm.plan),
+      questionBankId: editForm.questionBankId === undefined ? (editModal.questionBankId ?? null) : editForm.questionBankId,
+      scoringProfileId: editForm.scoringProfileId === undefined ? (editModal.scoringProfileId ?? null) : editForm.scoringProfileId,
     };
     if (!payload.name?.trim() || !payload.aiBehavior?.trim() || !payload.customerWants?.trim() || !payload.candidateOffers?.trim()) {
       toast.error("Name, AI behavior, customer wants, and candidate offers are required.");
       return;
     }
+    if (payload.plan === undefined) {
+      toast.error("The interview plan needs at least one phase before the close.");
+      return;
+    }
     try {
       await updateTemplate({ id: editModal.id, data: payload }).unwrap();
       toast.success("Template updated");
@@ -248,6 +285,7 @@ export function AdminTemplatesPage() {
                       <th>Creator</th>
                       <th>Custom</th>
                       <th>Public</th>
+                      <th>Question bank</th>
                       <th>Updated</th>
                       <th>Actions</th>
                     </tr>
@@ -273,6 +311,7 @@ export function AdminTemplatesPage() {
                         <td>{t.creator?.name ?? "—"}</td>
                         <td>{t.isCustom ? "Yes" : "—"}</td>
                         <td>{t.isPublic ? "Yes" : "No"}</td>
+                        <td>{t.questionBank?.name ?? "—"}</td>
                         <td>{t.createdAt ? new Date(t.createdAt).toLocaleDateString() : "—"}</td>
                         <td>
                           <span style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
@@ -298,7 +337,7 @@ export function AdminTemplatesPage() {
                       </tr>
                     ); })}
                     {templates.length === 0 && (
-                      <tr><td colSpan={7} style={{ textAlign: "center", padding: "2rem" }}>No templates found.</td></tr>
+                      <tr><td colSpan={8} style={{ textAlign: "center", padding: "2rem" }}>No templates found.</td></tr>
                     )}
                   </tbody>
                 </table>
@@ -386,6 +425,39 @@ export function AdminTemplatesPage() {
                 />
                 <span>Public (visible to all candidates)</span>
               </label>
+              <label className="admin-template-modal__label">
+                Question bank
+                <select
+                  className="auth-input"
+                  value={editForm.questionBankId ?? ""}
+                  onChange={(e) => setEditForm((f) => ({ ...f, questionBankId: e.target.value || null }))}
+                >
+                  <option value="">None (interviewer writes its own questions)</option>
+                  {questionBanks.map((b) => (
+                    <option key={b.id} value={b.id}>
+                      {b.name} ({b.questions.length})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="admin-template-modal__label">
+                Scoring profile
+                <select
+                  className="auth-input"
+                  value={editForm.scoringProfileId ?? ""}
+                  onChange={(e) => setEditForm((f) => ({ ...f, scoringProfileId: e.target.value || null }))}
+                >
+                  <option value="">
+                    Organization default ({orgDefaultProfile ? scoringProfileLabel(orgDefaultProfile) : "Standard"})
+                  </option>
+                  {scoringProfiles.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {scoringProfileLabel(p)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <InterviewPlanEditor value={editForm.plan ?? null} onChange={(plan) => setEditForm((f) => ({ ...f, plan }))} />
             </div>
             <div className="admin-template-modal__actions">
               <button type="button" className="btn btn--secondary" onClick={closeEdit}>
@@ -476,6 +548,39 @@ export function AdminTemplatesPage() {
                 />
                 <span>Public (visible to all candidates)</span>
               </label>
+              <label className="admin-template-modal__label">
+                Question bank
+                <select
+                  className="auth-input"
+                  value={addForm.questionBankId ?? ""}
+                  onChange={(e) => setAddForm((f) => ({ ...f, questionBankId: e.target.value || null }))}
+                >
+                  <option value="">None (interviewer writes its own questions)</option>
+                  {questionBanks.map((b) => (
+                    <option key={b.id} value={b.id}>
+                      {b.name} ({b.questions.length})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="admin-template-modal__label">
+                Scoring profile
+                <select
+                  className="auth-input"
+                  value={addForm.scoringProfileId ?? ""}
+                  onChange={(e) => setAddForm((f) => ({ ...f, scoringProfileId: e.target.value || null }))}
+                >
+                  <option value="">
+                    Organization default ({orgDefaultProfile ? scoringProfileLabel(orgDefaultProfile) : "Standard"})
+                  </option>
+                  {scoringProfiles.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {scoringProfileLabel(p)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <InterviewPlanEditor value={addForm.plan} onChange={(plan) => setAddForm((f) => ({ ...f, plan }))} />
               <div className="admin-template-modal__actions">
                 <button type="button" className="btn btn--secondary" onClick={closeAddModal}>
                   Cancel
@@ -5,10 +5,19 @@
 import { useParams, useNavigate } from "react-router-dom";
 import { useGetAptitudeQuery } from "../store/endpoints/aptitude";
 import type { AptitudeResult } from "../lib/aptitude";
+import type { ProctoringFlag } from "../proctoring/types";
+import { FlagAppealPanel } from "./FlagAppealPanel";
+import { FlagReviewPlayer } from "./FlagReviewPlayer";
+import { IntegritySummaryPanel } from "./IntegritySummaryPanel";
+import { SystemCheckSummary } from "./SystemCheckSummary";
+import { hasProctoringData } from "../proctoring/integritySummary";
+import { useAppSelector } from "../store/hooks";
+import { selectUserRole } from "../store/authSlice";
 
 export function AptitudeReportView() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const userRole = useAppSelector(selectUserRole);
   const { data, isLoading, isError, error } = useGetAptitudeQuery(id!, { skip: !id });
   const result: AptitudeResult | null = data?.quiz
     ? ({
@@ -63,6 +72,14 @@ export function AptitudeReportView() {
     );
   }
 
+  const proctoringFlags = (data as { proctoringFlags?: ProctoringFlag[] }).proctoringFlags ?? [];
+  const proctoringSource = {
+    flags: proctoringFlags,
+    riskScore: (data as { riskScore?: number | null }).riskScore,
+    proctoringLog: (data as { proctoringLog?: unknown }).proctoringLog,
+    riskSeries: (data as { riskSeries?: unknown }).riskSeries,
+  };
+
   return (
     <div className="apt-page">
       <div className="apt-wrapper">
@@ -82,6 +99,38 @@ export function AptitudeReportView() {
           <p className="apt-result-topic">{result.quiz.title}</p>
         </div>
 
+        {/* Proctoring: integrity summary, flags + appeals */}
+        {hasProctoringData(proctoringSource) && (
+          <>
+            <h3 className="apt-section-title">Proctoring</h3>
+            <IntegritySummaryPanel source={proctoringSource} />
+          </>
+        )}
+        {id && proctoringFlags.length > 0 && (
+          <>
+            <FlagAppealPanel
+              sessionType="APTITUDE"
+              sessionId={id}
+              flags={proctoringFlags}
+              riskScore={(data as { riskScore?: number }).riskScore ?? 0}
+              proctoringLog={(data as { proctoringLog?: unknown }).proctoringLog}
+            />
+            {userRole && userRole !== "CANDIDATE" && (
+              <FlagReviewPlayer
+                sessionType="APTITUDE"
+                sessionId={id}
+                flags={proctoringFlags}
+                videoUrl={data?.recordingUrl}
+                videoOffsetMs={data?.recordingOffsetMs ?? 0}
+                downloadName="aptitude-recording.webm"
+              />
+            )}
+          </>
+        )}
+        {userRole && userRole !== "CANDIDATE" && (
+          <SystemCheckSummary systemCheck={(data as { systemCheck?: unknown }).systemCheck} />
+        )}
+
         {/* Question breakdown */}
         <h3 className="apt-section-title">Question Breakdown</h3>
         <div className="apt-breakdown">
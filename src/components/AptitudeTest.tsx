@@ -2,13 +2,14 @@
  * AptitudeTest — Full aptitude test flow in a single component.
  *
  * Phases:
- *  1. Start   — Fixed R.S. Aggarwal, 16 questions (8 Easy + 4 Medium + 4 Hard); user clicks Start test
+ *  1. Start   — System check (SystemCheckWizard), then fixed R.S. Aggarwal, 16 questions
+ *               (8 Easy + 4 Medium + 4 Hard); user clicks Start test
  *  2. Loading — Generating questions via single API call
  *  3. Quiz    — User answers MCQs (with proctoring: webcam, tab/window/fullscreen)
  *  4. Results — Client-side scored results with explanations
  */
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import {
   generateQuiz,
@@ -22,9 +23,21 @@ import { useAppSelector } from "../store/hooks";
 import { selectSelectedTemplateNameForFullFlow } from "../store/interviewSlice";
 import { BoltIcon } from "./AppLogo";
 import { logErrorToServer } from "../lib/logError";
-import { saveFullFlowAptitude } from "../lib/fullFlowStorage";
+import {
+  saveFullFlowAptitude,
+  getFullFlowFaceReference,
+  saveFullFlowFaceReference,
+  getFullFlowSystemCheck,
+  saveFullFlowSystemCheck,
+} from "../lib/fullFlowStorage";
 import { useProctoring } from "../proctoring/useProctoring";
-import { MalpracticeOverlay, type MalpracticeKind } from "./MalpracticeOverlay";
+import { useProctoringPolicy } from "../proctoring/useProctoringPolicy";
+import { PROCTORING_MIC_CONSTRAINTS } from "../proctoring/audioAnalyzer";
+import { MalpracticeOverlay, isMalpracticeKind, type MalpracticeKind } from "./MalpracticeOverlay";
+import { SystemCheckWizard } from "./SystemCheckWizard";
+import { systemCheckCovers } from "../proctoring/systemCheck";
+import type { SystemCheckRequirements, SystemCheckResult } from "../proctoring/types";
+import type { FaceReference } from "../proctoring/faceIdentity";
 
 type Phase = "start" | "loading" | "quiz" | "results" | "redirecting";
 
@@ -67,13 +80,55 @@ export function AptitudeTest() {
   const [webcamStream, setWebcamStream] = useState<MediaStream | null>(null);
   const [pendingMalpractice, setPendingMalpractice] = useState<MalpracticeKind | null>(null);
   const quizStartTsRef = useRef(0);
-  const recordingRef = useRef<{ recorder: MediaRecorder | null; chunks: Blob[] }>({ recorder: null, chunks: [] });
+  const recordingRef = useRef<{ recorder: MediaRecorder | null; chunks: Blob[]; startedAt: number }>({
+    recorder: null,
+    chunks: [],
+    startedAt: 0,
+  });
+  const { config: proctoringConfig, isLoading: policyLoading } = useProctoringPolicy();
+  const { malpracticeFlagTypes } = proctoringConfig;
+  const [carriedFaceReference] = useState(() => (fromFullFlow ? getFullFlowFaceReference() : null));
+  const [enrolledFaceReference, setEnrolledFaceReference] = useState<FaceReference | null>(null);
   const proctoring = useProctoring({
-    enabled: phase === "quiz" && !!webcamStream,
+    enabled: phase === "quiz" && !!webcamStream && proctoringConfig.enabled && !policyLoading,
     videoRef,
     interviewStartTs: quizStartTsRef.current,
-    fps: 3,
+    fps: proctoringConfig.fps,
+    workerFps: proctoringConfig.workerFps,
+    inferenceMode: proctoringConfig.inferenceMode,
+    numFaces: proctoringConfig.numFaces,
+    enableHand: proctoringConfig.enableHand,
+    enableObjectDetection: proctoringConfig.enableObjectDetection,
+    // Silent round: any speech or whispering on the mic is flagged
+    enableAudio: proctoringConfig.enableAudioProctoring,
+    audioStream: webcamStream,
+    silenceExpected: true,
+    // Full flow: one enrolled face across aptitude → interview → coding
+    faceReference: carriedFaceReference ?? enrolledFaceReference,
+    policy: proctoringConfig.policy,
   });
+
+  // Pre-session system check (full flow: an earlier round's check is reused when it covers this one)
+  const [systemCheck, setSystemCheck] = useState<SystemCheckResult | null>(() => (fromFullFlow ? getFullFlowSystemCheck() : null));
+  const systemCheckRequirements = useMemo<SystemCheckRequirements>(
+    () => ({
+      camera: proctoringConfig.enabled ? "required" : "optional",
+      microphone: proctoringConfig.enableAudioProctoring ? "optional" : "off",
+      speaker: "off",
+      fullscreen: "required",
+    }),
+    [proctoringConfig.enabled, proctoringConfig.enableAudioProctoring],
+  );
+  const systemCheckDone = !!systemCheck && systemCheckCovers(systemCheck, systemCheckRequirements);
+  const handleSystemCheckComplete = (result: SystemCheckResult, faceReference: FaceReference | null) => {
+    setSystemCheck(result);
+    if (fromFullFlow) saveFullFlowSystemCheck(result);
+    if (faceReference) {
+      setEnrolledFaceReference(faceReference);
+      if (fromFullFlow) saveFullFlowFaceReference(faceReference);
+    }
+  };
+
   const requestFullscreen = useCallback(async () => {
     try {
       const el = document.documentElement;
@@ -112,6 +167,7 @@ export function AptitudeTest() {
         difficulty: "Mixed",
         quiz: q,
         total: q.questions.length,
+        systemCheck: systemCheck ?? undefined,
       }).unwrap();
       setAptitudeId(created.id);
 
@@ -155,6 +211,8 @@ export function AptitudeTest() {
   // ---- Submit & evaluate (client-side) ----
   const handleSubmit = async () => {
     if (!quiz) return;
+    // Recording start relative to the proctoring start (flag timestamps)
+    const videoOffsetMs = recordingRef.current.startedAt - quizStartTsRef.current;
     const videoUrl = fromFullFlow ? await getRecordedVideoUrl() : null;
     proctoring.stop();
     webcamStream?.getTracks().forEach((t) => t.stop());
@@ -177,9 +235,11 @@ export function AptitudeTest() {
         aptitudeId: aptitudeId ?? undefined,
         proctoringFlags: proctoring.flags.length ? proctoring.flags : undefined,
         riskScore: proctoring.riskScore > 0 ? proctoring.riskScore : undefined,
+        riskSeries: proctoring.getRiskSeries() ?? undefined,
         quiz: res.quiz,
         answers: res.answers,
         videoUrl: videoUrl ?? undefined,
+        videoOffsetMs: videoUrl ? videoOffsetMs : undefined,
       });
       setPhase("redirecting");
       if (aptitudeId) {
@@ -196,6 +256,9 @@ export function AptitudeTest() {
               timeSpent: timeSpentSec,
               proctoringFlags: proctoring.flags.length ? proctoring.flags : undefined,
               riskScore: proctoring.riskScore > 0 ? proctoring.riskScore : undefined,
+              proctoringLog: proctoring.getSessionLog() ?? undefined,
+              riskSeries: proctoring.getRiskSeries() ?? undefined,
+              recordingOffsetMs: videoUrl ? videoOffsetMs : undefined,
             },
           }).unwrap();
         } catch (err) {
@@ -232,6 +295,9 @@ export function AptitudeTest() {
             timeSpent: timeSpentSec,
             proctoringFlags: proctoring.flags.length ? proctoring.flags : undefined,
             riskScore: proctoring.riskScore > 0 ? proctoring.riskScore : undefined,
+            proctoringLog: proctoring.getSessionLog() ?? undefined,
+            riskSeries: proctoring.getRiskSeries() ?? undefined,
+            recordingOffsetMs: videoUrl ? videoOffsetMs : undefined,
           },
         }).unwrap();
       } catch (err) {
@@ -249,6 +315,8 @@ export function AptitudeTest() {
     if (!quiz || autoSubmittedRef.current) return;
     autoSubmittedRef.current = true;
     toast.error("Time's up! Your answers have been auto-submitted.");
+    // Recording start relative to the proctoring start (flag timestamps)
+    const videoOffsetMs = recordingRef.current.startedAt - quizStartTsRef.current;
     const videoUrl = fromFullFlow ? await getRecordedVideoUrl() : null;
     proctoring.stop();
     webcamStream?.getTracks().forEach((t) => t.stop());
@@ -271,9 +339,11 @@ export function AptitudeTest() {
         aptitudeId: aptitudeId ?? undefined,
         proctoringFlags: proctoring.flags.length ? proctoring.flags : undefined,
         riskScore: proctoring.riskScore > 0 ? proctoring.riskScore : undefined,
+        riskSeries: proctoring.getRiskSeries() ?? undefined,
         quiz: res.quiz,
         answers: res.answers,
         videoUrl: videoUrl ?? undefined,
+        videoOffsetMs: videoUrl ? videoOffsetMs : undefined,
       });
       setPhase("redirecting");
       if (aptitudeId) {
@@ -289,6 +359,9 @@ export function AptitudeTest() {
             timeSpent: timeSpentSec,
             proctoringFlags: proctoring.flags.length ? proctoring.flags : undefined,
             riskScore: proctoring.riskScore > 0 ? proctoring.riskScore : undefined,
+            proctoringLog: proctoring.getSessionLog() ?? undefined,
+            riskSeries: proctoring.getRiskSeries() ?? undefined,
+            recordingOffsetMs: videoUrl ? videoOffsetMs : undefined,
           },
         }).catch(() => {}).finally(() => {
           navigate("/interview/new", { state: { fromFullFlow: true } });
@@ -313,18 +386,33 @@ export function AptitudeTest() {
           timeSpent: timeSpentSec,
           proctoringFlags: proctoring.flags.length ? proctoring.flags : undefined,
           riskScore: proctoring.riskScore > 0 ? proctoring.riskScore : undefined,
+          proctoringLog: proctoring.getSessionLog() ?? undefined,
+          riskSeries: proctoring.getRiskSeries() ?? undefined,
+          recordingOffsetMs: videoUrl ? videoOffsetMs : undefined,
         },
       }).catch(() => {});
     }
   }, [quiz, answers, aptitudeId, toast, updateAptitude, proctoring, webcamStream, fromFullFlow, navigate, getRecordedVideoUrl]);
 
-  // Request webcam when entering quiz phase (for proctoring)
+  // Request webcam (+ mic for audio proctoring) when entering quiz phase.
+  // A denied mic falls back to camera only rather than blocking the quiz.
+  // Waits for the policy so enableAudioProctoring is the session's value, not the default.
+  const withMic = proctoringConfig.enableAudioProctoring;
   useEffect(() => {
-    if (phase !== "quiz") return;
+    if (phase !== "quiz" || policyLoading) return;
     let stream: MediaStream | null = null;
+    let cancelled = false;
     navigator.mediaDevices
-      .getUserMedia({ video: true, audio: false })
+      .getUserMedia({ video: true, audio: withMic ? PROCTORING_MIC_CONSTRAINTS : false })
+      .catch((err) => {
+        if (!withMic) throw err;
+        return navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+      })
       .then((s) => {
+        if (cancelled) {
+          s.getTracks().forEach((t) => t.stop());
+          return;
+        }
         stream = s;
         setWebcamStream(s);
       })
@@ -332,12 +420,13 @@ export function AptitudeTest() {
         setWebcamStream(null);
       });
     return () => {
+      cancelled = true;
       if (stream) {
         stream.getTracks().forEach((t) => t.stop());
       }
       setWebcamStream(null);
     };
-  }, [phase]);
+  }, [phase, policyLoading, withMic]);
 
   // Attach webcam stream to video element for proctoring
   useEffect(() => {
@@ -366,28 +455,34 @@ export function AptitudeTest() {
     const mimeType = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find((mt) =>
       MediaRecorder.isTypeSupported(mt),
     ) || "video/webm";
-    const recorder = new MediaRecorder(webcamStream, { videoBitsPerSecond: 2_500_000, mimeType });
+    const recorder = new MediaRecorder(new MediaStream(webcamStream.getVideoTracks()), {
+      videoBitsPerSecond: 2_500_000,
+      mimeType,
+    });
     recorder.ondataavailable = (e) => {
       if (e.data.size > 0) chunks.push(e.data);
     };
     recorder.start(1000);
-    recordingRef.current = { recorder, chunks };
+    recordingRef.current = { recorder, chunks, startedAt: Date.now() };
     return () => {
       if (recorder.state === "recording") recorder.stop();
-      recordingRef.current = { recorder: null, chunks: [] };
+      recordingRef.current = { recorder: null, chunks: [], startedAt: 0 };
     };
   }, [phase, webcamStream, fromFullFlow]);
 
   // Malpractice listeners: tab switch, window switch, fullscreen exit (quiz phase)
   useEffect(() => {
     if (phase !== "quiz") return;
+    const raiseMalpractice = (kind: MalpracticeKind) => {
+      if (isMalpracticeKind(kind, malpracticeFlagTypes)) setPendingMalpractice(kind);
+    };
     const tabWasHiddenRef = { current: false };
     const windowHadBlurRef = { current: false };
     const onVisibilityChange = () => {
       if (document.hidden) tabWasHiddenRef.current = true;
       else if (tabWasHiddenRef.current) {
         tabWasHiddenRef.current = false;
-        setPendingMalpractice("tab_switch");
+        raiseMalpractice("tab_switch");
       }
     };
     const onBlur = () => {
@@ -396,12 +491,12 @@ export function AptitudeTest() {
     const onFocus = () => {
       if (windowHadBlurRef.current) {
         windowHadBlurRef.current = false;
-        setPendingMalpractice("window_switch");
+        raiseMalpractice("window_switch");
       }
     };
     const onFullscreenChange = () => {
       if (!document.fullscreenElement) {
-        setPendingMalpractice("fullscreen_exit");
+        raiseMalpractice("fullscreen_exit");
       } else {
         setPendingMalpractice((prev) => (prev === "fullscreen_exit" ? null : prev));
       }
@@ -416,7 +511,7 @@ export function AptitudeTest() {
       window.removeEventListener("focus", onFocus);
       document.removeEventListener("fullscreenchange", onFullscreenChange);
     };
-  }, [phase]);
+  }, [phase, malpracticeFlagTypes]);
 
   // Timer countdown during quiz phase
   useEffect(() => {
@@ -479,18 +574,27 @@ export function AptitudeTest() {
               R.S. Aggarwal Quantitative Aptitude · 16 questions (8 Easy, 4 Medium, 4 Hard) · 20 minutes · Proctored
             </p>
           </div>
-          <div className="apt-setup apt-setup--fixed">
-            <div className="apt-timer-info">
-              <ClockIcon /> You will have <strong>20 minutes</strong> to complete the quiz. This session is proctored (camera + tab/window monitoring). Auto-submits when time runs out.
+          {policyLoading ? null : !systemCheckDone ? (
+            <SystemCheckWizard
+              requirements={systemCheckRequirements}
+              thresholds={proctoringConfig.thresholds}
+              enrollFace={proctoringConfig.enabled && !carriedFaceReference}
+              onComplete={handleSystemCheckComplete}
+            />
+          ) : (
+            <div className="apt-setup apt-setup--fixed">
+              <div className="apt-timer-info">
+                <ClockIcon /> You will have <strong>20 minutes</strong> to complete the quiz. This session is proctored (camera + tab/window monitoring). Auto-submits when time runs out.
+              </div>
+              {error && <div className="apt-error">{error}</div>}
+              <button
+                className="btn btn--primary apt-generate"
+                onClick={() => void handleGenerate()}
+              >
+                Start test
+              </button>
             </div>
-            {error && <div className="apt-error">{error}</div>}
-            <button
-              className="btn btn--primary apt-generate"
-              onClick={() => void handleGenerate()}
-            >
-              Start test
-            </button>
-          </div>
+          )}
         </div>
       </div>
     );
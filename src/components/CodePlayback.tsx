@@ -0,0 +1,189 @@
+/**
+ * CodePlayback — Reviewer replay of how a coding submission was written.
+ *
+ * Rebuilds the editor from the edit log at any moment (EditPlayback) with
+ * play / pause, scrubbing and speed controls. The track shows markers for
+ * code runs, test-case results, paste / typing-burst events and proctoring
+ * flags; all timestamps are ms since the session start, so clicking a
+ * marker seeks straight to it. A log cut off at MAX_EDIT_LOG_ENTRIES gets a
+ * truncation marker, and the editor is labelled incomplete past it.
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Editor from "@monaco-editor/react";
+import { EditPlayback } from "../proctoring/editForensics";
+import type { EditEventKind, EditLog, ProctoringFlag } from "../proctoring/types";
+import { flagIcon, formatTs } from "./FlagsTimeline";
+
+interface Props {
+  log: EditLog;
+  flags?: ProctoringFlag[];
+  /** Monaco language id */
+  language: string;
+}
+
+type MarkerKind = "run" | "test-pass" | "test-fail" | "paste" | "flag" | "truncated";
+
+interface Marker {
+  t: number;
+  kind: MarkerKind;
+  icon: string;
+  label: string;
+}
+
+const SPEEDS = [1, 2, 4, 8, 16, 32] as const;
+
+/** Paste attempts and internal pastes are in the summary; only the suspicious events get markers */
+const EVENT_LABELS: Partial<Record<EditEventKind, string>> = {
+  external: "External paste",
+  large: "Large insertion",
+  burst: "Typing burst",
+};
+
+export function CodePlayback({ log, flags = [], language }: Props) {
+  const playback = useMemo(() => new EditPlayback(log), [log]);
+  const [t, setT] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<number>(8);
+  const tRef = useRef(0);
+  tRef.current = t;
+
+  const markers = useMemo(() => {
+    const out: Marker[] = [];
+    for (const run of log.runs ?? []) {
+      if (run[1] === "run") {
+        out.push({ t: run[0], kind: "run", icon: "▶", label: `Run (exit ${run[2]})` });
+      } else {
+        const [, , passed, total] = run;
+        out.push({
+          t: run[0],
+          kind: passed === total ? "test-pass" : "test-fail",
+          icon: passed === total ? "✓" : "✗",
+          label: `Tests ${passed}/${total} passed`,
+        });
+      }
+    }
+    for (const [time, kind, chars] of log.events) {
+      const label = EVENT_LABELS[kind];
+      if (label) out.push({ t: time, kind: "paste", icon: "📋", label: `${label} (${chars} chars)` });
+    }
+    for (const f of flags) {
+      out.push({ t: f.timestamp, kind: "flag", icon: flagIcon(f.type), label: f.message });
+    }
+    if (log.truncated) {
+      out.push({
+        t: log.truncated.at,
+        kind: "truncated",
+        icon: "✂",
+        label: `Edit log truncated (${log.truncated.dropped} later changes not recorded)`,
+      });
+    }
+    return out.sort((a, b) => a.t - b.t);
+  }, [log, flags]);
+
+  const duration = Math.max(playback.duration, markers[markers.length - 1]?.t ?? 0, 1);
+  const text = useMemo(() => playback.textAt(t), [playback, t]);
+
+  // Advance the playhead while playing
+  useEffect(() => {
+    if (!playing) return;
+    let raf = 0;
+    let last = performance.now();
+    const step = (now: number) => {
+      const next = Math.min(duration, tRef.current + (now - last) * speed);
+      last = now;
+      setT(next);
+      if (next >= duration) {
+        setPlaying(false);
+        return;
+      }
+      raf = requestAnimationFrame(step);
+    };
+    raf = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(raf);
+  }, [playing, speed, duration]);
+
+  const togglePlay = () => {
+    if (!playing && t >= duration) setT(0);
+    setPlaying((p) => !p);
+  };
+
+  return (
+    <div className="code-playback">
+      <div className="code-playback__controls">
+        <button type="button" className="btn btn--sm btn--primary" onClick={togglePlay}>
+          {playing ? "Pause" : "Play"}
+        </button>
+        <span className="code-playback__time">
+          {formatTs(t)} / {formatTs(duration)}
+        </span>
+        <label className="code-playback__speed">
+          Speed
+          <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))}>
+            {SPEEDS.map((s) => (
+              <option key={s} value={s}>
+                {s}×
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="code-playback__track">
+        {markers.map((m, i) => (
+          <button
+            key={i}
+            type="button"
+            className={`code-playback__marker code-playback__marker--${m.kind}`}
+            style={{ left: `${(m.t / duration) * 100}%` }}
+            title={`${formatTs(m.t)} · ${m.label}`}
+            onClick={() => {
+              setPlaying(false);
+              setT(m.t);
+            }}
+          >
+            {m.icon}
+          </button>
+        ))}
+        <input
+          type="range"
+          className="code-playback__scrub"
+          min={0}
+          max={duration}
+          step={100}
+          value={t}
+          onChange={(e) => {
+            setPlaying(false);
+            setT(Number(e.target.value));
+          }}
+          aria-label="Playback position"
+        />
+      </div>
+
+      {log.truncated && t >= log.truncated.at && (
+        <p className="code-playback__truncated" role="note">
+          The edit log was truncated at {formatTs(log.truncated.at)}: {log.truncated.dropped} later changes were not
+          recorded, so the code shown from here on is incomplete.
+        </p>
+      )}
+
+      <div className="code-playback__editor">
+        <Editor
+          height="360px"
+          language={language}
+          theme="vs-dark"
+          value={text}
+          options={{
+            readOnly: true,
+            fontSize: 13,
+            fontFamily: "'JetBrains Mono', 'Fira Code', monospace",
+            minimap: { enabled: false },
+            scrollBeyondLastLine: false,
+            wordWrap: "on",
+            padding: { top: 12, bottom: 12 },
+          }}
+        />
+      </div>
+    </div>
+  );
+}
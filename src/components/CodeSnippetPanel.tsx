@@ -0,0 +1,55 @@
+/**
+ * CodeSnippetPanel — Editor the interviewer opens (request_code_snippet) when
+ * an answer needs code. Submitting sends the code to the interviewer and adds
+ * it to the transcript; "Skip" tells the interviewer nothing was written.
+ */
+
+import { useState } from "react";
+import type { CodeSnippetRequest } from "../lib/interview-tools";
+
+interface Props {
+  request: CodeSnippetRequest;
+  onSubmit: (code: string | null) => void;
+}
+
+const MAX_CODE_CHARS = 5000;
+
+export function CodeSnippetPanel({ request, onSubmit }: Props) {
+  const [code, setCode] = useState("");
+
+  return (
+    <section className="code-snippet-panel" role="dialog" aria-labelledby="code-snippet-title">
+      <h3 id="code-snippet-title" className="code-snippet-panel__title">
+        Write your code{request.language ? ` (${request.language})` : ""}
+      </h3>
+      <p className="code-snippet-panel__prompt">{request.prompt}</p>
+      <textarea
+        className="code-snippet-panel__editor"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        onKeyDown={(e) => {
+          // Tab indents instead of leaving the editor
+          if (e.key !== "Tab") return;
+          e.preventDefault();
+          const el = e.currentTarget;
+          const { selectionStart, selectionEnd } = el;
+          setCode((c) => c.slice(0, selectionStart) + "  " + c.slice(selectionEnd));
+          requestAnimationFrame(() => el.setSelectionRange(selectionStart + 2, selectionStart + 2));
+        }}
+        maxLength={MAX_CODE_CHARS}
+        rows={10}
+        spellCheck={false}
+        autoFocus
+        aria-label="Code"
+      />
+      <div className="code-snippet-panel__actions">
+        <button type="button" className="btn btn--secondary btn--sm" onClick={() => onSubmit(null)}>
+          Skip
+        </button>
+        <button type="button" className="btn btn--primary btn--sm" disabled={!code.trim()} onClick={() => onSubmit(code)}>
+          Send to interviewer
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -31,6 +31,10 @@ interface CodeTerminalProps {
   testCases?: { input: string; expectedOutput: string }[];
   /** If true, shows a loading message while Pyodide loads */
   className?: string;
+  /** Called after each Run (proctoring edit log markers) */
+  onRun?: (result: ExecutionResult) => void;
+  /** Called with the results of each Run Tests */
+  onTestResults?: (results: TestCaseResult[]) => void;
 }
 
 type TermTab = "console" | "testcases";
@@ -45,7 +49,14 @@ interface ConsoleEntry {
 // Component
 // ---------------------------------------------------------------------------
 
-export function CodeTerminal({ code, language, testCases = [], className = "" }: CodeTerminalProps) {
+export function CodeTerminal({
+  code,
+  language,
+  testCases = [],
+  className = "",
+  onRun,
+  onTestResults,
+}: CodeTerminalProps) {
   const [activeTab, setActiveTab] = useState<TermTab>("console");
   const [entries, setEntries] = useState<ConsoleEntry[]>([]);
   const [testResults, setTestResults] = useState<TestCaseResult[]>([]);
@@ -91,7 +102,8 @@ export function CodeTerminal({ code, language, testCases = [], className = "" }:
     );
 
     setIsRunning(false);
-  }, [code, language, stdin, isRunning, addEntry]);
+    onRun?.(result);
+  }, [code, language, stdin, isRunning, addEntry, onRun]);
 
   // ---- Run test cases ----
   const handleRunTests = useCallback(async () => {
@@ -104,7 +116,8 @@ export function CodeTerminal({ code, language, testCases = [], className = "" }:
     setTestResults(results);
     setLastDuration(results.reduce((acc, r) => acc + r.duration, 0));
     setIsRunning(false);
-  }, [code, language, testCases, isRunning]);
+    onTestResults?.(results);
+  }, [code, language, testCases, isRunning, onTestResults]);
 
   // ---- Clear ----
   const handleClear = useCallback(() => {
@@ -6,17 +6,29 @@ import { useParams, useNavigate } from "react-router-dom";
 import Editor from "@monaco-editor/react";
 import { useGetCodingQuery } from "../store/endpoints/coding";
 import { LANGUAGE_CONFIG, type CodingDetail } from "../lib/coding-test";
+import type { ProctoringFlag } from "../proctoring/types";
+import { FlagAppealPanel } from "./FlagAppealPanel";
+import { FlagReviewPlayer } from "./FlagReviewPlayer";
+import { ScreenshotGallery } from "./ScreenshotGallery";
+import { SystemCheckSummary } from "./SystemCheckSummary";
+import { IntegritySummaryPanel } from "./IntegritySummaryPanel";
+import { hasProctoringData } from "../proctoring/integritySummary";
+import { CodePlayback } from "./CodePlayback";
+import { isEditLog } from "../proctoring/editForensics";
+import { useAppSelector } from "../store/hooks";
+import { selectUserRole } from "../store/authSlice";
 
 export function CodingReportView() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const userRole = useAppSelector(selectUserRole);
   const { data, isLoading, isError, error } = useGetCodingQuery(id!, { skip: !id });
   const detail: CodingDetail | null =
     data?.problem && data?.evaluation
       ? ({
-          problem: (data as { problem: unknown }).problem as CodingDetail["problem"],
+          problem: data.problem as CodingDetail["problem"],
           userCode: (data as { userCode?: string }).userCode ?? "",
-          evaluation: (data as { evaluation: unknown }).evaluation as CodingDetail["evaluation"],
+          evaluation: data.evaluation as CodingDetail["evaluation"],
           language: ((data as { language?: string }).language ?? "javascript") as CodingDetail["language"],
           difficulty: ((data as { difficulty?: string }).difficulty ?? "Medium") as CodingDetail["difficulty"],
           timeSpent: (data as { timeSpent?: number }).timeSpent ?? 0,
@@ -66,10 +78,20 @@ export function CodingReportView() {
   }
 
   const { problem, userCode, evaluation, language, difficulty, timeSpent } = detail;
-  const proctoringFlags = (data as { proctoringFlags?: Array<{ type?: string }> }).proctoringFlags ?? [];
+  const proctoringFlags = (data as { proctoringFlags?: ProctoringFlag[] }).proctoringFlags ?? [];
   const hasAdvisoryFlags = proctoringFlags.some(
     (f) => f.type === "KEYBOARD_ACTIVITY_SUSPICIOUS" || f.type === "SUSPICIOUS_GAZE_SHIFT",
   );
+  const proctoringSource = {
+    flags: proctoringFlags,
+    riskScore: (data as { riskScore?: number | null }).riskScore,
+    proctoringLog: (data as { proctoringLog?: unknown }).proctoringLog,
+    riskSeries: (data as { riskSeries?: unknown }).riskSeries,
+    durationMs: timeSpent * 1000,
+  };
+  const rawEditLog = (data as { editLog?: unknown }).editLog;
+  const editLog = isEditLog(rawEditLog) ? rawEditLog : null;
+  const editSummary = editLog?.summary ?? null;
   const cats = evaluation.categories;
   const categoryList: { key: string; label: string; data: { score: number; feedback: string } }[] = [
     { key: "correctness", label: "Correctness", data: cats.correctness },
@@ -104,6 +126,36 @@ export function CodingReportView() {
           </div>
         )}
 
+        {/* Proctoring: integrity summary, flags + appeals */}
+        {hasProctoringData(proctoringSource) && <IntegritySummaryPanel source={proctoringSource} />}
+        {id && proctoringFlags.length > 0 && (
+          <>
+            <FlagAppealPanel
+              sessionType="CODING"
+              sessionId={id}
+              flags={proctoringFlags}
+              riskScore={(data as { riskScore?: number }).riskScore ?? 0}
+              proctoringLog={(data as { proctoringLog?: unknown }).proctoringLog}
+            />
+            {userRole && userRole !== "CANDIDATE" && (
+              <FlagReviewPlayer
+                sessionType="CODING"
+                sessionId={id}
+                flags={proctoringFlags}
+                videoUrl={data?.recordingUrl}
+                videoOffsetMs={data?.recordingOffsetMs ?? 0}
+                downloadName="coding-recording.webm"
+              />
+            )}
+          </>
+        )}
+        {userRole && userRole !== "CANDIDATE" && (
+          <>
+            <SystemCheckSummary systemCheck={(data as { systemCheck?: unknown }).systemCheck} />
+            <ScreenshotGallery proctoringLog={(data as { proctoringLog?: unknown }).proctoringLog} />
+          </>
+        )}
+
         {/* Category breakdown */}
         <h3 className="code-section-title">Skill Breakdown</h3>
         <div className="code-categories">
@@ -186,6 +238,27 @@ export function CodingReportView() {
           </div>
         </div>
 
+        {/* Keystroke playback (reviewers) */}
+        {userRole && userRole !== "CANDIDATE" && editLog && editSummary && (
+          <div className="code-optimal">
+            <h3 className="code-section-title">How It Was Written</h3>
+            <div className="flag-review__summary" role="note">
+              <span>{editSummary.typedChars} chars typed</span>
+              <span>{editSummary.pastedChars} chars pasted</span>
+              <span>{editSummary.externalPastes} external pastes</span>
+              <span>{editSummary.pasteAttempts} blocked paste attempts</span>
+              <span>{editSummary.largeInserts} large insertions</span>
+              <span>{editSummary.typingBursts} typing bursts</span>
+              <span>peak {editSummary.peakCharsPerSec} chars/s</span>
+            </div>
+            <CodePlayback
+              log={editLog}
+              flags={proctoringFlags}
+              language={LANGUAGE_CONFIG[language]?.monacoId ?? language}
+            />
+          </div>
+        )}
+
         {/* Optimal solution */}
         <div className="code-optimal">
           <h3 className="code-section-title">Optimal Solution</h3>
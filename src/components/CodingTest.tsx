@@ -2,14 +2,14 @@
  * CodingTest — Full online coding assessment with Monaco Editor.
  *
  * Phases:
- *   1. Setup      — Choose topic, language, difficulty
+ *   1. Setup      — System check (SystemCheckWizard), then choose topic, language, difficulty
  *   2. Loading    — AI generates the coding problem
  *   3. Editor     — Solve the problem (Monaco + problem panel + timer, proctored)
  *   4. Evaluating — AI reviews submitted code
  *   5. Results    — Detailed skill rating with category breakdown
  */
 
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import Editor from "@monaco-editor/react";
 import {
@@ -27,8 +27,23 @@ import { logErrorToServer } from "../lib/logError";
 import { useCreateCodingMutation, useUpdateCodingMutation } from "../store/endpoints/coding";
 import { BoltIcon } from "./AppLogo";
 import { useProctoring } from "../proctoring/useProctoring";
-import { MalpracticeOverlay, type MalpracticeKind } from "./MalpracticeOverlay";
-import { saveFullFlowCoding } from "../lib/fullFlowStorage";
+import { useProctoringPolicy } from "../proctoring/useProctoringPolicy";
+import { PROCTORING_MIC_CONSTRAINTS } from "../proctoring/audioAnalyzer";
+import { requestEntireScreenShare } from "../proctoring/screenShare";
+import { EditForensics } from "../proctoring/editForensics";
+import { MalpracticeOverlay, isMalpracticeKind, type MalpracticeKind } from "./MalpracticeOverlay";
+import { ScreenShareGate } from "./ScreenShareGate";
+import { SystemCheckWizard } from "./SystemCheckWizard";
+import { systemCheckCovers } from "../proctoring/systemCheck";
+import type { SystemCheckRequirements, SystemCheckResult } from "../proctoring/types";
+import type { FaceReference } from "../proctoring/faceIdentity";
+import {
+  saveFullFlowCoding,
+  getFullFlowFaceReference,
+  saveFullFlowFaceReference,
+  getFullFlowSystemCheck,
+  saveFullFlowSystemCheck,
+} from "../lib/fullFlowStorage";
 
 type Phase = "setup" | "loading" | "editor" | "evaluating" | "results";
 
@@ -93,13 +108,65 @@ export function CodingTest() {
   const [webcamStream, setWebcamStream] = useState<MediaStream | null>(null);
   const [pendingMalpractice, setPendingMalpractice] = useState<MalpracticeKind | null>(null);
   const editorStartTsRef = useRef(0);
-  const recordingRef = useRef<{ recorder: MediaRecorder | null; chunks: Blob[] }>({ recorder: null, chunks: [] });
+  const editForensicsRef = useRef<EditForensics | null>(null);
+  const recordingRef = useRef<{ recorder: MediaRecorder | null; chunks: Blob[]; startedAt: number }>({
+    recorder: null,
+    chunks: [],
+    startedAt: 0,
+  });
+  const { config: proctoringConfig, isLoading: policyLoading } = useProctoringPolicy();
+  const { malpracticeFlagTypes } = proctoringConfig;
+  // Policy-gated entire-screen share; the editor stays blocked while it is not live
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const [screenShareStarted, setScreenShareStarted] = useState(false);
+  const [screenShareError, setScreenShareError] = useState<string | null>(null);
+  const [screenShareRequesting, setScreenShareRequesting] = useState(false);
+  const screenShareRequired = proctoringConfig.enabled && proctoringConfig.enableScreenShare && !policyLoading;
+  const [carriedFaceReference] = useState(() => (fromFullFlow ? getFullFlowFaceReference() : null));
+  const [enrolledFaceReference, setEnrolledFaceReference] = useState<FaceReference | null>(null);
   const proctoring = useProctoring({
-    enabled: phase === "editor" && !!webcamStream,
+    enabled: phase === "editor" && !!webcamStream && proctoringConfig.enabled && !policyLoading,
     videoRef,
     interviewStartTs: editorStartTsRef.current,
-    fps: 3,
+    fps: proctoringConfig.fps,
+    // Off-main-thread inference lets this round run above 3 FPS alongside Monaco
+    workerFps: proctoringConfig.workerFps,
+    inferenceMode: proctoringConfig.inferenceMode,
+    numFaces: proctoringConfig.numFaces,
+    enableHand: proctoringConfig.enableHand,
+    enableObjectDetection: proctoringConfig.enableObjectDetection,
+    // Silent round: any speech or whispering on the mic is flagged
+    enableAudio: proctoringConfig.enableAudioProctoring,
+    audioStream: webcamStream,
+    silenceExpected: true,
+    screenStream,
+    detectMultipleDisplays: screenShareRequired,
+    // Full flow: one enrolled face across aptitude → interview → coding
+    faceReference: carriedFaceReference ?? enrolledFaceReference,
+    policy: proctoringConfig.policy,
   });
+
+  // Pre-session system check (full flow: an earlier round's check is reused when it covers this one)
+  const [systemCheck, setSystemCheck] = useState<SystemCheckResult | null>(() => (fromFullFlow ? getFullFlowSystemCheck() : null));
+  const systemCheckRequirements = useMemo<SystemCheckRequirements>(
+    () => ({
+      camera: proctoringConfig.enabled ? "required" : "optional",
+      microphone: proctoringConfig.enableAudioProctoring ? "optional" : "off",
+      speaker: "off",
+      fullscreen: "required",
+    }),
+    [proctoringConfig.enabled, proctoringConfig.enableAudioProctoring],
+  );
+  const systemCheckDone = !!systemCheck && systemCheckCovers(systemCheck, systemCheckRequirements);
+  const handleSystemCheckComplete = (result: SystemCheckResult, faceReference: FaceReference | null) => {
+    setSystemCheck(result);
+    if (fromFullFlow) saveFullFlowSystemCheck(result);
+    if (faceReference) {
+      setEnrolledFaceReference(faceReference);
+      if (fromFullFlow) saveFullFlowFaceReference(faceReference);
+    }
+  };
+
   const requestFullscreen = useCallback(async () => {
     try {
       const el = document.documentElement;
@@ -150,23 +217,70 @@ export function CodingTest() {
   }, [fromFullFlow, fullFlowTrack, vlsiPlatform]);
 
 
-  // Request webcam when entering editor phase (for proctoring)
+  // Request webcam (+ mic for audio proctoring) when entering editor phase.
+  // A denied mic falls back to camera only rather than blocking the round.
+  // Waits for the policy so enableAudioProctoring is the session's value, not the default.
+  const withMic = proctoringConfig.enableAudioProctoring;
   useEffect(() => {
-    if (phase !== "editor") return;
+    if (phase !== "editor" || policyLoading) return;
     let stream: MediaStream | null = null;
+    let cancelled = false;
     navigator.mediaDevices
-      .getUserMedia({ video: true, audio: false })
+      .getUserMedia({ video: true, audio: withMic ? PROCTORING_MIC_CONSTRAINTS : false })
+      .catch((err) => {
+        if (!withMic) throw err;
+        return navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+      })
       .then((s) => {
+        if (cancelled) {
+          s.getTracks().forEach((t) => t.stop());
+          return;
+        }
         stream = s;
         setWebcamStream(s);
       })
       .catch(() => setWebcamStream(null));
     return () => {
+      cancelled = true;
       if (stream) stream.getTracks().forEach((t) => t.stop());
       setWebcamStream(null);
     };
+  }, [phase, policyLoading, withMic]);
+
+  // Screen share: stopping from the browser UI clears the stream (gate reappears);
+  // replacing the stream or leaving the editor stops the old tracks.
+  useEffect(() => {
+    if (!screenStream) return;
+    const track = screenStream.getVideoTracks()[0];
+    const onEnded = () => setScreenStream(null);
+    track?.addEventListener("ended", onEnded);
+    return () => {
+      track?.removeEventListener("ended", onEnded);
+      screenStream.getTracks().forEach((t) => t.stop());
+    };
+  }, [screenStream]);
+
+  useEffect(() => {
+    if (phase === "editor") return;
+    setScreenStream(null);
+    setScreenShareStarted(false);
+    setScreenShareError(null);
   }, [phase]);
 
+  const handleShareScreen = useCallback(async () => {
+    setScreenShareRequesting(true);
+    try {
+      const stream = await requestEntireScreenShare();
+      setScreenStream(stream);
+      setScreenShareStarted(true);
+      setScreenShareError(null);
+    } catch (err) {
+      setScreenShareError(err instanceof Error ? err.message : "Screen sharing failed. Please try again.");
+    } finally {
+      setScreenShareRequesting(false);
+    }
+  }, []);
+
   // Attach webcam stream to video element for proctoring
   useEffect(() => {
     const el = videoRef.current;
@@ -191,28 +305,34 @@ export function CodingTest() {
     const mimeType = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find((mt) =>
       MediaRecorder.isTypeSupported(mt),
     ) || "video/webm";
-    const recorder = new MediaRecorder(webcamStream, { videoBitsPerSecond: 2_500_000, mimeType });
+    const recorder = new MediaRecorder(new MediaStream(webcamStream.getVideoTracks()), {
+      videoBitsPerSecond: 2_500_000,
+      mimeType,
+    });
     recorder.ondataavailable = (e) => {
       if (e.data.size > 0) chunks.push(e.data);
     };
     recorder.start(1000);
-    recordingRef.current = { recorder, chunks };
+    recordingRef.current = { recorder, chunks, startedAt: Date.now() };
     return () => {
       if (recorder.state === "recording") recorder.stop();
-      recordingRef.current = { recorder: null, chunks: [] };
+      recordingRef.current = { recorder: null, chunks: [], startedAt: 0 };
     };
   }, [phase, webcamStream, fromFullFlow]);
 
   // Malpractice listeners: tab switch, window switch, fullscreen exit (editor phase)
   useEffect(() => {
     if (phase !== "editor") return;
+    const raiseMalpractice = (kind: MalpracticeKind) => {
+      if (isMalpracticeKind(kind, malpracticeFlagTypes)) setPendingMalpractice(kind);
+    };
     const tabWasHiddenRef = { current: false };
     const windowHadBlurRef = { current: false };
     const onVisibilityChange = () => {
       if (document.hidden) tabWasHiddenRef.current = true;
       else if (tabWasHiddenRef.current) {
         tabWasHiddenRef.current = false;
-        setPendingMalpractice("tab_switch");
+        raiseMalpractice("tab_switch");
       }
     };
     const onBlur = () => {
@@ -221,11 +341,11 @@ export function CodingTest() {
     const onFocus = () => {
       if (windowHadBlurRef.current) {
         windowHadBlurRef.current = false;
-        setPendingMalpractice("window_switch");
+        raiseMalpractice("window_switch");
       }
     };
     const onFullscreenChange = () => {
-      if (!document.fullscreenElement) setPendingMalpractice("fullscreen_exit");
+      if (!document.fullscreenElement) raiseMalpractice("fullscreen_exit");
       else setPendingMalpractice((prev) => (prev === "fullscreen_exit" ? null : prev));
     };
     document.addEventListener("visibilitychange", onVisibilityChange);
@@ -238,7 +358,7 @@ export function CodingTest() {
       window.removeEventListener("focus", onFocus);
       document.removeEventListener("fullscreenchange", onFullscreenChange);
     };
-  }, [phase]);
+  }, [phase, malpracticeFlagTypes]);
 
   // ---- Generate problem ----
   const handleGenerate = async () => {
@@ -263,11 +383,18 @@ export function CodingTest() {
           language: p.language,
           difficulty: p.difficulty,
         },
+        systemCheck: systemCheck ?? undefined,
       }).unwrap();
       setCodingId(created.id);
       setSubmissionCount((created as { submissionCount?: number }).submissionCount ?? 0);
 
       editorStartTsRef.current = Date.now();
+      editForensicsRef.current?.detach();
+      editForensicsRef.current = new EditForensics({
+        startedAt: editorStartTsRef.current,
+        onExternalPaste: () => proctoring.reportEditorEvent("external_paste"),
+        onLargeInsert: () => proctoring.reportEditorEvent("large_paste"),
+      });
       setPhase("editor");
       startTimer();
       toast.update(tid, "success", `"${p.title}" ready — good luck!`);
@@ -297,12 +424,13 @@ export function CodingTest() {
       !fullFlowTrack ||
       fullFlowTrack === "mba" ||
       !topic.trim() ||
+      !systemCheckDone ||
       fullFlowAutoGenerateDoneRef.current
     )
       return;
     fullFlowAutoGenerateDoneRef.current = true;
     handleGenerateRef.current?.();
-  }, [phase, fromFullFlow, fullFlowTrack, topic]);
+  }, [phase, fromFullFlow, fullFlowTrack, topic, systemCheckDone]);
 
   const getRecordedVideoUrl = useCallback((): Promise<string | null> => {
     const { recorder, chunks } = recordingRef.current;
@@ -320,6 +448,8 @@ export function CodingTest() {
   const handleSubmit = async () => {
     if (!problem || !code.trim()) return;
     stopTimer();
+    // Recording start relative to the proctoring start (flag timestamps)
+    const videoOffsetMs = recordingRef.current.startedAt - editorStartTsRef.current;
     const videoUrl = fromFullFlow ? await getRecordedVideoUrl() : null;
     proctoring.stop();
     webcamStream?.getTracks().forEach((t) => t.stop());
@@ -345,7 +475,9 @@ export function CodingTest() {
           evaluation: ev,
           proctoringFlags: proctoring.flags.length ? proctoring.flags : undefined,
           riskScore: proctoring.riskScore > 0 ? proctoring.riskScore : undefined,
+          riskSeries: proctoring.getRiskSeries() ?? undefined,
           videoUrl: videoUrl ?? undefined,
+          videoOffsetMs: videoUrl ? videoOffsetMs : undefined,
         });
       }
 
@@ -368,6 +500,10 @@ export function CodingTest() {
               timeSpent,
               proctoringFlags: proctoring.flags.length ? proctoring.flags : undefined,
               riskScore: proctoring.riskScore > 0 ? proctoring.riskScore : undefined,
+              proctoringLog: proctoring.getSessionLog() ?? undefined,
+              riskSeries: proctoring.getRiskSeries() ?? undefined,
+              editLog: editForensicsRef.current?.toLog(),
+              recordingOffsetMs: videoUrl ? videoOffsetMs : undefined,
             },
           }).unwrap();
           setSubmissionCount((updated as { submissionCount?: number }).submissionCount ?? submissionCount + 1);
@@ -402,6 +538,8 @@ export function CodingTest() {
       return;
     }
     stopTimer();
+    // Recording start relative to the proctoring start (flag timestamps)
+    const videoOffsetMs = recordingRef.current.startedAt - editorStartTsRef.current;
     const videoUrl = fromFullFlow ? await getRecordedVideoUrl() : null;
     proctoring.stop();
     webcamStream?.getTracks().forEach((t) => t.stop());
@@ -417,7 +555,9 @@ export function CodingTest() {
       evaluation: null,
       proctoringFlags: proctoring.flags.length ? proctoring.flags : undefined,
       riskScore: proctoring.riskScore > 0 ? proctoring.riskScore : undefined,
+      riskSeries: proctoring.getRiskSeries() ?? undefined,
       videoUrl: videoUrl ?? undefined,
+      videoOffsetMs: videoUrl ? videoOffsetMs : undefined,
     });
     navigate("/interview/full/report", { replace: true });
   }, [
@@ -449,6 +589,8 @@ export function CodingTest() {
   // ---- Retake (discard) ----
   const handleRetake = () => {
     stopTimer();
+    editForensicsRef.current?.detach();
+    editForensicsRef.current = null;
     proctoring.stop();
     webcamStream?.getTracks().forEach((t) => t.stop());
     setWebcamStream(null);
@@ -512,6 +654,42 @@ export function CodingTest() {
   // ===========================================================================
   // SETUP PHASE
   // ===========================================================================
+  if (phase === "setup" && !systemCheckDone) {
+    return (
+      <div className="dash">
+        <header className="dash__topbar">
+          <button type="button" className="dash__brand" onClick={() => navigate("/dashboard")} title="Dashboard">
+            <div className="dash__brand-icon">
+              <BoltIcon />
+            </div>
+            <span className="dash__brand-name">VocalHireAI</span>
+          </button>
+          <div className="dash__user-section">
+            <button type="button" className="dash__topbar-btn" onClick={() => navigate("/dashboard")}>
+              ← Dashboard
+            </button>
+          </div>
+        </header>
+        <div className="dash__content">
+          <div className="dash__welcome">
+            <h1 className="dash__welcome-title">Coding Challenge</h1>
+            <p className="dash__welcome-sub">Check your setup before the challenge starts.</p>
+          </div>
+          {policyLoading ? (
+            <div className="spinner" style={{ width: 40, height: 40, borderWidth: 3, margin: "32px auto" }} aria-hidden />
+          ) : (
+            <SystemCheckWizard
+              requirements={systemCheckRequirements}
+              thresholds={proctoringConfig.thresholds}
+              enrollFace={proctoringConfig.enabled && !carriedFaceReference}
+              onComplete={handleSystemCheckComplete}
+            />
+          )}
+        </div>
+      </div>
+    );
+  }
+
   if (phase === "setup") {
     // Full flow (non-MBA): do not show Topic/Language/Difficulty/Generate — auto-start with "Preparing..." only
     const fullFlowHideSetup = fromFullFlow && fullFlowTrack && fullFlowTrack !== "mba";
@@ -725,6 +903,14 @@ export function CodingTest() {
             isFullscreen={!!document.fullscreenElement}
           />
         )}
+        {screenShareRequired && !screenStream && !pendingMalpractice && (
+          <ScreenShareGate
+            stopped={screenShareStarted}
+            error={screenShareError}
+            isRequesting={screenShareRequesting}
+            onShare={handleShareScreen}
+          />
+        )}
         <header className="dash__topbar">
           <button type="button" className="dash__brand" onClick={() => navigate("/dashboard")} title="Dashboard">
             <div className="dash__brand-icon">
@@ -889,8 +1075,11 @@ export function CodingTest() {
                 onMount={(editor, monaco) => {
                   // Proctoring: disable copy and paste in coding round (addAction has id + run required by this Monaco version)
                   const noop = () => {};
-                  editor.addAction({ id: "noop-paste", label: "", run: noop, keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyV, monaco.KeyMod.Shift | monaco.KeyCode.Insert] });
+                  const notePasteAttempt = () => editForensicsRef.current?.notePasteAttempt();
+                  editor.addAction({ id: "noop-paste", label: "", run: notePasteAttempt, keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyV, monaco.KeyMod.Shift | monaco.KeyCode.Insert] });
                   editor.addAction({ id: "noop-copy", label: "", run: noop, keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyC] });
+                  // Forensics sees pastes that slip through (menus, drops) before they are undone
+                  editForensicsRef.current?.attach(editor);
                   editor.onDidPaste(() => {
                     editor.trigger("keyboard", "undo", null);
                   });
@@ -922,6 +1111,10 @@ export function CodingTest() {
               code={code}
               language={language}
               testCases={problem.testCases}
+              onRun={(result) => editForensicsRef.current?.noteRun(result.exitCode)}
+              onTestResults={(results) =>
+                editForensicsRef.current?.noteTestRun(results.filter((r) => r.passed).length, results.length)
+              }
             />
           </div>
         </div>
@@ -14,13 +14,18 @@ import {
   type EvaluationReport,
   type ComputedScoring,
 } from "../lib/report-generator";
+import { DEFAULT_SCORING_PROFILE, scoringProfileLabel } from "../lib/scoring-profile";
 import { useToast } from "./Toast";
+import { QuestionScoresTable } from "./QuestionScoresTable";
+import { RubricScoresTable } from "./RubricScoresTable";
+import type { InterviewToolRecord } from "../lib/interview-tools";
 import { useAppDispatch, useAppSelector } from "../store/hooks";
 import { useUpdateInterviewMutation } from "../store/endpoints/interviews";
 import {
   selectTemplate,
   selectTranscript,
   selectVideoUrl,
+  selectToolLog,
   selectInterviewId,
   selectNetworkQuality,
   selectSelectedTemplateNameForFullFlow,
@@ -42,6 +47,7 @@ export function ConversationReport() {
   const template = useAppSelector(selectTemplate);
   const transcript = useAppSelector(selectTranscript);
   const videoUrl = useAppSelector(selectVideoUrl);
+  const toolLog = useAppSelector(selectToolLog);
   const interviewId = useAppSelector(selectInterviewId);
   const networkQuality = useAppSelector(selectNetworkQuality);
   const dispatch = useAppDispatch();
@@ -103,6 +109,7 @@ export function ConversationReport() {
       template={template}
       transcript={transcript}
       videoUrl={videoUrl}
+      toolLog={toolLog}
       interviewId={interviewId}
       networkQuality={networkQuality}
       fromFullFlow={fromFullFlow}
@@ -116,6 +123,7 @@ export function ConversationReport() {
         saveFullFlowInterview({
           transcript: transcriptToSave,
           report: reportToSave ?? null,
+          scoringProfile: template.scoringProfile,
           interviewId,
           videoUrl: videoUrl ?? undefined,
         });
@@ -132,6 +140,7 @@ function ReportInner({
   template,
   transcript,
   videoUrl,
+  toolLog,
   interviewId,
   networkQuality,
   fromFullFlow,
@@ -142,6 +151,7 @@ function ReportInner({
   template: ConversationTemplate;
   transcript: TranscriptEntry[];
   videoUrl: string | null;
+  toolLog: InterviewToolRecord[];
   interviewId: string | null;
   networkQuality: "stable" | "moderate" | "poor" | null;
   fromFullFlow?: boolean;
@@ -233,6 +243,7 @@ function ReportInner({
             saveFullFlowInterview({
               transcript,
               report: result,
+              scoringProfile: template.scoringProfile,
               interviewId,
               videoUrl: videoUrl ?? undefined,
             });
@@ -280,8 +291,8 @@ function ReportInner({
 
   // Computed scoring (memoized so it doesn't recompute on every render)
   const scoring = useMemo(
-    () => (report ? computeScoring(report) : null),
-    [report],
+    () => (report ? computeScoring(report, template.scoringProfile) : null),
+    [report, template.scoringProfile],
   );
 
   // Metadata
@@ -530,6 +541,7 @@ function ReportInner({
               </tr>
             </tbody>
           </table>
+          <RubricScoresTable report={report} toolLog={toolLog} />
         </SectionCard>
 
         {/* ================================================================
@@ -703,6 +715,10 @@ function ReportInner({
                 x{scoring.confidenceFactor}
               </span>
             </div>
+            <div className="eval-formula__row">
+              <span className="eval-formula__label">Scoring Profile</span>
+              <span className="eval-formula__value">{scoringProfileLabel(scoring.profile ?? DEFAULT_SCORING_PROFILE)}</span>
+            </div>
             <div className="eval-formula__row eval-formula__row--total">
               <span className="eval-formula__label">Final Overall Score</span>
               <span className="eval-formula__value" style={{ color: scoreClr(scoring.overallScore) }}>
@@ -806,6 +822,15 @@ function ReportInner({
           )}
         </SectionCard>
 
+        {/* ================================================================
+            S18A — Question-by-Question Scoring
+            ================================================================ */}
+        {report.questionScores && (
+          <SectionCard n="18A" title="Question-by-Question Scoring">
+            <QuestionScoresTable scores={report.questionScores} />
+          </SectionCard>
+        )}
+
         {/* ================================================================
             Network quality (Professional / LiveKit)
             ================================================================ */}
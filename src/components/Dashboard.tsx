@@ -120,6 +120,20 @@ export function Dashboard() {
               <Link to="/admin/templates" className="dash__topbar-btn" title="Job templates" aria-label="Job templates">
                 <span style={{ fontSize: "0.8rem" }}>Templates</span>
               </Link>
+              <Link to="/admin/question-banks" className="dash__topbar-btn" title="Question banks" aria-label="Question banks">
+                <span style={{ fontSize: "0.8rem" }}>Question banks</span>
+              </Link>
+              <Link to="/admin/scoring-profiles" className="dash__topbar-btn" title="Scoring profiles" aria-label="Scoring profiles">
+                <span style={{ fontSize: "0.8rem" }}>Scoring</span>
+              </Link>
+              <Link to="/admin/appeals" className="dash__topbar-btn" title="Flag appeals" aria-label="Flag appeals">
+                <span style={{ fontSize: "0.8rem" }}>Appeals</span>
+              </Link>
+              {livekitConfig?.enabled && (
+                <Link to="/proctor/wall" className="dash__topbar-btn" title="Proctor wall" aria-label="Proctor wall">
+                  <span style={{ fontSize: "0.8rem" }}>Proctor wall</span>
+                </Link>
+              )}
               {user.role === "ADMIN" && (
                 <Link to="/admin/errors" className="dash__topbar-btn" title="Error log" aria-label="Error log">
                   <span style={{ fontSize: "0.8rem" }}>Errors</span>
@@ -0,0 +1,190 @@
+/**
+ * FlagAppealPanel — Proctoring flags on a saved report, with per-flag appeals.
+ *
+ * Candidates can contest individual flags (preset reason + optional note).
+ * Everyone sees each appeal's status and reviewer note, plus the risk score
+ * recomputed without the flags whose appeals were accepted.
+ */
+
+import { useMemo, useState } from "react";
+import type { ProctoringFlag } from "../proctoring/types";
+import { APPEAL_REASONS, computeAdjustedRiskScore } from "../proctoring/appeals";
+import {
+  useCreateFlagAppealsMutation,
+  useListSessionAppealsQuery,
+  type AppealSessionType,
+  type FlagAppeal,
+} from "../store/endpoints/appeals";
+import { useAppSelector } from "../store/hooks";
+import { selectUserRole } from "../store/authSlice";
+import { useToast } from "./Toast";
+import { formatTs } from "./FlagsTimeline";
+
+interface Props {
+  sessionType: AppealSessionType;
+  sessionId: string;
+  flags: ProctoringFlag[];
+  riskScore: number;
+  /** Stored session log; enables exact score recomputation */
+  proctoringLog?: unknown;
+}
+
+export function FlagAppealPanel({ sessionType, sessionId, flags, riskScore, proctoringLog }: Props) {
+  const toast = useToast();
+  const userRole = useAppSelector(selectUserRole);
+  const canAppeal = userRole === "CANDIDATE";
+  const { data: appeals } = useListSessionAppealsQuery({ sessionType, sessionId });
+  const [createAppeals, { isLoading: submitting }] = useCreateFlagAppealsMutation();
+
+  const [openFlagId, setOpenFlagId] = useState<string | null>(null);
+  const [reason, setReason] = useState<string>(APPEAL_REASONS[0]);
+  const [note, setNote] = useState("");
+
+  const appealByFlag = useMemo(() => {
+    const map = new Map<string, FlagAppeal>();
+    for (const a of appeals ?? []) map.set(a.flagId, a);
+    return map;
+  }, [appeals]);
+
+  const adjustedScore = useMemo(() => {
+    const accepted = flags.filter((f) => appealByFlag.get(f.id)?.status === "ACCEPTED");
+    return computeAdjustedRiskScore({ flags, riskScore, proctoringLog }, accepted);
+  }, [flags, riskScore, proctoringLog, appealByFlag]);
+
+  const openForm = (flagId: string) => {
+    setOpenFlagId(flagId);
+    setReason(APPEAL_REASONS[0]);
+    setNote("");
+  };
+
+  const handleSubmit = async (flag: ProctoringFlag) => {
+    try {
+      await createAppeals({
+        sessionType,
+        sessionId,
+        appeals: [
+          {
+            flagId: flag.id,
+            flagType: flag.type,
+            flagTimestamp: flag.timestamp,
+            flagMessage: flag.message,
+            reason,
+            ...(note.trim() && { note: note.trim() }),
+          },
+        ],
+      }).unwrap();
+      toast.success("Appeal submitted for review");
+      setOpenFlagId(null);
+    } catch (err) {
+      const msg = (err as { data?: { error?: string } })?.data?.error ?? "Failed to submit appeal";
+      toast.error(msg);
+    }
+  };
+
+  if (flags.length === 0) return null;
+
+  return (
+    <div className="flag-appeals">
+      <div className="flag-appeals__header">
+        <span className="flag-appeals__title">Proctoring flags ({flags.length})</span>
+        <span className="flag-appeals__score">
+          Risk score {adjustedScore !== riskScore ? (
+            <>
+              <s>{riskScore}</s> {adjustedScore}
+            </>
+          ) : (
+            riskScore
+          )}
+          /100
+        </span>
+      </div>
+      {canAppeal && (
+        <p className="flag-appeals__hint">
+          If a flag was caused by something outside your control, contest it below. A reviewer will
+          decide and accepted flags no longer count toward your risk score.
+        </p>
+      )}
+      <div className="flag-appeals__list">
+        {flags.map((flag) => {
+          const appeal = appealByFlag.get(flag.id);
+          return (
+            <div key={flag.id} className="flag-appeals__item">
+              <div className="flag-appeals__row">
+                <span className="proctor-flag__time">{formatTs(flag.timestamp)}</span>
+                <span className="proctor-flag__msg">{flag.message}</span>
+                <span className={`proctor-flag__pts${appeal?.status === "ACCEPTED" ? " flag-appeals__pts--void" : ""}`}>
+                  +{flag.pointsAdded}
+                </span>
+                {appeal ? (
+                  <span className={`flag-appeals__status flag-appeals__status--${appeal.status.toLowerCase()}`}>
+                    {STATUS_LABEL[appeal.status]}
+                  </span>
+                ) : (
+                  canAppeal &&
+                  openFlagId !== flag.id && (
+                    <button type="button" className="btn btn--ghost btn--sm" onClick={() => openForm(flag.id)}>
+                      Contest
+                    </button>
+                  )
+                )}
+              </div>
+
+              {appeal && (
+                <div className="flag-appeals__detail">
+                  <span>
+                    <strong>Reason:</strong> {appeal.reason}
+                    {appeal.note && ` — ${appeal.note}`}
+                  </span>
+                  {appeal.reviewerNote && (
+                    <span>
+                      <strong>Reviewer:</strong> {appeal.reviewerNote}
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {!appeal && openFlagId === flag.id && (
+                <div className="flag-appeals__form">
+                  <select className="auth-input" value={reason} onChange={(e) => setReason(e.target.value)}>
+                    {APPEAL_REASONS.map((r) => (
+                      <option key={r} value={r}>
+                        {r}
+                      </option>
+                    ))}
+                  </select>
+                  <textarea
+                    className="auth-input"
+                    rows={2}
+                    maxLength={500}
+                    placeholder="What happened? (optional)"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                  <div className="flag-appeals__actions">
+                    <button type="button" className="btn btn--ghost btn--sm" onClick={() => setOpenFlagId(null)}>
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      className="btn btn--primary btn--sm"
+                      disabled={submitting}
+                      onClick={() => handleSubmit(flag)}
+                    >
+                      {submitting ? "Submitting..." : "Submit appeal"}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const STATUS_LABEL: Record<FlagAppeal["status"], string> = {
+  PENDING: "Under review",
+  ACCEPTED: "Appeal accepted",
+  REJECTED: "Appeal rejected",
+};
@@ -0,0 +1,130 @@
+/**
+ * FlagReviewPlayer — Session recording + FlagsTimeline in review mode.
+ *
+ * Clicking a flag seeks the recording to flag.timestamp (both are relative to
+ * the session start). Reviewers (non-candidates) can mark each flag as
+ * confirmed / false positive / needs discussion and add a note; annotations
+ * are saved to the backend per session. Without a sessionId the player still
+ * seeks but annotations are disabled.
+ */
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import type { ProctoringFlag } from "../proctoring/types";
+import {
+  useListFlagReviewsQuery,
+  useSaveFlagReviewMutation,
+  type ProctoredSessionType,
+} from "../store/endpoints/proctoring";
+import { useAppSelector } from "../store/hooks";
+import { selectUserRole } from "../store/authSlice";
+import { useToast } from "./Toast";
+import { FlagsTimeline, type FlagAnnotation } from "./FlagsTimeline";
+
+interface Props {
+  sessionType: ProctoredSessionType;
+  sessionId?: string | null;
+  flags: ProctoringFlag[];
+  videoUrl?: string | null;
+  /** Recording start minus session start, in ms (positive = recording started later) */
+  videoOffsetMs?: number;
+  downloadName?: string;
+}
+
+export function FlagReviewPlayer({
+  sessionType,
+  sessionId,
+  flags,
+  videoUrl,
+  videoOffsetMs = 0,
+  downloadName = "proctoring-recording.webm",
+}: Props) {
+  const toast = useToast();
+  const userRole = useAppSelector(selectUserRole);
+  const canReview = !!sessionId && !!userRole && userRole !== "CANDIDATE";
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [activeFlagId, setActiveFlagId] = useState<string | null>(null);
+
+  const { data: reviews } = useListFlagReviewsQuery(
+    { sessionType, sessionId: sessionId ?? "" },
+    { skip: !canReview },
+  );
+  const [saveReview] = useSaveFlagReviewMutation();
+
+  const annotations = useMemo(() => {
+    const map: Record<string, FlagAnnotation> = {};
+    for (const r of reviews ?? []) map[r.flagId] = { verdict: r.verdict, note: r.note };
+    return map;
+  }, [reviews]);
+
+  const counts = useMemo(() => {
+    const c = { CONFIRMED: 0, FALSE_POSITIVE: 0, NEEDS_DISCUSSION: 0 };
+    for (const a of Object.values(annotations)) if (a.verdict) c[a.verdict]++;
+    return c;
+  }, [annotations]);
+
+  const handleFlagClick = useCallback(
+    (flag: ProctoringFlag) => {
+      setActiveFlagId(flag.id);
+      const video = videoRef.current;
+      if (!video) return;
+      // Start slightly before the flag so the reviewer sees the lead-up
+      video.currentTime = Math.max(0, (flag.timestamp - videoOffsetMs - SEEK_LEAD_MS) / 1000);
+      video.play().catch(() => {});
+    },
+    [videoOffsetMs],
+  );
+
+  const handleAnnotate = useCallback(
+    async (flag: ProctoringFlag, annotation: FlagAnnotation) => {
+      if (!sessionId) return;
+      try {
+        await saveReview({
+          sessionType,
+          sessionId,
+          flagId: flag.id,
+          verdict: annotation.verdict,
+          note: annotation.note,
+        }).unwrap();
+      } catch (err) {
+        const msg = (err as { data?: { error?: string } })?.data?.error ?? "Failed to save review";
+        toast.error(msg);
+      }
+    },
+    [sessionType, sessionId, saveReview, toast],
+  );
+
+  return (
+    <div className="flag-review">
+      {videoUrl && (
+        <div className="flag-review__player">
+          <div className="report-video-wrapper">
+            <video ref={videoRef} className="report-video" src={videoUrl} controls playsInline />
+          </div>
+          <div className="report-video-actions">
+            <a className="btn btn--download" href={videoUrl} download={downloadName}>
+              Download recording
+            </a>
+          </div>
+        </div>
+      )}
+      {canReview && flags.length > 0 && (
+        <div className="flag-review__summary">
+          <span>{counts.CONFIRMED} confirmed</span>
+          <span>{counts.FALSE_POSITIVE} false positive</span>
+          <span>{counts.NEEDS_DISCUSSION} to discuss</span>
+          <span className="pg-muted">{flags.length - Object.values(annotations).filter((a) => a.verdict).length} unreviewed</span>
+        </div>
+      )}
+      <FlagsTimeline
+        flags={flags}
+        maxVisible={flags.length}
+        activeFlagId={activeFlagId}
+        onFlagClick={videoUrl ? handleFlagClick : undefined}
+        annotations={canReview ? annotations : undefined}
+        onAnnotate={canReview ? handleAnnotate : undefined}
+      />
+    </div>
+  );
+}
+
+const SEEK_LEAD_MS = 2000;
@@ -5,19 +5,47 @@
  *   - Timestamp (relative to interview start)
  *   - Type icon + label
  *   - Points added
+ *
+ * Review mode (onFlagClick / onAnnotate set, see FlagReviewPlayer): flags are
+ * listed chronologically, clicking one seeks the recording, and reviewers
+ * can mark each flag and attach a note.
  */
 
+import { useEffect, useState } from "react";
 import type { ProctoringFlag } from "../proctoring/types";
+import { flagSeverity } from "../proctoring/integritySummary";
+import type { FlagReviewVerdict } from "../store/endpoints/proctoring";
+
+export interface FlagAnnotation {
+  verdict: FlagReviewVerdict | null;
+  note: string | null;
+}
 
 interface Props {
   flags: ProctoringFlag[];
   maxVisible?: number;
   className?: string;
+  /** Highlighted flag (e.g. the one the player last seeked to) */
+  activeFlagId?: string | null;
+  onFlagClick?: (flag: ProctoringFlag) => void;
+  /** Reviewer annotations keyed by flag id */
+  annotations?: Record<string, FlagAnnotation>;
+  /** Enables annotation controls; called on verdict change or note blur */
+  onAnnotate?: (flag: ProctoringFlag, annotation: FlagAnnotation) => void;
 }
 
-export function FlagsTimeline({ flags, maxVisible = 50, className }: Props) {
-  // Show most recent first
-  const visible = flags.slice(-maxVisible).reverse();
+export function FlagsTimeline({
+  flags,
+  maxVisible = 50,
+  className,
+  activeFlagId,
+  onFlagClick,
+  annotations,
+  onAnnotate,
+}: Props) {
+  const reviewMode = !!(onFlagClick || onAnnotate);
+  // Show most recent first (chronological when reviewing a recording)
+  const visible = reviewMode ? flags.slice(0, maxVisible) : flags.slice(-maxVisible).reverse();
 
   if (visible.length === 0) {
     return (
@@ -29,54 +57,138 @@ export function FlagsTimeline({ flags, maxVisible = 50, className }: Props) {
   }
 
   return (
-    <div className={`proctor-timeline ${className ?? ""}`}>
+    <div className={`proctor-timeline${reviewMode ? " proctor-timeline--review" : ""} ${className ?? ""}`}>
       <div className="proctor-timeline__header">
         <span className="proctor-timeline__title">Violations ({flags.length})</span>
       </div>
       <div className="proctor-timeline__list">
-        {visible.map((flag) => (
-          <div key={flag.id} className={`proctor-flag proctor-flag--${flagSeverity(flag.type)}`}>
-            <span className="proctor-flag__time">{formatTs(flag.timestamp)}</span>
-            <span className="proctor-flag__icon">{flagIcon(flag.type)}</span>
-            <span className="proctor-flag__msg">{flag.message}</span>
-            <span className="proctor-flag__pts">+{flag.pointsAdded}</span>
-          </div>
-        ))}
+        {visible.map((flag) => {
+          const annotation = annotations?.[flag.id];
+          const row = (
+            <>
+              <span className="proctor-flag__time">{formatTs(flag.timestamp)}</span>
+              <span className="proctor-flag__icon">{flagIcon(flag.type)}</span>
+              <span className="proctor-flag__msg">
+                {flag.message}
+                {flag.similarity !== undefined && ` (similarity ${flag.similarity.toFixed(2)})`}
+              </span>
+              {annotation?.verdict && (
+                <span className={`proctor-flag__verdict proctor-flag__verdict--${VERDICT_CLASS[annotation.verdict]}`}>
+                  {VERDICT_LABEL[annotation.verdict]}
+                </span>
+              )}
+              <span className="proctor-flag__pts">+{flag.pointsAdded}</span>
+            </>
+          );
+
+          if (!reviewMode) {
+            return (
+              <div key={flag.id} className={`proctor-flag proctor-flag--${flagSeverity(flag.type)}`}>
+                {row}
+              </div>
+            );
+          }
+
+          return (
+            <div
+              key={flag.id}
+              className={`proctor-flag-review${flag.id === activeFlagId ? " proctor-flag-review--active" : ""}`}
+            >
+              <button
+                type="button"
+                className={`proctor-flag proctor-flag--${flagSeverity(flag.type)} proctor-flag--clickable`}
+                onClick={() => onFlagClick?.(flag)}
+                disabled={!onFlagClick}
+                title={onFlagClick ? "Jump to this moment in the recording" : undefined}
+              >
+                {row}
+              </button>
+              {onAnnotate && (
+                <div className="proctor-flag-review__controls">
+                  <div className="proctor-flag-review__verdicts">
+                    {VERDICTS.map((v) => (
+                      <button
+                        key={v}
+                        type="button"
+                        className={`proctor-flag-review__verdict proctor-flag-review__verdict--${VERDICT_CLASS[v]}${
+                          annotation?.verdict === v ? " proctor-flag-review__verdict--on" : ""
+                        }`}
+                        aria-pressed={annotation?.verdict === v}
+                        onClick={() =>
+                          onAnnotate(flag, {
+                            verdict: annotation?.verdict === v ? null : v,
+                            note: annotation?.note ?? null,
+                          })
+                        }
+                      >
+                        {VERDICT_LABEL[v]}
+                      </button>
+                    ))}
+                  </div>
+                  <FlagNoteInput
+                    value={annotation?.note ?? ""}
+                    onCommit={(note) => onAnnotate(flag, { verdict: annotation?.verdict ?? null, note: note || null })}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
 }
 
+/** Note field that only reports changes on blur (one save per edit, not per keystroke) */
+function FlagNoteInput({ value, onCommit }: { value: string; onCommit: (note: string) => void }) {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <input
+      type="text"
+      className="proctor-flag-review__note"
+      placeholder="Reviewer note"
+      maxLength={1000}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        const next = draft.trim();
+        if (next !== value) onCommit(next);
+      }}
+    />
+  );
+}
+
+const VERDICTS: readonly FlagReviewVerdict[] = ["CONFIRMED", "FALSE_POSITIVE", "NEEDS_DISCUSSION"];
+
+const VERDICT_LABEL: Record<FlagReviewVerdict, string> = {
+  CONFIRMED: "Confirmed",
+  FALSE_POSITIVE: "False positive",
+  NEEDS_DISCUSSION: "Discuss",
+};
+
+const VERDICT_CLASS: Record<FlagReviewVerdict, string> = {
+  CONFIRMED: "confirmed",
+  FALSE_POSITIVE: "false-positive",
+  NEEDS_DISCUSSION: "discuss",
+};
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-function formatTs(ms: number): string {
+export function formatTs(ms: number): string {
   const totalSec = Math.max(0, Math.floor(ms / 1000));
   const m = Math.floor(totalSec / 60);
   const s = totalSec % 60;
   return `${m}:${s.toString().padStart(2, "0")}`;
 }
 
-type Severity = "low" | "medium" | "high";
-
-function flagSeverity(type: string): Severity {
-  switch (type) {
-    case "MULTI_FACE":
-    case "FULLSCREEN_EXIT":
-    case "NO_FACE":
-    case "TAB_HIDDEN":
-    case "WINDOW_BLUR":
-      return "high";
-    case "LOOKING_AWAY":
-    case "DARK_FRAME":
-      return "medium";
-    default:
-      return "low";
-  }
-}
-
-function flagIcon(type: string): string {
+export function flagIcon(type: string): string {
   switch (type) {
     case "TAB_HIDDEN": return "👁";
     case "WINDOW_BLUR": return "↗";
@@ -86,6 +198,16 @@ function flagIcon(type: string): string {
     case "LOOKING_AWAY": return "↔";
     case "DARK_FRAME": return "🌑";
     case "HAND_NEAR_FACE": return "✋";
+    case "PHONE_DETECTED": return "📱";
+    case "BOOK_DETECTED": return "📖";
+    case "FACE_MISMATCH": return "🆔";
+    case "SECOND_VOICE": return "🗣";
+    case "BACKGROUND_SPEECH": return "💬";
+    case "WHISPER": return "🤫";
+    case "SCREEN_SHARE_STOPPED": return "⏹";
+    case "MULTIPLE_DISPLAYS": return "🖥";
+    case "LARGE_PASTE": return "⇶";
+    case "EXTERNAL_PASTE": return "📋";
     default: return "⚠";
   }
 }
@@ -15,11 +15,15 @@ import {
   type FullFlowAptitudeResult,
   type FullFlowInterviewResult,
   type FullFlowCodingResult,
-  type StoredProctoringFlag,
 } from "../lib/fullFlowStorage";
 import { computeScoring, type EvaluationReport, type ComputedScoring } from "../lib/report-generator";
+import { DEFAULT_SCORING_PROFILE, scoringProfileLabel } from "../lib/scoring-profile";
 import type { CodeEvaluation } from "../lib/coding-test";
+import type { ProctoringFlag } from "../proctoring/types";
 import { BoltIcon } from "./AppLogo";
+import { FlagReviewPlayer } from "./FlagReviewPlayer";
+import { IntegritySummaryPanel } from "./IntegritySummaryPanel";
+import { hasProctoringData } from "../proctoring/integritySummary";
 
 function scoreClr(score: number): string {
   if (score >= 7) return "var(--accent-green)";
@@ -145,11 +149,15 @@ export function FullFlowReportPage() {
 // Proctoring & integrity (all stages)
 // ---------------------------------------------------------------------------
 function ProctoringSection({ session }: { session: FullFlowReportSession }) {
-  const hasAptitudeFlags = session.aptitude?.proctoringFlags?.length;
-  const hasAptitudeRisk = session.aptitude?.riskScore != null && session.aptitude.riskScore > 0;
-  const hasCodingFlags = session.coding?.proctoringFlags?.length;
-  const hasCodingRisk = session.coding?.riskScore != null && session.coding.riskScore > 0;
-  const hasAny = hasAptitudeFlags || hasAptitudeRisk || hasCodingFlags || hasCodingRisk;
+  const stages = [
+    { key: "aptitude", title: "Aptitude Test", result: session.aptitude, durationSec: session.aptitude?.timeSpentSec },
+    { key: "interview", title: "AI Interview", result: session.interview, durationSec: undefined },
+    { key: "coding", title: "Coding Challenge", result: session.coding, durationSec: session.coding?.timeSpentSec },
+  ].filter(
+    (s): s is typeof s & { result: NonNullable<typeof s.result> } =>
+      !!s.result && hasProctoringData({ flags: s.result.proctoringFlags, riskScore: s.result.riskScore }),
+  );
+  const hasAny = stages.some((s) => (s.result.proctoringFlags?.length ?? 0) > 0 || (s.result.riskScore ?? 0) > 0);
 
   return (
     <section className="report-card full-flow-report__card">
@@ -162,46 +170,22 @@ function ProctoringSection({ session }: { session: FullFlowReportSession }) {
           <span className="eval-rec-badge eval-rec-badge--strong-hire">No issues</span>
         )}
       </div>
-      {hasAny ? (
-        <div className="eval-criteria">
-          {session.aptitude && (hasAptitudeFlags || hasAptitudeRisk) && (
-            <div className="full-flow-report__subsection" style={{ marginBottom: 16 }}>
-              <h4 className="eval-sub__title">Aptitude Test</h4>
-              {hasAptitudeRisk && (
-                <div className="eval-criteria__row">
-                  <span className="eval-criteria__label">Risk score</span>
-                  <span className="eval-criteria__value">{session.aptitude.riskScore}/100</span>
-                </div>
-              )}
-              {session.aptitude.proctoringFlags?.map((f: StoredProctoringFlag) => (
-                <div key={f.id} className="eval-criteria__row" style={{ alignItems: "flex-start" }}>
-                  <span className="eval-criteria__label">Issue</span>
-                  <span className="eval-criteria__value">{f.message}</span>
-                </div>
-              ))}
-            </div>
-          )}
-          {session.coding && (hasCodingFlags || hasCodingRisk) && (
-            <div className="full-flow-report__subsection">
-              <h4 className="eval-sub__title">Coding Challenge</h4>
-              {hasCodingRisk && (
-                <div className="eval-criteria__row">
-                  <span className="eval-criteria__label">Risk score</span>
-                  <span className="eval-criteria__value">{session.coding.riskScore}/100</span>
-                </div>
-              )}
-              {session.coding.proctoringFlags?.map((f: StoredProctoringFlag) => (
-                <div key={f.id} className="eval-criteria__row" style={{ alignItems: "flex-start" }}>
-                  <span className="eval-criteria__label">Issue</span>
-                  <span className="eval-criteria__value">{f.message}</span>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
+      {stages.length > 0 ? (
+        stages.map((s) => (
+          <IntegritySummaryPanel
+            key={s.key}
+            title={s.title}
+            source={{
+              flags: s.result.proctoringFlags ?? [],
+              riskScore: s.result.riskScore,
+              riskSeries: s.result.riskSeries,
+              durationMs: s.durationSec != null ? s.durationSec * 1000 : undefined,
+            }}
+          />
+        ))
       ) : (
         <p className="full-flow-report__subsection" style={{ marginTop: 8, opacity: 0.9 }}>
-          No proctoring issues were recorded during the aptitude test or coding challenge.
+          No proctoring issues were recorded during the aptitude test, interview or coding challenge.
         </p>
       )}
     </section>
@@ -246,14 +230,14 @@ function AptitudeSection({ result }: { result: FullFlowAptitudeResult }) {
       {result.videoUrl && (
         <div className="full-flow-report__subsection" style={{ marginTop: 16 }}>
           <h4 className="eval-sub__title">Recording</h4>
-          <div className="report-video-wrapper">
-            <video className="report-video" src={result.videoUrl} controls playsInline />
-          </div>
-          <div className="report-video-actions">
-            <a className="btn btn--download" href={result.videoUrl} download="aptitude-recording.webm">
-              Download recording
-            </a>
-          </div>
+          <FlagReviewPlayer
+            sessionType="APTITUDE"
+            sessionId={result.aptitudeId}
+            flags={(result.proctoringFlags ?? []) as ProctoringFlag[]}
+            videoUrl={result.videoUrl}
+            videoOffsetMs={result.videoOffsetMs}
+            downloadName="aptitude-recording.webm"
+          />
         </div>
       )}
 
@@ -319,8 +303,8 @@ function InterviewSection({ result }: { result: FullFlowInterviewResult }) {
   const hasFullReport = report && typeof report === "object" && "technicalSkills" in report;
   const scoring = useMemo(() => {
     if (!hasFullReport || !report) return null;
-    return computeScoring(report as EvaluationReport);
-  }, [hasFullReport, report]);
+    return computeScoring(report as EvaluationReport, result.scoringProfile);
+  }, [hasFullReport, report, result.scoringProfile]);
 
   const duration = useMemo(() => {
     if (result.transcript.length < 2) return "—";
@@ -583,6 +567,10 @@ function FullInterviewReportSections({
             <span className="eval-formula__label">Confidence Factor</span>
             <span className="eval-formula__value">×{scoring.confidenceFactor}</span>
           </div>
+          <div className="eval-formula__row">
+            <span className="eval-formula__label">Scoring Profile</span>
+            <span className="eval-formula__value">{scoringProfileLabel(scoring.profile ?? DEFAULT_SCORING_PROFILE)}</span>
+          </div>
           <div className="eval-formula__row eval-formula__row--total">
             <span className="eval-formula__label">Final Overall Score</span>
             <span className="eval-formula__value" style={{ color: scoreClr(scoring.overallScore) }}>
@@ -784,14 +772,14 @@ function CodingSection({ result }: { result: FullFlowCodingResult }) {
       {result.videoUrl && (
         <div className="full-flow-report__subsection" style={{ marginTop: 16 }}>
           <h4 className="eval-sub__title">Recording</h4>
-          <div className="report-video-wrapper">
-            <video className="report-video" src={result.videoUrl} controls playsInline />
-          </div>
-          <div className="report-video-actions">
-            <a className="btn btn--download" href={result.videoUrl} download="coding-recording.webm">
-              Download recording
-            </a>
-          </div>
+          <FlagReviewPlayer
+            sessionType="CODING"
+            sessionId={result.codingId}
+            flags={(result.proctoringFlags ?? []) as ProctoringFlag[]}
+            videoUrl={result.videoUrl}
+            videoOffsetMs={result.videoOffsetMs}
+            downloadName="coding-recording.webm"
+          />
         </div>
       )}
 
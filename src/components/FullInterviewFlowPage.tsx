@@ -73,6 +73,9 @@ export function FullInterviewFlowPage() {
           aiBehavior: t.aiBehavior,
           customerWants: t.customerWants,
           candidateOffers: settings?.resumeSummary ?? "", // Auto-fill from Dashboard; candidates cannot edit in template step
+          plan: t.plan ?? undefined,
+          questions: t.questionBank?.questions,
+          scoringProfile: t.scoringProfile ?? undefined,
         },
         templateId: t.id,
         templateName: t.name,
@@ -0,0 +1,111 @@
+/**
+ * IntegritySummaryPanel — Shared proctoring digest for every report view.
+ *
+ * Verdict, headline numbers (flags, off-screen time, peak / average / final
+ * risk), risk over time and per-flag-type counts, all computed by
+ * computeIntegritySummary() so the aptitude, coding, interview and full-flow
+ * reports (and the PDF export, which captures the DOM) read the same.
+ * Sessions with a stored risk series get the full RiskTimelineChart; older
+ * ones fall back to a sparkline rebuilt from the flags.
+ */
+
+import { useMemo } from "react";
+import {
+  VERDICT_LABELS,
+  computeIntegritySummary,
+  formatOffScreen,
+  type IntegritySource,
+} from "../proctoring/integritySummary";
+import { flagIcon, formatTs } from "./FlagsTimeline";
+import { RiskTimelineChart } from "./RiskTimelineChart";
+
+interface Props {
+  source: IntegritySource;
+  /** Optional heading (e.g. the round name in the full-flow report) */
+  title?: string;
+}
+
+const SPARK_W = 100;
+const SPARK_H = 24;
+
+export function IntegritySummaryPanel({ source, title }: Props) {
+  const { flags, riskScore, proctoringLog, riskSeries, durationMs } = source;
+  const summary = useMemo(
+    () => computeIntegritySummary({ flags, riskScore, proctoringLog, riskSeries, durationMs }),
+    [flags, riskScore, proctoringLog, riskSeries, durationMs],
+  );
+  const { series } = summary;
+
+  const points = series
+    .map((v, i) => `${((i / Math.max(1, series.length - 1)) * SPARK_W).toFixed(2)},${(SPARK_H - (v / 100) * SPARK_H).toFixed(2)}`)
+    .join(" ");
+
+  return (
+    <div className={`integrity-summary integrity-summary--${summary.verdict}`}>
+      <div className="integrity-summary__header">
+        {title && <h4 className="integrity-summary__title">{title}</h4>}
+        <span className={`integrity-summary__badge integrity-summary__badge--${summary.verdict}`}>
+          {VERDICT_LABELS[summary.verdict]}
+        </span>
+      </div>
+      <p className="integrity-summary__verdict">{summary.verdictText}</p>
+
+      <div className="integrity-summary__stats">
+        <Stat label="Flags" value={`${summary.totalFlags}`} hint={summary.highSeverityFlags ? `${summary.highSeverityFlags} high severity` : undefined} />
+        <Stat
+          label="Time off-screen"
+          value={`${summary.offScreenEstimated && summary.offScreenMs > 0 ? "≥ " : ""}${formatOffScreen(summary.offScreenMs)}`}
+          hint={summary.offScreenEstimated ? "estimated from flags" : undefined}
+        />
+        <Stat label="Peak risk" value={`${summary.peakRisk}/100`} />
+        <Stat label="Average risk" value={`${summary.avgRisk}/100`} />
+        <Stat label="Final risk" value={`${summary.finalRisk}/100`} />
+        {summary.reducedCoverageMs > 0 && (
+          <Stat
+            label="Reduced detection"
+            value={formatOffScreen(summary.reducedCoverageMs)}
+            hint={summary.lowestTier ? `weak device · down to "${summary.lowestTier}"` : undefined}
+          />
+        )}
+      </div>
+
+      {summary.riskSeries ? (
+        <RiskTimelineChart series={summary.riskSeries} flags={flags} durationMs={summary.durationMs} />
+      ) : summary.durationMs > 0 && (
+        <div className="integrity-summary__spark">
+          <svg viewBox={`0 0 ${SPARK_W} ${SPARK_H}`} preserveAspectRatio="none" width="100%" height="40" aria-label="Risk over time">
+            <polygon points={`0,${SPARK_H} ${points} ${SPARK_W},${SPARK_H}`} className="integrity-summary__spark-area" />
+            <polyline points={points} className="integrity-summary__spark-line" vectorEffect="non-scaling-stroke" />
+          </svg>
+          <div className="integrity-summary__spark-axis">
+            <span>0:00</span>
+            <span>Risk over time</span>
+            <span>{formatTs(summary.durationMs)}</span>
+          </div>
+        </div>
+      )}
+
+      {summary.counts.length > 0 && (
+        <ul className="integrity-summary__counts">
+          {summary.counts.map((c) => (
+            <li key={c.type} className={`integrity-summary__count integrity-summary__count--${c.severity}`}>
+              <span aria-hidden>{flagIcon(c.type)}</span>
+              <span>{c.label}</span>
+              <strong>×{c.count}</strong>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="integrity-summary__stat">
+      <span className="integrity-summary__stat-label">{label}</span>
+      <span className="integrity-summary__stat-value">{value}</span>
+      {hint && <span className="integrity-summary__stat-hint">{hint}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * InterviewPhaseProgress — Strip under the interview header showing the plan's
+ * phases (sized by time budget), the current one, and what is left of it.
+ */
+
+import type { InterviewPlan } from "../types/gemini";
+import { phaseEndsMs, planDurationMs } from "../lib/interviewPlan";
+
+interface Props {
+  plan: InterviewPlan;
+  phaseIndex: number;
+  phaseQuestionCount: number;
+  elapsedMs: number;
+  /** Includes proctor extensions, which lengthen the phase before the close */
+  timeLimitMs: number;
+}
+
+function formatLeft(ms: number): string {
+  const totalSec = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(totalSec / 60)}:${String(totalSec % 60).padStart(2, "0")}`;
+}
+
+export function InterviewPhaseProgress({ plan, phaseIndex, phaseQuestionCount, elapsedMs, timeLimitMs }: Props) {
+  const ends = phaseEndsMs(plan, Math.max(0, timeLimitMs - planDurationMs(plan)));
+  const phase = plan.phases[phaseIndex];
+  if (!phase) return null;
+  const leftMs = (ends[phaseIndex] ?? 0) - elapsedMs;
+
+  return (
+    <div className="vc-phases" aria-label="Interview phases">
+      <ol className="vc-phases__track">
+        {plan.phases.map((p, i) => {
+          const state = i < phaseIndex ? "done" : i === phaseIndex ? "current" : "upcoming";
+          return (
+            <li
+              key={i}
+              className={`vc-phases__step vc-phases__step--${state}`}
+              style={{ flexGrow: p.minutes }}
+              aria-current={i === phaseIndex ? "step" : undefined}
+              title={`${p.name} · ${p.minutes} min`}
+            >
+              <span className="vc-phases__name">{p.name}</span>
+            </li>
+          );
+        })}
+      </ol>
+      <p className="vc-phases__detail">
+        Phase {phaseIndex + 1} of {plan.phases.length}: <strong>{phase.name}</strong>
+        {phase.maxQuestions ? ` · ${Math.min(phaseQuestionCount, phase.maxQuestions)} / ${phase.maxQuestions} questions` : ""}
+        {phase.kind !== "close" && ` · ${formatLeft(leftMs)} left`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * InterviewPlanEditor — Template form section for the interview plan: phases
+ * in order with time budgets, question counts and extra guidance. Off = the
+ * default plan; the close phase always stays last.
+ */
+
+import type { InterviewPhase, InterviewPhaseKind, InterviewPlan } from "../types/gemini";
+import {
+  DEFAULT_INTERVIEW_PLAN,
+  INTERVIEW_PHASE_KINDS,
+  INTERVIEW_PHASE_LABELS,
+  MAX_PHASE_MINUTES,
+  MAX_PHASE_QUESTIONS,
+  planDurationMs,
+  planQuestionLimit,
+} from "../lib/interviewPlan";
+
+interface Props {
+  /** null = default plan */
+  value: InterviewPlan | null;
+  onChange: (plan: InterviewPlan | null) => void;
+}
+
+const BODY_KINDS = INTERVIEW_PHASE_KINDS.filter((k) => k !== "close");
+
+export function InterviewPlanEditor({ value, onChange }: Props) {
+  const plan = value ?? DEFAULT_INTERVIEW_PLAN;
+  const closeIndex = plan.phases.length - 1;
+
+  const setPhases = (phases: InterviewPhase[]) => onChange({ ...plan, phases });
+  const updatePhase = (index: number, patch: Partial<InterviewPhase>) =>
+    setPhases(plan.phases.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  const move = (index: number, by: -1 | 1) => {
+    const phases = [...plan.phases];
+    const [phase] = phases.splice(index, 1);
+    phases.splice(index + by, 0, phase!);
+    setPhases(phases);
+  };
+  const addPhase = () => {
+    const phases = [...plan.phases];
+    phases.splice(closeIndex, 0, { kind: "technical", name: INTERVIEW_PHASE_LABELS.technical, minutes: 5, maxQuestions: 4 });
+    setPhases(phases);
+  };
+
+  const questions = planQuestionLimit(plan);
+
+  return (
+    <fieldset className="plan-editor">
+      <legend className="plan-editor__legend">Interview plan</legend>
+      <label className="admin-template-modal__label admin-template-modal__label--row">
+        <input
+          type="checkbox"
+          checked={value !== null}
+          onChange={(e) => onChange(e.target.checked ? { ...DEFAULT_INTERVIEW_PLAN, phases: DEFAULT_INTERVIEW_PLAN.phases.map((p) => ({ ...p })) } : null)}
+        />
+        <span>Custom phases (otherwise the default {planDurationMs(DEFAULT_INTERVIEW_PLAN) / 60_000}-minute plan)</span>
+      </label>
+
+      {value !== null && (
+        <>
+          <ol className="plan-editor__phases">
+            {plan.phases.map((phase, i) => {
+              const isClose = i === closeIndex;
+              return (
+                <li key={i} className="plan-editor__phase">
+                  <div className="plan-editor__row">
+                    {isClose ? (
+                      <span className="plan-editor__kind">{INTERVIEW_PHASE_LABELS.close}</span>
+                    ) : (
+                      <select
+                        className="plan-editor__select"
+                        value={phase.kind}
+                        aria-label="Phase type"
+                        onChange={(e) => {
+                          const kind = e.target.value as InterviewPhaseKind;
+                          // Keep a renamed phase's name; a default name follows the type
+                          const name = phase.name === INTERVIEW_PHASE_LABELS[phase.kind] ? INTERVIEW_PHASE_LABELS[kind] : phase.name;
+                          updatePhase(i, { kind, name });
+                        }}
+                      >
+                        {BODY_KINDS.map((k) => (
+                          <option key={k} value={k}>
+                            {INTERVIEW_PHASE_LABELS[k]}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <input
+                      type="text"
+                      className="plan-editor__input plan-editor__input--name"
+                      value={phase.name}
+                      maxLength={60}
+                      aria-label="Phase name"
+                      onChange={(e) => updatePhase(i, { name: e.target.value })}
+                    />
+                  </div>
+                  <div className="plan-editor__row">
+                    <label className="plan-editor__number">
+                      <input
+                        type="number"
+                        className="plan-editor__input"
+                        min={0.5}
+                        max={MAX_PHASE_MINUTES}
+                        step={0.5}
+                        value={phase.minutes}
+                        onChange={(e) => updatePhase(i, { minutes: Number(e.target.value) })}
+                      />
+                      min
+                    </label>
+                    {!isClose && (
+                      <label className="plan-editor__number">
+                        <input
+                          type="number"
+                          className="plan-editor__input"
+                          min={0}
+                          max={MAX_PHASE_QUESTIONS}
+                          value={phase.maxQuestions ?? ""}
+                          placeholder="–"
+                          onChange={(e) => updatePhase(i, { maxQuestions: e.target.value ? Number(e.target.value) : undefined })}
+                        />
+                        questions
+                      </label>
+                    )}
+                    {!isClose && (
+                      <span className="plan-editor__actions">
+                        <button type="button" className="btn btn--secondary btn--sm" disabled={i === 0} onClick={() => move(i, -1)} aria-label="Move up">
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn--secondary btn--sm"
+                          disabled={i >= closeIndex - 1}
+                          onClick={() => move(i, 1)}
+                          aria-label="Move down"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn--secondary btn--sm"
+                          disabled={closeIndex <= 1}
+                          onClick={() => setPhases(plan.phases.filter((_, j) => j !== i))}
+                        >
+                          Remove
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                  {!isClose && (
+                    <input
+                      type="text"
+                      className="plan-editor__input"
+                      value={phase.instructions ?? ""}
+                      maxLength={500}
+                      placeholder="Extra guidance for the interviewer in this phase (optional)"
+                      onChange={(e) => updatePhase(i, { instructions: e.target.value || undefined })}
+                    />
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+          <div className="plan-editor__footer">
+            <button type="button" className="btn btn--secondary btn--sm" onClick={addPhase}>
+              + Add phase
+            </button>
+            <span className="pg-muted">
+              {planDurationMs(plan) / 60_000} min total{questions !== null ? ` · ${questions} questions` : " · phases without a count run on time"}
+            </span>
+          </div>
+          <label className="admin-template-modal__label admin-template-modal__label--row">
+            <span>Ask “Are you there?” after</span>
+            <input
+              type="number"
+              className="plan-editor__input plan-editor__input--short"
+              min={2}
+              max={30}
+              value={plan.silencePromptAfterSec ?? ""}
+              onChange={(e) => onChange({ ...plan, silencePromptAfterSec: e.target.value ? Number(e.target.value) : undefined })}
+            />
+            <span>seconds of silence</span>
+          </label>
+        </>
+      )}
+    </fieldset>
+  );
+}
@@ -7,14 +7,24 @@
 
 import { useParams, useNavigate } from "react-router-dom";
 import { useState, useRef } from "react";
-import { useGetInterviewQuery } from "../store/endpoints/interviews";
+import { useGetInterviewQuery, type SessionRecording } from "../store/endpoints/interviews";
 import { useGetSettingsQuery } from "../store/endpoints/settings";
 import { useGetLiveKitConfigQuery, useGetLiveKitTokenMutation } from "../store/endpoints/livekit";
 import { useAppSelector } from "../store/hooks";
 import { selectUserRole } from "../store/authSlice";
 import type { EvaluationReport, ComputedScoring } from "../lib/report-generator";
+import { DEFAULT_SCORING_PROFILE, scoringProfileLabel } from "../lib/scoring-profile";
 import { reportToPdf } from "../lib/reportToPdf";
 import { logErrorToServer } from "../lib/logError";
+import type { ProctoringFlag } from "../proctoring/types";
+import { FlagAppealPanel } from "./FlagAppealPanel";
+import { FlagReviewPlayer } from "./FlagReviewPlayer";
+import { IntegritySummaryPanel } from "./IntegritySummaryPanel";
+import { SystemCheckSummary } from "./SystemCheckSummary";
+import { hasProctoringData } from "../proctoring/integritySummary";
+import { QuestionScoresTable } from "./QuestionScoresTable";
+import { RubricScoresTable } from "./RubricScoresTable";
+import type { InterviewToolRecord } from "../lib/interview-tools";
 
 // Saved detail shape (mirrors what ConversationReport persists)
 interface InterviewDetailData {
@@ -25,13 +35,20 @@ interface InterviewDetailData {
 }
 
 // API response shape
-interface InterviewApiResponse {
+interface InterviewApiResponse extends SessionRecording {
   id: string;
   report: EvaluationReport | null;
   scoring: ComputedScoring | null;
   duration: number | null;
   createdAt: string;
   completedAt: string | null;
+  proctoringFlags?: ProctoringFlag[] | null;
+  riskScore?: number | null;
+  proctoringLog?: unknown;
+  riskSeries?: unknown;
+  systemCheck?: unknown;
+  /** Interviewer's function calls (rubric scores, topics covered) */
+  toolCalls?: InterviewToolRecord[] | null;
 }
 
 function formatDuration(seconds: number | null): string {
@@ -70,7 +87,17 @@ export function InterviewReportView() {
     (userRole === "ADMIN" || (settings?.livekitObserverTokenAllowed && (userRole === "HIRING_MANAGER" || userRole === "COLLEGE")));
 
   const { data, isLoading, isError, error } = useGetInterviewQuery(id!, { skip: !id });
-  const detail = dataToDetail(data as InterviewApiResponse | undefined);
+  const apiData = data as InterviewApiResponse | undefined;
+  const detail = dataToDetail(apiData);
+  const proctoringFlags = apiData?.proctoringFlags ?? [];
+  const toolLog = apiData?.toolCalls ?? [];
+  const proctoringSource = {
+    flags: proctoringFlags,
+    riskScore: apiData?.riskScore,
+    proctoringLog: apiData?.proctoringLog,
+    riskSeries: apiData?.riskSeries,
+    durationMs: (apiData?.duration ?? 0) * 1000,
+  };
   const errorMessage = isError && error && "data" in error ? (error as { data?: { error?: string } }).data?.error ?? "Failed to load interview" : null;
 
   if (isLoading) {
@@ -237,6 +264,7 @@ export function InterviewReportView() {
               </tr>
             </tbody>
           </table>
+          <RubricScoresTable report={report} toolLog={toolLog} />
         </SectionCard>
 
         {/* S3 — Technical Skills */}
@@ -359,6 +387,35 @@ export function InterviewReportView() {
           </div>
         </SectionCard>
 
+        {/* S13A — Proctoring: integrity summary, flags + appeals */}
+        {hasProctoringData(proctoringSource) && (
+          <SectionCard n={"13A"} title="Proctoring & Integrity" variant="red">
+            <IntegritySummaryPanel source={proctoringSource} />
+            {id && proctoringFlags.length > 0 && (
+              <>
+                <FlagAppealPanel
+                  sessionType="INTERVIEW"
+                  sessionId={id}
+                  flags={proctoringFlags}
+                  riskScore={apiData?.riskScore ?? 0}
+                  proctoringLog={apiData?.proctoringLog}
+                />
+                {userRole && userRole !== "CANDIDATE" && (
+                  <FlagReviewPlayer
+                    sessionType="INTERVIEW"
+                    sessionId={id}
+                    flags={proctoringFlags}
+                    videoUrl={apiData?.recordingUrl}
+                    videoOffsetMs={apiData?.recordingOffsetMs ?? 0}
+                    downloadName="interview-recording.webm"
+                  />
+                )}
+              </>
+            )}
+            {userRole && userRole !== "CANDIDATE" && <SystemCheckSummary systemCheck={apiData?.systemCheck} />}
+          </SectionCard>
+        )}
+
         {/* S14A — Scoring Formula */}
         <SectionCard n={"14A"} title="Automated Scoring Breakdown">
           <div className="eval-formula">
@@ -380,6 +437,10 @@ export function InterviewReportView() {
               </span>
               <span className="eval-formula__value">x{scoring.confidenceFactor}</span>
             </div>
+            <div className="eval-formula__row">
+              <span className="eval-formula__label">Scoring Profile</span>
+              <span className="eval-formula__value">{scoringProfileLabel(scoring.profile ?? DEFAULT_SCORING_PROFILE)}</span>
+            </div>
             <div className="eval-formula__row eval-formula__row--total">
               <span className="eval-formula__label">Final Overall Score</span>
               <span className="eval-formula__value" style={{ color: scoreClr(scoring.overallScore) }}>
@@ -461,6 +522,13 @@ export function InterviewReportView() {
           )}
         </SectionCard>
 
+        {/* S18A — Question-by-Question Scoring */}
+        {report.questionScores && (
+          <SectionCard n="18A" title="Question-by-Question Scoring">
+            <QuestionScoresTable scores={report.questionScores} />
+          </SectionCard>
+        )}
+
         {/* S19 — Ethical & Compliance */}
         <SectionCard n={19} title="Ethical & Compliance Check">
           <div className="eval-criteria">
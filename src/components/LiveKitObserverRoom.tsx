@@ -1,38 +1,127 @@
 /**
  * LiveKitObserverRoom — View-only room for HR/observers.
- * Receives token, url, roomName from location.state (from "Join as observer" flow).
+ * Receives token, url, roomName from location.state (from "Join as observer" flow);
+ * ObserverRoom is the same view for embedding (the proctor wall's expanded candidate).
  * Does not publish audio/video; only subscribes to remote participants.
+ * Shows the candidate's proctoring stream (flags, risk) when the data channel is on,
+ * with proctor controls (warning, pause, extend, terminate) audited on the interview.
  */
 
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { LiveKitRoom, TrackLoop, useTracks, ParticipantTile } from "@livekit/components-react";
 import { Track } from "livekit-client";
+import { useGetSettingsQuery } from "../store/endpoints/settings";
+import { useRecordInterventionMutation } from "../store/endpoints/interviews";
+import {
+  createIntervention,
+  useInterventionSender,
+  useProctoringFeed,
+  type InterventionDraft,
+} from "../proctoring/liveChannel";
+import { flagSeverity } from "../proctoring/integritySummary";
+import { formatTs } from "./FlagsTimeline";
+import { LiveProctoringPanel } from "./LiveProctoringPanel";
+import { ProctorControls } from "./ProctorControls";
+import { useToast } from "./Toast";
+import { logErrorToServer } from "../lib/logError";
 
-interface ObserverState {
+export interface ObserverConnection {
   token: string;
   url: string;
   roomName: string;
+  /** Interview being observed; otherwise taken from the candidate's proctoring snapshot */
+  interviewId?: string;
 }
 
-function ObserverRoomInner() {
+function ObserverRoomInner({ roomName, interviewId: interviewIdFromState }: { roomName: string; interviewId?: string }) {
   const tracks = useTracks([Track.Source.Camera, Track.Source.Microphone, Track.Source.ScreenShare]);
+  const { data: settings } = useGetSettingsQuery();
+  const toast = useToast();
+  const feed = useProctoringFeed((flag) => {
+    if (flagSeverity(flag.type) === "high") toast.error(`${formatTs(flag.timestamp)} · ${flag.message}`);
+  });
+
+  const streaming = settings?.livekitDataChannelEnabled === true;
+  const interviewId = interviewIdFromState ?? feed.interviewId;
+  const { send, sent } = useInterventionSender(feed.from);
+  const [recordIntervention] = useRecordInterventionMutation();
+
+  // Audited first: an action that cannot be recorded is not sent
+  const handleIntervention = async (draft: InterventionDraft): Promise<boolean> => {
+    if (!interviewId) return false;
+    const intervention = createIntervention(draft);
+    try {
+      await recordIntervention({ id: interviewId, intervention, roomName }).unwrap();
+      await send(intervention);
+      toast.success("Sent to the candidate");
+      return true;
+    } catch (err: any) {
+      const msg = err?.data?.error || "Failed to send the intervention";
+      toast.error(msg);
+      logErrorToServer(msg, { source: "observer_intervention" });
+      return false;
+    }
+  };
+
+  // Alert once each time the candidate crosses into High Risk
+  const prevLevelRef = useRef(feed.riskLevel);
+  useEffect(() => {
+    if (feed.riskLevel === "High Risk" && prevLevelRef.current !== "High Risk") {
+      toast.error(`Risk score is high (${Math.round(feed.riskScore)}). Consider intervening.`);
+    }
+    prevLevelRef.current = feed.riskLevel;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [feed.riskLevel]);
+
   return (
     <div className="pro-session pro-session--observer">
-      <div className="pro-session__video">
-        <TrackLoop tracks={tracks}>
-          <ParticipantTile />
-        </TrackLoop>
+      <div className="pro-session__layout">
+        <div className="pro-session__video">
+          <TrackLoop tracks={tracks}>
+            <ParticipantTile />
+          </TrackLoop>
+        </div>
+        <LiveProctoringPanel feed={feed} streaming={streaming}>
+          {streaming && (
+            <ProctorControls
+              paused={feed.paused}
+              disabledReason={
+                !feed.from ? "Controls become available once the candidate's session is streaming." : !interviewId ? "Waiting for the interview record…" : null
+              }
+              sent={sent}
+              onSend={handleIntervention}
+            />
+          )}
+        </LiveProctoringPanel>
       </div>
-      <p className="pro-session__observer-hint">View-only mode. You are not visible to participants.</p>
+      <p className="pro-session__observer-hint">Observer mode. You are not visible to participants.</p>
     </div>
   );
 }
 
+/** Observer view for one room; `onLeave` runs when the connection ends. */
+export function ObserverRoom({ connection, onLeave }: { connection: ObserverConnection; onLeave: () => void }) {
+  return (
+    <LiveKitRoom
+      serverUrl={connection.url}
+      token={connection.token}
+      connect={true}
+      audio={false}
+      video={false}
+      onDisconnected={onLeave}
+      onError={(err) => console.error("[LiveKit Observer]", err)}
+      style={{ height: "100vh", display: "flex", flexDirection: "column" }}
+    >
+      <ObserverRoomInner roomName={connection.roomName} interviewId={connection.interviewId} />
+    </LiveKitRoom>
+  );
+}
+
 export function LiveKitObserverRoom() {
   const location = useLocation();
   const navigate = useNavigate();
-  const state = location.state as ObserverState | null;
+  const state = location.state as ObserverConnection | null;
 
   useEffect(() => {
     if (!state?.token || !state?.url) {
@@ -48,18 +137,5 @@ export function LiveKitObserverRoom() {
     );
   }
 
-  return (
-    <LiveKitRoom
-      serverUrl={state.url}
-      token={state.token}
-      connect={true}
-      audio={false}
-      video={false}
-      onDisconnected={() => navigate("/dashboard", { replace: true })}
-      onError={(err) => console.error("[LiveKit Observer]", err)}
-      style={{ height: "100vh", display: "flex", flexDirection: "column" }}
-    >
-      <ObserverRoomInner />
-    </LiveKitRoom>
-  );
+  return <ObserverRoom connection={state} onLeave={() => navigate("/dashboard", { replace: true })} />;
 }
@@ -0,0 +1,85 @@
+/**
+ * LiveProctoringPanel — Observer-side view of the candidate's proctoring
+ * stream: risk gauge, face count and the flags raised so far (newest first).
+ */
+
+import type { ReactNode } from "react";
+import type { ProctoringFeed } from "../proctoring/liveChannel";
+import { flagSeverity } from "../proctoring/integritySummary";
+import { flagIcon, formatTs } from "./FlagsTimeline";
+
+interface Props {
+  feed: ProctoringFeed;
+  /** false when the data channel setting is off (nothing will arrive) */
+  streaming: boolean;
+  /** Rendered below the flags (proctor controls) */
+  children?: ReactNode;
+}
+
+const LEVEL_CLASS: Record<ProctoringFeed["riskLevel"], string> = {
+  OK: "ok",
+  Warning: "warning",
+  "High Risk": "high",
+};
+
+export function LiveProctoringPanel({ feed, streaming, children }: Props) {
+  const waiting = feed.at === null;
+  return (
+    <aside className="live-proctoring" aria-label="Live proctoring">
+      <h3 className="live-proctoring__title">Live proctoring</h3>
+
+      {!streaming ? (
+        <p className="live-proctoring__hint">
+          Live proctoring data is off. Enable the LiveKit data channel in Settings to stream flags to observers.
+        </p>
+      ) : waiting ? (
+        <p className="live-proctoring__hint">Waiting for proctoring data from the candidate…</p>
+      ) : (
+        <>
+          <div className={`live-proctoring__gauge live-proctoring__gauge--${LEVEL_CLASS[feed.riskLevel]}`}>
+            <div className="live-proctoring__gauge-head">
+              <span className="live-proctoring__score">{Math.round(feed.riskScore)}</span>
+              <span className="live-proctoring__level">{feed.riskLevel}</span>
+              {feed.paused && <span className="live-proctoring__paused">Timer paused</span>}
+            </div>
+            <div
+              className="live-proctoring__gauge-track"
+              role="meter"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(feed.riskScore)}
+              aria-label="Risk score"
+            >
+              <div className="live-proctoring__gauge-fill" style={{ width: `${Math.min(100, feed.riskScore)}%` }} />
+            </div>
+            <div className="live-proctoring__meta">
+              {feed.faceCount !== null && (
+                <span>
+                  {feed.faceCount} face{feed.faceCount === 1 ? "" : "s"}
+                </span>
+              )}
+              <span>{formatTs(feed.at ?? 0)}</span>
+            </div>
+          </div>
+
+          {feed.flags.length === 0 ? (
+            <p className="live-proctoring__hint">No flags so far.</p>
+          ) : (
+            <ul className="live-proctoring__flags">
+              {[...feed.flags].reverse().map((f) => (
+                <li key={f.id} className={`live-proctoring__flag live-proctoring__flag--${flagSeverity(f.type)}`}>
+                  <span className="live-proctoring__flag-icon" aria-hidden>
+                    {flagIcon(f.type)}
+                  </span>
+                  <span className="live-proctoring__flag-time">{formatTs(f.timestamp)}</span>
+                  <span className="live-proctoring__flag-msg">{f.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+      {children}
+    </aside>
+  );
+}
@@ -1,37 +1,58 @@
 /**
  * MalpracticeOverlay — Blocking overlay shown when tab switch, window switch,
- * or fullscreen exit is detected. Warns that the action is recorded and may
- * lead to dismissal; requires acknowledgment (and fullscreen when applicable).
+ * or fullscreen exit is detected, or when a live proctor sends a warning.
+ * Warns that the action is recorded and may lead to dismissal; requires
+ * acknowledgment (and fullscreen when applicable).
  */
 
-import { DISMISSAL_WARNING } from "../proctoring/types";
+import { APPEAL_HINT, DISMISSAL_WARNING, type FlagType } from "../proctoring/types";
 
 export type MalpracticeKind = "tab_switch" | "window_switch" | "fullscreen_exit";
 
+/** Proctoring flag each overlay kind corresponds to */
+export const MALPRACTICE_KIND_FLAG: Record<MalpracticeKind, FlagType> = {
+  tab_switch: "TAB_HIDDEN",
+  window_switch: "WINDOW_BLUR",
+  fullscreen_exit: "FULLSCREEN_EXIT",
+};
+
+/** Whether the resolved policy treats this kind as malpractice (i.e. shows the overlay) */
+export function isMalpracticeKind(kind: MalpracticeKind, malpracticeFlagTypes: readonly FlagType[]): boolean {
+  return malpracticeFlagTypes.includes(MALPRACTICE_KIND_FLAG[kind]);
+}
+
+/** Overlay kinds: detected malpractice, or a warning typed by a live proctor */
+export type OverlayKind = MalpracticeKind | "proctor_warning";
+
 interface Props {
-  kind: MalpracticeKind;
+  kind: OverlayKind;
+  /** proctor_warning: the proctor's message (replaces the description) */
+  message?: string;
   onAcknowledge: () => void;
   onRequestFullscreen?: () => void;
   isFullscreen: boolean;
 }
 
-const TITLES: Record<MalpracticeKind, string> = {
+const TITLES: Record<OverlayKind, string> = {
   tab_switch: "Tab switch detected",
   window_switch: "Window switch detected",
   fullscreen_exit: "Fullscreen required",
+  proctor_warning: "Warning from your proctor",
 };
 
-const DESCRIPTIONS: Record<MalpracticeKind, string> = {
+const DESCRIPTIONS: Record<OverlayKind, string> = {
   tab_switch:
     "You switched to another browser tab. You must stay on this tab for the entire interview.",
   window_switch:
     "You switched to another application or window. You must keep this window focused for the entire interview.",
   fullscreen_exit:
     "You left fullscreen mode. You must remain in fullscreen for the entire interview. Do not use other monitors or windows.",
+  proctor_warning: "A proctor watching this session has sent you a warning.",
 };
 
 export function MalpracticeOverlay({
   kind,
+  message,
   onAcknowledge,
   onRequestFullscreen,
   isFullscreen,
@@ -49,8 +70,9 @@ export function MalpracticeOverlay({
         <h2 id="malpractice-title" className="malpractice-overlay__title">
           {TITLES[kind]}
         </h2>
-        <p className="malpractice-overlay__desc">{DESCRIPTIONS[kind]}</p>
+        <p className="malpractice-overlay__desc">{(kind === "proctor_warning" && message) || DESCRIPTIONS[kind]}</p>
         <p className="malpractice-overlay__warning">{DISMISSAL_WARNING}</p>
+        <p className="malpractice-overlay__appeal">{APPEAL_HINT}</p>
         <div className="malpractice-overlay__actions">
           {needsFullscreen && onRequestFullscreen && (
             <button
@@ -0,0 +1,142 @@
+/**
+ * ProctorControls — Observer-room intervention controls: warn the candidate,
+ * pause / resume their timer, extend time, or terminate with a reason.
+ * Each action is audited on the interview before it is sent; the log below
+ * shows whether the candidate's session acknowledged it.
+ */
+
+import { useState } from "react";
+import type { InterventionDraft, SentIntervention } from "../proctoring/liveChannel";
+import type { ObserverIntervention } from "../proctoring/types";
+
+interface Props {
+  /** Candidate's timer is paused (from the live feed) */
+  paused: boolean;
+  /** Why the controls are unavailable (null = enabled) */
+  disabledReason: string | null;
+  sent: SentIntervention[];
+  onSend: (draft: InterventionDraft) => Promise<boolean>;
+}
+
+const EXTEND_MINUTES = [2, 5, 10];
+
+function describe(intervention: ObserverIntervention): string {
+  switch (intervention.type) {
+    case "warning":
+      return `Warning: “${intervention.message}”`;
+    case "pause":
+      return "Paused the timer";
+    case "resume":
+      return "Resumed the timer";
+    case "extend":
+      return `Extended time by ${intervention.minutes} min`;
+    case "terminate":
+      return `Terminated: ${intervention.reason}`;
+  }
+}
+
+export function ProctorControls({ paused, disabledReason, sent, onSend }: Props) {
+  const [warning, setWarning] = useState("");
+  const [minutes, setMinutes] = useState(EXTEND_MINUTES[1]!);
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState(false);
+  const terminated = sent.some((s) => s.intervention.type === "terminate");
+  const disabled = busy || !!disabledReason || terminated;
+
+  const run = async (draft: InterventionDraft, onSent?: () => void) => {
+    setBusy(true);
+    try {
+      if (await onSend(draft)) onSent?.();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const terminate = () => {
+    if (!confirm(`End this candidate's session now?\n\nReason: ${reason.trim()}`)) return;
+    void run({ type: "terminate", reason: reason.trim() }, () => setReason(""));
+  };
+
+  return (
+    <section className="proctor-controls" aria-label="Proctor controls">
+      <h4 className="proctor-controls__title">Intervene</h4>
+      {disabledReason && <p className="live-proctoring__hint">{disabledReason}</p>}
+
+      <div className="proctor-controls__row">
+        <input
+          type="text"
+          className="proctor-controls__input"
+          placeholder="Warning message to the candidate"
+          value={warning}
+          maxLength={300}
+          onChange={(e) => setWarning(e.target.value)}
+          disabled={disabled}
+        />
+        <button
+          type="button"
+          className="btn btn--secondary btn--sm"
+          disabled={disabled || !warning.trim()}
+          onClick={() => void run({ type: "warning", message: warning.trim() }, () => setWarning(""))}
+        >
+          Send warning
+        </button>
+      </div>
+
+      <div className="proctor-controls__row">
+        <button
+          type="button"
+          className="btn btn--secondary btn--sm"
+          disabled={disabled}
+          onClick={() => void run({ type: paused ? "resume" : "pause" })}
+        >
+          {paused ? "Resume timer" : "Pause timer"}
+        </button>
+        <select
+          className="proctor-controls__select"
+          value={minutes}
+          onChange={(e) => setMinutes(Number(e.target.value))}
+          disabled={disabled}
+          aria-label="Minutes to add"
+        >
+          {EXTEND_MINUTES.map((m) => (
+            <option key={m} value={m}>
+              +{m} min
+            </option>
+          ))}
+        </select>
+        <button type="button" className="btn btn--secondary btn--sm" disabled={disabled} onClick={() => void run({ type: "extend", minutes })}>
+          Extend time
+        </button>
+      </div>
+
+      <div className="proctor-controls__row">
+        <input
+          type="text"
+          className="proctor-controls__input"
+          placeholder="Reason for terminating (shown to the candidate)"
+          value={reason}
+          maxLength={300}
+          onChange={(e) => setReason(e.target.value)}
+          disabled={disabled}
+        />
+        <button type="button" className="btn btn--danger btn--sm" disabled={disabled || !reason.trim()} onClick={terminate}>
+          Terminate
+        </button>
+      </div>
+
+      {sent.length > 0 && (
+        <ul className="proctor-controls__log">
+          {[...sent].reverse().map((s) => (
+            <li key={s.intervention.id} className="proctor-controls__log-item">
+              <span className="proctor-controls__log-time">{new Date(s.sentAt).toLocaleTimeString()}</span>
+              <span className="proctor-controls__log-text">{describe(s.intervention)}</span>
+              <span className={`proctor-controls__log-status ${s.acknowledged ? "proctor-controls__log-status--ack" : ""}`}>
+                {s.acknowledged ? "Applied" : "Sent"}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * ProctorWallPage — One screen for watching many concurrent professional
+ * interviews (campus drives). Every live session gets a tile that joins its
+ * room as an observer for the proctoring data stream only (no media is
+ * subscribed, so 50 rooms stay cheap). Tiles are ordered by live risk score,
+ * highlight new flags, and expand into the full observer view with controls.
+ */
+
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { LiveKitRoom } from "@livekit/components-react";
+import { useGetLiveKitTokenMutation, useListLiveSessionsQuery, type LiveSession } from "../store/endpoints/livekit";
+import { useGetSettingsQuery } from "../store/endpoints/settings";
+import { useProctoringFeed, type ProctoringFeed } from "../proctoring/liveChannel";
+import { flagSeverity } from "../proctoring/integritySummary";
+import { flagIcon, formatTs } from "./FlagsTimeline";
+import { ObserverRoom, type ObserverConnection } from "./LiveKitObserverRoom";
+import { BoltIcon } from "./AppLogo";
+
+/** How often the list of live sessions is refreshed */
+const SESSIONS_POLL_MS = 15_000;
+/** A tile stays highlighted this long after a new flag */
+const NEW_FLAG_HIGHLIGHT_MS = 10_000;
+
+const LEVEL_CLASS: Record<ProctoringFeed["riskLevel"], string> = {
+  OK: "ok",
+  Warning: "warning",
+  "High Risk": "high",
+};
+
+export function ProctorWallPage() {
+  const navigate = useNavigate();
+  const { data: sessions = [], isLoading } = useListLiveSessionsQuery(undefined, { pollingInterval: SESSIONS_POLL_MS });
+  const { data: settings } = useGetSettingsQuery();
+  const [feeds, setFeeds] = useState<Record<string, ProctoringFeed>>({});
+  const [expanded, setExpanded] = useState<ObserverConnection | null>(null);
+
+  const handleFeed = useCallback((roomName: string, feed: ProctoringFeed) => {
+    setFeeds((prev) => ({ ...prev, [roomName]: feed }));
+  }, []);
+  const handleExpand = useCallback((connection: ObserverConnection) => setExpanded(connection), []);
+
+  // Drop feeds of sessions that have ended so the ranking and counts only cover live rooms
+  useEffect(() => {
+    const live = new Set(sessions.map((s) => s.roomName));
+    setFeeds((prev) => {
+      const stale = Object.keys(prev).filter((roomName) => !live.has(roomName));
+      if (stale.length === 0) return prev;
+      const next = { ...prev };
+      for (const roomName of stale) delete next[roomName];
+      return next;
+    });
+  }, [sessions]);
+
+  // Highest live risk first; sessions without data yet go last. Applied with CSS `order`
+  // so tiles (and their room connections) are never remounted when the ranking changes.
+  const order = useMemo(() => {
+    const ranked = [...sessions].sort((a, b) => (feeds[b.roomName]?.riskScore ?? -1) - (feeds[a.roomName]?.riskScore ?? -1));
+    return new Map(ranked.map((s, i) => [s.roomName, i]));
+  }, [sessions, feeds]);
+
+  const highRisk = sessions.filter((s) => feeds[s.roomName]?.riskLevel === "High Risk").length;
+
+  return (
+    <div className="dash">
+      <header className="dash__topbar">
+        <button type="button" className="dash__brand" onClick={() => navigate("/dashboard")} title="Dashboard">
+          <div className="dash__brand-icon">
+            <BoltIcon />
+          </div>
+          <span className="dash__brand-name">VocalHireAI</span>
+        </button>
+        <div className="dash__user-section">
+          <button type="button" className="dash__topbar-btn" onClick={() => navigate("/dashboard")}>
+            ← Dashboard
+          </button>
+        </div>
+      </header>
+
+      <div className="dash__content">
+        <div className="admin-page__body">
+          <h1 className="dash__welcome-title">Proctor Wall</h1>
+          <p className="pg-muted" style={{ marginBottom: "1rem" }}>
+            {sessions.length} live session{sessions.length === 1 ? "" : "s"}
+            {highRisk > 0 && <span className="proctor-wall__high-count"> · {highRisk} high risk</span>}. Click a candidate to
+            open the observer view.
+          </p>
+
+          {settings && !settings.livekitDataChannelEnabled && (
+            <p className="live-proctoring__hint" style={{ marginBottom: "1rem" }}>
+              Live proctoring data is off. Enable the LiveKit data channel in Settings to see risk scores and flags.
+            </p>
+          )}
+
+          {isLoading ? (
+            <div className="admin-page__loading">Loading live sessions...</div>
+          ) : sessions.length === 0 ? (
+            <p className="pg-muted">No professional interviews are in progress.</p>
+          ) : (
+            <div className="proctor-wall">
+              {sessions.map((session) => (
+                <ProctorWallTile
+                  key={session.roomName}
+                  session={session}
+                  order={order.get(session.roomName) ?? sessions.length}
+                  expanded={expanded?.roomName === session.roomName}
+                  onFeed={handleFeed}
+                  onExpand={handleExpand}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="proctor-wall__expanded">
+          <button type="button" className="btn btn--secondary btn--sm proctor-wall__back" onClick={() => setExpanded(null)}>
+            ← Back to wall
+          </button>
+          <ObserverRoom connection={expanded} onLeave={() => setExpanded(null)} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface TileProps {
+  session: LiveSession;
+  order: number;
+  /** Open in the expanded view; the tile drops its own connection meanwhile */
+  expanded: boolean;
+  onFeed: (roomName: string, feed: ProctoringFeed) => void;
+  onExpand: (connection: ObserverConnection) => void;
+}
+
+const ProctorWallTile = memo(function ProctorWallTile({ session, order, expanded, onFeed, onExpand }: TileProps) {
+  const [getToken] = useGetLiveKitTokenMutation();
+  const [connection, setConnection] = useState<ObserverConnection | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getToken({ roomName: session.roomName, interviewId: session.interviewId, role: "observer", participantName: "Proctor" })
+      .unwrap()
+      .then(({ token, url, roomName }) => {
+        if (!cancelled) setConnection({ token, url, roomName, interviewId: session.interviewId });
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [getToken, session.roomName, session.interviewId]);
+
+  const open = () => {
+    if (connection) onExpand(connection);
+  };
+
+  return (
+    <div className="proctor-wall__tile" style={{ order }} onClick={open}>
+      <div className="proctor-wall__tile-head">
+        <span className="proctor-wall__name">{session.candidateName}</span>
+        {session.templateName && <span className="proctor-wall__template">{session.templateName}</span>}
+        <button
+          type="button"
+          className="btn btn--secondary btn--sm proctor-wall__open"
+          disabled={!connection}
+          onClick={(e) => {
+            e.stopPropagation();
+            open();
+          }}
+        >
+          Open
+        </button>
+      </div>
+      {error ? (
+        <p className="live-proctoring__hint">Could not join this room.</p>
+      ) : !connection ? (
+        <p className="live-proctoring__hint">Connecting…</p>
+      ) : expanded ? (
+        <p className="live-proctoring__hint">Open in the observer view.</p>
+      ) : (
+        <LiveKitRoom
+          serverUrl={connection.url}
+          token={connection.token}
+          connect={true}
+          audio={false}
+          video={false}
+          connectOptions={{ autoSubscribe: false }}
+          onError={(err) => console.error("[LiveKit Proctor wall]", err)}
+        >
+          <TileFeed roomName={session.roomName} onFeed={onFeed} />
+        </LiveKitRoom>
+      )}
+    </div>
+  );
+});
+
+function TileFeed({ roomName, onFeed }: { roomName: string; onFeed: TileProps["onFeed"] }) {
+  const [flaggedAt, setFlaggedAt] = useState(0);
+  const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const feed = useProctoringFeed(() => {
+    setFlaggedAt(Date.now());
+    if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+    highlightTimeoutRef.current = setTimeout(() => setFlaggedAt(0), NEW_FLAG_HIGHLIGHT_MS);
+  });
+
+  useEffect(() => {
+    onFeed(roomName, feed);
+  }, [roomName, feed, onFeed]);
+  useEffect(
+    () => () => {
+      if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
+    },
+    [],
+  );
+
+  const latest = feed.flags[feed.flags.length - 1];
+  const levelClass = LEVEL_CLASS[feed.riskLevel];
+  return (
+    <div className={`proctor-wall__feed ${flaggedAt ? "proctor-wall__feed--new-flag" : ""}`}>
+      {feed.at === null ? (
+        <p className="live-proctoring__hint">Waiting for proctoring data…</p>
+      ) : (
+        <>
+          <div className={`live-proctoring__gauge live-proctoring__gauge--${levelClass}`}>
+            <div className="live-proctoring__gauge-head">
+              <span className="live-proctoring__score">{Math.round(feed.riskScore)}</span>
+              <span className="live-proctoring__level">{feed.riskLevel}</span>
+              {feed.paused && <span className="live-proctoring__paused">Paused</span>}
+            </div>
+            <div className="live-proctoring__gauge-track">
+              <div className="live-proctoring__gauge-fill" style={{ width: `${Math.min(100, feed.riskScore)}%` }} />
+            </div>
+          </div>
+          <div className="proctor-wall__meta">
+            <span>
+              {feed.flags.length} flag{feed.flags.length === 1 ? "" : "s"}
+            </span>
+            <span>{formatTs(feed.at)}</span>
+          </div>
+          {latest && (
+            <p className={`proctor-wall__latest live-proctoring__flag--${flagSeverity(latest.type)}`}>
+              {flagIcon(latest.type)} {latest.message}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
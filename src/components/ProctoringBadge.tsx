@@ -6,11 +6,12 @@
  *   - Numeric score (0–100)
  *   - Status label (OK / Warning / High Risk)
  *   - Optional face count + FPS
+ *   - Reduced detection tier on weak devices
  *
  * Designed to overlay on top of the interview video panel.
  */
 
-import type { ProctoringMetrics, RiskLevel } from "../proctoring/types";
+import type { DegradationTier, ProctoringMetrics, RiskLevel } from "../proctoring/types";
 
 interface Props {
   riskScore: number;
@@ -23,6 +24,8 @@ interface Props {
   className?: string;
   /** 0–1 mic level from VAD; when provided, show device status */
   micLevel?: number;
+  /** Current detection tier; shown when coverage is reduced */
+  tier?: DegradationTier;
 }
 
 export function ProctoringBadge({
@@ -35,6 +38,7 @@ export function ProctoringBadge({
   compact = false,
   className,
   micLevel,
+  tier,
 }: Props) {
   const levelClass =
     riskLevel === "OK"
@@ -82,6 +86,13 @@ export function ProctoringBadge({
       {/* Level label */}
       <span className="proctor-badge__label">{riskLevel}</span>
 
+      {/* Reduced coverage (weak device); shown in compact mode too */}
+      {tier && tier.level > 0 && (
+        <span className="proctor-badge__tier" title={`Detection reduced to keep this device responsive: ${tier.label}`}>
+          Reduced
+        </span>
+      )}
+
       {/* Extended info: face count, FPS, camera, mic */}
       {!compact && metrics && (
         <span className="proctor-badge__meta">
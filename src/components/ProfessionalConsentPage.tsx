@@ -1,15 +1,29 @@
 /**
  * ProfessionalConsentPage — Consent step before LiveKit + Gemini Live session.
  * User arrives here after completing the template form (professional variant).
+ * The system check (SystemCheckWizard) runs first and is stored with the interview;
+ * the face it enrols is handed to the session for the identity check.
  * On "I agree and start" we fetch LiveKit token and navigate to session.
  */
 
 import { useState } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { useGetLiveKitConfigQuery, useGetLiveKitTokenMutation } from "../store/endpoints/livekit";
+import { useUpdateProctoringMutation } from "../store/endpoints/interviews";
 import { Navigate } from "react-router-dom";
 import { useAppSelector } from "../store/hooks";
 import { selectTemplate, selectInterviewId, selectSelectedTemplateIdForFullFlow } from "../store/interviewSlice";
+import { SystemCheckWizard } from "./SystemCheckWizard";
+import type { SystemCheckRequirements, SystemCheckResult } from "../proctoring/types";
+import type { FaceReference } from "../proctoring/faceIdentity";
+
+/** Camera and microphone are required for the video room; fullscreen is not enforced here */
+const SYSTEM_CHECK_REQUIREMENTS: SystemCheckRequirements = {
+  camera: "required",
+  microphone: "required",
+  speaker: "required",
+  fullscreen: "off",
+};
 
 export function ProfessionalConsentPage() {
   const navigate = useNavigate();
@@ -21,6 +35,9 @@ export function ProfessionalConsentPage() {
   const [getToken, { isLoading }] = useGetLiveKitTokenMutation();
   const [error, setError] = useState<string | null>(null);
   const [dataSaver, setDataSaver] = useState(false);
+  const [systemCheck, setSystemCheck] = useState<SystemCheckResult | null>(null);
+  const [faceReference, setFaceReference] = useState<FaceReference | null>(null);
+  const [updateProctoring] = useUpdateProctoringMutation();
 
   // Must have completed template step (template + interview in Redux)
   if (!template) {
@@ -44,6 +61,22 @@ export function ProfessionalConsentPage() {
     );
   }
 
+  const handleSystemCheckComplete = (result: SystemCheckResult, enrolled: FaceReference | null) => {
+    setSystemCheck(result);
+    setFaceReference(enrolled);
+    // Slow connection: suggest lower video quality up front
+    if (result.items.some((i) => i.id === "network" && i.status === "warn")) setDataSaver(true);
+    updateProctoring({ id: interviewId, data: { systemCheck: result } }).catch(() => {});
+  };
+
+  if (!systemCheck) {
+    return (
+      <div className="pro-landing">
+        <SystemCheckWizard requirements={SYSTEM_CHECK_REQUIREMENTS} enrollFace onComplete={handleSystemCheckComplete} />
+      </div>
+    );
+  }
+
   const handleStart = async () => {
     setError(null);
     try {
@@ -53,7 +86,15 @@ export function ProfessionalConsentPage() {
         participantName: "Candidate",
       }).unwrap();
       navigate("/interview/professional/session", {
-        state: { ...location.state, token, url, roomName, dataSaver, agentDispatched: agentDispatched === true },
+        state: {
+          ...location.state,
+          token,
+          url,
+          roomName,
+          dataSaver,
+          agentDispatched: agentDispatched === true,
+          ...(faceReference && { faceReference }),
+        },
       });
     } catch (e) {
       const msg =
@@ -2,7 +2,9 @@
  * ProfessionalInterviewSession — LiveKit video room + Gemini Live voice interview.
  * Receives token, url, roomName, dataSaver from location.state (from ProfessionalConsentPage).
  * Template is taken from Redux (set by TemplateForm professional variant).
- * Features: connection quality indicator, reconnection overlay, optional data saver (lower video).
+ * Features: connection quality indicator, reconnection overlay, optional data saver (lower video),
+ * proctoring on the local camera track (streamed live to observers when the data channel is on),
+ * and live proctor interventions from the observer room (warning, pause, extend time, terminate).
  */
 
 import { useCallback, useEffect, useRef, useState } from "react";
@@ -23,12 +25,22 @@ import { useVoiceChat } from "../hooks/useVoiceChat";
 import { ConnectionStatus } from "./ConnectionStatus";
 import { setInterviewResult } from "../store/interviewSlice";
 import { useAppDispatch, useAppSelector } from "../store/hooks";
-import { selectTemplate, selectGuardrails } from "../store/interviewSlice";
+import { selectTemplate, selectGuardrails, selectInterviewId } from "../store/interviewSlice";
 import { saveTranscriptBackup } from "../lib/transcriptBackup";
 import { useGetSettingsQuery } from "../store/endpoints/settings";
 import { useReportLiveKitQualityMutation } from "../store/endpoints/livekit";
+import { useUpdateInterviewMutation, useUpdateProctoringMutation } from "../store/endpoints/interviews";
+import { ProctoringBadge } from "./ProctoringBadge";
+import { useProctoring } from "../proctoring/useProctoring";
+import { useProctoringPolicy } from "../proctoring/useProctoringPolicy";
+import { isFaceReference } from "../proctoring/faceIdentity";
+import { useObserverInterventions, useProctoringBroadcast } from "../proctoring/liveChannel";
+import type { ObserverIntervention } from "../proctoring/types";
+import { MalpracticeOverlay } from "./MalpracticeOverlay";
+import { CodeSnippetPanel } from "./CodeSnippetPanel";
 
-const MAX_DURATION_MS = 18 * 60 * 1000; // 18 min max; wrap-up at 17
+/** How long the candidate sees the termination reason before the session ends */
+const TERMINATION_NOTICE_MS = 5_000;
 
 function formatTime(ms: number): string {
   const totalSec = Math.floor(ms / 1000);
@@ -65,6 +77,8 @@ interface SessionState {
   dataSaver?: boolean;
   /** When true, backend dispatched a LiveKit agent to the room; do not start Gemini. */
   agentDispatched?: boolean;
+  /** Face enrolled in the consent page's system check (see faceIdentity.ts) */
+  faceReference?: unknown;
 }
 
 function ProfessionalSessionInner({ agentDispatched: agentDispatchedFromState }: { agentDispatched?: boolean }) {
@@ -75,8 +89,11 @@ function ProfessionalSessionInner({ agentDispatched: agentDispatchedFromState }:
   const lkConnectionState = useConnectionState();
   const template = useAppSelector(selectTemplate);
   const guardrails = useAppSelector(selectGuardrails);
+  const interviewId = useAppSelector(selectInterviewId);
   const { data: settings } = useGetSettingsQuery();
   const [reportQuality] = useReportLiveKitQualityMutation();
+  const [updateProctoring] = useUpdateProctoringMutation();
+  const [updateInterview] = useUpdateInterviewMutation();
   const cameraTracks = useTracks([Track.Source.Camera]);
   const participants = useParticipants();
   const remoteParticipants = participants.filter((p) => p.identity !== room.localParticipant.identity);
@@ -108,6 +125,107 @@ function ProfessionalSessionInner({ agentDispatched: agentDispatchedFromState }:
     guardrails ?? null,
   );
 
+  // ---- Proctoring on the published camera track ----
+  const { config: proctoringConfig, isLoading: policyLoading } = useProctoringPolicy({ interviewId });
+  const proctorVideoRef = useRef<HTMLVideoElement>(null);
+  const interviewStartTs = useRef(Date.now());
+  const [faceReference] = useState(() => {
+    const raw = (location.state as SessionState | null)?.faceReference;
+    return isFaceReference(raw) ? raw : null;
+  });
+  const proctoring = useProctoring({
+    enabled: proctoringConfig.enabled && !policyLoading,
+    videoRef: proctorVideoRef,
+    interviewStartTs: interviewStartTs.current,
+    fps: proctoringConfig.fps,
+    workerFps: proctoringConfig.workerFps,
+    inferenceMode: proctoringConfig.inferenceMode,
+    numFaces: proctoringConfig.numFaces,
+    enableHand: proctoringConfig.enableHand,
+    enableObjectDetection: proctoringConfig.enableObjectDetection,
+    // The interviewer's voice comes through RoomAudioRenderer, which audio proctoring cannot discount
+    enableAudio: false,
+    faceReference,
+    policy: proctoringConfig.policy,
+  });
+  const localCameraTrack = cameraTracks.find((t) => t.participant.identity === room.localParticipant.identity)?.publication
+    ?.track?.mediaStreamTrack;
+
+  // Feed the local camera track to the (hidden) proctoring <video>, then start
+  useEffect(() => {
+    const el = proctorVideoRef.current;
+    if (!el || !localCameraTrack) return;
+    el.srcObject = new MediaStream([localCameraTrack]);
+    void el.play().catch(() => {});
+    return () => {
+      el.srcObject = null;
+    };
+  }, [localCameraTrack]);
+  useEffect(() => {
+    if (proctoring.isReady && localCameraTrack && !proctoring.isRunning) {
+      proctoring.start();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [proctoring.isReady, localCameraTrack]);
+
+  useProctoringBroadcast({
+    enabled: settings?.livekitDataChannelEnabled === true && proctoring.isRunning,
+    room,
+    flags: proctoring.flags,
+    riskScore: proctoring.riskScore,
+    riskLevel: proctoring.riskLevel,
+    faceCount: proctoring.metrics.faceCount,
+    paused: state.isPaused,
+    interviewId,
+    startTs: interviewStartTs.current,
+  });
+
+  // ---- Proctor interventions from the observer room ----
+  const [proctorWarning, setProctorWarning] = useState<string | null>(null);
+  const [proctorNotice, setProctorNotice] = useState<string | null>(null);
+  const [terminationReason, setTerminationReason] = useState<string | null>(null);
+  const proctorNoticeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const terminationTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const showProctorNotice = (message: string) => {
+    setProctorNotice(message);
+    if (proctorNoticeTimeoutRef.current) clearTimeout(proctorNoticeTimeoutRef.current);
+    proctorNoticeTimeoutRef.current = setTimeout(() => setProctorNotice(null), 5000);
+  };
+  useEffect(() => () => {
+    if (proctorNoticeTimeoutRef.current) clearTimeout(proctorNoticeTimeoutRef.current);
+    if (terminationTimeoutRef.current) clearTimeout(terminationTimeoutRef.current);
+  }, []);
+
+  useObserverInterventions(settings?.livekitDataChannelEnabled === true, (intervention: ObserverIntervention) => {
+    switch (intervention.type) {
+      case "warning":
+        setProctorWarning(intervention.message);
+        break;
+      case "pause":
+        actions.pause();
+        break;
+      case "resume":
+        actions.resume();
+        break;
+      case "extend":
+        actions.extendTime(intervention.minutes * 60_000);
+        showProctorNotice(`The proctor added ${intervention.minutes} minute${intervention.minutes === 1 ? "" : "s"} to your interview.`);
+        break;
+      case "terminate":
+        if (autoEndTriggered.current) return;
+        autoEndTriggered.current = true;
+        setTerminationReason(intervention.reason);
+        if (interviewId) {
+          updateProctoring({
+            id: interviewId,
+            data: { terminatedByProctor: { reason: intervention.reason, at: Date.now() } },
+          }).catch(() => {});
+        }
+        terminationTimeoutRef.current = setTimeout(() => void handleEndRef.current(), TERMINATION_NOTICE_MS);
+        break;
+    }
+  });
+
   // Track worst LiveKit connection quality for report
   useEffect(() => {
     const local = room.localParticipant;
@@ -216,26 +334,49 @@ function ProfessionalSessionInner({ agentDispatched: agentDispatchedFromState }:
         template: template!,
       });
     }
+    proctoring.stop();
+    if (interviewId && proctoringConfig.enabled) {
+      // Non-blocking so the report is not delayed
+      updateProctoring({
+        id: interviewId,
+        data: {
+          proctoringFlags: proctoring.flags,
+          riskScore: proctoring.riskScore,
+          proctoringLog: proctoring.getSessionLog() ?? undefined,
+          riskSeries: proctoring.getRiskSeries() ?? undefined,
+          recordingOffsetMs: state.recordingStartedAt ? state.recordingStartedAt - interviewStartTs.current : undefined,
+        },
+      }).catch(() => {});
+    }
+    if (interviewId && (state.toolLog.length > 0 || state.questionProgress.length > 0)) {
+      // Interviewer's function calls (rubric scores, topics, code requests) as an audit trail,
+      // and which question-bank questions were asked and answered
+      updateInterview({
+        id: interviewId,
+        data: { toolCalls: state.toolLog, questionProgress: state.questionProgress },
+      }).catch(() => {});
+    }
     const videoBlob = useLiveKitAgent ? null : await actions.stop();
     const videoUrl = videoBlob ? URL.createObjectURL(videoBlob) : null;
     dispatch(
       setInterviewResult({
         transcript: finalTranscript,
         videoUrl,
+        toolLog: state.toolLog,
         networkQuality: worstQualityRef.current,
       }),
     );
     navigate("/interview/report", { state: location.state });
-  }, [template, state.transcript, state.pendingUserText, state.pendingAssistantText, actions, dispatch, navigate, useLiveKitAgent, location.state]);
+  }, [template, state.transcript, state.pendingUserText, state.pendingAssistantText, state.toolLog, state.questionProgress, state.recordingStartedAt, actions, dispatch, navigate, useLiveKitAgent, location.state, proctoring, proctoringConfig.enabled, interviewId, updateProctoring, updateInterview]);
 
   handleEndRef.current = handleEnd;
 
   useEffect(() => {
-    if (state.elapsedMs >= MAX_DURATION_MS && !autoEndTriggered.current) {
+    if (state.elapsedMs >= state.timeLimitMs && !autoEndTriggered.current) {
       autoEndTriggered.current = true;
       void handleEnd();
     }
-  }, [state.elapsedMs, handleEnd]);
+  }, [state.elapsedMs, state.timeLimitMs, handleEnd]);
 
   const isActive =
     state.connectionState === "connecting" || state.connectionState === "connected";
@@ -279,8 +420,45 @@ function ProfessionalSessionInner({ agentDispatched: agentDispatchedFromState }:
             : "Back online. Your interview is continuing."}
         </div>
       )}
+      {state.isPaused && !terminationReason && (
+        <div className="pro-session__reconnect pro-session__reconnect--paused" role="status" aria-live="polite">
+          The proctor has paused your interview. Please stay in front of your camera and wait.
+        </div>
+      )}
+      {proctorNotice && (
+        <div className="pro-session__reconnect pro-session__reconnect--back-online" role="status" aria-live="polite">
+          {proctorNotice}
+        </div>
+      )}
+      {proctorWarning && !terminationReason && (
+        <MalpracticeOverlay
+          kind="proctor_warning"
+          message={proctorWarning}
+          isFullscreen={!!document.fullscreenElement}
+          onAcknowledge={() => setProctorWarning(null)}
+        />
+      )}
+      {terminationReason && (
+        <div className="malpractice-overlay" role="alertdialog" aria-modal="true" aria-labelledby="termination-title">
+          <div className="malpractice-overlay__backdrop" />
+          <div className="malpractice-overlay__card">
+            <div className="malpractice-overlay__icon" aria-hidden>
+              ⛔
+            </div>
+            <h2 id="termination-title" className="malpractice-overlay__title">
+              Interview ended by the proctor
+            </h2>
+            <p className="malpractice-overlay__desc">{terminationReason}</p>
+            <p className="malpractice-overlay__appeal">Your session is being saved…</p>
+          </div>
+        </div>
+      )}
+      {state.codeRequest && (
+        <CodeSnippetPanel key={state.codeRequest.id} request={state.codeRequest} onSubmit={actions.submitCodeSnippet} />
+      )}
       <div className="pro-session__layout">
         <div className="pro-session__video">
+          <video ref={proctorVideoRef} className="pro-session__proctor-video" playsInline muted aria-hidden />
           {/* TrackLoop provides TrackRefContext so ParticipantTile works */}
           <TrackLoop tracks={cameraTracks}>
             <ParticipantTile />
@@ -315,7 +493,21 @@ function ProfessionalSessionInner({ agentDispatched: agentDispatchedFromState }:
                   ? "Moderate"
                   : "Poor connection"}
             </span>
-            <span className="pro-session__timer">{formatTime(state.elapsedMs)}</span>
+            <span className="pro-session__timer">
+              {formatTime(state.elapsedMs)}
+              {state.isPaused && " (paused)"}
+            </span>
+            {proctoringConfig.enabled && (
+              <ProctoringBadge
+                riskScore={proctoring.riskScore}
+                riskLevel={proctoring.riskLevel}
+                isRunning={proctoring.isRunning}
+                isReady={proctoring.isReady}
+                error={proctoring.error}
+                compact
+                tier={proctoring.tier}
+              />
+            )}
             {settings?.livekitScreenShareEnabled && (
               <button
                 type="button"
@@ -0,0 +1,72 @@
+/**
+ * QuestionScoresTable — Section 18A of the interview report: one row per
+ * question / answer pair with its score, rubric match, the quote that drove
+ * the score and what to follow up on. Used by ConversationReport and
+ * InterviewReportView.
+ */
+
+import { RUBRIC_MATCH_LABELS, type QuestionScore } from "../lib/question-scoring";
+
+interface Props {
+  scores: QuestionScore[];
+}
+
+function scoreClr(score: number): string {
+  if (score >= 7) return "var(--accent-green)";
+  if (score >= 5) return "var(--accent-amber)";
+  return "var(--accent-red)";
+}
+
+export function QuestionScoresTable({ scores }: Props) {
+  if (scores.length === 0) {
+    return <p className="pg-muted">No answered questions to score individually.</p>;
+  }
+
+  const average = scores.reduce((sum, s) => sum + s.score, 0) / scores.length;
+
+  return (
+    <div className="question-scores">
+      <table className="eval-table question-scores__table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Question</th>
+            <th>Score</th>
+            <th>Rubric</th>
+            <th>Evidence</th>
+            <th>Follow-up</th>
+          </tr>
+        </thead>
+        <tbody>
+          {scores.map((s) => (
+            <tr key={s.index}>
+              <td>{s.index}</td>
+              <td>
+                {s.question}
+                {s.competency && <span className="question-scores__competency">{s.competency}</span>}
+              </td>
+              <td className="eval-table__score" style={{ color: scoreClr(s.score) }}>
+                {s.score}
+              </td>
+              <td>
+                <span className={`question-scores__match question-scores__match--${s.rubricMatch}`}>
+                  {RUBRIC_MATCH_LABELS[s.rubricMatch]}
+                </span>
+              </td>
+              <td className="question-scores__evidence">{s.evidence ? `"${s.evidence}"` : "—"}</td>
+              <td>{s.followUp || "—"}</td>
+            </tr>
+          ))}
+          <tr className="eval-table__total">
+            <td />
+            <td>Average across {scores.length} question{scores.length === 1 ? "" : "s"}</td>
+            <td className="eval-table__score" style={{ color: scoreClr(average) }}>
+              {Math.round(average * 10) / 10}
+            </td>
+            <td colSpan={3} />
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
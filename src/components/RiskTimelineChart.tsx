@@ -0,0 +1,133 @@
+/**
+ * RiskTimelineChart — Stored risk series as a chart: risk score (0–100) as a
+ * filled area, one selectable metric (yaw, pitch, brightness, faces, FPS)
+ * overlaid on its own scale, and flag ticks along the bottom. Hovering shows
+ * the sample under the cursor.
+ */
+
+import { useMemo, useState } from "react";
+import type { RiskSeries } from "../proctoring/types";
+import { flagIcon, formatTs } from "./FlagsTimeline";
+
+interface Props {
+  series: RiskSeries;
+  flags?: readonly { type: string; timestamp: number; message: string }[];
+  durationMs: number;
+}
+
+type MetricKey = "yaw" | "pitch" | "brightness" | "faceCount" | "fps";
+
+/** Column of each metric in a RiskSample tuple */
+const METRICS: { key: MetricKey; label: string; index: number; unit: string }[] = [
+  { key: "yaw", label: "Yaw", index: 2, unit: "°" },
+  { key: "pitch", label: "Pitch", index: 3, unit: "°" },
+  { key: "brightness", label: "Brightness", index: 4, unit: "" },
+  { key: "faceCount", label: "Faces", index: 5, unit: "" },
+  { key: "fps", label: "FPS", index: 6, unit: "" },
+];
+
+const W = 600;
+const H = 120;
+
+export function RiskTimelineChart({ series, flags = [], durationMs }: Props) {
+  const [metric, setMetric] = useState<MetricKey | null>(null);
+  const [hover, setHover] = useState<number | null>(null);
+  const { samples } = series;
+  const span = Math.max(1, durationMs);
+  const x = (t: number) => (t / span) * W;
+
+  const riskPath = useMemo(
+    () => samples.map(([t, score]) => `${x(t).toFixed(1)},${(H - (score / 100) * H).toFixed(1)}`).join(" "),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [samples, span],
+  );
+
+  const overlay = useMemo(() => {
+    const def = METRICS.find((m) => m.key === metric);
+    if (!def) return null;
+    const values = samples.map((s) => s[def.index]!);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const range = max - min || 1;
+    const points = samples
+      .map((s, i) => `${x(s[0]).toFixed(1)},${(H - ((values[i]! - min) / range) * (H - 8) - 4).toFixed(1)}`)
+      .join(" ");
+    return { def, min, max, points };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [samples, metric, span]);
+
+  const hovered = hover !== null ? samples[hover] : undefined;
+
+  const onMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const t = ((e.clientX - rect.left) / rect.width) * span;
+    let best = 0;
+    samples.forEach((s, i) => {
+      if (Math.abs(s[0] - t) < Math.abs(samples[best]![0] - t)) best = i;
+    });
+    setHover(best);
+  };
+
+  return (
+    <div className="risk-chart">
+      <div className="risk-chart__metrics" role="group" aria-label="Overlay metric">
+        {METRICS.map((m) => (
+          <button
+            key={m.key}
+            type="button"
+            className={`risk-chart__metric ${metric === m.key ? "risk-chart__metric--active" : ""}`}
+            onClick={() => setMetric(metric === m.key ? null : m.key)}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      <svg
+        className="risk-chart__svg"
+        viewBox={`0 0 ${W} ${H}`}
+        preserveAspectRatio="none"
+        width="100%"
+        height="140"
+        onMouseMove={onMove}
+        onMouseLeave={() => setHover(null)}
+        aria-label="Risk score over time"
+      >
+        {[30, 60].map((level) => (
+          <line key={level} x1={0} x2={W} y1={H - (level / 100) * H} y2={H - (level / 100) * H} className="risk-chart__level" vectorEffect="non-scaling-stroke" />
+        ))}
+        <polygon points={`${x(samples[0]![0])},${H} ${riskPath} ${x(samples[samples.length - 1]![0])},${H}`} className="risk-chart__area" />
+        <polyline points={riskPath} className="risk-chart__line" vectorEffect="non-scaling-stroke" />
+        {overlay && <polyline points={overlay.points} className="risk-chart__overlay" vectorEffect="non-scaling-stroke" />}
+        {hovered && <line x1={x(hovered[0])} x2={x(hovered[0])} y1={0} y2={H} className="risk-chart__cursor" vectorEffect="non-scaling-stroke" />}
+      </svg>
+
+      <div className="risk-chart__flags">
+        {flags.map((f, i) => (
+          <span
+            key={i}
+            className="risk-chart__flag"
+            style={{ left: `${(f.timestamp / span) * 100}%` }}
+            title={`${formatTs(f.timestamp)} · ${f.message}`}
+          >
+            {flagIcon(f.type)}
+          </span>
+        ))}
+      </div>
+
+      <div className="risk-chart__legend">
+        {hovered ? (
+          <span>
+            {formatTs(hovered[0])} · risk {hovered[1]} · yaw {hovered[2]}° · pitch {hovered[3]}° · brightness {hovered[4]} ·{" "}
+            {hovered[5]} face{hovered[5] === 1 ? "" : "s"} · {hovered[6]} fps
+          </span>
+        ) : (
+          <span>
+            Risk score (0–100){overlay && ` · ${overlay.def.label} ${overlay.min}–${overlay.max}${overlay.def.unit}`}
+          </span>
+        )}
+        <span>{formatTs(span)}</span>
+      </div>
+    </div>
+  );
+}
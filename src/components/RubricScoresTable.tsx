@@ -0,0 +1,84 @@
+/**
+ * RubricScoresTable — Section 14 of the interview report: the rubric scores
+ * the interviewer recorded during the conversation (record_rubric_score,
+ * lib/interview-tools) next to the report's section scores, with the
+ * evidence it gave and the topics it marked as covered. Used by
+ * ConversationReport and InterviewReportView.
+ */
+
+import type { EvaluationReport } from "../lib/report-generator";
+import {
+  RUBRIC_CRITERIA,
+  RUBRIC_CRITERION_LABELS,
+  rubricScoresFrom,
+  topicsCoveredFrom,
+  type InterviewToolRecord,
+} from "../lib/interview-tools";
+
+interface Props {
+  report: EvaluationReport;
+  toolLog: InterviewToolRecord[];
+}
+
+function scoreClr(score: number): string {
+  if (score >= 7) return "var(--accent-green)";
+  if (score >= 5) return "var(--accent-amber)";
+  return "var(--accent-red)";
+}
+
+export function RubricScoresTable({ report, toolLog }: Props) {
+  const scores = rubricScoresFrom(toolLog);
+  const topics = topicsCoveredFrom(toolLog);
+  if (scores.length === 0 && topics.length === 0) return null;
+
+  const rows = RUBRIC_CRITERIA.flatMap((criterion) => {
+    const recorded = scores.filter((s) => s.criterion === criterion);
+    if (recorded.length === 0) return [];
+    const average = Math.round((recorded.reduce((sum, s) => sum + s.score, 0) / recorded.length) * 10) / 10;
+    return [{ criterion, recorded, average }];
+  });
+
+  return (
+    <div className="eval-sub">
+      <h4 className="eval-sub__title">Recorded by the Interviewer</h4>
+      {rows.length > 0 && (
+        <div className="question-scores">
+          <table className="eval-table question-scores__table">
+            <thead>
+              <tr>
+                <th>Category</th>
+                <th>Report</th>
+                <th>Interviewer</th>
+                <th>Evidence</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ criterion, recorded, average }) => (
+                <tr key={criterion}>
+                  <td>{RUBRIC_CRITERION_LABELS[criterion]}</td>
+                  <td className="eval-table__score" style={{ color: scoreClr(report[criterion].score) }}>
+                    {report[criterion].score}
+                  </td>
+                  <td className="eval-table__score" style={{ color: scoreClr(average) }}>
+                    {average}
+                    {recorded.length > 1 && <span className="question-scores__competency">{recorded.length} scores</span>}
+                  </td>
+                  <td className="question-scores__evidence">
+                    {recorded.map((s, i) => (
+                      <span key={i} className="rubric-scores__evidence">
+                        "{s.evidence}"
+                      </span>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {topics.length > 0 && (
+        <p className="pg-muted rubric-scores__topics">Topics covered: {topics.join(", ")}</p>
+      )}
+    </div>
+  );
+}
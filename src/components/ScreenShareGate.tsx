@@ -0,0 +1,50 @@
+/**
+ * ScreenShareGate — Blocking overlay for rounds that require an entire-screen
+ * share. Shown before sharing starts and again whenever the share stops;
+ * getDisplayMedia needs a user gesture, so sharing is started from the button.
+ */
+
+import { APPEAL_HINT, DISMISSAL_WARNING } from "../proctoring/types";
+
+interface Props {
+  /** Sharing was active earlier and has stopped */
+  stopped: boolean;
+  /** Last error from requestEntireScreenShare, if any */
+  error: string | null;
+  isRequesting: boolean;
+  onShare: () => void;
+}
+
+export function ScreenShareGate({ stopped, error, isRequesting, onShare }: Props) {
+  return (
+    <div className="malpractice-overlay" role="alertdialog" aria-modal="true" aria-labelledby="screen-share-title">
+      <div className="malpractice-overlay__backdrop" />
+      <div className="malpractice-overlay__card">
+        <div className="malpractice-overlay__icon" aria-hidden>
+          🖥
+        </div>
+        <h2 id="screen-share-title" className="malpractice-overlay__title">
+          {stopped ? "Screen sharing stopped" : "Share your entire screen"}
+        </h2>
+        <p className="malpractice-overlay__desc">
+          {stopped
+            ? "Screen sharing ended. Share your entire screen again to continue the coding round."
+            : "This coding round requires sharing your entire screen. Choose your whole screen (not a window or tab) and keep only one display connected."}
+        </p>
+        {error && <p className="malpractice-overlay__warning">{error}</p>}
+        {stopped && <p className="malpractice-overlay__warning">{DISMISSAL_WARNING}</p>}
+        <p className="malpractice-overlay__appeal">{APPEAL_HINT}</p>
+        <div className="malpractice-overlay__actions">
+          <button
+            type="button"
+            className="btn btn--primary malpractice-overlay__btn"
+            onClick={onShare}
+            disabled={isRequesting}
+          >
+            {isRequesting ? "Waiting for screen share…" : "Share entire screen"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * ScreenshotGallery — Reviewer-only strip of periodic screen-share samples
+ * stored in the proctoring session log (coding round).
+ */
+
+import { useState } from "react";
+import { isProctoringSessionLog } from "../proctoring/sessionLog";
+import { formatTs } from "./FlagsTimeline";
+
+interface Props {
+  proctoringLog: unknown;
+}
+
+export function ScreenshotGallery({ proctoringLog }: Props) {
+  const [selected, setSelected] = useState(0);
+  const shots = isProctoringSessionLog(proctoringLog) ? proctoringLog.screenshots ?? [] : [];
+  if (shots.length === 0) return null;
+  const current = shots[Math.min(selected, shots.length - 1)]!;
+
+  return (
+    <div className="screen-gallery">
+      <div className="screen-gallery__header">
+        <strong>Screen samples</strong>
+        <span className="pg-muted">
+          {shots.length} captured · {formatTs(current.t)}
+        </span>
+      </div>
+      <img
+        className="screen-gallery__main"
+        src={current.image}
+        width={current.width}
+        height={current.height}
+        alt={`Screen at ${formatTs(current.t)}`}
+      />
+      <div className="screen-gallery__strip">
+        {shots.map((s, i) => (
+          <button
+            key={s.t}
+            type="button"
+            className={`screen-gallery__thumb ${s === current ? "screen-gallery__thumb--active" : ""}`}
+            onClick={() => setSelected(i)}
+            title={formatTs(s.t)}
+          >
+            <img src={s.image} alt="" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * SystemCheckSummary — Reviewer view of the pre-session system check stored
+ * with a session, for disputes about broken cameras, mics or connections.
+ */
+
+import { SYSTEM_CHECK_LABELS, isSystemCheckResult } from "../proctoring/systemCheck";
+
+interface Props {
+  /** Stored SystemCheckResult (unknown JSON from the backend) */
+  systemCheck: unknown;
+}
+
+export function SystemCheckSummary({ systemCheck }: Props) {
+  if (!isSystemCheckResult(systemCheck)) return null;
+  return (
+    <div className="system-check-summary">
+      <div className="system-check-summary__header">
+        <h4 className="system-check-summary__title">Pre-session system check</h4>
+        <span className="system-check-summary__date">{new Date(systemCheck.checkedAt).toLocaleString()}</span>
+      </div>
+      <ul className="system-check-summary__list">
+        {systemCheck.items.map((item) => (
+          <li key={item.id} className={`system-check-summary__item system-check-summary__item--${item.status}`}>
+            <span className="system-check-summary__label">{SYSTEM_CHECK_LABELS[item.id] ?? item.id}</span>
+            <span className="system-check-summary__detail">{item.detail}</span>
+          </li>
+        ))}
+      </ul>
+      <p className="system-check-summary__ua" title={systemCheck.userAgent}>
+        {systemCheck.userAgent}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+/**
+ * SystemCheckWizard — Pre-session device check shown before a proctored
+ * round starts. Runs the probes from systemCheck.ts one after another (the
+ * first click provides the user gesture for camera / mic prompts and audio
+ * playback), then reports the result through onComplete. Required checks
+ * that fail block "Continue" until the candidate fixes them and re-runs.
+ * With enrollFace the camera step also enrols the reference face for the
+ * session's identity check; it is handed over with the result.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import type { FaceReference } from "../proctoring/faceIdentity";
+import type {
+  ProctoringThresholds,
+  SystemCheckId,
+  SystemCheckItem,
+  SystemCheckRequirements,
+  SystemCheckResult,
+} from "../proctoring/types";
+import {
+  SYSTEM_CHECK_LABELS,
+  checkCamera,
+  checkCpu,
+  checkFullscreen,
+  checkMicrophone,
+  checkNetwork,
+  createSystemCheckResult,
+  enrollFace as enrollFaceReference,
+  playTestTone,
+  speakerResult,
+} from "../proctoring/systemCheck";
+
+interface Props {
+  requirements: SystemCheckRequirements;
+  /** Session thresholds (darkBrightnessThreshold decides the lighting check) */
+  thresholds?: Partial<ProctoringThresholds>;
+  /** Enrol the reference face after the camera check (skip when one is carried over) */
+  enrollFace?: boolean;
+  onComplete: (result: SystemCheckResult, faceReference: FaceReference | null) => void;
+}
+
+const STATUS_ICONS: Record<SystemCheckItem["status"], string> = {
+  pass: "✓",
+  warn: "⚠",
+  fail: "✗",
+  skipped: "–",
+};
+
+export function SystemCheckWizard({ requirements, thresholds, enrollFace = false, onComplete }: Props) {
+  const [items, setItems] = useState<SystemCheckItem[]>([]);
+  const [faceReference, setFaceReference] = useState<FaceReference | null>(null);
+  const [running, setRunning] = useState<SystemCheckId | null>(null);
+  const [result, setResult] = useState<SystemCheckResult | null>(null);
+  const [micLevel, setMicLevel] = useState(0);
+  const [awaitingSpeaker, setAwaitingSpeaker] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const speakerAnswerRef = useRef<((heard: boolean | null) => void) | null>(null);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      speakerAnswerRef.current?.(false);
+    };
+  }, []);
+
+  const steps: SystemCheckId[] = [
+    ...(requirements.fullscreen !== "off" ? (["fullscreen"] as const) : []),
+    "cpu",
+    "network",
+    ...(requirements.camera !== "off" ? (["camera", "lighting"] as const) : []),
+    ...(requirements.camera !== "off" && enrollFace ? (["face"] as const) : []),
+    ...(requirements.microphone !== "off" ? (["microphone"] as const) : []),
+    ...(requirements.speaker !== "off" ? (["speaker"] as const) : []),
+  ];
+
+  const run = async () => {
+    setItems([]);
+    setResult(null);
+    setFaceReference(null);
+    const done: SystemCheckItem[] = [];
+    const push = (...next: SystemCheckItem[]) => {
+      done.push(...next);
+      if (mountedRef.current) setItems([...done]);
+    };
+
+    if (requirements.fullscreen !== "off") push(checkFullscreen(requirements.fullscreen));
+    push(checkCpu());
+    setRunning("network");
+    push(await checkNetwork());
+
+    if (requirements.camera !== "off" && videoRef.current) {
+      setRunning("camera");
+      push(...(await checkCamera(videoRef.current, requirements.camera, thresholds?.darkBrightnessThreshold)));
+      const cameraOk = done.find((i) => i.id === "camera")?.status !== "fail";
+      if (enrollFace && cameraOk && videoRef.current) {
+        setRunning("face");
+        const [face, reference] = await enrollFaceReference(videoRef.current);
+        push(face);
+        if (mountedRef.current) setFaceReference(reference);
+      }
+    }
+    if (requirements.microphone !== "off") {
+      setRunning("microphone");
+      push(await checkMicrophone(requirements.microphone, (rms) => mountedRef.current && setMicLevel(rms)));
+      setMicLevel(0);
+    }
+    if (requirements.speaker !== "off") {
+      setRunning("speaker");
+      // Replay until the candidate answers; null = "play again"
+      let heard: boolean | null = null;
+      let produced = false;
+      while (heard === null && mountedRef.current) {
+        setAwaitingSpeaker(false);
+        produced = await playTestTone().catch(() => false);
+        setAwaitingSpeaker(true);
+        heard = await new Promise<boolean | null>((resolve) => {
+          speakerAnswerRef.current = resolve;
+        });
+      }
+      speakerAnswerRef.current = null;
+      setAwaitingSpeaker(false);
+      push(speakerResult(requirements.speaker, heard === true, produced));
+    }
+
+    if (!mountedRef.current) return;
+    setRunning(null);
+    setResult(createSystemCheckResult(done));
+  };
+
+  const isRunning = running !== null;
+  const started = isRunning || items.length > 0;
+  const itemFor = (id: SystemCheckId) => items.find((i) => i.id === id);
+
+  return (
+    <div className="system-check">
+      <h2 className="system-check__title">System check</h2>
+      <p className="system-check__intro">
+        Before you start, we check that your camera, microphone, speakers, connection and browser are ready. The result
+        is saved with your session.
+      </p>
+
+      <ul className="system-check__list">
+        {steps.map((id) => {
+          const it = itemFor(id);
+          const active = running === id || (id === "lighting" && running === "camera");
+          return (
+            <li key={id} className={`system-check__item system-check__item--${it?.status ?? (active ? "running" : "pending")}`}>
+              <span className="system-check__icon" aria-hidden>
+                {it ? STATUS_ICONS[it.status] : active ? <span className="spinner system-check__spinner" /> : "○"}
+              </span>
+              <span className="system-check__label">
+                {SYSTEM_CHECK_LABELS[id]}
+                {it?.required === false && it.status !== "pass" && <span className="system-check__optional"> (optional)</span>}
+              </span>
+              <span className="system-check__detail">{it?.detail}</span>
+            </li>
+          );
+        })}
+      </ul>
+
+      <video
+        ref={videoRef}
+        className="system-check__preview"
+        style={{ display: running === "camera" || running === "face" ? "block" : "none" }}
+        playsInline
+        muted
+      />
+
+      {running === "face" && (
+        <div className="system-check__prompt">
+          <p>Look straight at the camera for a few seconds.</p>
+        </div>
+      )}
+
+      {running === "microphone" && (
+        <div className="system-check__prompt">
+          <p>Say a few words, e.g. your name.</p>
+          <div className="system-check__meter" aria-label="Microphone level">
+            <div className="system-check__meter-fill" style={{ width: `${Math.min(100, micLevel * 400)}%` }} />
+          </div>
+        </div>
+      )}
+
+      {running === "speaker" && (
+        <div className="system-check__prompt">
+          {awaitingSpeaker ? (
+            <>
+              <p>Did you hear a short tone?</p>
+              <div className="system-check__actions">
+                <button type="button" className="btn btn--primary btn--sm" onClick={() => speakerAnswerRef.current?.(true)}>
+                  Yes, I heard it
+                </button>
+                <button type="button" className="btn btn--secondary btn--sm" onClick={() => speakerAnswerRef.current?.(null)}>
+                  Play again
+                </button>
+                <button type="button" className="btn btn--secondary btn--sm" onClick={() => speakerAnswerRef.current?.(false)}>
+                  No
+                </button>
+              </div>
+            </>
+          ) : (
+            <p>Playing a test tone…</p>
+          )}
+        </div>
+      )}
+
+      {result && !result.passed && (
+        <p className="system-check__blocked">Fix the failed checks above and run the check again to continue.</p>
+      )}
+
+      <div className="system-check__actions">
+        {!started && (
+          <button type="button" className="btn btn--primary" onClick={() => void run()}>
+            Start system check
+          </button>
+        )}
+        {result && (
+          <button type="button" className={`btn ${result.passed ? "btn--secondary" : "btn--primary"}`} onClick={() => void run()}>
+            Run again
+          </button>
+        )}
+        {result?.passed && (
+          <button type="button" className="btn btn--primary" onClick={() => onComplete(result, faceReference)}>
+            Continue
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -13,7 +13,9 @@
 
 import { useState, useMemo, useEffect } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
-import type { ConversationTemplate } from "../types/gemini";
+import type { BankQuestion, ConversationTemplate, InterviewPlan } from "../types/gemini";
+import { planDurationMs, resolveInterviewPlan, wrapUpAtMs } from "../lib/interviewPlan";
+import type { ScoringProfile } from "../lib/scoring-profile";
 import { useAppDispatch, useAppSelector } from "../store/hooks";
 import { selectUser } from "../store/authSlice";
 import {
@@ -137,12 +139,22 @@ export function TemplateForm({ variant = "standard" }: TemplateFormProps) {
   }, [templatesData]);
 
   // Handlers
-  const handleSelectTemplate = (t: { aiBehavior: string; customerWants: string; id: string }) => {
+  const handleSelectTemplate = (t: {
+    aiBehavior: string;
+    customerWants: string;
+    id: string;
+    plan?: InterviewPlan | null;
+    questionBank?: { questions: BankQuestion[] } | null;
+    scoringProfile?: ScoringProfile | null;
+  }) => {
     setSelectedTemplateId(t.id);
     setTemplate({
       aiBehavior: t.aiBehavior,
       customerWants: t.customerWants,
       candidateOffers: settings?.resumeSummary ?? "", // Auto-fill from Dashboard upload; candidates cannot edit
+      plan: t.plan ?? undefined,
+      questions: t.questionBank?.questions,
+      scoringProfile: t.scoringProfile ?? undefined,
     });
     setStep("edit");
   };
@@ -157,11 +169,13 @@ export function TemplateForm({ variant = "standard" }: TemplateFormProps) {
     setStep("edit");
   };
 
-  const handleChange = (key: keyof ConversationTemplate, value: string) => {
+  const handleChange = (key: Exclude<keyof ConversationTemplate, "plan" | "questions" | "scoringProfile">, value: string) => {
     if (key === "customerWants" && value.length > 300) return; // 300 char limit on JD
     setTemplate((prev) => ({ ...prev, [key]: value }));
   };
 
+  const plan = resolveInterviewPlan(template);
+
   const allFilled = template.aiBehavior.trim() && template.customerWants.trim() && template.candidateOffers.trim();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -218,7 +232,8 @@ export function TemplateForm({ variant = "standard" }: TemplateFormProps) {
         interviewType,
         fromFullFlow: fromFullFlow || undefined,
       }).unwrap();
-      dispatch(storeTemplate(template));
+      // Custom templates have no profile of their own; the backend sends the organization's
+      dispatch(storeTemplate({ ...template, scoringProfile: template.scoringProfile ?? interview.scoringProfile ?? undefined }));
       dispatch(setInterviewId(interview.id));
       dispatch(setGuardrails(interview.guardrails ?? null));
       if (variant === "professional") {
@@ -446,7 +461,8 @@ export function TemplateForm({ variant = "standard" }: TemplateFormProps) {
                   <circle cx="12" cy="12" r="10" /><line x1="12" y1="16" x2="12" y2="12" /><line x1="12" y1="8" x2="12.01" y2="8" />
                 </svg>
                 <div>
-                  <strong>Interview Rules:</strong> Maximum 18 minutes; wrap-up at 17 so the closing statement fits.
+                  <strong>Interview Rules:</strong> Maximum {planDurationMs(plan) / 60_000} minutes in {plan.phases.length} phases (
+                  {plan.phases.map((p) => p.name).join(", ")}); wrap-up at {wrapUpAtMs(plan) / 60_000} so the closing statement fits.
                   Your video is recorded locally for your review only — we do not save it on our servers.
                 </div>
               </div>
@@ -5,27 +5,42 @@
  *   Left  — AI animated orb visualizer
  *   Right — Candidate live webcam recording
  *
- * Shows: question counter, timer (MM:SS / 18:00), wrap-up indicator.
- * Auto-ends at 18 minutes; wrap-up at 17 so closing statement fits.
+ * Shows: question counter, timer (MM:SS / limit), wrap-up indicator and the
+ * template plan's phase progress. Auto-ends at the plan's time limit; the
+ * close phase (wrap-up) starts before it so the closing statement fits.
+ * Before consent the candidate passes the system check (SystemCheckWizard);
+ * its result is stored with the interview's proctoring data.
  */
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate, useLocation, Navigate } from "react-router-dom";
 import { useVoiceChat } from "../hooks/useVoiceChat";
 import { AudioVisualizer } from "./AudioVisualizer";
 import { ConnectionStatus } from "./ConnectionStatus";
 import { ProctoringBadge } from "./ProctoringBadge";
 import { FlagsTimeline } from "./FlagsTimeline";
-import { MalpracticeOverlay, type MalpracticeKind } from "./MalpracticeOverlay";
+import { InterviewPhaseProgress } from "./InterviewPhaseProgress";
+import { CodeSnippetPanel } from "./CodeSnippetPanel";
+import { MalpracticeOverlay, isMalpracticeKind, type MalpracticeKind } from "./MalpracticeOverlay";
+import { SystemCheckWizard } from "./SystemCheckWizard";
+import { systemCheckCovers } from "../proctoring/systemCheck";
+import type { SystemCheckRequirements, SystemCheckResult } from "../proctoring/types";
+import type { FaceReference } from "../proctoring/faceIdentity";
 import { useProctoring } from "../proctoring/useProctoring";
+import { useProctoringPolicy } from "../proctoring/useProctoringPolicy";
 import { useAppDispatch, useAppSelector } from "../store/hooks";
 import { selectTemplate, selectGuardrails, selectInterviewId, selectSelectedTemplateNameForFullFlow, selectSelectedTemplateIdForFullFlow, setInterviewResult, resetInterview } from "../store/interviewSlice";
 import { saveTranscriptBackup, clearTranscriptBackup } from "../lib/transcriptBackup";
 import { generateReport, computeScoring } from "../lib/report-generator";
-import { saveFullFlowInterview } from "../lib/fullFlowStorage";
-import { useUpdateInterviewMutation } from "../store/endpoints/interviews";
-
-const MAX_DURATION_MS = 18 * 60 * 1000; // 18 minutes max; wrap-up at 17
+import {
+  saveFullFlowInterview,
+  getFullFlowFaceReference,
+  saveFullFlowFaceReference,
+  getFullFlowSystemCheck,
+  saveFullFlowSystemCheck,
+} from "../lib/fullFlowStorage";
+import { planDurationMs, planQuestionLimit, wrapUpAtMs } from "../lib/interviewPlan";
+import { useUpdateInterviewMutation, useUpdateProctoringMutation } from "../store/endpoints/interviews";
 
 function formatTime(ms: number): string {
   const totalSec = Math.floor(ms / 1000);
@@ -75,6 +90,7 @@ function VoiceChatInner({
   const templateNameForFullFlow = useAppSelector(selectSelectedTemplateNameForFullFlow);
   const selectedTemplateIdForFullFlow = useAppSelector(selectSelectedTemplateIdForFullFlow);
   const [updateInterview] = useUpdateInterviewMutation();
+  const [updateProctoring] = useUpdateProctoringMutation();
 
   const startedRef = useRef(false);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -100,13 +116,59 @@ function VoiceChatInner({
   }, guardrails ?? undefined);
 
   // ---- Proctoring (off-thread ML, does NOT affect audio) ----
+  const { config: proctoringConfig, isLoading: policyLoading } = useProctoringPolicy({ interviewId });
+  const { malpracticeFlagTypes } = proctoringConfig;
+  const fromFullFlow =
+    (locationState as { fromFullFlow?: boolean } | null)?.fromFullFlow === true || !!selectedTemplateIdForFullFlow;
+  const [carriedFaceReference] = useState(() => (fromFullFlow ? getFullFlowFaceReference() : null));
+  const [enrolledFaceReference, setEnrolledFaceReference] = useState<FaceReference | null>(null);
   const proctoring = useProctoring({
-    enabled: true,
+    enabled: proctoringConfig.enabled && !policyLoading,
     videoRef,
     interviewStartTs: interviewStartTs.current,
-    fps: 3,
+    fps: proctoringConfig.fps,
+    workerFps: proctoringConfig.workerFps,
+    inferenceMode: proctoringConfig.inferenceMode,
+    numFaces: proctoringConfig.numFaces,
+    enableHand: proctoringConfig.enableHand,
+    enableObjectDetection: proctoringConfig.enableObjectDetection,
+    // Mic is shared with the interview; the AI's own playback is discounted
+    enableAudio: proctoringConfig.enableAudioProctoring,
+    audioStream: state.webcamStream,
+    aiPlayback: state.aiPlayback,
+    // Full flow: one enrolled face across aptitude → interview → coding
+    faceReference: carriedFaceReference ?? enrolledFaceReference,
+    policy: proctoringConfig.policy,
   });
 
+  // Pre-session system check (full flow: an earlier round's check is reused when it covers this one)
+  const [systemCheck, setSystemCheck] = useState<SystemCheckResult | null>(() => (fromFullFlow ? getFullFlowSystemCheck() : null));
+  const systemCheckRequirements = useMemo<SystemCheckRequirements>(
+    () => ({
+      camera: proctoringConfig.enabled ? "required" : "optional",
+      microphone: "required",
+      speaker: "required",
+      fullscreen: "required",
+    }),
+    [proctoringConfig.enabled],
+  );
+  const systemCheckDone = !!systemCheck && systemCheckCovers(systemCheck, systemCheckRequirements);
+  // A carried-over check is stored with this interview too
+  const systemCheckStoredRef = useRef(false);
+  useEffect(() => {
+    if (!systemCheckDone || !systemCheck || !interviewId || systemCheckStoredRef.current) return;
+    systemCheckStoredRef.current = true;
+    updateProctoring({ id: interviewId, data: { systemCheck } }).catch(() => {});
+  }, [systemCheckDone, systemCheck, interviewId, updateProctoring]);
+  const handleSystemCheckComplete = (result: SystemCheckResult, faceReference: FaceReference | null) => {
+    setSystemCheck(result);
+    if (fromFullFlow) saveFullFlowSystemCheck(result);
+    if (faceReference) {
+      setEnrolledFaceReference(faceReference);
+      if (fromFullFlow) saveFullFlowFaceReference(faceReference);
+    }
+  };
+
   const requestFullscreen = useCallback(async () => {
     try {
       const el = document.documentElement;
@@ -139,25 +201,28 @@ function VoiceChatInner({
   // Malpractice detection: tab switch, window switch, fullscreen exit
   useEffect(() => {
     if (!consentGiven) return;
+    const raiseMalpractice = (kind: MalpracticeKind) => {
+      if (isMalpracticeKind(kind, malpracticeFlagTypes)) setPendingMalpractice(kind);
+    };
 
     const onVisibilityChange = () => {
       if (document.hidden) tabWasHiddenRef.current = true;
       else if (tabWasHiddenRef.current) {
         tabWasHiddenRef.current = false;
-        setPendingMalpractice("tab_switch");
+        raiseMalpractice("tab_switch");
       }
     };
     const onBlur = () => { windowHadBlurRef.current = true; };
     const onFocus = () => {
       if (windowHadBlurRef.current) {
         windowHadBlurRef.current = false;
-        setPendingMalpractice("window_switch");
+        raiseMalpractice("window_switch");
       }
     };
     const onFullscreenChange = () => {
       if (!document.fullscreenElement) {
         if (endingRef.current) return;
-        setPendingMalpractice("fullscreen_exit");
+        raiseMalpractice("fullscreen_exit");
       } else {
         setPendingMalpractice((prev) => (prev === "fullscreen_exit" ? null : prev));
       }
@@ -174,7 +239,7 @@ function VoiceChatInner({
       window.removeEventListener("focus", onFocus);
       document.removeEventListener("fullscreenchange", onFullscreenChange);
     };
-  }, [consentGiven]);
+  }, [consentGiven, malpracticeFlagTypes]);
 
   // Start proctoring once worker is ready and webcam is live
   useEffect(() => {
@@ -195,9 +260,9 @@ function VoiceChatInner({
     };
   }, [state.webcamStream]);
 
-  // Auto-end at 18 minutes hard limit
+  // Auto-end at the hard time limit (plan duration plus any proctor extension)
   useEffect(() => {
-    if (state.elapsedMs >= MAX_DURATION_MS && !autoEndTriggered.current) {
+    if (state.elapsedMs >= state.timeLimitMs && !autoEndTriggered.current) {
       autoEndTriggered.current = true;
       void handleEnd();
     }
@@ -208,8 +273,6 @@ function VoiceChatInner({
     if (endingRef.current) return;
     endingRef.current = true;
 
-    const fromFullFlowByState = (locationState as { fromFullFlow?: boolean } | null)?.fromFullFlow === true;
-    const fromFullFlow = fromFullFlowByState || !!selectedTemplateIdForFullFlow;
     setEndingTo(fromFullFlow ? "coding" : "report");
 
     try {
@@ -245,20 +308,45 @@ function VoiceChatInner({
         template,
       });
       proctoring.stop();
+      if (interviewId) {
+        // Flags + replayable session log; non-blocking so the report is not delayed
+        updateProctoring({
+          id: interviewId,
+          data: {
+            proctoringFlags: proctoring.flags,
+            riskScore: proctoring.riskScore,
+            proctoringLog: proctoring.getSessionLog() ?? undefined,
+            riskSeries: proctoring.getRiskSeries() ?? undefined,
+            recordingOffsetMs: state.recordingStartedAt ? state.recordingStartedAt - interviewStartTs.current : undefined,
+          },
+        }).catch(() => {});
+      }
+      if (interviewId && (state.toolLog.length > 0 || state.questionProgress.length > 0)) {
+        // Interviewer's function calls (rubric scores, topics, code requests) as an audit trail,
+        // and which question-bank questions were asked and answered
+        updateInterview({
+          id: interviewId,
+          data: { toolCalls: state.toolLog, questionProgress: state.questionProgress },
+        }).catch(() => {});
+      }
       const videoBlob = await actions.stop();
       const videoUrl = videoBlob ? URL.createObjectURL(videoBlob) : null;
 
-      dispatch(setInterviewResult({ transcript: finalTranscript, videoUrl }));
+      dispatch(setInterviewResult({ transcript: finalTranscript, videoUrl, toolLog: state.toolLog }));
 
       if (fromFullFlow) {
         try {
           const report = await generateReport(finalTranscript, template);
-          const scoring = computeScoring(report);
+          const scoring = computeScoring(report, template.scoringProfile);
           saveFullFlowInterview({
             transcript: finalTranscript,
             report,
+            scoringProfile: scoring.profile,
             interviewId,
             videoUrl: videoUrl ?? undefined,
+            proctoringFlags: proctoring.flags.length ? proctoring.flags : undefined,
+            riskScore: proctoring.riskScore > 0 ? proctoring.riskScore : undefined,
+            riskSeries: proctoring.getRiskSeries() ?? undefined,
           });
           if (interviewId) {
             const first = finalTranscript[0];
@@ -291,6 +379,9 @@ function VoiceChatInner({
             report: null,
             interviewId,
             videoUrl: videoUrl ?? undefined,
+            proctoringFlags: proctoring.flags.length ? proctoring.flags : undefined,
+            riskScore: proctoring.riskScore > 0 ? proctoring.riskScore : undefined,
+            riskSeries: proctoring.getRiskSeries() ?? undefined,
           });
         }
         clearTranscriptBackup();
@@ -325,6 +416,27 @@ function VoiceChatInner({
     state.connectionState === "connecting" ||
     state.connectionState === "connected";
 
+  // ---- System check — must pass before the consent screen ----
+  if (!consentGiven && !systemCheckDone) {
+    return (
+      <div className="voice-chat voice-chat--consent">
+        <header className="voice-chat__header">
+          <button type="button" className="voice-chat__title" onClick={() => navigate("/dashboard")} title="Home" style={{ border: "none", background: "none", padding: 0, cursor: "pointer", font: "inherit", color: "inherit" }}>
+            VocalHireAI
+          </button>
+        </header>
+        {!policyLoading && (
+          <SystemCheckWizard
+            requirements={systemCheckRequirements}
+            thresholds={proctoringConfig.thresholds}
+            enrollFace={proctoringConfig.enabled && !carriedFaceReference}
+            onComplete={handleSystemCheckComplete}
+          />
+        )}
+      </div>
+    );
+  }
+
   // ---- Consent screen (industry-standard) — must agree before interview starts ----
   if (!consentGiven) {
     return (
@@ -363,13 +475,15 @@ function VoiceChatInner({
     );
   }
 
-  // Timer color: green < 20min, amber < 26min (wrap-up), red >= 26min
+  // Timer color: amber in the last quarter before wrap-up, red from the wrap-up (close phase) on
+  const wrapUpAt = wrapUpAtMs(state.plan, state.timeLimitMs - planDurationMs(state.plan));
   const timerClass =
-    state.elapsedMs >= 26 * 60 * 1000
+    state.elapsedMs >= wrapUpAt
       ? "vc-timer--red"
-      : state.elapsedMs >= 20 * 60 * 1000
+      : state.elapsedMs >= wrapUpAt * 0.75
         ? "vc-timer--amber"
         : "";
+  const questionLimit = planQuestionLimit(state.plan);
 
   return (
     <div className="voice-chat voice-chat--split">
@@ -385,6 +499,9 @@ function VoiceChatInner({
           isFullscreen={!!document.fullscreenElement}
         />
       )}
+      {state.codeRequest && (
+        <CodeSnippetPanel key={state.codeRequest.id} request={state.codeRequest} onSubmit={actions.submitCodeSnippet} />
+      )}
       {/* ---- Header with Stats ---- */}
       <header className="voice-chat__header">
         <button type="button" className="voice-chat__title" onClick={() => navigate("/dashboard")} title="Home" style={{ border: "none", background: "none", padding: 0, cursor: "pointer", font: "inherit", color: "inherit" }}>
@@ -396,7 +513,7 @@ function VoiceChatInner({
           <div className="vc-stat">
             <span className="vc-stat__label">Questions</span>
             <span className="vc-stat__value">
-              {state.questionCount} / 15
+              {questionLimit !== null ? `${state.questionCount} / ${questionLimit}` : state.questionCount}
             </span>
           </div>
 
@@ -404,7 +521,7 @@ function VoiceChatInner({
           <div className={`vc-stat ${timerClass}`}>
             <span className="vc-stat__label">Time</span>
             <span className="vc-stat__value">
-              {formatTime(state.elapsedMs)} / 18:00
+              {formatTime(state.elapsedMs)} / {formatTime(state.timeLimitMs)}
             </span>
           </div>
 
@@ -422,6 +539,17 @@ function VoiceChatInner({
         />
       </header>
 
+      {/* ---- Interview plan phases ---- */}
+      {isActive && (
+        <InterviewPhaseProgress
+          plan={state.plan}
+          phaseIndex={state.phaseIndex}
+          phaseQuestionCount={state.phaseQuestionCount}
+          elapsedMs={state.elapsedMs}
+          timeLimitMs={state.timeLimitMs}
+        />
+      )}
+
       {/* ---- Split View: AI Visualizer | Candidate Video ---- */}
       <div className="voice-chat__split-panels">
         {/* Left — AI Orb */}
@@ -461,6 +589,7 @@ function VoiceChatInner({
               error={proctoring.error}
               compact
               micLevel={state.vadState.smoothedEnergy}
+              tier={proctoring.tier}
             />
           </div>
 
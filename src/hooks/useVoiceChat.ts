@@ -7,17 +7,35 @@
  *   VideoRecorder           (webcam video + mic audio + AI audio → recording)
  *   VADAnalyzer             (client-side energy VAD for UI)
  *
- * Interview constraints:
- *   - No question limit (for testing; was 15 in production)
- *   - Maximum 18 minutes; by 17 minutes wrap-up is triggered so closing statement fits in the last minute
+ * Interview constraints come from the template's plan (lib/interviewPlan):
+ *   - Phases advance when their time budget runs out or their questions are asked;
+ *     each new phase is injected as context so the interviewer steers itself
+ *   - Entering the close phase sends the wrap-up signal (18 / 17 minutes by default)
+ *
+ * Adaptive follow-up: each answer in a technical or behavioral phase is scored
+ * on the side (lib/answer-evaluator) and a steering note is added to the
+ * context, so the interviewer probes deeper or simplifies from its next question on.
+ * The note waits for the interviewer's turn to end; context sent mid-turn interrupts it.
+ *
+ * Function calling: the interviewer records rubric scores, covered topics, code
+ * requests and early ends through lib/interview-tools; every call is answered
+ * and kept in toolLog for the interview record.
+ *
+ * Question bank: when the template has fixed questions (lib/question-bank) the
+ * interviewer pulls them in order with get_next_question; questionProgress
+ * tracks which were asked and answered, and the transcript entries that ask
+ * and answer a question carry its id.
  */
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type {
   ChatPhase,
   ConnectionState,
   ConversationTemplate,
+  GeminiFunctionCall,
+  GeminiFunctionResponse,
   GeminiLiveConfig,
+  InterviewPlan,
   TranscriptEntry,
 } from "../types/gemini";
 import type { OrgGuardrails } from "../store/interviewSlice";
@@ -28,21 +46,48 @@ import { VADAnalyzer, type VADState } from "../lib/vad-analyzer";
 import { getGeminiConfig } from "../lib/gemini-key";
 import { useLogErrorMutation } from "../store/endpoints/errors";
 import { clearTranscriptBackup, saveTranscriptBackup } from "../lib/transcriptBackup";
+import {
+  INITIAL_STEERING,
+  MIN_ANSWER_WORDS,
+  nextSteering,
+  scoreAnswer,
+  type AnswerEvaluation,
+} from "../lib/answer-evaluator";
+import {
+  INTERVIEW_TOOL_DECLARATIONS,
+  INTERVIEW_TOOLS_INSTRUCTION,
+  parseInterviewToolCall,
+  type CodeSnippetRequest,
+  type InterviewToolRecord,
+} from "../lib/interview-tools";
+import {
+  buildPlanInstruction,
+  DEFAULT_SILENCE_PROMPT_AFTER_SEC,
+  phaseEndsMs,
+  phaseInstruction,
+  planDurationMs,
+  resolveInterviewPlan,
+  wrapUpAtMs,
+} from "../lib/interviewPlan";
+import {
+  buildQuestionBankInstruction,
+  GET_NEXT_QUESTION_DECLARATION,
+  initialQuestionProgress,
+  nextPendingQuestion,
+  questionResponse,
+  type QuestionProgress,
+} from "../lib/question-bank";
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-const MAX_DURATION_MS = 18 * 60 * 1000;          // 18 minutes hard cap
-const MAX_QUESTIONS = 15;                        // After 15 questions, trigger wrap-up and move to report
-const WRAP_UP_BEFORE_MS = 1 * 60 * 1000;         // 1 minute before end for closing statement
-const WRAP_UP_THRESHOLD_MS = MAX_DURATION_MS - WRAP_UP_BEFORE_MS; // 17 minutes — trigger wrap-up so AI delivers closing by 18
 /** If no audio and no turnComplete for this long while AI is "responding", commit pending and set listening (Section 9.2) */
 const TURN_COMPLETE_TIMEOUT_MS = 15_000;
 /** After sending wrap-up signal, allow up to this long for AI to say closing statement, then auto-end and move to report */
 const WRAP_UP_FALLBACK_MS = 30_000;               // 30 seconds
-/** If user is silent for this long while we're waiting for their answer, AI asks "Are you there?" */
-const SILENCE_PROMPT_AFTER_MS = 3_000;            // 3 seconds
+/** A live answer score arriving later than this is too stale to steer with */
+const ANSWER_SCORE_TIMEOUT_MS = 20_000;
 
 // ---------------------------------------------------------------------------
 // Hook return type
@@ -58,12 +103,34 @@ export interface VoiceChatState {
   pendingAssistantText: string;
   /** Live webcam MediaStream for the video preview element */
   webcamStream: MediaStream | null;
+  /** Date.now() when the session recording started (0 = not recording) */
+  recordingStartedAt: number;
+  /** AI audio playback path (lets audio proctoring discount the AI's own voice) */
+  aiPlayback: VideoRecorder | null;
   /** Number of AI questions asked so far */
   questionCount: number;
   /** Elapsed time in milliseconds since interview started */
   elapsedMs: number;
   /** Whether the AI is in the wrap-up phase */
   isWrappingUp: boolean;
+  /** Timer frozen by a proctor (see pause / resume) */
+  isPaused: boolean;
+  /** Hard time limit including any extensions */
+  timeLimitMs: number;
+  /** Phases this interview follows (template plan or the default) */
+  plan: InterviewPlan;
+  /** Index into plan.phases of the current phase */
+  phaseIndex: number;
+  /** Interviewer questions asked in the current phase */
+  phaseQuestionCount: number;
+  /** Live answer scores used for adaptive follow-up (not shown to the candidate) */
+  answerEvaluations: AnswerEvaluation[];
+  /** Every function call from the interviewer, in order (audit trail) */
+  toolLog: InterviewToolRecord[];
+  /** Code the interviewer asked the candidate to type (null = none open) */
+  codeRequest: CodeSnippetRequest | null;
+  /** Question-bank questions and whether each was asked / answered (empty without a bank) */
+  questionProgress: QuestionProgress[];
 }
 
 export interface VoiceChatActions {
@@ -71,6 +138,13 @@ export interface VoiceChatActions {
   start: () => Promise<void>;
   /** Stop everything and return the recorded video Blob (or null) */
   stop: () => Promise<Blob | null>;
+  /** Freeze the timer, stop sending the candidate's audio and hold the interviewer */
+  pause: () => void;
+  resume: () => void;
+  /** Push the time limit (and the wrap-up point) back */
+  extendTime: (ms: number) => void;
+  /** Answer the open code request with the candidate's code, or null when they could not */
+  submitCodeSnippet: (code: string | null) => void;
 }
 
 /** Optional callbacks for the voice chat session */
@@ -124,13 +198,15 @@ function buildDoNotAskBlock(guardrails: OrgGuardrails | null | undefined): strin
 // ---------------------------------------------------------------------------
 
 function buildSystemInstruction(
-  template?: ConversationTemplate,
+  template: ConversationTemplate | undefined,
+  plan: InterviewPlan,
   guardrails?: OrgGuardrails | null,
 ): string {
   if (!template) {
     return "You are a helpful, friendly, and concise AI voice assistant. Speak only in English. Never switch to any other language. Keep responses short and conversational. Respond naturally as in a voice conversation.";
   }
   const doNotAsk = buildDoNotAskBlock(guardrails ?? null);
+  const { rules, outline } = buildPlanInstruction(plan);
   return [
     "LANGUAGE (NON-NEGOTIABLE): This session is ENGLISH ONLY. You MUST always speak in English and the transcript must always be in English. Do NOT switch to any other language at any time. The user will speak in English; you must respond only in English. If the candidate speaks in another language, say briefly in English (e.g. 'Please continue in English so we can keep the transcript consistent') and carry on in English. Never use or transcribe in another language.",
     "",
@@ -161,15 +237,30 @@ function buildSystemInstruction(
     "1. You MUST strictly follow Section 1 for your behavior, tone, and approach.",
     "2. Use Section 2 (JD) and Section 3 (Resume) together to ask relevant, personalized questions.",
     "3. Ask questions one at a time. Wait for the candidate to finish before asking the next.",
-    "4. Ask relevant questions until either (a) you receive the wrap-up signal, (b) 15 questions have been asked, or (c) the 18-minute duration is reached. After 15 questions the system will send the wrap-up signal; deliver your closing statement and do not ask more questions.",
-    "5. Maximum interview duration is 18 minutes. By 17 minutes the system will send the wrap-up signal; deliver your closing statement so the interview ends by 18 minutes. The interview also ends after 15 questions (wrap-up will be triggered automatically).",
+    rules[0]!,
+    rules[1]!,
     "6. Ask a mix of technical, situational, and behavioral questions based on the JD and resume.",
     "7. Probe deeper with follow-up questions when the candidate gives shallow answers.",
     "8. Keep your responses short and conversational — this is a real-time voice interview.",
     "9. Start by briefly introducing yourself as Christie and the role, then begin with the first question.",
     "10. TURN-TAKING (STRICT): Wait for the candidate to finish their full answer before you respond. Do NOT interrupt or jump in during brief pauses, filler words ('um', 'uh', 'let me think'), or when they are mid-sentence. The system gives you the turn only after about 1 second of continuous silence — you must wait for that. If you are prompted that the candidate has been silent for a few seconds, say briefly and naturally 'Are you there?' or 'Still with me?' and then wait for their response. Never start speaking while they might still be in the middle of a sentence or thought.",
     "11. Conduct the entire interview in English only. All speech and transcript must be in English only. Do not switch to any other language — no exceptions.",
-    "12. You may ask up to 15 questions (or until time runs out). When the system sends the wrap-up signal (e.g. after 15 questions or at 17 minutes), give your closing statement and end by 18 minutes.",
+    rules[2]!,
+    "",
+    "═══════════════════════════════════════",
+    "INTERVIEW PLAN",
+    "═══════════════════════════════════════",
+    ...outline,
+    "",
+    "═══════════════════════════════════════",
+    "FUNCTIONS",
+    "═══════════════════════════════════════",
+    ...INTERVIEW_TOOLS_INSTRUCTION,
+    ...(template.questions?.length
+      ? ["", "═══════════════════════════════════════", "QUESTION BANK", "═══════════════════════════════════════", ...buildQuestionBankInstruction(template.questions)]
+      : []),
+    "",
+    "Messages starting with 'INTERVIEW_PHASE:' or 'ADAPTIVE_STEERING:' are private guidance from the system. Apply them from your next question on; never read them out, mention them or reply to them.",
     "",
     "IMPORTANT: When you receive a message saying 'INTERVIEW_WRAP_UP_SIGNAL', you MUST:",
     "- Thank the candidate warmly for their time.",
@@ -191,10 +282,16 @@ export function useVoiceChat(
   /** When set (e.g. Professional flow with LiveKit), use this stream for recording instead of requesting new media */
   externalStream?: MediaStream | null,
 ): [VoiceChatState, VoiceChatActions] {
+  const plan = useMemo(() => resolveInterviewPlan(template), [template]);
   const config: GeminiLiveConfig = {
     ...DEFAULT_CONFIG,
     ...configOverrides,
-    systemInstruction: buildSystemInstruction(template, guardrails ?? null),
+    systemInstruction: buildSystemInstruction(template, plan, guardrails ?? null),
+    tools: template
+      ? template.questions?.length
+        ? [...INTERVIEW_TOOL_DECLARATIONS, GET_NEXT_QUESTION_DECLARATION]
+        : INTERVIEW_TOOL_DECLARATIONS
+      : undefined,
   };
 
   // ---- React state --------------------------------------------------------
@@ -211,9 +308,19 @@ export function useVoiceChat(
   const [pendingUserText, setPendingUserText] = useState("");
   const [pendingAssistantText, setPendingAssistantText] = useState("");
   const [webcamStream, setWebcamStream] = useState<MediaStream | null>(null);
+  const [recordingStartedAt, setRecordingStartedAt] = useState(0);
+  const [aiPlayback, setAiPlayback] = useState<VideoRecorder | null>(null);
   const [questionCount, setQuestionCount] = useState(0);
   const [elapsedMs, setElapsedMs] = useState(0);
   const [isWrappingUp, setIsWrappingUp] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [timeLimitMs, setTimeLimitMs] = useState(() => planDurationMs(plan));
+  const [phaseIndex, setPhaseIndex] = useState(0);
+  const [phaseQuestionCount, setPhaseQuestionCount] = useState(0);
+  const [answerEvaluations, setAnswerEvaluations] = useState<AnswerEvaluation[]>([]);
+  const [toolLog, setToolLog] = useState<InterviewToolRecord[]>([]);
+  const [codeRequest, setCodeRequest] = useState<CodeSnippetRequest | null>(null);
+  const [questionProgress, setQuestionProgress] = useState<QuestionProgress[]>([]);
 
   const [logErrorMutation] = useLogErrorMutation();
 
@@ -225,12 +332,40 @@ export function useVoiceChat(
   const pendingUserRef = useRef("");
   const pendingAssistantRef = useRef("");
   const questionCountRef = useRef(0);
+  const planRef = useRef(plan);
+  planRef.current = plan;
+  const phaseIndexRef = useRef(0);
+  const phaseQuestionsRef = useRef(0);
+  const templateRef = useRef(template);
+  templateRef.current = template;
+  /** Interviewer's latest question, paired with the next answer for scoring */
+  const lastQuestionRef = useRef("");
+  const steeringRef = useRef(INITIAL_STEERING);
+  /** Steering note held back until the interviewer's current turn ends */
+  const queuedSteeringRef = useRef<string | null>(null);
+  /** True while the interviewer is speaking (from its first audio until turnComplete / interruption) */
+  const aiTurnOpenRef = useRef(false);
+  const scoreAbortRef = useRef<AbortController | null>(null);
+  const codeRequestRef = useRef<CodeSnippetRequest | null>(null);
+  const topicsCoveredRef = useRef<string[]>([]);
+  const questionProgressRef = useRef<QuestionProgress[]>([]);
+  /** Bank question being discussed (answers are attributed to it) */
+  const currentQuestionIdRef = useRef<string | null>(null);
+  /** Bank question just handed out; tags the interviewer's next turn */
+  const askingQuestionIdRef = useRef<string | null>(null);
+  /** Ref to the tool-call handler so the client callbacks (created once in start) see fresh state */
+  const toolCallRef = useRef<(calls: GeminiFunctionCall[]) => void>(() => {});
   const wrapUpSentRef = useRef(false);
   const wrapUpCompleteFiredRef = useRef(false);
   const wrapUpFallbackTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const optionsRef = useRef(options);
   optionsRef.current = options;
   const interviewStartRef = useRef(0);
+  /** When the current pause began (0 = running) and the total paused time before it */
+  const pausedAtRef = useRef(0);
+  const pausedTotalRef = useRef(0);
+  /** Extra time granted on top of the plan's duration */
+  const extraTimeRef = useRef(0);
   /** Throttle VAD/phase updates to reduce React lag from high-frequency audio callbacks */
   const lastVadUpdateRef = useRef(0);
   const VAD_THROTTLE_MS = 100;
@@ -250,7 +385,7 @@ export function useVoiceChat(
 
   // ---- Transcript helpers -------------------------------------------------
   const commitTranscript = useCallback(
-    (role: "user" | "assistant", text: string) => {
+    (role: "user" | "assistant", text: string, questionId?: string) => {
       if (!text.trim()) return;
       setTranscript((prev) => [
         ...prev,
@@ -259,12 +394,33 @@ export function useVoiceChat(
           role,
           text: text.trim(),
           timestamp: Date.now(),
+          ...(questionId ? { questionId } : {}),
         },
       ]);
     },
     [],
   );
 
+  const updateQuestionProgress = useCallback((questionId: string, update: (p: QuestionProgress) => QuestionProgress) => {
+    questionProgressRef.current = questionProgressRef.current.map((p) => (p.questionId === questionId ? update(p) : p));
+    setQuestionProgress(questionProgressRef.current);
+  }, []);
+
+  /** Interviewer turn, tagged with the bank question it asks (if one was just handed out) */
+  const commitAssistantTurn = useCallback(
+    (text: string) => {
+      commitTranscript("assistant", text, askingQuestionIdRef.current ?? undefined);
+      askingQuestionIdRef.current = null;
+    },
+    [commitTranscript],
+  );
+
+  /** Interview time so far, excluding pauses */
+  const getElapsed = useCallback(
+    () => (pausedAtRef.current || Date.now()) - interviewStartRef.current - pausedTotalRef.current,
+    [],
+  );
+
   // ---- Send wrap-up signal to AI ------------------------------------------
   const sendWrapUpSignal = useCallback(() => {
     if (wrapUpSentRef.current) return;
@@ -284,43 +440,214 @@ export function useVoiceChat(
     }, WRAP_UP_FALLBACK_MS);
   }, []);
 
+  // ---- Phases: entering the close wraps up, any other phase is steered by context ----
+  const enterPhase = useCallback(
+    (index: number) => {
+      const current = planRef.current;
+      phaseIndexRef.current = index;
+      phaseQuestionsRef.current = 0;
+      // Answers in the new phase are no longer about the last phase's bank question,
+      // unless it was only just asked and its answer is still to come
+      const askedId = currentQuestionIdRef.current;
+      if (askedId && questionProgressRef.current.find((p) => p.questionId === askedId)?.status !== "asked") {
+        currentQuestionIdRef.current = null;
+      }
+      setPhaseIndex(index);
+      setPhaseQuestionCount(0);
+      if (index >= current.phases.length - 1) {
+        sendWrapUpSignal();
+        return;
+      }
+      wsClientRef.current?.sendContext(phaseInstruction(current, index));
+    },
+    [sendWrapUpSignal],
+  );
+
   // ---- Check limits after each AI turn ------------------------------------
   const checkLimits = useCallback(() => {
-    if (wrapUpSentRef.current) return;
-    const elapsed = Date.now() - interviewStartRef.current;
+    if (wrapUpSentRef.current || pausedAtRef.current) return;
+    const elapsed = getElapsed();
+    const current = planRef.current;
+    const ends = phaseEndsMs(current, extraTimeRef.current);
+    const from = phaseIndexRef.current;
+    const last = current.phases.length - 1;
 
-    // After 15 questions → wrap up and move to report within 30 seconds
-    if (questionCountRef.current >= MAX_QUESTIONS) {
-      sendWrapUpSignal();
-      return;
+    // Past the phase's time budget → the phase the clock is in now
+    let next = from;
+    while (next < last && elapsed >= ends[next]!) next += 1;
+    // Phase's questions asked → move on early; its leftover time carries over
+    const maxQuestions = current.phases[from]?.maxQuestions;
+    if (next === from && maxQuestions && phaseQuestionsRef.current >= maxQuestions) next += 1;
+
+    if (next !== from) enterPhase(Math.min(next, last));
+  }, [enterPhase, getElapsed]);
+
+  // ---- Function calls from the interviewer -----------------------------------
+  const handleToolCalls = useCallback(
+    (calls: GeminiFunctionCall[]) => {
+      const at = getElapsed();
+      const records: InterviewToolRecord[] = [];
+      const responses: GeminiFunctionResponse[] = [];
+      let endRequested = false;
+
+      for (const call of calls) {
+        const parsed = parseInterviewToolCall(call);
+        const base = { id: call.id, name: call.name, args: call.args ?? {}, at };
+        let response: Record<string, unknown>;
+        if ("error" in parsed) {
+          records.push({ ...base, status: "rejected", error: parsed.error });
+          responses.push({ id: call.id, name: call.name, response: { error: parsed.error } });
+          continue;
+        }
+        switch (parsed.name) {
+          case "record_rubric_score":
+            response = { recorded: true };
+            break;
+          case "mark_topic_covered":
+            if (!topicsCoveredRef.current.includes(parsed.args.topic)) topicsCoveredRef.current.push(parsed.args.topic);
+            response = { recorded: true, topicsCovered: topicsCoveredRef.current };
+            break;
+          case "request_code_snippet":
+            if (codeRequestRef.current) {
+              const error = "A code snippet request is already open; wait for the candidate's CODE_SNIPPET message.";
+              records.push({ ...base, status: "rejected", error });
+              responses.push({ id: call.id, name: call.name, response: { error } });
+              continue;
+            }
+            codeRequestRef.current = { id: call.id, ...parsed.args };
+            setCodeRequest(codeRequestRef.current);
+            response = { editorOpen: true, next: "Tell the candidate the editor is open and wait for the 'CODE_SNIPPET:' message." };
+            break;
+          case "end_interview":
+            endRequested = !wrapUpSentRef.current;
+            response = { accepted: true, next: "Deliver your closing statement when the wrap-up signal arrives." };
+            break;
+          case "get_next_question": {
+            const questions = templateRef.current?.questions ?? [];
+            const question = nextPendingQuestion(questions, questionProgressRef.current);
+            if (question) {
+              updateQuestionProgress(question.id, (p) => ({ ...p, status: "asked", askedAt: at }));
+              currentQuestionIdRef.current = question.id;
+              askingQuestionIdRef.current = question.id;
+            } else {
+              // Bank exhausted: later answers belong to no bank question
+              currentQuestionIdRef.current = null;
+            }
+            const remaining = questionProgressRef.current.filter((p) => p.status === "pending").length;
+            response = questionResponse(question, remaining);
+            break;
+          }
+        }
+        records.push({ ...base, args: parsed.args, status: "applied" });
+        responses.push({ id: call.id, name: call.name, response });
+      }
+
+      setToolLog((prev) => [...prev, ...records]);
+      wsClientRef.current?.sendToolResponse(responses);
+      if (endRequested) enterPhase(planRef.current.phases.length - 1);
+    },
+    [enterPhase, getElapsed, updateQuestionProgress],
+  );
+
+  const handleToolCallCancellation = useCallback((ids: string[]) => {
+    if (codeRequestRef.current && ids.includes(codeRequestRef.current.id)) {
+      codeRequestRef.current = null;
+      setCodeRequest(null);
     }
-    // At 17 minutes (time only) → wrap up so closing statement fits before 18 min
-    if (elapsed >= WRAP_UP_THRESHOLD_MS) {
-      sendWrapUpSignal();
+    setToolLog((prev) => prev.map((r) => (ids.includes(r.id) ? { ...r, status: "cancelled" } : r)));
+  }, []);
+
+  useEffect(() => {
+    toolCallRef.current = handleToolCalls;
+  }, [handleToolCalls]);
+
+  // ---- Adaptive follow-up: score the answer on the side, steer the next question ----
+  /** Send the queued steering note; the candidate has the floor, so nothing is cut off */
+  const flushSteering = useCallback(() => {
+    const instruction = queuedSteeringRef.current;
+    queuedSteeringRef.current = null;
+    if (instruction && !wrapUpSentRef.current && !pausedAtRef.current) {
+      wsClientRef.current?.sendContext(instruction);
     }
-  }, [sendWrapUpSignal]);
+  }, []);
+
+  const scoreTurn = useCallback(async (question: string, answer: string) => {
+    const current = planRef.current.phases[phaseIndexRef.current];
+    // Templates without a "customer wants" text are scored against the interviewer's role
+    const jobDescription = templateRef.current?.customerWants.trim() || templateRef.current?.aiBehavior.trim();
+    if (!jobDescription || !question || wrapUpSentRef.current) return;
+    if (current?.kind !== "technical" && current?.kind !== "behavioral") return;
+    if (answer.split(/\s+/).length < MIN_ANSWER_WORDS) return;
+
+    // Only the latest answer matters; a slower earlier score would steer against it
+    scoreAbortRef.current?.abort();
+    const controller = new AbortController();
+    scoreAbortRef.current = controller;
+    const timeoutId = setTimeout(() => controller.abort(), ANSWER_SCORE_TIMEOUT_MS);
+    try {
+      const result = await scoreAnswer({ question, answer, jobDescription, phaseName: current.name }, controller.signal);
+      if (controller.signal.aborted) return;
+      setAnswerEvaluations((prev) => [...prev, { ...result, question, answer, at: Date.now() }]);
+      const { state, instruction } = nextSteering(steeringRef.current, result);
+      steeringRef.current = state;
+      if (instruction) {
+        // Only the latest note is kept; it goes out once the interviewer stops speaking
+        queuedSteeringRef.current = instruction;
+        if (!aiTurnOpenRef.current) flushSteering();
+      }
+    } catch (err) {
+      // Best effort: the interview carries on unsteered
+      if (!controller.signal.aborted) console.warn("[VoiceChat] Answer scoring failed:", err);
+    } finally {
+      clearTimeout(timeoutId);
+      if (scoreAbortRef.current === controller) scoreAbortRef.current = null;
+    }
+  }, [flushSteering]);
 
   // ---- Commit turn (shared by onTurnComplete and turnComplete timeout) ----
   const doCommitTurn = useCallback(() => {
+    aiTurnOpenRef.current = false;
+    // Held by the proctor: a reply the candidate never heard is not part of the interview
+    if (pausedAtRef.current) {
+      pendingAssistantRef.current = "";
+      setPendingAssistantText("");
+      return;
+    }
     if (pendingUserRef.current.trim()) {
-      commitTranscript("user", pendingUserRef.current);
+      const answer = pendingUserRef.current.trim();
+      const questionId = currentQuestionIdRef.current;
+      commitTranscript("user", answer, questionId ?? undefined);
+      if (questionId) {
+        const answeredAt = getElapsed();
+        updateQuestionProgress(questionId, (p) => ({
+          ...p,
+          status: "answered",
+          answeredAt: p.answeredAt ?? answeredAt,
+          answer: p.answer ? `${p.answer}\n${answer}` : answer,
+        }));
+      }
       pendingUserRef.current = "";
       setPendingUserText("");
+      void scoreTurn(lastQuestionRef.current, answer);
     }
     if (pendingAssistantRef.current.trim()) {
       const assistantText = pendingAssistantRef.current.trim();
-      commitTranscript("assistant", assistantText);
+      commitAssistantTurn(assistantText);
+      lastQuestionRef.current = assistantText;
       pendingAssistantRef.current = "";
       setPendingAssistantText("");
       if (assistantText.includes("?") && !wrapUpSentRef.current) {
         questionCountRef.current += 1;
+        phaseQuestionsRef.current += 1;
         setQuestionCount(questionCountRef.current);
+        setPhaseQuestionCount(phaseQuestionsRef.current);
       }
     }
     setChatPhase("listening");
     lastListeningStartRef.current = Date.now();
     silencePromptSentRef.current = false;
     checkLimits();
+    flushSteering();
     if (wrapUpSentRef.current && !wrapUpCompleteFiredRef.current) {
       wrapUpCompleteFiredRef.current = true;
       if (wrapUpFallbackTimerRef.current) {
@@ -329,7 +656,7 @@ export function useVoiceChat(
       }
       options?.onWrapUpComplete?.();
     }
-  }, [commitTranscript, checkLimits, options]);
+  }, [commitTranscript, commitAssistantTurn, checkLimits, flushSteering, getElapsed, scoreTurn, updateQuestionProgress, options]);
 
   useEffect(() => {
     commitTurnRef.current = doCommitTurn;
@@ -343,17 +670,19 @@ export function useVoiceChat(
     if (interviewStartRef.current === 0) return;
 
     const id = setInterval(() => {
-      const elapsed = Date.now() - interviewStartRef.current;
+      const elapsed = getElapsed();
       setElapsedMs(elapsed);
 
-      // Auto wrap-up at 17 minutes so closing statement by 18
-      if (elapsed >= WRAP_UP_THRESHOLD_MS && !wrapUpSentRef.current) {
-        sendWrapUpSignal();
+      // Auto wrap-up when the close phase is due, even mid-turn, so the closing fits in time;
+      // other phase changes wait for the end of the interviewer's turn (checkLimits)
+      const current = planRef.current;
+      if (elapsed >= wrapUpAtMs(current, extraTimeRef.current) && !wrapUpSentRef.current && !pausedAtRef.current) {
+        enterPhase(current.phases.length - 1);
       }
     }, 1000);
 
     return () => clearInterval(id);
-  }, [connectionState, sendWrapUpSignal]);
+  }, [connectionState, enterPhase, getElapsed]);
 
   // ---- turnComplete timeout: if AI never sends turnComplete, commit pending after N s (Section 9.2) ----
   useEffect(() => {
@@ -367,17 +696,18 @@ export function useVoiceChat(
     return () => clearInterval(id);
   }, [connectionState, chatPhase]);
 
-  // ---- Silence prompt: after 3s with no user speech while waiting, AI asks "Are you there?" ----
+  // ---- Silence prompt: after the plan's silence window with no user speech, AI asks "Are you there?" ----
   useEffect(() => {
     if (connectionState !== "connected" || chatPhase !== "listening") return;
     if (lastListeningStartRef.current === 0) return; // Not yet waiting for answer (e.g. before first question)
     const id = setInterval(() => {
-      if (silencePromptSentRef.current) return;
+      if (silencePromptSentRef.current || pausedAtRef.current) return;
       const elapsed = Date.now() - lastListeningStartRef.current;
-      if (elapsed >= SILENCE_PROMPT_AFTER_MS) {
+      const silenceSec = planRef.current.silencePromptAfterSec ?? DEFAULT_SILENCE_PROMPT_AFTER_SEC;
+      if (elapsed >= silenceSec * 1000) {
         silencePromptSentRef.current = true;
         wsClientRef.current?.sendText(
-          "The candidate has been silent for over 3 seconds. Say briefly and naturally: 'Are you there?' or 'Still with me?' and then wait for their response.",
+          `The candidate has been silent for over ${silenceSec} seconds. Say briefly and naturally: 'Are you there?' or 'Still with me?' and then wait for their response.`,
         );
       }
     }, 500);
@@ -389,7 +719,22 @@ export function useVoiceChat(
     clearTranscriptBackup();
     setError(null);
     interviewStartRef.current = Date.now();
+    pausedAtRef.current = 0;
+    pausedTotalRef.current = 0;
+    extraTimeRef.current = 0;
     questionCountRef.current = 0;
+    phaseIndexRef.current = 0;
+    phaseQuestionsRef.current = 0;
+    lastQuestionRef.current = "";
+    steeringRef.current = INITIAL_STEERING;
+    queuedSteeringRef.current = null;
+    aiTurnOpenRef.current = false;
+    scoreAbortRef.current?.abort();
+    codeRequestRef.current = null;
+    topicsCoveredRef.current = [];
+    questionProgressRef.current = initialQuestionProgress(templateRef.current?.questions ?? []);
+    currentQuestionIdRef.current = null;
+    askingQuestionIdRef.current = null;
     wrapUpSentRef.current = false;
     wrapUpCompleteFiredRef.current = false;
     if (wrapUpFallbackTimerRef.current) {
@@ -399,6 +744,14 @@ export function useVoiceChat(
     setQuestionCount(0);
     setElapsedMs(0);
     setIsWrappingUp(false);
+    setIsPaused(false);
+    setTimeLimitMs(planDurationMs(planRef.current));
+    setPhaseIndex(0);
+    setPhaseQuestionCount(0);
+    setAnswerEvaluations([]);
+    setToolLog([]);
+    setCodeRequest(null);
+    setQuestionProgress(questionProgressRef.current);
 
     try {
       // Fetch Gemini API key from backend
@@ -409,7 +762,9 @@ export function useVoiceChat(
       const recorder = new VideoRecorder();
       const camStream = await recorder.start(externalStream ?? undefined);
       recorderRef.current = recorder;
+      setRecordingStartedAt(Date.now());
       setWebcamStream(camStream);
+      setAiPlayback(recorder);
 
       // 2. Create Gemini WebSocket client
       const wsClient = new GeminiWebSocketClient(config, {
@@ -422,8 +777,11 @@ export function useVoiceChat(
 
         onSetupComplete: () => {
           void startCapture();
+          const fromBank = templateRef.current?.questions?.length
+            ? " When you reach your first main question, call get_next_question and ask the question it returns."
+            : "";
           wsClient.sendText(
-            "Begin the interview now. Introduce yourself as Christie, briefly mention the role, then ask the first question.",
+            `Begin the interview now with phase 1, "${planRef.current.phases[0]?.name ?? "Introduction"}". Introduce yourself as Christie, briefly mention the role, then ask the first question.${fromBank}`,
           );
           lastAiActivityRef.current = Date.now();
           setChatPhase("ai-responding");
@@ -434,7 +792,10 @@ export function useVoiceChat(
         },
 
         onAudioData: (base64Audio) => {
+          // Held by the proctor: the interviewer stays silent
+          if (pausedAtRef.current) return;
           lastAiActivityRef.current = Date.now();
+          aiTurnOpenRef.current = true;
           setChatPhase("ai-responding");
           // Play through VideoRecorder (speakers + recording)
           recorder.playAiChunk(base64Audio);
@@ -446,24 +807,32 @@ export function useVoiceChat(
         },
 
         onOutputTranscription: (text) => {
+          // Held by the proctor: the audio is dropped, so is its transcription
+          if (pausedAtRef.current) return;
           pendingAssistantRef.current += text;
           setPendingAssistantText(pendingAssistantRef.current);
         },
 
         onInterrupted: () => {
           recorder.stopPlayback();
+          aiTurnOpenRef.current = false;
           setChatPhase("user-speaking");
           if (pendingAssistantRef.current.trim()) {
-            commitTranscript("assistant", pendingAssistantRef.current);
+            commitAssistantTurn(pendingAssistantRef.current);
+            lastQuestionRef.current = pendingAssistantRef.current.trim();
             pendingAssistantRef.current = "";
             setPendingAssistantText("");
           }
+          flushSteering();
         },
 
         onTurnComplete: () => {
           commitTurnRef.current();
         },
 
+        onToolCall: (calls) => toolCallRef.current(calls),
+        onToolCallCancellation: (ids) => handleToolCallCancellation(ids),
+
         onError: (err) => {
           setError(err.message);
           console.error("[VoiceChat] Error:", err);
@@ -497,6 +866,7 @@ export function useVoiceChat(
 
     const capture = new AudioCaptureManager({
       onAudioChunk: (base64Pcm) => {
+        if (pausedAtRef.current) return;
         wsClient.sendAudio(base64Pcm);
       },
       onEnergyLevel: (rms) => {
@@ -525,6 +895,7 @@ export function useVoiceChat(
   const stop = useCallback(async (): Promise<Blob | null> => {
     if (stopPromiseRef.current != null) return stopPromiseRef.current;
     const p = (async (): Promise<Blob | null> => {
+      scoreAbortRef.current?.abort();
       captureRef.current?.stop();
       captureRef.current = null;
       wsClientRef.current?.disconnect();
@@ -541,6 +912,7 @@ export function useVoiceChat(
       setPendingUserText("");
       setPendingAssistantText("");
       setWebcamStream(null);
+      setAiPlayback(null);
       return videoBlob;
     })();
     stopPromiseRef.current = p;
@@ -551,6 +923,69 @@ export function useVoiceChat(
     }
   }, []);
 
+  // ---- Proctor controls -----------------------------------------------------
+  const pause = useCallback(() => {
+    if (pausedAtRef.current || !interviewStartRef.current) return;
+    pausedAtRef.current = Date.now();
+    setIsPaused(true);
+    recorderRef.current?.stopPlayback();
+    // Keep what the candidate heard before the cut, as on an interruption
+    if (pendingAssistantRef.current.trim()) {
+      commitAssistantTurn(pendingAssistantRef.current);
+      lastQuestionRef.current = pendingAssistantRef.current.trim();
+      pendingAssistantRef.current = "";
+      setPendingAssistantText("");
+    }
+    // Context, not a turn: the notice must not make the interviewer reply
+    wsClientRef.current?.sendContext(
+      "The proctor has paused the interview. Do not speak until you receive 'INTERVIEW_RESUMED'.",
+    );
+  }, [commitAssistantTurn]);
+
+  const resume = useCallback(() => {
+    if (!pausedAtRef.current) return;
+    pausedTotalRef.current += Date.now() - pausedAtRef.current;
+    pausedAtRef.current = 0;
+    setIsPaused(false);
+    lastListeningStartRef.current = Date.now();
+    silencePromptSentRef.current = false;
+    wsClientRef.current?.sendText(
+      "INTERVIEW_RESUMED. Briefly tell the candidate you are continuing, then repeat or continue the current question.",
+    );
+  }, []);
+
+  const extendTime = useCallback((ms: number) => {
+    if (ms <= 0) return;
+    extraTimeRef.current += ms;
+    setTimeLimitMs(planDurationMs(planRef.current) + extraTimeRef.current);
+  }, []);
+
+  const submitCodeSnippet = useCallback(
+    (code: string | null) => {
+      const request = codeRequestRef.current;
+      if (!request) return;
+      codeRequestRef.current = null;
+      setCodeRequest(null);
+      const trimmed = code?.trim();
+      if (trimmed) {
+        // In the transcript too, so the report sees the code
+        commitTranscript(
+          "user",
+          `[Code snippet${request.language ? ` — ${request.language}` : ""}]\n${trimmed}`,
+          currentQuestionIdRef.current ?? undefined,
+        );
+        wsClientRef.current?.sendText(
+          `CODE_SNIPPET: The candidate typed this for "${request.prompt}":\n\`\`\`${request.language ?? ""}\n${trimmed}\n\`\`\`\nDiscuss it with them briefly, then continue the interview.`,
+        );
+      } else {
+        wsClientRef.current?.sendText(
+          `CODE_SNIPPET: The candidate did not submit code for "${request.prompt}". Acknowledge it briefly and continue the interview.`,
+        );
+      }
+    },
+    [commitTranscript],
+  );
+
   // ---- Persist transcript to localStorage (throttled) for recovery -------
   useEffect(() => {
     if (!template || connectionState !== "connected") return;
@@ -572,6 +1007,7 @@ export function useVoiceChat(
         clearTimeout(wrapUpFallbackTimerRef.current);
         wrapUpFallbackTimerRef.current = null;
       }
+      scoreAbortRef.current?.abort();
       captureRef.current?.stop();
       wsClientRef.current?.disconnect();
       void recorderRef.current?.stop();
@@ -588,10 +1024,21 @@ export function useVoiceChat(
       pendingUserText,
       pendingAssistantText,
       webcamStream,
+      recordingStartedAt,
+      aiPlayback,
       questionCount,
       elapsedMs,
       isWrappingUp,
+      isPaused,
+      timeLimitMs,
+      plan,
+      phaseIndex,
+      phaseQuestionCount,
+      answerEvaluations,
+      toolLog,
+      codeRequest,
+      questionProgress,
     },
-    { start, stop },
+    { start, stop, pause, resume, extendTime, submitCodeSnippet },
   ];
 }
@@ -0,0 +1,140 @@
+/**
+ * Answer Evaluator — Side-channel scoring of the candidate's answers while
+ * the live interview runs, used to adapt difficulty.
+ *
+ * Each completed answer is scored with DeepSeek against the question and the
+ * job description; nextSteering turns the running result into a short
+ * instruction for the interviewer (probe deeper after strong answers,
+ * simplify or change topic after weak ones). The interviewer only sees the
+ * instruction, never the scores, and the candidate sees neither.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AnswerVerdict = "strong" | "adequate" | "weak";
+
+export interface AnswerScore {
+  /** 0-10 for the level the job description asks for */
+  score: number;
+  verdict: AnswerVerdict;
+  /** Short topic label of the question (e.g. "database indexing") */
+  topic: string;
+  /** One sentence on why */
+  rationale: string;
+}
+
+export interface AnswerEvaluation extends AnswerScore {
+  question: string;
+  answer: string;
+  /** Date.now() when the score arrived */
+  at: number;
+}
+
+/** Running difficulty and weak-answer streak across the interview */
+export interface SteeringState {
+  /** 1 (basics) – 5 (expert) */
+  level: number;
+  /** Consecutive weak answers */
+  weakStreak: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const STRONG_ANSWER_MIN = 8;
+export const WEAK_ANSWER_MAX = 4;
+/** Answers shorter than this (words) are not scored — acknowledgements, "can you repeat that?" */
+export const MIN_ANSWER_WORDS = 6;
+const MAX_FIELD_CHARS = 2000;
+const MAX_JD_CHARS = 1500;
+const MIN_LEVEL = 1;
+const MAX_LEVEL = 5;
+
+export const INITIAL_STEERING: SteeringState = { level: 3, weakStreak: 0 };
+
+// ---------------------------------------------------------------------------
+// Scoring (single API call)
+// ---------------------------------------------------------------------------
+
+function verdictFor(score: number): AnswerVerdict {
+  if (score >= STRONG_ANSWER_MIN) return "strong";
+  if (score <= WEAK_ANSWER_MAX) return "weak";
+  return "adequate";
+}
+
+export async function scoreAnswer(
+  input: { question: string; answer: string; jobDescription: string; phaseName?: string },
+  signal?: AbortSignal,
+): Promise<AnswerScore> {
+  const { callDeepSeekJson } = await import("./deepseek-client");
+
+  const prompt = `You are assessing one answer in a live job interview, to decide how the interviewer should continue.
+
+Job description:
+${input.jobDescription.slice(0, MAX_JD_CHARS)}
+${input.phaseName ? `\nInterview phase: ${input.phaseName}\n` : ""}
+Interviewer question:
+${input.question.slice(-MAX_FIELD_CHARS)}
+
+Candidate answer (speech transcript, may contain recognition errors):
+${input.answer.slice(0, MAX_FIELD_CHARS)}
+
+Return a JSON object with this EXACT structure:
+{
+  "score": <integer 0-10>,
+  "topic": "<2-5 word label for what the question was about>",
+  "rationale": "<one sentence>"
+}
+
+Rules:
+- Score against the seniority the job description asks for: a correct but basic answer for a senior role is a 5-6, not an 8.
+- 8-10 = accurate, specific and goes beyond the obvious (trade-offs, examples, depth).
+- 0-4 = wrong, vague, evasive, or shows the candidate does not know the topic.
+- Judge content only, not grammar or filler words.
+- Return ONLY the JSON object, nothing else.`;
+
+  const raw = await callDeepSeekJson<Record<string, unknown>>(prompt, { temperature: 0.2, maxTokens: 300, signal });
+  const parsed = Number(raw?.score);
+  const score = Number.isFinite(parsed) ? Math.min(10, Math.max(0, Math.round(parsed))) : 5;
+  return {
+    score,
+    verdict: verdictFor(score),
+    topic: typeof raw?.topic === "string" && raw.topic.trim() ? raw.topic.trim().slice(0, 80) : "the current topic",
+    rationale: typeof raw?.rationale === "string" ? raw.rationale.trim().slice(0, 300) : "",
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Steering
+// ---------------------------------------------------------------------------
+
+/**
+ * Next steering state and the instruction to give the interviewer (null when
+ * the answer was adequate and nothing needs to change).
+ */
+export function nextSteering(state: SteeringState, result: AnswerScore): { state: SteeringState; instruction: string | null } {
+  const tail = "Do not mention this message, scores or difficulty levels to the candidate, and do not reply to it.";
+
+  if (result.verdict === "strong") {
+    const level = Math.min(MAX_LEVEL, state.level + 1);
+    return {
+      state: { level, weakStreak: 0 },
+      instruction: `ADAPTIVE_STEERING: The candidate answered well on "${result.topic}". In your next question, probe deeper instead of covering basics — ask about trade-offs, edge cases, failure modes or how it works at scale. Target difficulty ${level}/${MAX_LEVEL}. ${tail}`,
+    };
+  }
+
+  if (result.verdict === "weak") {
+    const level = Math.max(MIN_LEVEL, state.level - 1);
+    const weakStreak = state.weakStreak + 1;
+    const action =
+      weakStreak >= 2
+        ? `Two answers in a row were weak. Move on to a different topic from the job description rather than pressing on "${result.topic}".`
+        : `The candidate struggled with "${result.topic}". Ask a simpler, more concrete question on it (or give a small scenario to reason about), or switch topic if they are clearly unfamiliar with it.`;
+    return { state: { level, weakStreak }, instruction: `ADAPTIVE_STEERING: ${action} Target difficulty ${level}/${MAX_LEVEL}. ${tail}` };
+  }
+
+  return { state: { ...state, weakStreak: 0 }, instruction: null };
+}
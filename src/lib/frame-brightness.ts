@@ -0,0 +1,27 @@
+/**
+ * Frame brightness — Mean luma of the current video frame, used by the
+ * proctoring loop (dark / covered camera) and the system check's lighting
+ * probe. Draws into one reusable 16×12 canvas, so it is cheap per frame.
+ */
+
+let canvas: HTMLCanvasElement | null = null;
+let ctx: CanvasRenderingContext2D | null = null;
+
+/** Mean luma (0–255) of the current frame, from a 16×12 downscale */
+export function computeBrightness(source: HTMLVideoElement): number {
+  if (!canvas) {
+    canvas = document.createElement("canvas");
+    canvas.width = 16;
+    canvas.height = 12;
+    ctx = canvas.getContext("2d", { willReadFrequently: true });
+  }
+  if (!ctx) return 128;
+  ctx.drawImage(source, 0, 0, 16, 12);
+  const data = ctx.getImageData(0, 0, 16, 12).data;
+  let sum = 0;
+  const px = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    sum += data[i]! * 0.299 + data[i + 1]! * 0.587 + data[i + 2]! * 0.114;
+  }
+  return Math.round(sum / px);
+}
@@ -5,6 +5,10 @@
 
 import type { TranscriptEntry } from "../types/gemini";
 import type { AptitudeQuiz } from "./aptitude";
+import type { ScoringProfile } from "./scoring-profile";
+import { isFaceReference, type FaceReference } from "../proctoring/faceIdentity";
+import type { RiskSeries, SystemCheckResult } from "../proctoring/types";
+import { isSystemCheckResult } from "../proctoring/systemCheck";
 
 const STORAGE_KEY = "vocalhireai_full_flow_report";
 
@@ -15,6 +19,7 @@ export interface StoredProctoringFlag {
   timestamp: number;
   message: string;
   pointsAdded: number;
+  similarity?: number;
 }
 
 export interface FullFlowAptitudeResult {
@@ -29,11 +34,15 @@ export interface FullFlowAptitudeResult {
   proctoringFlags?: StoredProctoringFlag[];
   /** Proctoring risk score 0–100 (higher = more concerns) */
   riskScore?: number;
+  /** Sampled risk score + key metrics over the round */
+  riskSeries?: RiskSeries;
   /** Full quiz + answers for full report (question breakdown with explanations) */
   quiz?: AptitudeQuiz;
   answers?: Record<number, number>;
   /** Object URL of proctoring webcam recording (blob URL; valid for session) */
   videoUrl?: string;
+  /** Recording start minus proctoring start, in ms (seeks the recording to a flag) */
+  videoOffsetMs?: number;
   savedAt: number;
 }
 
@@ -41,7 +50,15 @@ export interface FullFlowInterviewResult {
   transcript: TranscriptEntry[];
   /** Full evaluation report from ConversationReport (if generated) */
   report: unknown;
+  /** Scoring profile the report is scored with (standard when absent) */
+  scoringProfile?: ScoringProfile;
   interviewId: string | null;
+  /** Proctoring flags recorded during the interview */
+  proctoringFlags?: StoredProctoringFlag[];
+  /** Proctoring risk score 0–100 (higher = more concerns) */
+  riskScore?: number;
+  /** Sampled risk score + key metrics over the round */
+  riskSeries?: RiskSeries;
   /** Object URL of interview recording (blob URL; valid for session) */
   videoUrl?: string;
   savedAt: number;
@@ -60,8 +77,12 @@ export interface FullFlowCodingResult {
   proctoringFlags?: StoredProctoringFlag[];
   /** Proctoring risk score 0–100 (higher = more concerns) */
   riskScore?: number;
+  /** Sampled risk score + key metrics over the round */
+  riskSeries?: RiskSeries;
   /** Object URL of proctoring webcam recording (blob URL; valid for session) */
   videoUrl?: string;
+  /** Recording start minus proctoring start, in ms (seeks the recording to a flag) */
+  videoOffsetMs?: number;
   savedAt: number;
 }
 
@@ -71,6 +92,10 @@ export interface FullFlowReportSession {
   aptitude: FullFlowAptitudeResult | null;
   interview: FullFlowInterviewResult | null;
   coding: FullFlowCodingResult | null;
+  /** Face enrolled in the first system check; later rounds compare against it */
+  faceReference?: FaceReference;
+  /** Latest passed system check; later rounds skip the wizard when it covers their needs */
+  systemCheck?: SystemCheckResult;
 }
 
 export function getFullFlowReport(): FullFlowReportSession | null {
@@ -115,7 +140,15 @@ export function saveFullFlowInterview(result: Omit<FullFlowInterviewResult, "sav
   try {
     const session = getFullFlowReport();
     if (!session) return;
-    session.interview = { ...result, savedAt: Date.now() };
+    // Later saves (e.g. from the report screen) do not carry proctoring; keep the live values
+    const prev = session.interview;
+    session.interview = {
+      proctoringFlags: prev?.proctoringFlags,
+      riskScore: prev?.riskScore,
+      riskSeries: prev?.riskSeries,
+      ...result,
+      savedAt: Date.now(),
+    };
     localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
   } catch {
     //
@@ -133,6 +166,38 @@ export function saveFullFlowCoding(result: Omit<FullFlowCodingResult, "savedAt">
   }
 }
 
+export function getFullFlowFaceReference(): FaceReference | null {
+  const ref = getFullFlowReport()?.faceReference;
+  return isFaceReference(ref) ? ref : null;
+}
+
+export function saveFullFlowFaceReference(reference: FaceReference): void {
+  try {
+    const session = getFullFlowReport();
+    if (!session || session.faceReference) return;
+    session.faceReference = reference;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch {
+    //
+  }
+}
+
+export function getFullFlowSystemCheck(): SystemCheckResult | null {
+  const check = getFullFlowReport()?.systemCheck;
+  return isSystemCheckResult(check) ? check : null;
+}
+
+export function saveFullFlowSystemCheck(result: SystemCheckResult): void {
+  try {
+    const session = getFullFlowReport();
+    if (!session) return;
+    session.systemCheck = result;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch {
+    //
+  }
+}
+
 export function clearFullFlowReport(): void {
   try {
     localStorage.removeItem(STORAGE_KEY);
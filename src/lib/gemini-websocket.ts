@@ -14,8 +14,12 @@
 
 import type {
   ConnectionState,
+  GeminiFunctionCall,
+  GeminiFunctionResponse,
   GeminiLiveConfig,
   GeminiServerMessage,
+  GeminiToolCall,
+  GeminiToolCallCancellation,
   SessionResumptionUpdate,
 } from "../types/gemini";
 import { clearGeminiCache } from "./gemini-key";
@@ -34,6 +38,9 @@ export interface GeminiLiveCallbacks {
   onOutputTranscription: (text: string) => void;
   onInterrupted: () => void;
   onTurnComplete: () => void;
+  /** Model called functions from config.tools; reply with sendToolResponse */
+  onToolCall?: (calls: GeminiFunctionCall[]) => void;
+  onToolCallCancellation?: (ids: string[]) => void;
   onError: (error: Error) => void;
 }
 
@@ -222,6 +229,28 @@ export class GeminiWebSocketClient {
     );
   }
 
+  /**
+   * Add a text turn to the context without asking for a response.
+   * The model takes it into account on its next turn (e.g. the proctor's pause notice).
+   */
+  sendContext(text: string): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    this.ws.send(
+      JSON.stringify({
+        clientContent: {
+          turns: [{ role: "user", parts: [{ text }] }],
+          turnComplete: false,
+        },
+      }),
+    );
+  }
+
+  /** Answer function calls from onToolCall (one response per call id). */
+  sendToolResponse(functionResponses: GeminiFunctionResponse[]): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN || functionResponses.length === 0) return;
+    this.ws.send(JSON.stringify({ toolResponse: { functionResponses } }));
+  }
+
   // ---- WebSocket handlers (arrow fns keep `this`) -------------------------
 
   private handleOpen = (): void => {
@@ -332,7 +361,21 @@ export class GeminiWebSocketClient {
         return;
       }
 
-      // 3. Server content (audio, transcription, turn signals)
+      // 3. Function calls (own messages, no serverContent)
+      const toolCall = typed.toolCall ?? (msg["tool_call"] as GeminiToolCall | undefined);
+      const toolCallCancellation =
+        typed.toolCallCancellation ?? (msg["tool_call_cancellation"] as GeminiToolCallCancellation | undefined);
+      if (toolCall) {
+        const calls = (toolCall.functionCalls ?? []).filter((c) => c && typeof c.id === "string" && typeof c.name === "string");
+        if (calls.length > 0) this.callbacks.onToolCall?.(calls);
+        return;
+      }
+      if (toolCallCancellation) {
+        if (Array.isArray(toolCallCancellation.ids)) this.callbacks.onToolCallCancellation?.(toolCallCancellation.ids);
+        return;
+      }
+
+      // 4. Server content (audio, transcription, turn signals)
       if (typed.serverContent) {
         const sc = typed.serverContent;
 
@@ -532,6 +575,9 @@ export class GeminiWebSocketClient {
       // Extend session beyond default 15 min audio-only limit
       contextWindowCompression: { slidingWindow: {} },
     };
+    if (this.config.tools?.length) {
+      setup.tools = [{ functionDeclarations: this.config.tools }];
+    }
 
     if (this.resumptionToken) this.didSendSetupWithResumptionToken = true;
 
@@ -0,0 +1,225 @@
+/**
+ * Interview Tools — Functions the live interviewer can call (Gemini Live
+ * function calling) so scoring happens as structured data during the
+ * conversation instead of only in the free-form transcript:
+ *
+ *   record_rubric_score   score one report dimension with evidence
+ *   mark_topic_covered    note a topic as done (avoids repeats)
+ *   request_code_snippet  open an editor for the candidate to type code
+ *   end_interview         finish early (sends the wrap-up signal)
+ *   get_next_question     next question from the template's bank (lib/question-bank)
+ *
+ * parseInterviewToolCall validates a call's arguments; useVoiceChat applies
+ * it, answers the model and keeps every call in an audit log that is saved
+ * with the interview.
+ */
+
+import type { GeminiFunctionCall, GeminiFunctionDeclaration } from "../types/gemini";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Same dimensions as the report sections (EvaluationReport keys) */
+export const RUBRIC_CRITERIA = [
+  "technicalSkills",
+  "communication",
+  "analyticalThinking",
+  "behavioral",
+  "domainKnowledge",
+  "culturalFit",
+  "workEthic",
+] as const;
+
+export type RubricCriterion = (typeof RUBRIC_CRITERIA)[number];
+
+export const RUBRIC_CRITERION_LABELS: Record<RubricCriterion, string> = {
+  technicalSkills: "Technical skills",
+  communication: "Communication",
+  analyticalThinking: "Analytical thinking",
+  behavioral: "Behavioral",
+  domainKnowledge: "Domain knowledge",
+  culturalFit: "Cultural fit",
+  workEthic: "Work ethic & motivation",
+};
+
+export type TopicDepth = "surface" | "solid" | "deep";
+
+export type InterviewToolCall =
+  | { name: "record_rubric_score"; args: { criterion: RubricCriterion; score: number; evidence: string; question?: string; questionId?: string } }
+  | { name: "mark_topic_covered"; args: { topic: string; depth: TopicDepth } }
+  | { name: "request_code_snippet"; args: { prompt: string; language?: string } }
+  | { name: "end_interview"; args: { reason: string } }
+  | { name: "get_next_question"; args: Record<string, never> };
+
+export type InterviewToolName = InterviewToolCall["name"];
+
+/** One function call as kept in the audit log */
+export interface InterviewToolRecord {
+  /** Function call id from the model */
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  /** Interview time (ms, excluding pauses) when the call arrived */
+  at: number;
+  status: "applied" | "rejected" | "cancelled";
+  /** Why a call was rejected */
+  error?: string;
+}
+
+/** Open request for the candidate to type code (request_code_snippet) */
+export interface CodeSnippetRequest {
+  id: string;
+  prompt: string;
+  language?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Declarations (sent in the setup message)
+// ---------------------------------------------------------------------------
+
+export const INTERVIEW_TOOL_DECLARATIONS: GeminiFunctionDeclaration[] = [
+  {
+    name: "record_rubric_score",
+    description:
+      "Record a score for one evaluation criterion after the candidate has given enough evidence for it (usually after an answer). Call silently; do not tell the candidate about scores.",
+    parameters: {
+      type: "OBJECT",
+      properties: {
+        criterion: { type: "STRING", enum: [...RUBRIC_CRITERIA], description: "Which criterion the evidence is for" },
+        score: { type: "INTEGER", description: "0 (no evidence / wrong) to 10 (exceptional) for the level the job asks for" },
+        evidence: { type: "STRING", description: "One or two sentences quoting or summarising what the candidate said" },
+        question: { type: "STRING", description: "The question the answer responded to" },
+        questionId: { type: "STRING", description: "questionId from get_next_question, when the answer was to a question-bank question" },
+      },
+      required: ["criterion", "score", "evidence"],
+    },
+  },
+  {
+    name: "mark_topic_covered",
+    description: "Mark a job-description topic as covered so it is not asked again.",
+    parameters: {
+      type: "OBJECT",
+      properties: {
+        topic: { type: "STRING", description: "Short topic label, e.g. 'SQL indexing'" },
+        depth: { type: "STRING", enum: ["surface", "solid", "deep"], description: "How deeply it was explored" },
+      },
+      required: ["topic"],
+    },
+  },
+  {
+    name: "request_code_snippet",
+    description:
+      "Ask the candidate to type a short piece of code in an editor (speech is poor for code). Their code arrives later in a message starting 'CODE_SNIPPET:'. Only one request can be open at a time.",
+    parameters: {
+      type: "OBJECT",
+      properties: {
+        prompt: { type: "STRING", description: "What to write, shown to the candidate" },
+        language: { type: "STRING", description: "Programming language, if it matters" },
+      },
+      required: ["prompt"],
+    },
+  },
+  {
+    name: "end_interview",
+    description:
+      "End the interview early (e.g. the candidate asks to stop, or there is nothing left to assess). The system then sends the wrap-up signal.",
+    parameters: {
+      type: "OBJECT",
+      properties: {
+        reason: { type: "STRING", description: "Why the interview is ending early" },
+      },
+      required: ["reason"],
+    },
+  },
+];
+
+/** Added to the system instruction when the tools are enabled */
+export const INTERVIEW_TOOLS_INSTRUCTION = [
+  "You can call functions during the interview. Never mention them to the candidate.",
+  "- After each substantive answer, call record_rubric_score for the criterion (or criteria) the answer gave evidence for.",
+  "- When a topic from the job description has been explored, call mark_topic_covered and do not return to it.",
+  "- When you need the candidate to write code, call request_code_snippet and tell them an editor has opened; wait for the 'CODE_SNIPPET:' message before discussing it.",
+  "- Call end_interview only if the candidate asks to stop or the interview cannot continue; do not use it instead of the normal wrap-up.",
+];
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const MAX_TEXT = 1000;
+
+function text(v: unknown): string {
+  return typeof v === "string" ? v.trim().slice(0, MAX_TEXT) : "";
+}
+
+/** Typed call, or the error to send back to the model */
+export function parseInterviewToolCall(call: GeminiFunctionCall): InterviewToolCall | { error: string } {
+  const args = call.args ?? {};
+  switch (call.name) {
+    case "record_rubric_score": {
+      const criterion = RUBRIC_CRITERIA.find((c) => c === args.criterion);
+      const score = Number(args.score);
+      const evidence = text(args.evidence);
+      if (!criterion) return { error: `criterion must be one of ${RUBRIC_CRITERIA.join(", ")}` };
+      if (!Number.isFinite(score) || score < 0 || score > 10) return { error: "score must be between 0 and 10" };
+      if (!evidence) return { error: "evidence is required" };
+      const question = text(args.question);
+      const questionId = text(args.questionId);
+      return {
+        name: call.name,
+        args: { criterion, score: Math.round(score), evidence, ...(question ? { question } : {}), ...(questionId ? { questionId } : {}) },
+      };
+    }
+    case "mark_topic_covered": {
+      const topic = text(args.topic);
+      if (!topic) return { error: "topic is required" };
+      const depth: TopicDepth = args.depth === "surface" || args.depth === "deep" ? args.depth : "solid";
+      return { name: call.name, args: { topic, depth } };
+    }
+    case "request_code_snippet": {
+      const prompt = text(args.prompt);
+      if (!prompt) return { error: "prompt is required" };
+      const language = text(args.language);
+      return { name: call.name, args: { prompt, ...(language ? { language } : {}) } };
+    }
+    case "end_interview": {
+      const reason = text(args.reason);
+      if (!reason) return { error: "reason is required" };
+      return { name: call.name, args: { reason } };
+    }
+    case "get_next_question":
+      return { name: call.name, args: {} };
+    default:
+      return { error: `Unknown function ${call.name}` };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reading the log
+// ---------------------------------------------------------------------------
+
+/** Applied rubric scores, oldest first */
+export function rubricScoresFrom(log: InterviewToolRecord[]): Array<{
+  criterion: RubricCriterion;
+  score: number;
+  evidence: string;
+  question?: string;
+  questionId?: string;
+  at: number;
+}> {
+  return log
+    .filter((r) => r.status === "applied" && r.name === "record_rubric_score")
+    .map((r) => ({
+      criterion: r.args.criterion as RubricCriterion,
+      score: r.args.score as number,
+      evidence: r.args.evidence as string,
+      question: r.args.question as string | undefined,
+      questionId: r.args.questionId as string | undefined,
+      at: r.at,
+    }));
+}
+
+export function topicsCoveredFrom(log: InterviewToolRecord[]): string[] {
+  return log.filter((r) => r.status === "applied" && r.name === "mark_topic_covered").map((r) => r.args.topic as string);
+}
@@ -0,0 +1,156 @@
+/**
+ * Interview plan — the phases an interview moves through (intro, technical,
+ * behavioral, candidate questions, close), each with a time budget and an
+ * optional question count. Templates may carry their own plan; everything
+ * else uses DEFAULT_INTERVIEW_PLAN (18 minutes, 15 questions).
+ *
+ * Phase boundaries are cumulative: a phase that finishes its questions early
+ * hands its remaining time to the next one. Time granted by a proctor goes to
+ * the last phase before the close, so the wrap-up moves back with it.
+ */
+
+import type { ConversationTemplate, InterviewPhase, InterviewPhaseKind, InterviewPlan } from "../types/gemini";
+
+export const INTERVIEW_PHASE_KINDS: InterviewPhaseKind[] = ["intro", "technical", "behavioral", "candidate_questions", "close"];
+
+export const INTERVIEW_PHASE_LABELS: Record<InterviewPhaseKind, string> = {
+  intro: "Introduction",
+  technical: "Technical",
+  behavioral: "Behavioral",
+  candidate_questions: "Candidate questions",
+  close: "Close",
+};
+
+/** What the interviewer is told to do in a phase unless the template says otherwise */
+const PHASE_GUIDANCE: Record<InterviewPhaseKind, string> = {
+  intro: "Introduce yourself and the role, put the candidate at ease, and ask them to briefly introduce themselves.",
+  technical: "Ask technical and situational questions grounded in the job description and the candidate's resume. Probe shallow answers.",
+  behavioral: "Ask behavioral questions about past situations (teamwork, conflict, ownership, learning from failure).",
+  candidate_questions: "Invite the candidate to ask their own questions about the role or team and answer briefly. Do not ask new interview questions.",
+  close: "Deliver the closing statement.",
+};
+
+export const DEFAULT_SILENCE_PROMPT_AFTER_SEC = 3;
+export const MAX_PHASE_MINUTES = 60;
+export const MAX_PHASE_QUESTIONS = 30;
+
+export const DEFAULT_INTERVIEW_PLAN: InterviewPlan = {
+  phases: [
+    { kind: "intro", name: "Introduction", minutes: 1, maxQuestions: 1 },
+    { kind: "technical", name: "Technical", minutes: 8, maxQuestions: 7 },
+    { kind: "behavioral", name: "Behavioral", minutes: 5, maxQuestions: 5 },
+    { kind: "candidate_questions", name: "Candidate questions", minutes: 3, maxQuestions: 2 },
+    { kind: "close", name: "Close", minutes: 1 },
+  ],
+  silencePromptAfterSec: DEFAULT_SILENCE_PROMPT_AFTER_SEC,
+};
+
+const DEFAULT_CLOSE: InterviewPhase = { kind: "close", name: "Close", minutes: 1 };
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, n));
+}
+
+function normalizePhase(raw: unknown): InterviewPhase | null {
+  if (!raw || typeof raw !== "object") return null;
+  const p = raw as Record<string, unknown>;
+  const kind = INTERVIEW_PHASE_KINDS.find((k) => k === p.kind);
+  const minutes = Number(p.minutes);
+  if (!kind || !Number.isFinite(minutes) || minutes <= 0) return null;
+  const name = typeof p.name === "string" && p.name.trim() ? p.name.trim() : INTERVIEW_PHASE_LABELS[kind];
+  const phase: InterviewPhase = { kind, name, minutes: clamp(minutes, 0.5, MAX_PHASE_MINUTES) };
+  const maxQuestions = Math.floor(Number(p.maxQuestions));
+  if (kind !== "close" && Number.isFinite(maxQuestions) && maxQuestions > 0) {
+    phase.maxQuestions = Math.min(maxQuestions, MAX_PHASE_QUESTIONS);
+  }
+  if (typeof p.instructions === "string" && p.instructions.trim()) phase.instructions = p.instructions.trim();
+  return phase;
+}
+
+/**
+ * A usable plan from stored JSON, or null when it has no phase to interview in.
+ * Close phases are collapsed into a single one at the end (added when missing).
+ */
+export function normalizeInterviewPlan(raw: unknown): InterviewPlan | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (!Array.isArray(r.phases)) return null;
+  const phases = r.phases.map(normalizePhase).filter((p): p is InterviewPhase => p !== null);
+  const body = phases.filter((p) => p.kind !== "close");
+  if (body.length === 0) return null;
+  const close = phases.find((p) => p.kind === "close") ?? DEFAULT_CLOSE;
+  const silence = Number(r.silencePromptAfterSec);
+  return {
+    phases: [...body, close],
+    silencePromptAfterSec: Number.isFinite(silence) && silence > 0 ? clamp(silence, 2, 30) : DEFAULT_SILENCE_PROMPT_AFTER_SEC,
+  };
+}
+
+export function resolveInterviewPlan(template?: ConversationTemplate | null): InterviewPlan {
+  return normalizeInterviewPlan(template?.plan) ?? DEFAULT_INTERVIEW_PLAN;
+}
+
+export function planDurationMs(plan: InterviewPlan): number {
+  return plan.phases.reduce((sum, p) => sum + p.minutes * 60_000, 0);
+}
+
+/** Total questions when every phase has a count; null when some phase runs on time only */
+export function planQuestionLimit(plan: InterviewPlan): number | null {
+  let total = 0;
+  for (const p of plan.phases) {
+    if (p.kind === "close") continue;
+    if (!p.maxQuestions) return null;
+    total += p.maxQuestions;
+  }
+  return total;
+}
+
+/** Interview time (ms) at which each phase ends; `extraMs` extends the phase before the close */
+export function phaseEndsMs(plan: InterviewPlan, extraMs = 0): number[] {
+  const lastBody = plan.phases.length - 2;
+  let t = 0;
+  return plan.phases.map((p, i) => {
+    t += p.minutes * 60_000;
+    return i >= lastBody ? t + extraMs : t;
+  });
+}
+
+/** When the close starts and the wrap-up signal is sent */
+export function wrapUpAtMs(plan: InterviewPlan, extraMs = 0): number {
+  return phaseEndsMs(plan, extraMs)[plan.phases.length - 2] ?? 0;
+}
+
+function describeBudget(phase: InterviewPhase): string {
+  const time = `about ${phase.minutes} minute${phase.minutes === 1 ? "" : "s"}`;
+  return phase.maxQuestions ? `${time}, up to ${phase.maxQuestions} question${phase.maxQuestions === 1 ? "" : "s"}` : time;
+}
+
+/** Sent to the interviewer (as context, not a turn) when a phase starts */
+export function phaseInstruction(plan: InterviewPlan, index: number): string {
+  const phase = plan.phases[index];
+  if (!phase) return "";
+  return [
+    `INTERVIEW_PHASE: Phase ${index + 1} of ${plan.phases.length} — "${phase.name}" (${describeBudget(phase)}).`,
+    PHASE_GUIDANCE[phase.kind],
+    phase.instructions ?? "",
+    "Do not announce the phase or reply to this message. After the candidate finishes their current answer, continue in this phase.",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/** Interview-rule lines and the phase list for the system instruction */
+export function buildPlanInstruction(plan: InterviewPlan): { rules: string[]; outline: string[] } {
+  const totalMin = planDurationMs(plan) / 60_000;
+  const wrapMin = wrapUpAtMs(plan) / 60_000;
+  const questions = planQuestionLimit(plan);
+  const first = plan.phases[0]!;
+  return {
+    rules: [
+      `4. The interview follows the INTERVIEW PLAN below, starting with "${first.name}". The system tells you when to move to the next phase with a message starting 'INTERVIEW_PHASE:'; until then stay within the current phase. Ask ${questions !== null ? `up to ${questions} questions in total` : "as many relevant questions as the time allows"}.`,
+      `5. Maximum interview duration is ${totalMin} minutes. By ${wrapMin} minutes (or once the planned questions are done) the system will send the wrap-up signal; deliver your closing statement so the interview ends by ${totalMin} minutes.`,
+      `12. Never skip ahead to a later phase on your own. When the system sends the wrap-up signal, give your closing statement and end by ${totalMin} minutes.`,
+    ],
+    outline: plan.phases.map((p, i) => `${i + 1}. ${p.name} — ${describeBudget(p)}. ${p.kind === "close" ? PHASE_GUIDANCE.close : (p.instructions ?? PHASE_GUIDANCE[p.kind])}`),
+  };
+}
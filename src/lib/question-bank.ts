@@ -0,0 +1,85 @@
+/**
+ * Question Bank — Feeds a template's fixed questions to the live interviewer
+ * in order, so every candidate for a role gets the same questions.
+ *
+ * The interviewer pulls the next question with the get_next_question
+ * function instead of inventing one; useVoiceChat marks it asked when it is
+ * handed out and answered when the candidate's next turn arrives, and tags
+ * both transcript entries with the question id. The rubric goes to the model
+ * for scoring only.
+ */
+
+import type { BankQuestion, GeminiFunctionDeclaration, QuestionDifficulty } from "../types/gemini";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type QuestionStatus = "pending" | "asked" | "answered";
+
+export interface QuestionProgress {
+  questionId: string;
+  status: QuestionStatus;
+  /** Interview time (ms, excluding pauses) when the question was handed out */
+  askedAt?: number;
+  answeredAt?: number;
+  /** Candidate's answer, across turns */
+  answer?: string;
+}
+
+export const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ["easy", "medium", "hard"];
+
+export const QUESTION_DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
+// ---------------------------------------------------------------------------
+// Declaration and instruction
+// ---------------------------------------------------------------------------
+
+export const GET_NEXT_QUESTION_DECLARATION: GeminiFunctionDeclaration = {
+  name: "get_next_question",
+  description:
+    "Get the next main question from the interview's question bank. Returns the question text to ask (in your own words if it reads better aloud), its competency, difficulty and a scoring rubric, or done=true when no questions are left.",
+};
+
+/** Added to the system instruction when the template has a question bank */
+export function buildQuestionBankInstruction(questions: BankQuestion[]): string[] {
+  return [
+    `This interview uses a fixed question bank of ${questions.length} question${questions.length === 1 ? "" : "s"}.`,
+    "- Take every main question from get_next_question, in the order it returns them; do not invent main questions while questions remain.",
+    "- Ask one question at a time. You may ask at most one short follow-up to clarify an answer before calling get_next_question again.",
+    "- The rubric is for your scoring only: never read it out, hint at it, or tell the candidate what a good answer contains.",
+    "- When scoring an answer with record_rubric_score, pass the questionId of the question it answered.",
+    "- Once get_next_question returns done=true, continue with the remaining interview phases.",
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// Progress
+// ---------------------------------------------------------------------------
+
+export function initialQuestionProgress(questions: BankQuestion[]): QuestionProgress[] {
+  return questions.map((q) => ({ questionId: q.id, status: "pending" }));
+}
+
+/** First question that has not been handed out yet */
+export function nextPendingQuestion(questions: BankQuestion[], progress: QuestionProgress[]): BankQuestion | null {
+  const pending = progress.find((p) => p.status === "pending");
+  return (pending && questions.find((q) => q.id === pending.questionId)) ?? null;
+}
+
+/** Function response for get_next_question */
+export function questionResponse(question: BankQuestion | null, remaining: number): Record<string, unknown> {
+  if (!question) return { done: true };
+  return {
+    questionId: question.id,
+    text: question.text,
+    competency: question.competency,
+    difficulty: question.difficulty,
+    rubric: question.rubric,
+    remainingAfterThis: remaining,
+  };
+}
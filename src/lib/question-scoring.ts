@@ -0,0 +1,155 @@
+/**
+ * Question Scoring — Splits the transcript into question / answer pairs so
+ * the report can score each answer on its own (EvaluationReport.questionScores)
+ * and hiring panels can see which answers drove the section scores.
+ *
+ * Segmentation is deterministic: an interviewer turn with a question mark
+ * opens a pair, the candidate's turns until the next question are its answer.
+ * Question-bank ids on transcript entries (lib/question-bank) carry over so
+ * the bank's rubric is scored against. The report's question-scoring call gets
+ * the numbered pairs; normalizeQuestionScores maps its output back onto them.
+ */
+
+import type { BankQuestion, TranscriptEntry } from "../types/gemini";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TranscriptSegment {
+  /** 1-based, as shown to the model */
+  index: number;
+  question: string;
+  answer: string;
+  questionId?: string;
+  /** Timestamp of the interviewer turn */
+  askedAt: number;
+}
+
+export type RubricMatch = "met" | "partial" | "missed";
+
+export interface QuestionScore {
+  index: number;
+  /** Short restatement of what was asked */
+  question: string;
+  questionId?: string;
+  competency?: string;
+  /** 0-10 */
+  score: number;
+  rubricMatch: RubricMatch;
+  /** Verbatim quote from the answer that most drove the score */
+  evidence: string;
+  /** What to probe in a follow-up interview */
+  followUp: string;
+}
+
+export const RUBRIC_MATCH_LABELS: Record<RubricMatch, string> = {
+  met: "Met",
+  partial: "Partial",
+  missed: "Missed",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** More pairs than this are not scored individually (prompt size) */
+const MAX_SEGMENTS = 25;
+const MAX_QUESTION_CHARS = 600;
+const MAX_ANSWER_CHARS = 2500;
+
+// ---------------------------------------------------------------------------
+// Segmentation
+// ---------------------------------------------------------------------------
+
+/** Question / answer pairs in order; questions nobody answered are dropped */
+export function segmentTranscript(transcript: TranscriptEntry[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: Omit<TranscriptSegment, "index"> | null = null;
+
+  const flush = () => {
+    if (current && current.answer.trim()) segments.push({ ...current, answer: current.answer.trim(), index: segments.length + 1 });
+    current = null;
+  };
+
+  for (const entry of transcript) {
+    if (entry.role === "assistant") {
+      if (!entry.text.includes("?")) continue;
+      flush();
+      current = { question: entry.text.trim(), answer: "", askedAt: entry.timestamp, ...(entry.questionId ? { questionId: entry.questionId } : {}) };
+    } else if (current) {
+      current.answer += `${entry.text.trim()}\n`;
+      // A turn tagged in the session names the bank question even if the question turn was not
+      if (!current.questionId && entry.questionId) current.questionId = entry.questionId;
+    }
+  }
+  flush();
+  return segments.slice(0, MAX_SEGMENTS);
+}
+
+// ---------------------------------------------------------------------------
+// Prompt
+// ---------------------------------------------------------------------------
+
+/** Numbered pairs for the report prompt, with the bank rubric where there is one */
+export function formatSegmentsForPrompt(segments: TranscriptSegment[], bank: BankQuestion[] = []): string {
+  if (segments.length === 0) return "(No answered questions.)";
+  return segments
+    .map((s) => {
+      const banked = s.questionId ? bank.find((q) => q.id === s.questionId) : undefined;
+      const lines = [
+        `### Q${s.index}`,
+        `Interviewer: ${s.question.slice(-MAX_QUESTION_CHARS)}`,
+        `Candidate: ${s.answer.slice(0, MAX_ANSWER_CHARS)}`,
+      ];
+      if (banked) lines.push(`Competency: ${banked.competency} (${banked.difficulty})`, `Expected-answer rubric: ${banked.rubric}`);
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
+
+// ---------------------------------------------------------------------------
+// Normalize
+// ---------------------------------------------------------------------------
+
+/** One score per segment, in order; segments the model skipped are left out */
+export function normalizeQuestionScores(
+  raw: unknown,
+  segments: TranscriptSegment[],
+  bank: BankQuestion[] = [],
+): QuestionScore[] {
+  if (!Array.isArray(raw)) return [];
+  const byIndex = new Map<number, Record<string, unknown>>();
+  for (const item of raw) {
+    const o = (item ?? {}) as Record<string, unknown>;
+    const index = Number(o.index);
+    if (Number.isInteger(index) && !byIndex.has(index)) byIndex.set(index, o);
+  }
+
+  const str = (v: unknown, max: number) => (typeof v === "string" ? v.trim().slice(0, max) : "");
+
+  return segments.flatMap((s) => {
+    const o = byIndex.get(s.index);
+    if (!o) return [];
+    const n = Number(o.score);
+    const score = Number.isFinite(n) ? Math.max(0, Math.min(10, Math.round(n * 10) / 10)) : 5;
+    const rubricMatch: RubricMatch =
+      o.rubricMatch === "met" || o.rubricMatch === "partial" || o.rubricMatch === "missed"
+        ? o.rubricMatch
+        : score >= 7 ? "met" : score >= 4 ? "partial" : "missed";
+    const banked = s.questionId ? bank.find((q) => q.id === s.questionId) : undefined;
+    const competency = banked?.competency ?? str(o.competency, 80);
+    return [
+      {
+        index: s.index,
+        question: banked?.text ?? (str(o.question, 300) || s.question.slice(-300)),
+        ...(s.questionId ? { questionId: s.questionId } : {}),
+        ...(competency ? { competency } : {}),
+        score,
+        rubricMatch,
+        evidence: str(o.evidence, 500),
+        followUp: str(o.followUp, 500),
+      },
+    ];
+  });
+}
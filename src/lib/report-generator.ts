@@ -5,10 +5,24 @@
  * and produce a structured 20-section evaluation report.
  *
  * Sections 14, 14A, 16, 17 are computed client-side using the automated
- * scoring formula (weights + penalties + confidence adjustment).
+ * scoring formula (weights + penalties + confidence adjustment). Weights,
+ * penalties and cut-offs come from the template's or organization's scoring
+ * profile (lib/scoring-profile), falling back to the standard one.
+ *
+ * Section 18A scores each question / answer pair (lib/question-scoring) in a
+ * second call made alongside the report, so neither response has to fit the
+ * other's output and the transcript is sent once per call.
  */
 
 import type { ConversationTemplate, TranscriptEntry } from "../types/gemini";
+import {
+  formatSegmentsForPrompt,
+  normalizeQuestionScores,
+  segmentTranscript,
+  type QuestionScore,
+  type TranscriptSegment,
+} from "./question-scoring";
+import { redFlagPenalty, resolveScoringProfile, type ScoringProfile } from "./scoring-profile";
 
 // ---------------------------------------------------------------------------
 // Types — AI-generated evaluation
@@ -139,6 +153,9 @@ export interface EvaluationReport {
     notableQuotes: string[];
   };
 
+  /** S18A – Per-question scores (absent on reports generated before it existed) */
+  questionScores?: QuestionScore[];
+
   /** S20 – Final Remarks */
   finalRemarks: string;
 }
@@ -162,13 +179,18 @@ export interface ComputedScoring {
 
   /** Section 15 derived label */
   confidenceLevel: "High" | "Medium" | "Low";
+
+  /** Copy of the profile that produced these numbers (absent on scores computed before profiles existed = standard v1) */
+  profile?: ScoringProfile;
 }
 
 // ---------------------------------------------------------------------------
 // Scoring formula (Section 14A)
 // ---------------------------------------------------------------------------
 
-export function computeScoring(report: EvaluationReport): ComputedScoring {
+export function computeScoring(report: EvaluationReport, scoringProfile?: ScoringProfile | null): ComputedScoring {
+  const profile = resolveScoringProfile(scoringProfile);
+  const { weights, thresholds, hardStops } = profile;
   const TS = clamp(report.technicalSkills.score);
   const COM = clamp(report.communication.score);
   const AT = clamp(report.analyticalThinking.score);
@@ -181,20 +203,16 @@ export function computeScoring(report: EvaluationReport): ComputedScoring {
 
   // Step 1 — Weighted Base Score
   const baseScore =
-    TS * 0.25 +
-    COM * 0.15 +
-    AT * 0.2 +
-    BEH * 0.1 +
-    DK * 0.15 +
-    CF * 0.1 +
-    MOT * 0.05;
+    TS * weights.technicalSkills +
+    COM * weights.communication +
+    AT * weights.analyticalThinking +
+    BEH * weights.behavioral +
+    DK * weights.domainKnowledge +
+    CF * weights.culturalFit +
+    MOT * weights.workEthic;
 
   // Step 2 — Penalty for Red Flags
-  let penalty = 0;
-  if (RED > 8) penalty = 5.0;
-  else if (RED > 6) penalty = 3.0;
-  else if (RED > 4) penalty = 1.5;
-  else if (RED > 2) penalty = 0.5;
+  const penalty = redFlagPenalty(profile, RED);
 
   // Step 3 — Confidence Factor
   const confidenceFactor = 0.9 + (AIQ / 10) * 0.2;
@@ -216,13 +234,17 @@ export function computeScoring(report: EvaluationReport): ComputedScoring {
     integ.includes("major concern");
 
   let recommendation: ComputedScoring["recommendation"];
-  if (RED >= 9 || TS <= 3 || BEH <= 3 || hasIntegrityFlag) {
+  const hardStop =
+    (hardStops.redFlagAtLeast !== undefined && RED >= hardStops.redFlagAtLeast) ||
+    (hardStops.technicalAtMost !== undefined && TS <= hardStops.technicalAtMost) ||
+    (hardStops.behavioralAtMost !== undefined && BEH <= hardStops.behavioralAtMost);
+  if (hardStop || hasIntegrityFlag) {
     recommendation = "Reject";
-  } else if (overallScore >= 8.0) {
+  } else if (overallScore >= thresholds.strongHire) {
     recommendation = "Strong Hire";
-  } else if (overallScore >= 6.5) {
+  } else if (overallScore >= thresholds.hire) {
     recommendation = "Hire";
-  } else if (overallScore >= 5.0) {
+  } else if (overallScore >= thresholds.consider) {
     recommendation = "Consider";
   } else {
     recommendation = "Reject";
@@ -230,9 +252,9 @@ export function computeScoring(report: EvaluationReport): ComputedScoring {
 
   // Step 7 — Training Requirement
   let trainingRequirement: ComputedScoring["trainingRequirement"];
-  if (overallScore >= 8.0 && TS >= 7) trainingRequirement = "None";
-  else if (overallScore >= 6.5) trainingRequirement = "Minor";
-  else if (overallScore >= 5.0) trainingRequirement = "Moderate";
+  if (overallScore >= thresholds.strongHire && TS >= 7) trainingRequirement = "None";
+  else if (overallScore >= thresholds.hire) trainingRequirement = "Minor";
+  else if (overallScore >= thresholds.consider) trainingRequirement = "Moderate";
   else trainingRequirement = "Extensive";
 
   // Step 8 — Role Level
@@ -258,6 +280,7 @@ export function computeScoring(report: EvaluationReport): ComputedScoring {
     roleLevel,
     trainingRequirement,
     confidenceLevel,
+    profile,
   };
 }
 
@@ -286,8 +309,6 @@ export async function generateReport(
   transcript: TranscriptEntry[],
   template: ConversationTemplate,
 ): Promise<EvaluationReport> {
-  const { callDeepSeek } = await import("./deepseek-client");
-
   let formattedTranscript = transcript
     .map((e) => `[${e.role === "user" ? "Candidate" : "AI Interviewer"}]: ${e.text}`)
     .join("\n");
@@ -306,27 +327,53 @@ export async function generateReport(
     day: "numeric",
   });
   const duration = getDuration(transcript);
+  const segments = segmentTranscript(transcript);
   const prompt = buildPrompt(formattedTranscript, template, interviewDate, duration);
 
+  // Both calls run at once; per-question scoring is best effort and cannot fail the report
+  const questionScores = scoreQuestions(segments, template);
+  const text = await callReportModel(prompt);
+  let report: EvaluationReport;
+  try {
+    report = normalizeReport(JSON.parse(text));
+  } catch {
+    report = createFallbackReport(text);
+  }
+  return { ...report, questionScores: await questionScores };
+}
+
+/** Section 18A; undefined (section hidden) when there is nothing to score or scoring fails */
+async function scoreQuestions(
+  segments: TranscriptSegment[],
+  template: ConversationTemplate,
+): Promise<QuestionScore[] | undefined> {
+  if (segments.length === 0) return undefined;
+  try {
+    const text = await callReportModel(buildQuestionScoresPrompt(segments, template));
+    const raw = JSON.parse(text) as { questionScores?: unknown };
+    return normalizeQuestionScores(raw.questionScores, segments, template.questions);
+  } catch (err) {
+    console.warn("[Report] Question scoring failed:", err);
+    return undefined;
+  }
+}
+
+/** JSON-mode completion with the report timeout and retries */
+async function callReportModel(prompt: string): Promise<string> {
+  const { callDeepSeek } = await import("./deepseek-client");
+
   let lastError: Error | null = null;
   for (let attempt = 1; attempt <= REPORT_MAX_ATTEMPTS; attempt++) {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), REPORT_REQUEST_TIMEOUT_MS);
 
     try {
-      const text = await callDeepSeek(prompt, {
+      return await callDeepSeek(prompt, {
         temperature: 0.3,
         maxTokens: 8192,
         jsonMode: true,
         signal: controller.signal,
       });
-
-      try {
-        const raw = JSON.parse(text);
-        return normalizeReport(raw);
-      } catch {
-        return createFallbackReport(text);
-      }
     } catch (err) {
       lastError = err instanceof Error ? err : new Error(String(err));
       const isAbort = lastError.name === "AbortError";
@@ -494,6 +541,43 @@ IMPORTANT:
 - Return ONLY the JSON object, nothing else.`;
 }
 
+/** Section 18A prompt: the numbered question / answer pairs only, not the whole transcript */
+function buildQuestionScoresPrompt(segments: TranscriptSegment[], template: ConversationTemplate): string {
+  return `You are an expert AI interview evaluator. Score each numbered question / answer pair from a voice interview on its own and return a single JSON object.
+
+## Interview Context
+
+**AI Behavior / Interviewer Role:** ${template.aiBehavior}
+**What Customer / Interviewer Wants:** ${template.customerWants}
+
+## Question / Answer Pairs
+
+Where an expected-answer rubric is given, score against it; otherwise score against what the job description needs.
+
+${formatSegmentsForPrompt(segments, template.questions)}
+
+## Required JSON Structure
+
+{
+  "questionScores": [
+    {
+      "index": 1,
+      "question": "<the question in one short sentence>",
+      "competency": "<2-4 word skill the question assessed>",
+      "score": 0,
+      "rubricMatch": "<met | partial | missed>",
+      "evidence": "<verbatim quote from the candidate's answer that most drove the score>",
+      "followUp": "<what a follow-up interview should probe, or 'None'>"
+    }
+  ]
+}
+
+IMPORTANT:
+- "questionScores" MUST have exactly one entry per numbered pair, with its "index".
+- Every score MUST be a number between 0 and 10.
+- Return ONLY the JSON object, nothing else.`;
+}
+
 // ---------------------------------------------------------------------------
 // Normalize / validate AI response
 // ---------------------------------------------------------------------------
@@ -0,0 +1,140 @@
+/**
+ * Scoring Profile — Weights, red-flag penalties and recommendation cut-offs
+ * used by computeScoring (report Section 14A / 16).
+ *
+ * Templates or the organization can define their own profile (a sales role
+ * weights communication over technical skills). Profiles are versioned:
+ * editing one saves a new version, and every ComputedScoring keeps a copy
+ * of the profile that produced it so old reports can be recomputed exactly.
+ * DEFAULT_SCORING_PROFILE is the original fixed formula.
+ */
+
+import { RUBRIC_CRITERIA, type RubricCriterion } from "./interview-tools";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface RedFlagPenalty {
+  /** Applies when the red-flag score is above this */
+  above: number;
+  /** Subtracted from the weighted base score */
+  penalty: number;
+}
+
+export interface ScoringProfile {
+  /** "default" for the built-in profile */
+  id: string;
+  version: number;
+  name: string;
+  /** Share of the base score per report section; normalized to sum to 1 */
+  weights: Record<RubricCriterion, number>;
+  /** Highest matching rule applies */
+  redFlagPenalties: RedFlagPenalty[];
+  /** Minimum overall score (0-10) for each recommendation; below consider = Reject */
+  thresholds: { strongHire: number; hire: number; consider: number };
+  /** Reject regardless of the overall score; a missing stop is off */
+  hardStops: { redFlagAtLeast?: number; technicalAtMost?: number; behavioralAtMost?: number };
+}
+
+// ---------------------------------------------------------------------------
+// Default (the original formula)
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: "default",
+  version: 1,
+  name: "Standard",
+  weights: {
+    technicalSkills: 0.25,
+    communication: 0.15,
+    analyticalThinking: 0.2,
+    behavioral: 0.1,
+    domainKnowledge: 0.15,
+    culturalFit: 0.1,
+    workEthic: 0.05,
+  },
+  redFlagPenalties: [
+    { above: 8, penalty: 5 },
+    { above: 6, penalty: 3 },
+    { above: 4, penalty: 1.5 },
+    { above: 2, penalty: 0.5 },
+  ],
+  thresholds: { strongHire: 8, hire: 6.5, consider: 5 },
+  hardStops: { redFlagAtLeast: 9, technicalAtMost: 3, behavioralAtMost: 3 },
+};
+
+// ---------------------------------------------------------------------------
+// Normalize (profiles come from the API and the template editor)
+// ---------------------------------------------------------------------------
+
+function score(v: unknown): number | undefined {
+  const n = Number(v);
+  return v !== null && v !== "" && Number.isFinite(n) ? Math.max(0, Math.min(10, n)) : undefined;
+}
+
+/**
+ * Usable profile: weights non-negative and summing to 1, penalties sorted
+ * from the highest threshold, cut-offs in order. Falls back to the default
+ * for anything missing; null when no weight is positive.
+ */
+export function normalizeScoringProfile(raw: unknown): ScoringProfile | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Partial<Record<keyof ScoringProfile, unknown>>;
+  const rawWeights = (r.weights ?? {}) as Partial<Record<RubricCriterion, unknown>>;
+
+  const weights = {} as Record<RubricCriterion, number>;
+  for (const c of RUBRIC_CRITERIA) {
+    const n = Number(rawWeights[c]);
+    weights[c] = Number.isFinite(n) && n > 0 ? n : 0;
+  }
+  const total = RUBRIC_CRITERIA.reduce((sum, c) => sum + weights[c], 0);
+  if (total <= 0) return null;
+  for (const c of RUBRIC_CRITERIA) weights[c] = Math.round((weights[c] / total) * 1000) / 1000;
+
+  const redFlagPenalties = Array.isArray(r.redFlagPenalties)
+    ? (r.redFlagPenalties as Array<Record<string, unknown>>)
+        .map((p) => ({ above: score(p?.above), penalty: Math.max(0, Number(p?.penalty) || 0) }))
+        .filter((p): p is RedFlagPenalty => p.above !== undefined && p.penalty > 0)
+        .sort((a, b) => b.above - a.above)
+    : DEFAULT_SCORING_PROFILE.redFlagPenalties;
+
+  const t = (r.thresholds ?? {}) as Record<string, unknown>;
+  const strongHire = score(t.strongHire) ?? DEFAULT_SCORING_PROFILE.thresholds.strongHire;
+  const hire = Math.min(strongHire, score(t.hire) ?? DEFAULT_SCORING_PROFILE.thresholds.hire);
+  const consider = Math.min(hire, score(t.consider) ?? DEFAULT_SCORING_PROFILE.thresholds.consider);
+
+  const h = (r.hardStops ?? {}) as Record<string, unknown>;
+  const hardStops: ScoringProfile["hardStops"] = {};
+  const redFlagAtLeast = score(h.redFlagAtLeast);
+  const technicalAtMost = score(h.technicalAtMost);
+  const behavioralAtMost = score(h.behavioralAtMost);
+  if (redFlagAtLeast !== undefined) hardStops.redFlagAtLeast = redFlagAtLeast;
+  if (technicalAtMost !== undefined) hardStops.technicalAtMost = technicalAtMost;
+  if (behavioralAtMost !== undefined) hardStops.behavioralAtMost = behavioralAtMost;
+
+  return {
+    id: typeof r.id === "string" && r.id ? r.id : DEFAULT_SCORING_PROFILE.id,
+    version: Number.isInteger(r.version) && (r.version as number) > 0 ? (r.version as number) : 1,
+    name: typeof r.name === "string" && r.name.trim() ? r.name.trim().slice(0, 80) : DEFAULT_SCORING_PROFILE.name,
+    weights,
+    redFlagPenalties,
+    thresholds: { strongHire, hire, consider },
+    hardStops,
+  };
+}
+
+/** Profile to score with: the given one when usable, else the default */
+export function resolveScoringProfile(profile: ScoringProfile | null | undefined): ScoringProfile {
+  return (profile && normalizeScoringProfile(profile)) ?? DEFAULT_SCORING_PROFILE;
+}
+
+/** Penalty for a red-flag score (first matching rule, highest threshold first) */
+export function redFlagPenalty(profile: ScoringProfile, redFlagScore: number): number {
+  return profile.redFlagPenalties.find((p) => redFlagScore > p.above)?.penalty ?? 0;
+}
+
+/** "Standard v1" */
+export function scoringProfileLabel(profile: Pick<ScoringProfile, "name" | "version">): string {
+  return `${profile.name} v${profile.version}`;
+}
@@ -9,13 +9,15 @@
  *   mic stream ──────┐
  *                     ├──► mixedDest ──► MediaRecorder (recording)
  *   AI audio chunks ──┤
- *                     └──► ctx.destination (speakers)
+ *                     ├──► ctx.destination (speakers)
+ *                     └──► playbackAnalyser (audio proctoring: tells AI echo from a real voice)
  */
 
 export class VideoRecorder {
   private webcamStream: MediaStream | null = null;
   private audioCtx: AudioContext | null = null;
   private mixedDest: MediaStreamAudioDestinationNode | null = null;
+  private playbackAnalyser: AnalyserNode | null = null;
   private mediaRecorder: MediaRecorder | null = null;
   private chunks: Blob[] = [];
 
@@ -62,6 +64,11 @@ export class VideoRecorder {
     const micSource = this.audioCtx.createMediaStreamSource(this.webcamStream);
     micSource.connect(this.mixedDest);
 
+    // 3b. Tap AI playback so proctoring can compare it with what the mic hears
+    this.playbackAnalyser = this.audioCtx.createAnalyser();
+    this.playbackAnalyser.fftSize = 2048;
+    this.playbackAnalyser.smoothingTimeConstant = 0;
+
     // 4. Build combined MediaStream: webcam video + mixed audio
     const combinedStream = new MediaStream([
       ...this.webcamStream.getVideoTracks(),
@@ -118,6 +125,7 @@ export class VideoRecorder {
     source.connect(this.audioCtx.destination);
     // Route to recording mixer
     source.connect(this.mixedDest);
+    if (this.playbackAnalyser) source.connect(this.playbackAnalyser);
 
     const now = this.audioCtx.currentTime;
     const startAt = Math.max(now + 0.02, this.scheduledEnd);
@@ -140,6 +148,16 @@ export class VideoRecorder {
     this.scheduledEnd = 0;
   }
 
+  /** Whether AI audio is currently coming out of the speakers */
+  isAiSpeaking(): boolean {
+    return !!this.audioCtx && this.audioCtx.currentTime < this.scheduledEnd;
+  }
+
+  /** Analyser fed with the AI playback only (null before start / after stop) */
+  getPlaybackAnalyser(): AnalyserNode | null {
+    return this.playbackAnalyser;
+  }
+
   // ---- stop recording -----------------------------------------------------
 
   /** Stop recording and return the final video Blob. */
@@ -176,6 +194,7 @@ export class VideoRecorder {
     void this.audioCtx?.close();
     this.audioCtx = null;
     this.mixedDest = null;
+    this.playbackAnalyser = null;
     this.mediaRecorder = null;
     this.chunks = [];
     this.activeSources = [];
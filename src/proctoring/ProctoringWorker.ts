@@ -1,5 +1,6 @@
 /**
- * Proctoring Web Worker — Runs MediaPipe FaceLandmarker off the main thread.
+ * Proctoring Web Worker — Runs MediaPipe FaceLandmarker (and, when an object
+ * model path is given, the phone/book ObjectDetector) off the main thread.
  *
  * Compatibility shim:
  *   MediaPipe's vision_bundle.mjs internally calls `self.import()` to load
@@ -10,12 +11,12 @@
  *   again, creating an infinite loop).
  *
  * Protocol:
- *   Main → Worker:  { type: 'init', wasmPath, modelAssetPath, numFaces, enableHand }
- *   Main → Worker:  { type: 'frame', bitmap, timestamp }
+ *   Main → Worker:  { type: 'init', wasmPath, modelAssetPath, numFaces, enableHand, objectModelAssetPath? }
+ *   Main → Worker:  { type: 'frame', bitmap, timestamp, objectDetection, gaze }
  *   Main → Worker:  { type: 'stop' }
  *
  *   Worker → Main:  { type: 'ready' }
- *   Worker → Main:  { type: 'result', data }
+ *   Worker → Main:  { type: 'result', data, faceSignature? }
  *   Worker → Main:  { type: 'error', message }
  */
 
@@ -32,6 +33,8 @@ if (typeof _selfAny["import"] !== "function") {
 // ---- NO top-level imports from @mediapipe/tasks-vision ----
 // Types are fine (erased at compile time)
 import type { DetectionResult, WorkerOutMessage } from "./types";
+import { OBJECT_CATEGORIES, OBJECT_DETECTION_EVERY_N_FRAMES } from "./thresholds";
+import { computeFaceSignature, estimateHeadPose } from "./faceIdentity";
 
 // ---------------------------------------------------------------------------
 // State
@@ -39,6 +42,11 @@ import type { DetectionResult, WorkerOutMessage } from "./types";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let faceLandmarker: any = null;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let objectDetector: any = null;
+let objectFrame = 0;
+let phoneScore = 0;
+let bookScore = 0;
 
 // Reusable canvas for brightness calculation (tiny — 16×12)
 let brightnessCanvas: OffscreenCanvas | null = null;
@@ -80,37 +88,6 @@ function computeBrightness(bitmap: ImageBitmap): number {
   return Math.round(sum / pixelCount);
 }
 
-/**
- * Estimate head pose (yaw & pitch) from 478 face landmarks.
- *
- * Landmarks:  1=nose tip, 33=left eye outer, 263=right eye outer, 152=chin
- */
-function estimateHeadPose(
-  landmarks: { x: number; y: number; z: number }[],
-): { yaw: number; pitch: number } {
-  const nose = landmarks[1]!;
-  const leftEye = landmarks[33]!;
-  const rightEye = landmarks[263]!;
-  const chin = landmarks[152]!;
-
-  // Yaw: compare nose-to-eye horizontal distances
-  const leftDist = Math.abs(nose.x - leftEye.x);
-  const rightDist = Math.abs(nose.x - rightEye.x);
-  const total = leftDist + rightDist || 0.001;
-  const yaw = (leftDist / total - 0.5) * -180;
-
-  // Pitch: nose vertical position relative to eye-chin span
-  const eyeY = (leftEye.y + rightEye.y) / 2;
-  const vertSpan = chin.y - eyeY || 0.001;
-  const noseRatio = (nose.y - eyeY) / vertSpan;
-  const pitch = (noseRatio - 0.62) * 150;
-
-  return {
-    yaw: Math.round(yaw * 10) / 10,
-    pitch: Math.round(pitch * 10) / 10,
-  };
-}
-
 // ---------------------------------------------------------------------------
 // Message handler
 // ---------------------------------------------------------------------------
@@ -134,7 +111,7 @@ self.onmessage = async (e: MessageEvent) => {
         // prevents Vite from transforming import() into self.import()
         // which doesn't exist in worker contexts.
         const mediapipe = await import(/* @vite-ignore */ bundleUrl);
-        const { FilesetResolver, FaceLandmarker } = mediapipe;
+        const { FilesetResolver, FaceLandmarker, ObjectDetector } = mediapipe;
 
         console.log("[ProctoringWorker] MediaPipe JS loaded, loading WASM from:", msg.wasmPath);
 
@@ -154,6 +131,25 @@ self.onmessage = async (e: MessageEvent) => {
         });
 
         console.log("[ProctoringWorker] FaceLandmarker ready ✓");
+
+        if (msg.objectModelAssetPath) {
+          try {
+            objectDetector = await ObjectDetector.createFromOptions(vision, {
+              baseOptions: { modelAssetPath: msg.objectModelAssetPath, delegate: "CPU" },
+              runningMode: "VIDEO",
+              scoreThreshold: 0.3,
+              maxResults: 5,
+              categoryAllowlist: Object.keys(OBJECT_CATEGORIES),
+            });
+            console.log("[ProctoringWorker] ObjectDetector ready ✓");
+          } catch (err) {
+            // Face proctoring still works without the object stage
+            console.warn("[ProctoringWorker] ObjectDetector unavailable:", err);
+          }
+        } else {
+          console.log("[ProctoringWorker] ObjectDetector disabled (enableObjectDetection off)");
+        }
+
         post({ type: "ready" });
       } catch (err) {
         const message = `MediaPipe init failed: ${err instanceof Error ? err.message : String(err)}`;
@@ -180,12 +176,33 @@ self.onmessage = async (e: MessageEvent) => {
         const faceCount = result.faceLandmarks.length;
         let yaw = 0;
         let pitch = 0;
+        let faceSignature: number[] | null = null;
 
-        if (faceCount >= 1 && result.faceLandmarks[0].length >= 264) {
+        // Lowest degradation tier: face presence / count only
+        if (msg.gaze && faceCount >= 1 && result.faceLandmarks[0].length >= 264) {
           const pose = estimateHeadPose(result.faceLandmarks[0]);
           yaw = pose.yaw;
           pitch = pose.pitch;
         }
+        // Enrolment / matching stay on the main thread; only the signature crosses
+        if (msg.gaze && faceCount === 1) {
+          faceSignature = computeFaceSignature(result.faceLandmarks[0], yaw, pitch);
+        }
+
+        if (!msg.objectDetection) {
+          phoneScore = 0;
+          bookScore = 0;
+        } else if (objectDetector && objectFrame++ % OBJECT_DETECTION_EVERY_N_FRAMES === 0) {
+          phoneScore = 0;
+          bookScore = 0;
+          for (const det of objectDetector.detectForVideo(msg.bitmap, msg.timestamp).detections) {
+            for (const cat of det.categories) {
+              const field = OBJECT_CATEGORIES[cat.categoryName as keyof typeof OBJECT_CATEGORIES];
+              if (field === "phoneScore") phoneScore = Math.max(phoneScore, cat.score);
+              else if (field === "bookScore") bookScore = Math.max(bookScore, cat.score);
+            }
+          }
+        }
 
         const detection: DetectionResult = {
           faceCount,
@@ -194,9 +211,11 @@ self.onmessage = async (e: MessageEvent) => {
           brightness,
           handNearFace: false,
           timestamp: msg.timestamp,
+          phoneScore,
+          bookScore,
         };
 
-        post({ type: "result", data: detection });
+        post({ type: "result", data: detection, ...(faceSignature && { faceSignature }) });
       } catch (err) {
         post({
           type: "error",
@@ -217,6 +236,10 @@ self.onmessage = async (e: MessageEvent) => {
         faceLandmarker.close();
         faceLandmarker = null;
       }
+      if (objectDetector) {
+        objectDetector.close();
+        objectDetector = null;
+      }
       break;
     }
   }
@@ -0,0 +1,42 @@
+/**
+ * Proctoring Appeals — Shared helpers for the candidate appeal workflow.
+ *
+ * An accepted appeal removes that flag's points from the session risk score.
+ * When a complete session log was recorded the score is recomputed by replay
+ * (so decay and the 100 cap are exact); otherwise (no log, or one cut off at
+ * its entry cap) the flag's points are subtracted from the stored score as an
+ * approximation.
+ */
+
+import type { ProctoringFlag } from "./types";
+import { isProctoringSessionLog, replaySessionLog } from "./sessionLog";
+
+/** Preset reasons offered to candidates (free-text note is always allowed) */
+export const APPEAL_REASONS = [
+  "Power cut / device restarted",
+  "Someone entered the room",
+  "Network or camera glitch",
+  "Accessibility or medical need",
+  "Other",
+] as const;
+
+export interface RiskScoreSource {
+  flags: ProctoringFlag[];
+  riskScore: number;
+  /** Stored session log (see sessionLog.ts), if the session recorded one */
+  proctoringLog?: unknown;
+}
+
+export function computeAdjustedRiskScore(source: RiskScoreSource, excluded: ProctoringFlag[]): number {
+  if (excluded.length === 0) return source.riskScore;
+
+  if (isProctoringSessionLog(source.proctoringLog) && !source.proctoringLog.truncated) {
+    const keys = new Set(excluded.map((f) => `${f.type}@${f.timestamp}`));
+    return replaySessionLog(source.proctoringLog, {
+      excludeFlag: (type, timestamp) => keys.has(`${type}@${timestamp}`),
+    }).score;
+  }
+
+  const removed = excluded.reduce((sum, f) => sum + f.pointsAdded, 0);
+  return Math.max(0, Math.round(source.riskScore - removed));
+}
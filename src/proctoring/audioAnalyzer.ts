@@ -0,0 +1,321 @@
+/**
+ * Audio Analyzer — Microphone proctoring (second voice, background speech,
+ * whispering).
+ *
+ * Taps the mic stream with its own AnalyserNode (nothing is routed to the
+ * speakers or the recording). The hook calls analyse() every
+ * AUDIO_ANALYSIS_INTERVAL_MS; each call classifies the latest ~40 ms window:
+ *   - voiced:  speech-level energy above the adaptive noise floor with a clear
+ *              pitch (autocorrelation peak between 70 and 400 Hz)
+ *   - whisper: low-level, unvoiced, non-impulsive energy weighted to 2–6 kHz
+ * Gaps between syllables are bridged by counting frames over the last second.
+ *
+ * Second speaker: voiced frames feed a semitone histogram whose peak is the
+ * candidate's pitch profile; the median pitch of the last second is compared
+ * against it (male / female voices typically sit 7–12 semitones apart).
+ *
+ * Voice interviews: the AI's own audio leaks back into the mic. While it
+ * plays (plus a short tail), voiced frames whose pitch matches the AI's —
+ * read from VideoRecorder's playback analyser — and all unvoiced frames are
+ * discounted as echo. A voice that does not match the AI is a real person
+ * (candidate barge-in or someone else) and is analysed as usual.
+ */
+
+import type { AudioDetectionResult } from "./types";
+
+/** What the analyzer needs from the AI playback path (VideoRecorder implements it) */
+export interface AiPlaybackSource {
+  isAiSpeaking(): boolean;
+  getPlaybackAnalyser(): AnalyserNode | null;
+}
+
+/** Mic constraints for proctoring: noise suppression off so quiet voices and whispers survive */
+export const PROCTORING_MIC_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: false,
+  autoGainControl: false,
+};
+
+export interface AudioAnalyzerOptions {
+  /** The candidate is expected to be silent (aptitude / coding rounds) */
+  silenceExpected: boolean;
+  /** AI interviewer playback to discount as echo (voice interviews) */
+  aiPlayback?: AiPlaybackSource | null;
+}
+
+const FFT_SIZE = 2048;
+/** Pitch search range (Hz) */
+const MIN_F0 = 70;
+const MAX_F0 = 400;
+/** Pitch is estimated on the signal decimated to roughly this rate */
+const PITCH_SAMPLE_RATE = 16_000;
+/** Normalised autocorrelation peak at which a frame counts as voiced */
+const VOICED_CLARITY = 0.6;
+/** Absolute RMS floor for speech; the adaptive noise floor does the rest */
+const MIN_SPEECH_RMS = 0.008;
+/** Speech must exceed the noise floor by this factor */
+const SPEECH_OVER_NOISE = 3;
+/** Whispers stay below this RMS (normal speech is louder) */
+const MAX_WHISPER_RMS = 0.05;
+/** Share of 2–6 kHz power against 2–6 kHz + 100–1000 Hz in a whisper */
+const WHISPER_HIGH_RATIO = 0.5;
+/** Peak/RMS above this is a transient (key click, tap), not a whisper */
+const MAX_WHISPER_CREST = 5;
+/** Frames in the smoothing window (1 s at 10 Hz) */
+const WINDOW_FRAMES = 10;
+/** Voiced / whisper frames within the window for the state to count as active */
+const VOICE_MIN_FRAMES = 3;
+const WHISPER_MIN_FRAMES = 4;
+/** Voiced frames before the pitch profile is trusted */
+const PROFILE_MIN_FRAMES = 30;
+/** Only frames this close to the profile keep training it (a second voice must not drift it) */
+const PROFILE_ACCEPT_SEMITONES = 3;
+/** Mic pitch within this many semitones of the AI's is treated as echo */
+const ECHO_SEMITONES = 2;
+/** Keep discounting this long after AI playback ends (output latency, room reverb) */
+const AI_TAIL_MS = 300;
+/** Histogram covers MIDI notes 24 (≈33 Hz) … 83 (≈990 Hz) in 1-semitone bins */
+const HIST_MIN = 24;
+const HIST_BINS = 60;
+
+interface Frame {
+  voiced: boolean;
+  whisper: boolean;
+  /** Pitch in semitones (MIDI scale); NaN when not voiced */
+  semitone: number;
+}
+
+export class AudioAnalyzer {
+  private silenceExpected: boolean;
+  private aiPlayback: AiPlaybackSource | null;
+  private ctx: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private timeBuf = new Float32Array(FFT_SIZE);
+  private freqBuf = new Float32Array(FFT_SIZE / 2);
+  private aiBuf = new Float32Array(FFT_SIZE);
+
+  private noiseFloor = MIN_SPEECH_RMS / SPEECH_OVER_NOISE;
+  private frames: Frame[] = [];
+  private histogram = new Array<number>(HIST_BINS).fill(0);
+  private profileFrames = 0;
+  private lastAiTs = -Infinity;
+
+  constructor(options: AudioAnalyzerOptions) {
+    this.silenceExpected = options.silenceExpected;
+    this.aiPlayback = options.aiPlayback ?? null;
+  }
+
+  /** Attach to the stream's microphone; returns false when it has no audio track. */
+  start(stream: MediaStream): boolean {
+    const track = stream.getAudioTracks()[0];
+    if (!track) return false;
+    this.ctx = new AudioContext();
+    this.source = this.ctx.createMediaStreamSource(new MediaStream([track]));
+    this.analyser = this.ctx.createAnalyser();
+    this.analyser.fftSize = FFT_SIZE;
+    this.analyser.smoothingTimeConstant = 0;
+    this.source.connect(this.analyser);
+    return true;
+  }
+
+  stop(): void {
+    this.source?.disconnect();
+    void this.ctx?.close();
+    this.ctx = null;
+    this.source = null;
+    this.analyser = null;
+    this.frames = [];
+  }
+
+  /** Classify the latest mic window (timestamp on the scorer clock). */
+  analyse(timestamp: number): AudioDetectionResult {
+    const ctx = this.ctx;
+    const analyser = this.analyser;
+    if (!ctx || !analyser) {
+      return {
+        voiceActive: false,
+        whisper: false,
+        pitchShift: 0,
+        silenceExpected: this.silenceExpected,
+        aiSpeaking: false,
+        timestamp,
+      };
+    }
+    // Contexts created outside a user gesture start suspended (autoplay policy)
+    if (ctx.state === "suspended") void ctx.resume();
+
+    analyser.getFloatTimeDomainData(this.timeBuf);
+    const level = rms(this.timeBuf);
+    this.noiseFloor = level < this.noiseFloor
+      ? this.noiseFloor * 0.8 + level * 0.2
+      : this.noiseFloor * 1.01;
+    this.noiseFloor = Math.max(this.noiseFloor, 1e-4);
+
+    const aiSpeaking = this.isAiSpeaking(timestamp);
+    const speechLevel = level > Math.max(MIN_SPEECH_RMS, this.noiseFloor * SPEECH_OVER_NOISE);
+    const f0 = level > this.noiseFloor * 2 ? estimatePitch(this.timeBuf, ctx.sampleRate) : null;
+
+    let semitone = f0 !== null && speechLevel ? toSemitone(f0) : NaN;
+    if (!Number.isNaN(semitone) && aiSpeaking) {
+      const aiF0 = this.aiPitch();
+      if (aiF0 === null || Math.abs(semitone - toSemitone(aiF0)) < ECHO_SEMITONES) semitone = NaN;
+    }
+    const voiced = !Number.isNaN(semitone);
+
+    let whisper = false;
+    if (!aiSpeaking && f0 === null && level > this.noiseFloor * 2 && level < MAX_WHISPER_RMS) {
+      analyser.getFloatFrequencyData(this.freqBuf);
+      whisper =
+        highBandRatio(this.freqBuf, ctx.sampleRate) >= WHISPER_HIGH_RATIO &&
+        peak(this.timeBuf) / level <= MAX_WHISPER_CREST;
+    }
+
+    this.frames.push({ voiced, whisper, semitone });
+    if (this.frames.length > WINDOW_FRAMES) this.frames.shift();
+
+    const voicedPitches = this.frames.filter((f) => f.voiced).map((f) => f.semitone);
+    const voiceActive = voicedPitches.length >= VOICE_MIN_FRAMES;
+    const whisperActive = !voiceActive && this.frames.filter((f) => f.whisper).length >= WHISPER_MIN_FRAMES;
+
+    const profile = this.profileFrames >= PROFILE_MIN_FRAMES ? this.profilePeak() : null;
+    if (voiced && (profile === null || Math.abs(semitone - profile) <= PROFILE_ACCEPT_SEMITONES)) {
+      this.addToProfile(semitone);
+    }
+    const pitchShift = voiceActive && profile !== null
+      ? Math.round(Math.abs(median(voicedPitches) - profile) * 10) / 10
+      : 0;
+
+    return {
+      voiceActive,
+      whisper: whisperActive,
+      pitchShift,
+      silenceExpected: this.silenceExpected,
+      aiSpeaking,
+      timestamp,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internal
+  // ---------------------------------------------------------------------------
+
+  private isAiSpeaking(timestamp: number): boolean {
+    if (this.aiPlayback?.isAiSpeaking()) {
+      this.lastAiTs = timestamp;
+      return true;
+    }
+    return timestamp - this.lastAiTs < AI_TAIL_MS;
+  }
+
+  /** Current pitch of the AI's playback (null = unvoiced / unavailable) */
+  private aiPitch(): number | null {
+    const analyser = this.aiPlayback?.getPlaybackAnalyser();
+    if (!analyser) return null;
+    if (this.aiBuf.length !== analyser.fftSize) this.aiBuf = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(this.aiBuf);
+    return estimatePitch(this.aiBuf, analyser.context.sampleRate);
+  }
+
+  private addToProfile(semitone: number): void {
+    const bin = Math.round(semitone) - HIST_MIN;
+    if (bin < 0 || bin >= HIST_BINS) return;
+    this.histogram[bin]!++;
+    this.profileFrames++;
+  }
+
+  /** Centre of the most populated 3-semitone band, in semitones */
+  private profilePeak(): number {
+    let best = 0;
+    let bestCount = -1;
+    for (let i = 0; i < HIST_BINS; i++) {
+      const count = (this.histogram[i - 1] ?? 0) + this.histogram[i]! + (this.histogram[i + 1] ?? 0);
+      if (count > bestCount) {
+        best = i;
+        bestCount = count;
+      }
+    }
+    return best + HIST_MIN;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DSP helpers
+// ---------------------------------------------------------------------------
+
+function rms(buf: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < buf.length; i++) sum += buf[i]! * buf[i]!;
+  return Math.sqrt(sum / buf.length);
+}
+
+function peak(buf: Float32Array): number {
+  let max = 0;
+  for (let i = 0; i < buf.length; i++) max = Math.max(max, Math.abs(buf[i]!));
+  return max;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+function toSemitone(hz: number): number {
+  return 69 + 12 * Math.log2(hz / 440);
+}
+
+/**
+ * Fundamental frequency via the normalised square difference function
+ * (McLeod): first peak within 90% of the best one, to avoid octave errors.
+ * Returns null when the window is not clearly periodic.
+ */
+export function estimatePitch(buf: Float32Array, sampleRate: number): number | null {
+  const step = Math.max(1, Math.floor(sampleRate / PITCH_SAMPLE_RATE));
+  const rate = sampleRate / step;
+  const n = Math.floor(buf.length / step);
+  const x = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    for (let j = 0; j < step; j++) sum += buf[i * step + j]!;
+    x[i] = sum / step;
+  }
+
+  const minLag = Math.floor(rate / MAX_F0);
+  const maxLag = Math.min(Math.ceil(rate / MIN_F0), n >> 1);
+  if (maxLag <= minLag) return null;
+
+  const nsdf = new Float32Array(maxLag + 1);
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let acf = 0;
+    let energy = 0;
+    for (let i = 0; i + lag < n; i++) {
+      acf += x[i]! * x[i + lag]!;
+      energy += x[i]! * x[i]! + x[i + lag]! * x[i + lag]!;
+    }
+    nsdf[lag] = energy > 0 ? (2 * acf) / energy : 0;
+    best = Math.max(best, nsdf[lag]!);
+  }
+  if (best < VOICED_CLARITY) return null;
+
+  for (let lag = minLag + 1; lag < maxLag; lag++) {
+    const v = nsdf[lag]!;
+    if (v >= best * 0.9 && v >= nsdf[lag - 1]! && v >= nsdf[lag + 1]!) return rate / lag;
+  }
+  return null;
+}
+
+/** Share of 2–6 kHz power against 2–6 kHz + 100–1000 Hz, from analyser dB bins */
+function highBandRatio(freqDb: Float32Array, sampleRate: number): number {
+  const binHz = sampleRate / FFT_SIZE;
+  let low = 0;
+  let high = 0;
+  for (let i = 0; i < freqDb.length; i++) {
+    const hz = i * binHz;
+    const power = 10 ** (freqDb[i]! / 10);
+    if (hz >= 100 && hz < 1000) low += power;
+    else if (hz >= 2000 && hz < 6000) high += power;
+  }
+  return low + high > 0 ? high / (low + high) : 0;
+}
@@ -0,0 +1,116 @@
+/**
+ * Degradation — Adaptive detection tiers for weak devices.
+ *
+ * Instead of switching proctoring off on a slow machine, the controller
+ * watches what inference actually costs during the session (time per frame
+ * and the FPS the scorer receives) and moves between DEGRADATION_TIERS:
+ * lower FPS, smaller input frames, no object detection and finally face
+ * presence only. Once there is sustained headroom it steps back up.
+ *
+ * Every change is written to the session log ("q" entries), so reviewers
+ * see that coverage was reduced for a stretch rather than silently absent.
+ */
+
+import type { DegradationTier, InferenceBackend } from "./types";
+import {
+  DEGRADATION_TIERS,
+  MAIN_THREAD_INFERENCE_BUDGET_MS,
+  TIER_HOLD_MS,
+  TIER_MIN_FPS,
+  TIER_MIN_FPS_RATIO,
+  TIER_STEP_UP_AFTER_MS,
+  TIER_STEP_UP_LOAD,
+  TIER_WINDOW_MS,
+  WORKER_INFERENCE_LOAD,
+} from "./thresholds";
+
+export interface TierChange {
+  from: DegradationTier;
+  to: DegradationTier;
+  /** Human-readable cause, for the console / error log */
+  reason: string;
+}
+
+/** Inference FPS for a tier, given the backend's configured FPS */
+export function tierFps(tier: DegradationTier, baseFps: number): number {
+  return Math.max(Math.min(TIER_MIN_FPS, baseFps), baseFps * tier.fpsScale);
+}
+
+export class DegradationController {
+  private level: number;
+  /** [clock ms, inference ms] within the window */
+  private inference: [number, number][] = [];
+  /** [clock ms, delivered FPS] within the window */
+  private fps: [number, number][] = [];
+  private lastChange: number;
+  /** Clock value since which there has been step-up headroom (0 = none) */
+  private headroomSince = 0;
+
+  constructor(initialLevel: number, now: number) {
+    this.level = Math.min(Math.max(0, initialLevel), DEGRADATION_TIERS.length - 1);
+    this.lastChange = now;
+  }
+
+  get tier(): DegradationTier {
+    return DEGRADATION_TIERS[this.level]!;
+  }
+
+  /** One completed inference (main thread: detect time; worker: frame round trip) */
+  noteInference(now: number, ms: number): void {
+    this.inference.push([now, ms]);
+  }
+
+  /**
+   * Called a few times a second with the scorer's delivered FPS; returns the
+   * change when the tier moved. Skip it while the tab is hidden (browsers
+   * throttle frames there, which says nothing about the device).
+   */
+  evaluate(now: number, deliveredFps: number, baseFps: number, backend: InferenceBackend): TierChange | null {
+    const cutoff = now - TIER_WINDOW_MS;
+    this.fps.push([now, deliveredFps]);
+    while (this.fps.length && this.fps[0]![0] < cutoff) this.fps.shift();
+    while (this.inference.length && this.inference[0]![0] < cutoff) this.inference.shift();
+    // Wait for a full window after a change before judging the new tier
+    if (now - this.lastChange < Math.max(TIER_HOLD_MS, TIER_WINDOW_MS) || this.inference.length === 0) return null;
+
+    const targetFps = tierFps(this.tier, baseFps);
+    const budget =
+      backend === "main"
+        ? Math.min(MAIN_THREAD_INFERENCE_BUDGET_MS, (1000 / targetFps) * WORKER_INFERENCE_LOAD)
+        : (1000 / targetFps) * WORKER_INFERENCE_LOAD;
+    const avgMs = this.inference.reduce((sum, [, ms]) => sum + ms, 0) / this.inference.length;
+    const avgFps = this.fps.reduce((sum, [, f]) => sum + f, 0) / this.fps.length;
+
+    if (avgMs > budget || avgFps < targetFps * TIER_MIN_FPS_RATIO) {
+      this.headroomSince = 0;
+      if (this.level >= DEGRADATION_TIERS.length - 1) return null;
+      return this.change(
+        now,
+        this.level + 1,
+        avgMs > budget
+          ? `inference ${Math.round(avgMs)} ms > ${Math.round(budget)} ms budget`
+          : `${avgFps.toFixed(1)} FPS < ${(targetFps * TIER_MIN_FPS_RATIO).toFixed(1)} FPS`,
+      );
+    }
+
+    if (this.level > 0 && avgMs < budget * TIER_STEP_UP_LOAD) {
+      if (!this.headroomSince) this.headroomSince = now;
+      if (now - this.headroomSince >= TIER_STEP_UP_AFTER_MS) {
+        return this.change(now, this.level - 1, `inference ${Math.round(avgMs)} ms, headroom for ${TIER_STEP_UP_AFTER_MS / 1000}s`);
+      }
+    } else {
+      this.headroomSince = 0;
+    }
+    return null;
+  }
+
+  private change(now: number, level: number, reason: string): TierChange {
+    const from = this.tier;
+    this.level = level;
+    this.lastChange = now;
+    this.headroomSince = 0;
+    this.inference = [];
+    this.fps = [];
+    return { from, to: this.tier, reason };
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Edit Forensics — How the code in the Monaco editor was produced.
+ *
+ *   - Every content change is logged (offset, removed length, inserted text,
+ *     source) so reviewers can replay the session keystroke by keystroke.
+ *   - Paste / drop events are classified as internal (text cut or copied
+ *     inside the editor) or external; external ones raise EXTERNAL_PASTE.
+ *   - A single non-paste change adding LARGE_INSERT_CHARS or more (net of
+ *     the text it replaced) and sustained typing above TYPING_BURST_CPS
+ *     (auto-typers, injected text) raise LARGE_PASTE. Undo / redo / model
+ *     resets never count, and formatting barely changes the net length.
+ *   - Past MAX_EDIT_LOG_ENTRIES changes are no longer logged; the log keeps
+ *     a truncation marker so playback can say where it stops being complete.
+ *
+ * The log is stored with the submission; flags go through RiskScorer like
+ * every other browser event. EditPlayback rebuilds the document at any
+ * moment of the log for the reviewer playback.
+ */
+
+import type { OnMount } from "@monaco-editor/react";
+import type {
+  EditEvent,
+  EditEventKind,
+  EditLog,
+  EditLogEntry,
+  EditLogSummary,
+  EditRun,
+  EditSource,
+} from "./types";
+import {
+  LARGE_INSERT_CHARS,
+  MAX_EDIT_LOG_ENTRIES,
+  TYPING_BURST_CPS,
+  TYPING_BURST_WINDOW_MS,
+} from "./thresholds";
+
+type CodeEditor = Parameters<OnMount>[0];
+
+/** A paste / drop only claims the content change that follows within this window (drops resolve async) */
+const PENDING_INSERT_MS = 1_000;
+
+export interface EditForensicsOptions {
+  /** Date.now() that entry timestamps are relative to (session start) */
+  startedAt: number;
+  onExternalPaste?: () => void;
+  onLargeInsert?: () => void;
+}
+
+export class EditForensics {
+  private startedAt: number;
+  private onExternalPaste?: () => void;
+  private onLargeInsert?: () => void;
+  private initial: string | null = null;
+  private entries: EditLogEntry[] = [];
+  private events: EditEvent[] = [];
+  private runs: EditRun[] = [];
+  private summary: EditLogSummary = emptySummary();
+  private truncated: EditLog["truncated"] = undefined;
+  /** Paste / drop seen on the DOM, waiting for the model change it produces */
+  private pending: { source: "p" | "d"; text: string; at: number } | null = null;
+  /** Last text cut / copied / dragged from inside the editor */
+  private internalClipboard = "";
+  /** Typed characters in the burst window: [ms, chars] */
+  private typed: [number, number][] = [];
+  private inBurst = false;
+  private disposers: (() => void)[] = [];
+
+  constructor(options: EditForensicsOptions) {
+    this.startedAt = options.startedAt;
+    this.onExternalPaste = options.onExternalPaste;
+    this.onLargeInsert = options.onLargeInsert;
+  }
+
+  /** Start observing an editor (call from onMount; re-attaching replaces the previous editor). */
+  attach(editor: CodeEditor): void {
+    this.detach();
+    if (this.initial === null) this.initial = editor.getValue();
+
+    const captureSelection = () => {
+      const model = editor.getModel();
+      const selection = editor.getSelection();
+      if (model && selection && !selection.isEmpty()) {
+        this.internalClipboard = model.getValueInRange(selection);
+      }
+    };
+    const onPaste = (e: ClipboardEvent) => {
+      this.pending = { source: "p", text: e.clipboardData?.getData("text/plain") ?? "", at: Date.now() };
+    };
+    const onDrop = (e: DragEvent) => {
+      this.pending = { source: "d", text: e.dataTransfer?.getData("text/plain") ?? "", at: Date.now() };
+    };
+
+    const node = editor.getDomNode();
+    if (node) {
+      // Capture phase: runs before Monaco's own handlers apply the text
+      node.addEventListener("copy", captureSelection, true);
+      node.addEventListener("cut", captureSelection, true);
+      node.addEventListener("dragstart", captureSelection, true);
+      node.addEventListener("paste", onPaste, true);
+      node.addEventListener("drop", onDrop, true);
+      this.disposers.push(() => {
+        node.removeEventListener("copy", captureSelection, true);
+        node.removeEventListener("cut", captureSelection, true);
+        node.removeEventListener("dragstart", captureSelection, true);
+        node.removeEventListener("paste", onPaste, true);
+        node.removeEventListener("drop", onDrop, true);
+      });
+    }
+
+    const sub = editor.onDidChangeModelContent((e) => {
+      const programmatic = e.isFlush || e.isUndoing || e.isRedoing;
+      const pending = programmatic ? null : this.takePending();
+      const source: EditSource = e.isFlush ? "f" : programmatic ? "u" : pending?.source ?? "k";
+      this.record(e.changes, source, pending?.text ?? "");
+    });
+    this.disposers.push(() => sub.dispose());
+  }
+
+  detach(): void {
+    for (const dispose of this.disposers) dispose();
+    this.disposers = [];
+  }
+
+  /** Paste shortcut pressed while pasting is blocked */
+  notePasteAttempt(): void {
+    this.summary.pasteAttempts++;
+    this.pushEvent("attempt", 0);
+  }
+
+  /** Code was run in the terminal */
+  noteRun(exitCode: number): void {
+    this.runs.push([this.now(), "run", exitCode]);
+  }
+
+  /** Test cases were run */
+  noteTestRun(passed: number, total: number): void {
+    this.runs.push([this.now(), "test", passed, total]);
+  }
+
+  toLog(): EditLog {
+    return {
+      version: 1,
+      startedAt: this.startedAt,
+      initial: this.initial ?? "",
+      entries: this.entries,
+      events: this.events,
+      runs: this.runs,
+      summary: { ...this.summary },
+      ...(this.truncated && { truncated: { ...this.truncated } }),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internal
+  // ---------------------------------------------------------------------------
+
+  private takePending(): { source: "p" | "d"; text: string } | null {
+    const p = this.pending;
+    this.pending = null;
+    return p && Date.now() - p.at <= PENDING_INSERT_MS ? p : null;
+  }
+
+  private record(
+    changes: readonly { rangeOffset: number; rangeLength: number; text: string }[],
+    source: EditSource,
+    pastedText: string,
+  ): void {
+    const t = this.now();
+    let inserted = 0;
+    // Largest single change, net of the text it replaced
+    let largestNet = 0;
+    for (const c of changes) {
+      inserted += c.text.length;
+      largestNet = Math.max(largestNet, c.text.length - c.rangeLength);
+      if (this.entries.length < MAX_EDIT_LOG_ENTRIES) {
+        this.entries.push([t, c.rangeOffset, c.rangeLength, c.text, source]);
+      } else if (this.truncated) {
+        this.truncated.dropped++;
+      } else {
+        this.truncated = { at: t, dropped: 1 };
+      }
+    }
+
+    if (source === "p" || source === "d") {
+      this.summary.pastedChars += inserted;
+      const internal = pastedText !== "" && pastedText === this.internalClipboard;
+      this.pushEvent(internal ? "internal" : "external", inserted);
+      if (!internal) {
+        this.summary.externalPastes++;
+        this.onExternalPaste?.();
+      }
+      return;
+    }
+    // Undo / redo ("u") and model resets ("f") are not typing
+    if (source !== "k" || inserted === 0) return;
+
+    this.summary.typedChars += inserted;
+    if (largestNet >= LARGE_INSERT_CHARS) {
+      this.summary.largeInserts++;
+      this.pushEvent("large", largestNet);
+      this.onLargeInsert?.();
+      return;
+    }
+    if (largestNet > 0) this.trackTypingRate(t, largestNet);
+  }
+
+  private trackTypingRate(t: number, chars: number): void {
+    this.typed.push([t, chars]);
+    const cutoff = t - TYPING_BURST_WINDOW_MS;
+    while (this.typed.length && this.typed[0]![0] <= cutoff) this.typed.shift();
+    const total = this.typed.reduce((sum, [, n]) => sum + n, 0);
+    const cps = total / (TYPING_BURST_WINDOW_MS / 1000);
+    this.summary.peakCharsPerSec = Math.max(this.summary.peakCharsPerSec, Math.round(cps * 10) / 10);
+
+    if (cps > TYPING_BURST_CPS && !this.inBurst) {
+      this.inBurst = true;
+      this.summary.typingBursts++;
+      this.pushEvent("burst", total);
+      this.onLargeInsert?.();
+    } else if (cps < TYPING_BURST_CPS / 2) {
+      this.inBurst = false;
+    }
+  }
+
+  private pushEvent(kind: EditEventKind, chars: number): void {
+    this.events.push([this.now(), kind, chars]);
+  }
+
+  private now(): number {
+    return Math.max(0, Date.now() - this.startedAt);
+  }
+}
+
+function emptySummary(): EditLogSummary {
+  return {
+    typedChars: 0,
+    pastedChars: 0,
+    pasteAttempts: 0,
+    externalPastes: 0,
+    largeInserts: 0,
+    typingBursts: 0,
+    peakCharsPerSec: 0,
+  };
+}
+
+/** Narrow an unknown JSON value (e.g. loaded from the backend) to an edit log. */
+export function isEditLog(raw: unknown): raw is EditLog {
+  if (!raw || typeof raw !== "object") return false;
+  const o = raw as Record<string, unknown>;
+  return (
+    o.version === 1 &&
+    typeof o.startedAt === "number" &&
+    typeof o.initial === "string" &&
+    Array.isArray(o.entries) &&
+    Array.isArray(o.events)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Playback
+// ---------------------------------------------------------------------------
+
+/** Entries between cached documents; keeps a scrub under ~1 ms on long sessions */
+const CHECKPOINT_EVERY = 500;
+
+export class EditPlayback {
+  readonly duration: number;
+  private entries: EditLogEntry[];
+  /** checkpoints[i] = document after applying the first i * CHECKPOINT_EVERY entries */
+  private checkpoints: string[];
+
+  constructor(log: EditLog) {
+    this.entries = log.entries;
+    this.checkpoints = [log.initial];
+    let text = log.initial;
+    this.entries.forEach((entry, i) => {
+      text = applyEntry(text, entry);
+      if ((i + 1) % CHECKPOINT_EVERY === 0) this.checkpoints.push(text);
+    });
+    const last = this.entries[this.entries.length - 1];
+    this.duration = last ? last[0] : 0;
+  }
+
+  /** Document text at `t` ms since session start (all entries with timestamp <= t applied). */
+  textAt(t: number): string {
+    const count = this.countAt(t);
+    const cp = Math.min(Math.floor(count / CHECKPOINT_EVERY), this.checkpoints.length - 1);
+    let text = this.checkpoints[cp]!;
+    for (let i = cp * CHECKPOINT_EVERY; i < count; i++) text = applyEntry(text, this.entries[i]!);
+    return text;
+  }
+
+  /** Number of entries with timestamp <= t (binary search; entries are time-ordered). */
+  private countAt(t: number): number {
+    let lo = 0;
+    let hi = this.entries.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.entries[mid]![0] <= t) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
+
+function applyEntry(text: string, [, offset, removed, inserted]: EditLogEntry): string {
+  return text.slice(0, offset) + inserted + text.slice(offset + removed);
+}
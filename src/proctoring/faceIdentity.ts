@@ -0,0 +1,188 @@
+/**
+ * Face Identity — Continuity check between the enrolled face and live frames.
+ *
+ * The "embedding" is a geometric signature built from FaceLandmarker output
+ * (already computed every frame, so no extra model): pairwise distances
+ * between rigid landmarks (eye corners, nose, brows, cheekbones, forehead),
+ * normalised by the inter-ocular distance. Mouth/jaw points are left out so
+ * talking does not move the signature.
+ *
+ * This is NOT a face-recognition embedding: landmark proportions only tell
+ * whether the face in view is shaped like the enrolled one. Similar-looking
+ * people can match and it proves nothing about who the candidate is; treat
+ * FACE_MISMATCH as a prompt for human review, not as identity verification.
+ *
+ * Flow:
+ *   1. The system check (enrollFace in systemCheck.ts) collects frontal
+ *      single-face samples before the session and FaceReferenceBuilder
+ *      averages them into a FaceReference; a reference from an earlier
+ *      round can be carried over instead.
+ *   2. FaceMatcher keeps a short rolling mean of live signatures and reports
+ *      the similarity to the reference; RiskScorer turns a sustained low
+ *      similarity into a FACE_MISMATCH flag. Without a reference there is no
+ *      identity check.
+ */
+
+type Landmark = { x: number; y: number; z: number };
+
+/** Rigid landmarks (MediaPipe 478-point mesh) */
+const SIGNATURE_LANDMARKS = [
+  10, // forehead
+  33, 133, 362, 263, // eye corners
+  70, 300, // brows
+  168, 6, 1, // nose bridge → tip
+  98, 327, // nostrils
+  234, 454, // cheekbones
+] as const;
+
+/** Only near-frontal frames are comparable */
+const MAX_SAMPLE_YAW = 15;
+const MAX_SAMPLE_PITCH = 15;
+/** Samples averaged into the enrolled reference (~5 s at 3 FPS) */
+const REFERENCE_SAMPLES = 15;
+/** Live signatures averaged before comparing (smooths landmark jitter) */
+const LIVE_WINDOW = 5;
+/** RMS log-ratio difference at which similarity reaches 0 */
+const SIMILARITY_ZERO_RMS = 0.15;
+
+export interface FaceReference {
+  version: 1;
+  vector: number[];
+  samples: number;
+  /** Date.now() when enrolment finished */
+  capturedAt: number;
+}
+
+/**
+ * Estimate head pose (yaw & pitch) from 478 face landmarks.
+ *
+ * Landmarks:  1=nose tip, 33=left eye outer, 263=right eye outer, 152=chin
+ */
+export function estimateHeadPose(landmarks: Landmark[]): { yaw: number; pitch: number } {
+  const nose = landmarks[1]!;
+  const leftEye = landmarks[33]!;
+  const rightEye = landmarks[263]!;
+  const chin = landmarks[152]!;
+
+  // Yaw: compare nose-to-eye horizontal distances
+  const leftDist = Math.abs(nose.x - leftEye.x);
+  const rightDist = Math.abs(nose.x - rightEye.x);
+  const total = leftDist + rightDist || 0.001;
+  const yaw = (leftDist / total - 0.5) * -180;
+
+  // Pitch: nose vertical position relative to eye-chin span
+  const eyeY = (leftEye.y + rightEye.y) / 2;
+  const vertSpan = chin.y - eyeY || 0.001;
+  const noseRatio = (nose.y - eyeY) / vertSpan;
+  const pitch = (noseRatio - 0.62) * 150;
+
+  return {
+    yaw: Math.round(yaw * 10) / 10,
+    pitch: Math.round(pitch * 10) / 10,
+  };
+}
+
+/** Signature for one frame, or null when the face is not usable (too turned / degenerate). */
+export function computeFaceSignature(landmarks: Landmark[], yaw: number, pitch: number): number[] | null {
+  if (Math.abs(yaw) > MAX_SAMPLE_YAW || Math.abs(pitch) > MAX_SAMPLE_PITCH) return null;
+  const pts = SIGNATURE_LANDMARKS.map((i) => landmarks[i]);
+  if (pts.some((p) => !p)) return null;
+  const ocular = distance(landmarks[33]!, landmarks[263]!);
+  if (ocular < 1e-4) return null;
+
+  const out: number[] = [];
+  for (let i = 0; i < pts.length; i++) {
+    for (let j = i + 1; j < pts.length; j++) {
+      out.push(distance(pts[i]!, pts[j]!) / ocular);
+    }
+  }
+  return out;
+}
+
+/**
+ * Similarity 0–1 from the RMS log-ratio difference between two signatures.
+ * Scale-free: 0.05 RMS (faces differing ~5% in proportions on average) maps
+ * to 0.67; landmark jitter on the same face stays around 0.01–0.02 (~0.9).
+ */
+export function faceSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = Math.log(a[i]! / b[i]!);
+    sum += d * d;
+  }
+  const rms = Math.sqrt(sum / a.length);
+  return Math.max(0, 1 - rms / SIMILARITY_ZERO_RMS);
+}
+
+export function isFaceReference(raw: unknown): raw is FaceReference {
+  if (!raw || typeof raw !== "object") return false;
+  const o = raw as Record<string, unknown>;
+  return o.version === 1 && Array.isArray(o.vector) && o.vector.every((v) => typeof v === "number");
+}
+
+// ---------------------------------------------------------------------------
+// Enrolment
+// ---------------------------------------------------------------------------
+
+export class FaceReferenceBuilder {
+  private samples: number[][] = [];
+
+  /** Add a frame; returns the finished reference once enough samples were collected. */
+  add(signature: number[]): FaceReference | null {
+    this.samples.push(signature);
+    if (this.samples.length < REFERENCE_SAMPLES) return null;
+    return {
+      version: 1,
+      vector: averageVectors(this.samples),
+      samples: this.samples.length,
+      capturedAt: Date.now(),
+    };
+  }
+
+  reset(): void {
+    this.samples = [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Live comparison
+// ---------------------------------------------------------------------------
+
+export class FaceMatcher {
+  readonly reference: FaceReference;
+  private window: number[][] = [];
+
+  constructor(reference: FaceReference) {
+    this.reference = reference;
+  }
+
+  /** Similarity of the recent live frames to the reference, or null until the window fills. */
+  add(signature: number[]): number | null {
+    this.window.push(signature);
+    if (this.window.length > LIVE_WINDOW) this.window.shift();
+    if (this.window.length < LIVE_WINDOW) return null;
+    return faceSimilarity(averageVectors(this.window), this.reference.vector);
+  }
+
+  /** Drop the rolling window (face left the frame / a second face appeared). */
+  clear(): void {
+    this.window = [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function distance(a: Landmark, b: Landmark): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function averageVectors(vs: number[][]): number[] {
+  const out = new Array<number>(vs[0]!.length).fill(0);
+  for (const v of vs) {
+    for (let i = 0; i < out.length; i++) out[i]! += v[i]!;
+  }
+  return out.map((x) => x / vs.length);
+}
@@ -0,0 +1,312 @@
+/**
+ * Integrity Summary — One consistent digest of a session's proctoring data
+ * for every report (aptitude, coding, interview, full flow, PDF).
+ *
+ * Works from what every report has stored: the flags and final risk score.
+ * When the replayable session log is available it is used for the exact
+ * off-screen time; otherwise that figure is a lower bound derived from the
+ * NO_FACE / LOOKING_AWAY flags. The log also tells how long detection ran
+ * on a reduced degradation tier (weak device), so a quiet stretch is not
+ * mistaken for full coverage.
+ *
+ * The risk-over-time curve comes from the stored risk series when the session
+ * sampled one. Older sessions rebuild it from the flags: each flag adds its
+ * points (already capped at 100 when it fired) and the score decays linearly
+ * at riskDecayPerSec in between — the same model RiskScorer uses live.
+ */
+
+import type { FlagType, ProctoringThresholds, RiskSeries } from "./types";
+import { FLAG_MESSAGES, getRiskLevel } from "./types";
+import { DEFAULT_THRESHOLDS, DEGRADATION_TIERS } from "./thresholds";
+import { isProctoringSessionLog } from "./sessionLog";
+import { isRiskSeries } from "./riskSeries";
+
+export type FlagSeverity = "low" | "medium" | "high";
+
+export type IntegrityVerdict = "clean" | "minor" | "review" | "serious";
+
+export interface IntegritySource {
+  flags: readonly { type: string; timestamp: number; message: string; pointsAdded: number }[];
+  riskScore?: number | null;
+  /** Stored session log (see sessionLog.ts), if the session recorded one */
+  proctoringLog?: unknown;
+  /** Stored risk series (see riskSeries.ts), if the session sampled one */
+  riskSeries?: unknown;
+  /** Session length in ms when known (stretches the sparkline to the full session) */
+  durationMs?: number;
+}
+
+export interface IntegrityFlagCount {
+  type: string;
+  label: string;
+  severity: FlagSeverity;
+  count: number;
+}
+
+export interface IntegritySummary {
+  totalFlags: number;
+  /** Per-type counts, most frequent first */
+  counts: IntegrityFlagCount[];
+  highSeverityFlags: number;
+  /** Tab hidden + no face + looking away, in ms */
+  offScreenMs: number;
+  /** true when offScreenMs is a lower bound from flags (no session log, or a truncated one) */
+  offScreenEstimated: boolean;
+  /** Time spent on a degradation tier above 0 (needs the session log) */
+  reducedCoverageMs: number;
+  /** Label of the most reduced tier reached (null = full coverage throughout / unknown) */
+  lowestTier: string | null;
+  peakRisk: number;
+  avgRisk: number;
+  finalRisk: number;
+  /** Risk 0–100 sampled evenly over the session */
+  series: number[];
+  /** The stored series behind `series` (null = rebuilt from flags) */
+  riskSeries: RiskSeries | null;
+  durationMs: number;
+  verdict: IntegrityVerdict;
+  verdictText: string;
+}
+
+const SERIES_POINTS = 48;
+/** Detection gaps longer than this are not counted as off-screen time (throttled tab, paused loop) */
+const MAX_DETECTION_GAP_MS = 2_000;
+
+const VERDICT_TEXT: Record<IntegrityVerdict, string> = {
+  clean: "No integrity concerns were recorded during this session.",
+  minor: "A few minor signals were recorded; they are unlikely to affect the result.",
+  review: "Several integrity signals were recorded. A reviewer should check the flagged moments before relying on this result.",
+  serious: "Strong indications of a possible integrity violation. Review the recording and flags before making a decision.",
+};
+
+export const VERDICT_LABELS: Record<IntegrityVerdict, string> = {
+  clean: "Clean",
+  minor: "Minor signals",
+  review: "Needs review",
+  serious: "Serious concerns",
+};
+
+export function flagSeverity(type: string): FlagSeverity {
+  switch (type) {
+    case "MULTI_FACE":
+    case "PHONE_DETECTED":
+    case "FACE_MISMATCH":
+    case "FULLSCREEN_EXIT":
+    case "NO_FACE":
+    case "TAB_HIDDEN":
+    case "WINDOW_BLUR":
+    case "SCREEN_SHARE_STOPPED":
+    case "MULTIPLE_DISPLAYS":
+    case "EXTERNAL_PASTE":
+      return "high";
+    case "LOOKING_AWAY":
+    case "DARK_FRAME":
+    case "BOOK_DETECTED":
+    case "SECOND_VOICE":
+    case "WHISPER":
+    case "LARGE_PASTE":
+      return "medium";
+    default:
+      return "low";
+  }
+}
+
+/** Whether a stored session carries proctoring data at all (vs. proctoring disabled). */
+export function hasProctoringData(source: { flags?: readonly unknown[] | null; riskScore?: number | null; proctoringLog?: unknown }): boolean {
+  return (source.flags?.length ?? 0) > 0 || source.riskScore != null || isProctoringSessionLog(source.proctoringLog);
+}
+
+export function computeIntegritySummary(source: IntegritySource): IntegritySummary {
+  const flags = [...source.flags].sort((a, b) => a.timestamp - b.timestamp);
+  const log = isProctoringSessionLog(source.proctoringLog) ? source.proctoringLog : null;
+  const riskSeries = isRiskSeries(source.riskSeries) && source.riskSeries.samples.length > 0 ? source.riskSeries : null;
+  const thresholds: ProctoringThresholds = {
+    ...DEFAULT_THRESHOLDS,
+    ...log?.policy?.thresholds,
+    ...log?.thresholds,
+  };
+
+  // ---- Counts ----
+  const byType = new Map<string, IntegrityFlagCount>();
+  for (const f of flags) {
+    const entry = byType.get(f.type) ?? {
+      type: f.type,
+      label: FLAG_MESSAGES[f.type as FlagType] ?? f.message,
+      severity: flagSeverity(f.type),
+      count: 0,
+    };
+    entry.count++;
+    byType.set(f.type, entry);
+  }
+  const counts = [...byType.values()].sort((a, b) => b.count - a.count);
+  const highSeverityFlags = counts.filter((c) => c.severity === "high").reduce((n, c) => n + c.count, 0);
+
+  // ---- Duration ----
+  const lastEntry = log?.entries[log.entries.length - 1];
+  const logDuration = log && lastEntry ? lastEntry[0] - log.interviewStartTs : 0;
+  const lastSample = riskSeries?.samples[riskSeries.samples.length - 1];
+  const durationMs = Math.max(
+    source.durationMs ?? 0,
+    logDuration,
+    lastSample?.[0] ?? 0,
+    flags[flags.length - 1]?.timestamp ?? 0,
+  );
+
+  // ---- Off-screen time ----
+  // A truncated log misses the end of the session; the flags cover all of it
+  const completeLog = log && !log.truncated ? log : null;
+  let offScreenMs = 0;
+  if (completeLog) {
+    offScreenMs = offScreenFromLog(completeLog.entries, thresholds);
+  } else {
+    for (const f of flags) {
+      if (f.type === "NO_FACE") offScreenMs += thresholds.faceMissingMs;
+      else if (f.type === "LOOKING_AWAY") offScreenMs += thresholds.lookingAwayMs;
+    }
+  }
+
+  // ---- Detection coverage ----
+  const coverage = log ? coverageFromLog(log.entries) : { reducedMs: 0, maxLevel: 0 };
+
+  // ---- Risk over time ----
+  let series: number[];
+  let peakRisk: number;
+  let avgRisk: number;
+  if (riskSeries) {
+    const scores = riskSeries.samples.map((x) => x[1]);
+    series = bucketMax(riskSeries.samples, durationMs);
+    peakRisk = Math.max(0, ...scores);
+    avgRisk = scores.reduce((sum, v) => sum + v, 0) / scores.length;
+  } else {
+    const riskAt = buildRiskCurve(flags, thresholds.riskDecayPerSec);
+    series = [];
+    for (let i = 0; i < SERIES_POINTS; i++) {
+      series.push(Math.round(riskAt((durationMs * i) / (SERIES_POINTS - 1))));
+    }
+    // Peaks sit right after a flag fires; sample those exactly
+    peakRisk = Math.max(0, ...series, ...flags.map((f) => riskAt(f.timestamp)));
+    avgRisk = series.length ? series.reduce((sum, v) => sum + v, 0) / series.length : 0;
+  }
+  const finalRisk = source.riskScore ?? series[series.length - 1] ?? 0;
+  peakRisk = Math.max(peakRisk, finalRisk);
+
+  const verdict = integrityVerdict(flags.length, highSeverityFlags, peakRisk);
+  return {
+    totalFlags: flags.length,
+    counts,
+    highSeverityFlags,
+    offScreenMs: Math.round(offScreenMs),
+    offScreenEstimated: !completeLog,
+    reducedCoverageMs: Math.round(coverage.reducedMs),
+    lowestTier: coverage.maxLevel > 0 ? DEGRADATION_TIERS[coverage.maxLevel]?.label ?? null : null,
+    peakRisk: Math.round(peakRisk),
+    avgRisk: Math.round(avgRisk),
+    finalRisk: Math.round(finalRisk),
+    series,
+    riskSeries,
+    durationMs,
+    verdict,
+    verdictText: VERDICT_TEXT[verdict],
+  };
+}
+
+function integrityVerdict(total: number, high: number, peakRisk: number): IntegrityVerdict {
+  if (total === 0) return "clean";
+  const level = getRiskLevel(peakRisk);
+  if (level === "High Risk") return "serious";
+  if (level === "Warning" || high >= 2) return "review";
+  return "minor";
+}
+
+/** Highest sampled score per sparkline bucket, so short spikes stay visible. */
+function bucketMax(samples: RiskSeries["samples"], durationMs: number): number[] {
+  const out = new Array<number>(SERIES_POINTS).fill(-1);
+  for (const [t, score] of samples) {
+    const i = Math.min(SERIES_POINTS - 1, Math.round((t / Math.max(1, durationMs)) * (SERIES_POINTS - 1)));
+    out[i] = Math.max(out[i]!, score);
+  }
+  // Empty buckets (session shorter than the bucket count) carry the previous value
+  let prev = 0;
+  return out.map((v) => (v < 0 ? prev : (prev = v)));
+}
+
+/** Score at time t (ms since session start) from the flag timeline. */
+function buildRiskCurve(flags: IntegritySource["flags"], decayPerSec: number): (t: number) => number {
+  // Score right after each flag, so riskAt() only decays from the last one
+  const after: number[] = [];
+  let score = 0;
+  let last = 0;
+  for (const f of flags) {
+    score = Math.max(0, score - ((f.timestamp - last) / 1000) * decayPerSec);
+    score = Math.min(100, score + f.pointsAdded);
+    last = f.timestamp;
+    after.push(score);
+  }
+  return (t: number) => {
+    let i = -1;
+    while (i + 1 < flags.length && flags[i + 1]!.timestamp <= t) i++;
+    if (i < 0) return 0;
+    return Math.max(0, after[i]! - ((t - flags[i]!.timestamp) / 1000) * decayPerSec);
+  };
+}
+
+function offScreenFromLog(
+  entries: readonly (readonly unknown[])[],
+  thresholds: ProctoringThresholds,
+): number {
+  let total = 0;
+  let hidden = false;
+  let away = false;
+  let lastT: number | null = null;
+  for (const entry of entries) {
+    const t = entry[0] as number;
+    if (lastT !== null && (hidden || away)) {
+      const dt = t - lastT;
+      // Hidden tabs throttle detection, so long gaps only count while hidden
+      total += hidden ? dt : Math.min(dt, MAX_DETECTION_GAP_MS);
+    }
+    lastT = t;
+    switch (entry[1]) {
+      case "h": hidden = true; break;
+      case "v": hidden = false; break;
+      case "r": hidden = false; away = false; break;
+      case "d": {
+        const faceCount = entry[2] as number;
+        const yaw = entry[3] as number;
+        const pitch = entry[4] as number;
+        away =
+          faceCount === 0 ||
+          Math.abs(yaw) > thresholds.yawThreshold ||
+          Math.abs(pitch) > thresholds.pitchThreshold;
+        break;
+      }
+    }
+  }
+  return total;
+}
+
+/** Time on a reduced tier ("q" entries carry the new level) up to the end of the log */
+function coverageFromLog(entries: readonly (readonly unknown[])[]): { reducedMs: number; maxLevel: number } {
+  let reducedMs = 0;
+  let maxLevel = 0;
+  let level = 0;
+  let lastT: number | null = null;
+  for (const entry of entries) {
+    const t = entry[0] as number;
+    if (lastT !== null && level > 0) reducedMs += t - lastT;
+    lastT = t;
+    if (entry[1] === "q") {
+      level = entry[2] as number;
+      maxLevel = Math.max(maxLevel, level);
+    }
+  }
+  return { reducedMs, maxLevel };
+}
+
+/** "1m 05s" / "42s" */
+export function formatOffScreen(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  return `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, "0")}s`;
+}
+
@@ -0,0 +1,327 @@
+/**
+ * Live Channel — Proctoring state streamed to observers over the LiveKit
+ * data channel (only when the `livekitDataChannelEnabled` setting is on).
+ *
+ *   - candidate: useProctoringBroadcast publishes every new flag as it is
+ *     raised, a risk update every LIVE_RISK_INTERVAL_MS, and a snapshot of
+ *     everything so far when streaming starts and to each late joiner
+ *   - observer: useProctoringFeed folds those messages into live state
+ *   - interventions go the other way: useInterventionSender (observer) sends
+ *     warning / pause / resume / extend / terminate, useObserverInterventions
+ *     (candidate) applies those from verified observers and acknowledges
+ *     each by id
+ *
+ * Messages use their own topic so they never mix with the transcript
+ * snapshots sent on the untopiced channel. Handlers passed to useDataChannel
+ * must be stable: it re-subscribes whenever the callback changes.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useDataChannel, useRoomContext } from "@livekit/components-react";
+import { RoomEvent, type Participant, type Room } from "livekit-client";
+import type { ObserverIntervention, ProctoringFlag, ProctoringLiveMessage, RiskLevel } from "./types";
+import { LIVE_RISK_INTERVAL_MS } from "./thresholds";
+
+export const PROCTORING_TOPIC = "proctoring";
+
+/** Role the backend puts on observer tokens (token role "observer") */
+const OBSERVER_ROLE = "observer";
+
+/** The parts of a received data message the handlers use */
+interface DataMessage {
+  payload: Uint8Array;
+  from?: Pick<Participant, "identity" | "attributes" | "metadata">;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function encodeLiveMessage(msg: ProctoringLiveMessage): Uint8Array {
+  return encoder.encode(JSON.stringify(msg));
+}
+
+/** null for anything that is not a well-formed proctoring message */
+export function decodeLiveMessage(payload: Uint8Array): ProctoringLiveMessage | null {
+  try {
+    const msg = JSON.parse(decoder.decode(payload)) as ProctoringLiveMessage;
+    switch (msg?.type) {
+      case "flag":
+        return msg.flag && typeof msg.flag.type === "string" ? msg : null;
+      case "risk":
+        return typeof msg.riskScore === "number" ? msg : null;
+      case "snapshot":
+        return Array.isArray(msg.flags) ? msg : null;
+      case "intervention":
+        return msg.intervention && typeof msg.intervention.id === "string" ? msg : null;
+      case "ack":
+        return typeof msg.id === "string" ? msg : null;
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Candidate side
+// ---------------------------------------------------------------------------
+
+interface UseProctoringBroadcastParams {
+  enabled: boolean;
+  room: Room;
+  flags: ProctoringFlag[];
+  riskScore: number;
+  riskLevel: RiskLevel;
+  faceCount: number;
+  /** Timer paused by a proctor */
+  paused: boolean;
+  interviewId: string | null;
+  /** Session start (Date.now() ms) that flag timestamps are relative to */
+  startTs: number;
+}
+
+export function useProctoringBroadcast(params: UseProctoringBroadcastParams): void {
+  const { enabled, room, flags } = params;
+  const latestRef = useRef(params);
+  latestRef.current = params;
+  const sentIdsRef = useRef(new Set<string>());
+
+  const publish = (msg: ProctoringLiveMessage, destinationIdentities?: string[]) => {
+    room.localParticipant
+      .publishData(encodeLiveMessage(msg), { reliable: msg.type !== "risk", topic: PROCTORING_TOPIC, destinationIdentities })
+      .catch(() => {});
+  };
+
+  // New flags, as they are raised
+  useEffect(() => {
+    if (!enabled) return;
+    for (const flag of flags) {
+      if (sentIdsRef.current.has(flag.id)) continue;
+      sentIdsRef.current.add(flag.id);
+      publish({ type: "flag", flag });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, flags]);
+
+  // Periodic risk; lossy, the next update supersedes a dropped one
+  useEffect(() => {
+    if (!enabled) return;
+    const id = setInterval(() => {
+      const { riskScore, riskLevel, faceCount, paused, startTs } = latestRef.current;
+      publish({ type: "risk", at: Date.now() - startTs, riskScore, riskLevel, faceCount, paused });
+    }, LIVE_RISK_INTERVAL_MS);
+    return () => clearInterval(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, room]);
+
+  // Observers already in the room get a snapshot when streaming starts, late joiners when they join
+  useEffect(() => {
+    if (!enabled) return;
+    const sendSnapshot = (destinationIdentities?: string[]) => {
+      const { flags: all, riskScore, riskLevel, interviewId, startTs } = latestRef.current;
+      publish({ type: "snapshot", at: Date.now() - startTs, riskScore, riskLevel, flags: all, interviewId }, destinationIdentities);
+    };
+    sendSnapshot();
+    const onJoin = (participant: Participant) => sendSnapshot([participant.identity]);
+    room.on(RoomEvent.ParticipantConnected, onJoin);
+    return () => {
+      room.off(RoomEvent.ParticipantConnected, onJoin);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, room]);
+}
+
+/**
+ * Whether the backend issued the participant an observer token: the role
+ * comes from the token's `role` attribute, or `role` in its JSON metadata.
+ * Both are set server-side; a participant can only change its own with the
+ * canUpdateOwnMetadata grant, which candidate tokens must not carry.
+ */
+export function isObserverParticipant(participant: DataMessage["from"]): participant is NonNullable<DataMessage["from"]> {
+  if (!participant) return false;
+  if (participant.attributes?.role) return participant.attributes.role === OBSERVER_ROLE;
+  try {
+    const meta = JSON.parse(participant.metadata || "null") as { role?: unknown } | null;
+    return meta?.role === OBSERVER_ROLE;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Applies proctor interventions received from the room and acknowledges each
+ * one to its sender. Only verified observers (isObserverParticipant) are
+ * obeyed; interventions from anyone else are dropped without an ack.
+ */
+export function useObserverInterventions(enabled: boolean, onIntervention: (intervention: ObserverIntervention) => void): void {
+  const room = useRoomContext();
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+  const handlerRef = useRef(onIntervention);
+  handlerRef.current = onIntervention;
+  const appliedRef = useRef(new Set<string>());
+
+  const onMessage = useCallback(
+    ({ payload, from }: DataMessage) => {
+      if (!enabledRef.current) return;
+      const msg = decodeLiveMessage(payload);
+      if (msg?.type !== "intervention") return;
+      if (!isObserverParticipant(from)) {
+        console.warn("[Proctoring] Ignored an intervention from a participant without the observer role");
+        return;
+      }
+      const { id } = msg.intervention;
+      // Reliable delivery can repeat after a reconnect; apply once, ack every time
+      if (!appliedRef.current.has(id)) {
+        appliedRef.current.add(id);
+        handlerRef.current(msg.intervention);
+      }
+      room.localParticipant
+        .publishData(encodeLiveMessage({ type: "ack", id }), {
+          reliable: true,
+          topic: PROCTORING_TOPIC,
+          destinationIdentities: [from.identity],
+        })
+        .catch(() => {});
+    },
+    [room],
+  );
+  useDataChannel(PROCTORING_TOPIC, onMessage);
+}
+
+// ---------------------------------------------------------------------------
+// Observer side
+// ---------------------------------------------------------------------------
+
+export interface ProctoringFeed {
+  /** Newest last */
+  flags: ProctoringFlag[];
+  riskScore: number;
+  riskLevel: RiskLevel;
+  faceCount: number | null;
+  /** Session time (ms) of the latest update; null until anything arrived */
+  at: number | null;
+  /** Identity of the participant streaming proctoring data */
+  from: string | null;
+  /** From the snapshot; interventions are audited on it */
+  interviewId: string | null;
+  paused: boolean;
+}
+
+const EMPTY_FEED: ProctoringFeed = {
+  flags: [],
+  riskScore: 0,
+  riskLevel: "OK",
+  faceCount: null,
+  at: null,
+  from: null,
+  interviewId: null,
+  paused: false,
+};
+
+/**
+ * Live proctoring state from the room; `onFlag` fires once per newly received flag.
+ * Messages from observers are ignored, so `from` always names the candidate.
+ */
+export function useProctoringFeed(onFlag?: (flag: ProctoringFlag) => void): ProctoringFeed {
+  const [feed, setFeed] = useState<ProctoringFeed>(EMPTY_FEED);
+  const onFlagRef = useRef(onFlag);
+  onFlagRef.current = onFlag;
+  /** Flag ids already in the feed; reliable delivery can repeat a message */
+  const seenFlagsRef = useRef(new Set<string>());
+
+  const onMessage = useCallback(({ payload, from }: DataMessage) => {
+    const msg = decodeLiveMessage(payload);
+    const sender = from?.identity ?? null;
+    if (!msg || isObserverParticipant(from)) return;
+    switch (msg.type) {
+      case "flag":
+        if (seenFlagsRef.current.has(msg.flag.id)) break;
+        seenFlagsRef.current.add(msg.flag.id);
+        setFeed((prev) => ({
+          ...prev,
+          flags: [...prev.flags, msg.flag],
+          at: Math.max(prev.at ?? 0, msg.flag.timestamp),
+          from: sender,
+        }));
+        onFlagRef.current?.(msg.flag);
+        break;
+      case "risk":
+        setFeed((prev) => ({
+          ...prev,
+          riskScore: msg.riskScore,
+          riskLevel: msg.riskLevel,
+          faceCount: msg.faceCount,
+          paused: msg.paused === true,
+          at: msg.at,
+          from: sender,
+        }));
+        break;
+      case "snapshot":
+        for (const f of msg.flags) seenFlagsRef.current.add(f.id);
+        setFeed((prev) => {
+          const known = new Set(prev.flags.map((f) => f.id));
+          const flags = [...prev.flags, ...msg.flags.filter((f) => !known.has(f.id))].sort((a, b) => a.timestamp - b.timestamp);
+          return {
+            ...prev,
+            flags,
+            riskScore: msg.riskScore,
+            riskLevel: msg.riskLevel,
+            interviewId: msg.interviewId ?? prev.interviewId,
+            at: msg.at,
+            from: sender,
+          };
+        });
+        break;
+    }
+  }, []);
+  useDataChannel(PROCTORING_TOPIC, onMessage);
+
+  return feed;
+}
+
+export interface SentIntervention {
+  intervention: ObserverIntervention;
+  sentAt: number;
+  /** The candidate's session confirmed it applied the intervention */
+  acknowledged: boolean;
+}
+
+/** Distributes the Omit over each ObserverIntervention variant */
+export type InterventionDraft = ObserverIntervention extends infer T ? (T extends unknown ? Omit<T, "id"> : never) : never;
+
+export function createIntervention(draft: InterventionDraft): ObserverIntervention {
+  return { ...draft, id: `iv_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}` } as ObserverIntervention;
+}
+
+/** Sends interventions to `candidate` (everyone when unknown) and tracks acknowledgements. */
+export function useInterventionSender(candidate: string | null): {
+  send: (intervention: ObserverIntervention) => Promise<void>;
+  sent: SentIntervention[];
+} {
+  const [sent, setSent] = useState<SentIntervention[]>([]);
+  const onMessage = useCallback(({ payload }: DataMessage) => {
+    const msg = decodeLiveMessage(payload);
+    if (msg?.type !== "ack") return;
+    setSent((prev) => prev.map((s) => (s.intervention.id === msg.id ? { ...s, acknowledged: true } : s)));
+  }, []);
+  const { send: publish } = useDataChannel(PROCTORING_TOPIC, onMessage);
+
+  const send = async (intervention: ObserverIntervention): Promise<void> => {
+    // Listed before publishing so a fast ack is not lost
+    setSent((prev) => [...prev, { intervention, sentAt: Date.now(), acknowledged: false }]);
+    try {
+      await publish(encodeLiveMessage({ type: "intervention", intervention }), {
+        reliable: true,
+        topic: PROCTORING_TOPIC,
+        destinationIdentities: candidate ? [candidate] : undefined,
+      });
+    } catch (err) {
+      setSent((prev) => prev.filter((s) => s.intervention.id !== intervention.id));
+      throw err;
+    }
+  };
+
+  return { send, sent };
+}
@@ -1,48 +1,71 @@
 /**
  * Risk Scorer — Lightweight, main-thread scoring engine.
  *
- * Processes DetectionResults from the worker + browser events and produces
- * a riskScore (0–100) with decay, plus a timeline of ProctoringFlags.
+ * Processes DetectionResults from the worker, microphone frames and browser
+ * events and produces a riskScore (0–100) with decay, plus a timeline of
+ * ProctoringFlags.
  *
  * Design:
- *   - Score INCREASES when violations occur.
- *   - Score DECAYS slowly (configurable) when behaviour is normal.
- *   - Each flag type has a cooldown to prevent score explosion.
+ *   - WHEN a flag fires is decided by the RuleEngine (one declarative rule
+ *     per FlagType, optionally patched by an org ProctoringPolicy).
+ *   - Score INCREASES by the rule's points when it fires.
+ *   - Score DECAYS slowly (configurable) when behaviour is normal; rules
+ *     with their own decayPerSec keep a separate contribution bucket.
+ *   - Each rule has a cooldown to prevent score explosion.
  *   - All computation is trivial (no ML, no allocations in hot path).
  */
 
 import type {
+  AudioDetectionResult,
+  BrowserEventKind,
   DetectionResult,
   FlagType,
   ProctoringFlag,
   ProctoringMetrics,
+  ProctoringPolicy,
+  ProctoringRule,
   ProctoringThresholds,
   RiskLevel,
+  RuleSignals,
+  SessionLogEntry,
 } from "./types";
-import { FLAG_MESSAGES, FLAG_POINTS, getRiskLevel } from "./types";
-import { DEFAULT_THRESHOLDS } from "./thresholds";
-import {
-  LOW_FPS_THRESHOLD,
-  LOW_FPS_DURATION_MS,
-  GAZE_SHIFT_DEGREES,
-  KEYBOARD_SUSPICION_WINDOW_MS,
-  KEYBOARD_SUSPICION_MIN_KEYS,
-  MIN_CAMERA_RESOLUTION,
-} from "./thresholds";
+import { getRiskLevel } from "./types";
+import { DEFAULT_THRESHOLDS, MIN_CAMERA_RESOLUTION } from "./thresholds";
+import { RuleEngine, resolveRules } from "./ruleEngine";
+
+export interface RiskScorerOptions {
+  /** Time source in ms; defaults to performance.now(). Replay injects recorded values. */
+  clock?: () => number;
+  /** Receives every scorer input with the clock value it was processed at */
+  onInput?: (entry: SessionLogEntry) => void;
+  /** Flags matching this are still recorded but add no points (e.g. accepted appeals) */
+  excludeFlag?: (type: FlagType, timestamp: number) => boolean;
+}
+
+/** Camera quality from frame brightness and resolution (also used by the pre-session system check). */
+export function cameraQuality(
+  brightness: number,
+  width: number,
+  height: number,
+  darkBrightnessThreshold: number,
+): ProctoringMetrics["cameraQuality"] {
+  if (brightness < darkBrightnessThreshold) return "dark";
+  if (width > 0 && height > 0 && (width < MIN_CAMERA_RESOLUTION || height < MIN_CAMERA_RESOLUTION)) return "low_res";
+  return "ok";
+}
 
 export class RiskScorer {
+  /** Shared bucket, decays at thresholds.riskDecayPerSec */
   private score = 0;
+  /** Per-rule buckets for rules that declare their own decayPerSec */
+  private ruleScores: Partial<Record<FlagType, number>> = {};
   private flags: ProctoringFlag[] = [];
   private thresholds: ProctoringThresholds;
+  private engine: RuleEngine;
   private interviewStartTs: number;
-
-  // Duration accumulators
-  private faceMissingSince = 0;
-  private lookingAwaySince = 0;
-  private faceMissingFlagged = false;
-  private lookingAwayFlagged = false;
-  private lowFpsSince = 0; // 0 = FPS ok
-  private lowFpsFlagged = false;
+  private clock: () => number;
+  private onInput?: (entry: SessionLogEntry) => void;
+  private excludeFlag?: (type: FlagType, timestamp: number) => boolean;
 
   // Focus loss heuristic
   private tabHiddenSince = 0; // 0 = visible
@@ -54,12 +77,8 @@ export class RiskScorer {
   private lastYaw = 0;
   private lastPitch = 0;
 
-  // Keyboard: timestamps when keydown and focus not on input
-  private keydownTimestamps: number[] = [];
-
-  // Cooldown map: flagType → last timestamp
-  private lastFlagTs: Partial<Record<FlagType, number>> = {};
   private lastUpdateTs = 0;
+  private clockStart = 0;
 
   // Metrics snapshot (reused object to avoid GC pressure)
   private metrics: ProctoringMetrics = {
@@ -76,15 +95,60 @@ export class RiskScorer {
     videoWidth: 0,
     videoHeight: 0,
     cameraQuality: "ok",
+    faceSimilarity: null,
+    voiceActive: false,
+  };
+
+  // Signals snapshot handed to the rule engine (reused)
+  private signals: RuleSignals = {
+    faceCount: 1,
+    yaw: 0,
+    pitch: 0,
+    absYaw: 0,
+    absPitch: 0,
+    brightness: 128,
+    handNearFace: false,
+    inferredFps: 0,
+    gazeDelta: 0,
+    phoneScore: 0,
+    bookScore: 0,
+    faceSimilarity: 1,
+    voiceActive: false,
+    whisper: false,
+    voicePitchShift: 0,
+    silenceExpected: false,
   };
 
   // FPS tracking
   private frameTimestamps: number[] = [];
 
-  constructor(interviewStartTs: number, thresholds?: Partial<ProctoringThresholds>) {
+  constructor(
+    interviewStartTs: number,
+    thresholds?: Partial<ProctoringThresholds>,
+    policy?: ProctoringPolicy | null,
+    options: RiskScorerOptions = {},
+  ) {
     this.interviewStartTs = interviewStartTs;
-    this.thresholds = { ...DEFAULT_THRESHOLDS, ...thresholds };
-    this.lastUpdateTs = performance.now();
+    this.clock = options.clock ?? (() => performance.now());
+    this.onInput = options.onInput;
+    this.excludeFlag = options.excludeFlag;
+    this.thresholds = { ...DEFAULT_THRESHOLDS, ...policy?.thresholds, ...thresholds };
+    this.engine = new RuleEngine(resolveRules(policy, thresholds));
+    this.lastUpdateTs = this.clock();
+    this.clockStart = this.lastUpdateTs;
+  }
+
+  /** Clock value the scorer was constructed at (needed to replay decay exactly) */
+  getClockStart(): number {
+    return this.clockStart;
+  }
+
+  /**
+   * Re-anchor flag timestamps to a session start on the scorer's clock.
+   * Call before the first flag so the timeline lines up with the recording.
+   */
+  setInterviewStart(ts: number): void {
+    this.interviewStartTs = ts;
   }
 
   // ---------------------------------------------------------------------------
@@ -92,11 +156,16 @@ export class RiskScorer {
   // ---------------------------------------------------------------------------
 
   getScore(): number {
-    return Math.round(this.score);
+    return Math.round(this.totalScore());
   }
 
   getLevel(): RiskLevel {
-    return getRiskLevel(this.score);
+    return getRiskLevel(this.totalScore());
+  }
+
+  /** Effective rules after policy resolution (enabled only) */
+  getRules(): ProctoringRule[] {
+    return this.engine.getRules();
   }
 
   getFlags(): ProctoringFlag[] {
@@ -109,23 +178,18 @@ export class RiskScorer {
 
   reset(): void {
     this.score = 0;
+    this.ruleScores = {};
     this.flags = [];
-    this.faceMissingSince = 0;
-    this.lookingAwaySince = 0;
-    this.faceMissingFlagged = false;
-    this.lookingAwayFlagged = false;
-    this.lowFpsSince = 0;
-    this.lowFpsFlagged = false;
+    this.engine.reset();
     this.tabHiddenSince = 0;
     this.totalTabHiddenMs = 0;
     this.focusLossScore = 0;
     this.lastFocusLossTs = 0;
     this.lastYaw = 0;
     this.lastPitch = 0;
-    this.keydownTimestamps = [];
-    this.lastFlagTs = {};
-    this.lastUpdateTs = performance.now();
+    this.lastUpdateTs = this.clock();
     this.frameTimestamps = [];
+    this.onInput?.([this.lastUpdateTs, "r"]);
   }
 
   // ---------------------------------------------------------------------------
@@ -133,12 +197,24 @@ export class RiskScorer {
   // ---------------------------------------------------------------------------
 
   processDetection(result: DetectionResult): void {
-    const now = performance.now();
+    const now = this.clock();
+    this.onInput?.([
+      now,
+      "d",
+      result.faceCount,
+      result.yaw,
+      result.pitch,
+      result.brightness,
+      result.handNearFace ? 1 : 0,
+      result.videoWidth ?? 0,
+      result.videoHeight ?? 0,
+      result.phoneScore ?? 0,
+      result.bookScore ?? 0,
+      result.faceSimilarity ?? -1,
+    ]);
 
     // ---- Decay ----
-    const elapsed = (now - this.lastUpdateTs) / 1000;
-    this.score = Math.max(0, this.score - elapsed * this.thresholds.riskDecayPerSec);
-    this.lastUpdateTs = now;
+    this.applyDecay(now);
 
     // ---- FPS tracking ----
     this.frameTimestamps.push(now);
@@ -146,97 +222,72 @@ export class RiskScorer {
     this.frameTimestamps = this.frameTimestamps.filter((t) => t > oneSecAgo);
     this.metrics.inferredFps = this.frameTimestamps.length;
 
-    // ---- Low FPS / CPU throttling ----
-    if (this.metrics.inferredFps < LOW_FPS_THRESHOLD) {
-      if (this.lowFpsSince === 0) this.lowFpsSince = now;
-      const duration = now - this.lowFpsSince;
-      if (duration >= LOW_FPS_DURATION_MS && !this.lowFpsFlagged) {
-        this.addFlag("LOW_FPS", now);
-        this.lowFpsFlagged = true;
-      }
-    } else {
-      this.lowFpsSince = 0;
-      this.lowFpsFlagged = false;
-    }
-
     // ---- Camera quality (resolution + brightness) ----
     const w = result.videoWidth ?? 0;
     const h = result.videoHeight ?? 0;
     this.metrics.videoWidth = w;
     this.metrics.videoHeight = h;
-    if (result.brightness < this.thresholds.darkBrightnessThreshold) {
-      this.metrics.cameraQuality = "dark";
-    } else if (w > 0 && h > 0 && (w < MIN_CAMERA_RESOLUTION || h < MIN_CAMERA_RESOLUTION)) {
-      this.metrics.cameraQuality = "low_res";
-    } else {
-      this.metrics.cameraQuality = "ok";
-    }
+    this.metrics.cameraQuality = cameraQuality(result.brightness, w, h, this.thresholds.darkBrightnessThreshold);
 
     // ---- Update metrics ----
     this.metrics.faceCount = result.faceCount;
     this.metrics.yaw = result.yaw;
     this.metrics.pitch = result.pitch;
     this.metrics.brightness = result.brightness;
-
-    // ---- Sudden gaze shift (second-screen suspicion) ----
-    if (result.faceCount === 1) {
-      const deltaYaw = Math.abs(result.yaw - this.lastYaw);
-      const deltaPitch = Math.abs(result.pitch - this.lastPitch);
-      if (deltaYaw >= GAZE_SHIFT_DEGREES || deltaPitch >= GAZE_SHIFT_DEGREES) {
-        this.addFlag("SUSPICIOUS_GAZE_SHIFT", now);
-      }
-    }
+    this.metrics.faceSimilarity = result.faceSimilarity ?? null;
+
+    // ---- Rule signals ----
+    const s = this.signals;
+    s.faceCount = result.faceCount;
+    s.yaw = result.yaw;
+    s.pitch = result.pitch;
+    s.absYaw = Math.abs(result.yaw);
+    s.absPitch = Math.abs(result.pitch);
+    s.brightness = result.brightness;
+    s.handNearFace = result.handNearFace;
+    s.inferredFps = this.metrics.inferredFps;
+    s.gazeDelta = Math.max(Math.abs(result.yaw - this.lastYaw), Math.abs(result.pitch - this.lastPitch));
+    s.phoneScore = result.phoneScore ?? 0;
+    s.bookScore = result.bookScore ?? 0;
+    s.faceSimilarity = result.faceSimilarity ?? 1;
     this.lastYaw = result.yaw;
     this.lastPitch = result.pitch;
 
-    // ---- Multi-face ----
-    if (result.faceCount > 1) {
-      this.addFlag("MULTI_FACE", now);
-    }
-
-    // ---- No face ----
-    if (result.faceCount === 0) {
-      if (this.faceMissingSince === 0) this.faceMissingSince = now;
-      const duration = now - this.faceMissingSince;
-      this.metrics.faceMissingDuration = duration;
-      if (duration >= this.thresholds.faceMissingMs && !this.faceMissingFlagged) {
-        this.addFlag("NO_FACE", now);
-        this.faceMissingFlagged = true;
-      }
-    } else {
-      this.faceMissingSince = 0;
-      this.faceMissingFlagged = false;
-      this.metrics.faceMissingDuration = 0;
+    for (const rule of this.engine.evaluateDetection(s, now)) {
+      this.addFlag(rule, now);
     }
 
-    // ---- Looking away ----
-    const isLookingAway =
-      result.faceCount === 1 &&
-      (Math.abs(result.yaw) > this.thresholds.yawThreshold ||
-        Math.abs(result.pitch) > this.thresholds.pitchThreshold);
-
-    if (isLookingAway) {
-      if (this.lookingAwaySince === 0) this.lookingAwaySince = now;
-      const duration = now - this.lookingAwaySince;
-      this.metrics.lookingAwayDuration = duration;
-      if (duration >= this.thresholds.lookingAwayMs && !this.lookingAwayFlagged) {
-        this.addFlag("LOOKING_AWAY", now);
-        this.lookingAwayFlagged = true;
-      }
-    } else {
-      this.lookingAwaySince = 0;
-      this.lookingAwayFlagged = false;
-      this.metrics.lookingAwayDuration = 0;
-    }
+    this.metrics.faceMissingDuration = this.engine.getActiveDuration("NO_FACE", now);
+    this.metrics.lookingAwayDuration = this.engine.getActiveDuration("LOOKING_AWAY", now);
+  }
 
-    // ---- Dark / covered camera ----
-    if (result.brightness < this.thresholds.darkBrightnessThreshold) {
-      this.addFlag("DARK_FRAME", now);
-    }
+  // ---------------------------------------------------------------------------
+  // Process a microphone frame from the audio analyzer
+  // ---------------------------------------------------------------------------
 
-    // ---- Hand near face (optional) ----
-    if (result.handNearFace) {
-      this.addFlag("HAND_NEAR_FACE", now);
+  processAudio(result: AudioDetectionResult): void {
+    const now = this.clock();
+    this.onInput?.([
+      now,
+      "a",
+      result.voiceActive ? 1 : 0,
+      result.whisper ? 1 : 0,
+      result.pitchShift,
+      result.silenceExpected ? 1 : 0,
+      result.aiSpeaking ? 1 : 0,
+    ]);
+
+    this.applyDecay(now);
+    this.metrics.voiceActive = result.voiceActive;
+
+    const s = this.signals;
+    s.voiceActive = result.voiceActive;
+    s.whisper = result.whisper;
+    s.voicePitchShift = result.pitchShift;
+    s.silenceExpected = result.silenceExpected;
+
+    for (const rule of this.engine.evaluateAudio(s, now)) {
+      this.addFlag(rule, now);
     }
   }
 
@@ -245,13 +296,16 @@ export class RiskScorer {
   // ---------------------------------------------------------------------------
 
   processTabHidden(): void {
+    const now = this.clock();
+    this.onInput?.([now, "h"]);
     this.metrics.tabHidden = true;
-    if (this.tabHiddenSince === 0) this.tabHiddenSince = performance.now();
-    this.addFlag("TAB_HIDDEN", performance.now());
+    if (this.tabHiddenSince === 0) this.tabHiddenSince = now;
+    this.processEvent("tab_hidden", now);
   }
 
   processTabVisible(): void {
-    const now = performance.now();
+    const now = this.clock();
+    this.onInput?.([now, "v"]);
     if (this.tabHiddenSince > 0) {
       this.totalTabHiddenMs += now - this.tabHiddenSince;
       this.tabHiddenSince = 0;
@@ -263,33 +317,59 @@ export class RiskScorer {
   }
 
   processWindowBlur(): void {
+    const now = this.clock();
+    this.onInput?.([now, "b"]);
     this.focusLossScore = Math.min(100, this.focusLossScore + 5);
-    this.lastFocusLossTs = performance.now();
-    this.addFlag("WINDOW_BLUR", performance.now());
+    this.lastFocusLossTs = now;
+    this.processEvent("window_blur", now);
   }
 
   processFullscreenExit(): void {
-    this.addFlag("FULLSCREEN_EXIT", performance.now());
+    const now = this.clock();
+    this.onInput?.([now, "f"]);
+    this.processEvent("fullscreen_exit", now);
   }
 
   /** Call when keydown and focus is not on an input (suspicious keyboard activity) */
   processKeydownNoInputFocus(): void {
-    const now = performance.now();
-    this.keydownTimestamps.push(now);
-    const cutoff = now - KEYBOARD_SUSPICION_WINDOW_MS;
-    this.keydownTimestamps = this.keydownTimestamps.filter((t) => t > cutoff);
-    if (this.keydownTimestamps.length >= KEYBOARD_SUSPICION_MIN_KEYS) {
-      this.addFlag("KEYBOARD_ACTIVITY_SUSPICIOUS", now);
-      this.keydownTimestamps = [];
-    }
+    const now = this.clock();
+    this.onInput?.([now, "k"]);
+    this.processEvent("keydown_no_input", now);
+  }
+
+  /** Screen-share track ended (candidate stopped sharing) */
+  processScreenShareStopped(): void {
+    const now = this.clock();
+    this.onInput?.([now, "s"]);
+    this.processEvent("screen_share_stopped", now);
+  }
+
+  /** More than one display detected (Window Management API) */
+  processMultipleDisplays(): void {
+    const now = this.clock();
+    this.onInput?.([now, "m"]);
+    this.processEvent("multiple_displays", now);
+  }
+
+  /** Oversized insertion or superhuman typing burst in the code editor */
+  processLargePaste(): void {
+    const now = this.clock();
+    this.onInput?.([now, "l"]);
+    this.processEvent("large_paste", now);
+  }
+
+  /** Text pasted / dropped into the code editor from outside it */
+  processExternalPaste(): void {
+    const now = this.clock();
+    this.onInput?.([now, "p"]);
+    this.processEvent("external_paste", now);
   }
 
   /** Apply time-based decay without a detection (call from tick if worker is slow) */
   tick(): void {
-    const now = performance.now();
-    const elapsed = (now - this.lastUpdateTs) / 1000;
-    this.score = Math.max(0, this.score - elapsed * this.thresholds.riskDecayPerSec);
-    this.lastUpdateTs = now;
+    const now = this.clock();
+    this.onInput?.([now, "t"]);
+    const elapsed = this.applyDecay(now);
     this.metrics.tabHiddenDuration = this.totalTabHiddenMs + (this.tabHiddenSince > 0 ? now - this.tabHiddenSince : 0);
     this.metrics.focusLossScore = Math.round(this.focusLossScore);
     if (this.focusLossScore > 0) {
@@ -301,21 +381,49 @@ export class RiskScorer {
   // Internal
   // ---------------------------------------------------------------------------
 
-  private addFlag(type: FlagType, now: number): void {
-    // Cooldown check
-    const lastTs = this.lastFlagTs[type];
-    if (lastTs && now - lastTs < this.thresholds.flagCooldownMs) return;
+  private processEvent(event: BrowserEventKind, now: number): void {
+    for (const rule of this.engine.evaluateEvent(event, now)) {
+      this.addFlag(rule, now);
+    }
+  }
+
+  private totalScore(): number {
+    let total = this.score;
+    for (const v of Object.values(this.ruleScores)) total += v ?? 0;
+    return Math.min(100, total);
+  }
 
-    const points = FLAG_POINTS[type];
-    this.score = Math.min(100, this.score + points);
-    this.lastFlagTs[type] = now;
+  /** Returns the seconds decayed over */
+  private applyDecay(now: number): number {
+    const elapsed = (now - this.lastUpdateTs) / 1000;
+    this.score = Math.max(0, this.score - elapsed * this.thresholds.riskDecayPerSec);
+    for (const rule of this.engine.getRules()) {
+      if (rule.decayPerSec === undefined) continue;
+      const v = this.ruleScores[rule.type];
+      if (v) this.ruleScores[rule.type] = Math.max(0, v - elapsed * rule.decayPerSec);
+    }
+    this.lastUpdateTs = now;
+    return elapsed;
+  }
+
+  private addFlag(rule: ProctoringRule, now: number): void {
+    const timestamp = now - this.interviewStartTs;
+    // Never push the combined score past 100
+    const points = this.excludeFlag?.(rule.type, timestamp) ? 0 : rule.points;
+    const added = Math.min(points, Math.max(0, 100 - this.totalScore()));
+    if (rule.decayPerSec === undefined) {
+      this.score += added;
+    } else {
+      this.ruleScores[rule.type] = (this.ruleScores[rule.type] ?? 0) + added;
+    }
 
     this.flags.push({
-      id: `${type}_${Date.now().toString(36)}_${(Math.random() * 1000) | 0}`,
-      type,
-      timestamp: now - this.interviewStartTs,
-      message: FLAG_MESSAGES[type],
+      id: `${rule.type}_${Date.now().toString(36)}_${(Math.random() * 1000) | 0}`,
+      type: rule.type,
+      timestamp,
+      message: rule.message,
       pointsAdded: points,
+      ...(rule.type === "FACE_MISMATCH" && { similarity: Math.round(this.signals.faceSimilarity * 100) / 100 }),
     });
   }
 }
@@ -0,0 +1,53 @@
+/**
+ * Risk Series — The risk score trajectory and key metrics over a session.
+ *
+ * Sampled from the live scorer at RISK_SAMPLE_INTERVAL_MS and stored with the
+ * flags, so reports can show whether a candidate had one bad minute or was
+ * suspicious all session. Long sessions stay bounded: at MAX_RISK_SAMPLES
+ * every other sample is dropped and the interval doubles.
+ */
+
+import type { ProctoringMetrics, RiskSample, RiskSeries } from "./types";
+import { MAX_RISK_SAMPLES, RISK_SAMPLE_INTERVAL_MS } from "./thresholds";
+
+export class RiskSeriesRecorder {
+  private intervalMs = RISK_SAMPLE_INTERVAL_MS;
+  private samples: RiskSample[] = [];
+  private lastT = -Infinity;
+
+  /** Record a sample if at least one interval passed since the last one. `t` = ms since session start. */
+  sample(t: number, score: number, m: ProctoringMetrics): void {
+    if (t - this.lastT < this.intervalMs) return;
+    this.lastT = t;
+    this.samples.push([
+      Math.round(t),
+      Math.round(score),
+      Math.round(m.yaw),
+      Math.round(m.pitch),
+      Math.round(m.brightness),
+      m.faceCount,
+      Math.round(m.inferredFps * 10) / 10,
+    ]);
+    if (this.samples.length >= MAX_RISK_SAMPLES) {
+      this.samples = this.samples.filter((_, i) => i % 2 === 0);
+      this.intervalMs *= 2;
+    }
+  }
+
+  toSeries(): RiskSeries | null {
+    if (this.samples.length === 0) return null;
+    return { version: 1, intervalMs: this.intervalMs, samples: this.samples.slice() };
+  }
+}
+
+/** Narrow an unknown JSON value (e.g. loaded from the backend) to a risk series. */
+export function isRiskSeries(raw: unknown): raw is RiskSeries {
+  if (!raw || typeof raw !== "object") return false;
+  const o = raw as Record<string, unknown>;
+  return (
+    o.version === 1 &&
+    typeof o.intervalMs === "number" &&
+    Array.isArray(o.samples) &&
+    o.samples.every((s) => Array.isArray(s) && s.length >= 7)
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * Rule Engine — Declarative proctoring rules evaluated per frame / event.
+ *
+ * Every FlagType is backed by one ProctoringRule: a condition (or browser
+ * event), an optional duration window, points, cooldown and decay. The
+ * built-in rules come from buildDefaultRules(); an org-level
+ * ProctoringPolicy (plain JSON) patches or disables individual rules so
+ * stricter/looser policies ship without a new build.
+ *
+ * The engine only decides WHEN a rule fires. Scoring and the flag timeline
+ * stay in RiskScorer.
+ */
+
+import type {
+  BrowserEventKind,
+  FlagType,
+  ProctoringPolicy,
+  ProctoringRule,
+  ProctoringRuleOverride,
+  ProctoringThresholds,
+  RuleCondition,
+  RuleSignals,
+  RuleTrigger,
+} from "./types";
+import { FLAG_POINTS } from "./types";
+import { DEFAULT_THRESHOLDS, THRESHOLD_LIMITS, buildDefaultRules } from "./thresholds";
+
+interface RuleState {
+  /** performance.now() when the condition started holding (0 = not holding) */
+  since: number;
+  /** Already flagged during the current episode */
+  flagged: boolean;
+  lastFlagTs: number;
+  /** Event rules: recent event timestamps within windowMs */
+  events: number[];
+}
+
+const TRIGGERS: readonly RuleTrigger[] = [
+  "detection",
+  "audio",
+  "tab_hidden",
+  "window_blur",
+  "fullscreen_exit",
+  "keydown_no_input",
+  "screen_share_stopped",
+  "multiple_displays",
+  "large_paste",
+  "external_paste",
+];
+
+// ---------------------------------------------------------------------------
+// Policy resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve the effective rule set.
+ * Precedence: built-in defaults < policy.thresholds < caller thresholds < policy.rules.
+ */
+export function resolveRules(
+  policy?: ProctoringPolicy | null,
+  thresholds?: Partial<ProctoringThresholds>,
+): ProctoringRule[] {
+  const merged: ProctoringThresholds = {
+    ...DEFAULT_THRESHOLDS,
+    ...policy?.thresholds,
+    ...thresholds,
+  };
+  const rules = buildDefaultRules(merged);
+  for (const override of policy?.rules ?? []) {
+    const idx = rules.findIndex((r) => r.type === override.type);
+    if (idx >= 0) rules[idx] = { ...rules[idx]!, ...override };
+  }
+  return rules;
+}
+
+/**
+ * Validate untrusted threshold overrides: unknown keys and non-numbers are
+ * dropped, numbers are clamped to THRESHOLD_LIMITS. Null when none survive.
+ */
+export function parseThresholds(raw: unknown): Partial<ProctoringThresholds> | null {
+  if (!raw || typeof raw !== "object") return null;
+  const t: Partial<ProctoringThresholds> = {};
+  for (const key of Object.keys(DEFAULT_THRESHOLDS) as (keyof ProctoringThresholds)[]) {
+    const v = (raw as Record<string, unknown>)[key];
+    if (typeof v !== "number" || !Number.isFinite(v)) continue;
+    const [min, max] = THRESHOLD_LIMITS[key];
+    t[key] = Math.min(max, Math.max(min, v));
+  }
+  return Object.keys(t).length > 0 ? t : null;
+}
+
+/**
+ * Validate an untrusted policy document (e.g. from the backend).
+ * Unknown flag types, triggers and malformed conditions are dropped rather
+ * than rejecting the whole policy, so one bad entry cannot disable proctoring.
+ */
+export function parseProctoringPolicy(raw: unknown): ProctoringPolicy | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  const policy: ProctoringPolicy = {};
+  if (typeof obj.id === "string") policy.id = obj.id;
+  if (typeof obj.name === "string") policy.name = obj.name;
+  if (typeof obj.version === "number") policy.version = obj.version;
+
+  const thresholds = parseThresholds(obj.thresholds);
+  if (thresholds) policy.thresholds = thresholds;
+
+  if (Array.isArray(obj.rules)) {
+    policy.rules = obj.rules
+      .map(parseRuleOverride)
+      .filter((r): r is ProctoringRuleOverride => r !== null);
+  }
+  return policy;
+}
+
+function parseRuleOverride(raw: unknown): ProctoringRuleOverride | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.type !== "string" || !(r.type in FLAG_POINTS)) return null;
+  const out: ProctoringRuleOverride = { type: r.type as FlagType };
+  if (typeof r.enabled === "boolean") out.enabled = r.enabled;
+  if (typeof r.trigger === "string" && TRIGGERS.includes(r.trigger as RuleTrigger)) {
+    out.trigger = r.trigger as RuleTrigger;
+  }
+  if (r.when !== undefined && isCondition(r.when)) out.when = r.when;
+  if (typeof r.oncePerEpisode === "boolean") out.oncePerEpisode = r.oncePerEpisode;
+  if (typeof r.message === "string" && r.message.trim()) out.message = r.message;
+  for (const key of ["durationMs", "minCount", "windowMs", "points", "cooldownMs", "decayPerSec"] as const) {
+    const v = r[key];
+    if (typeof v === "number" && Number.isFinite(v) && v >= 0) out[key] = v;
+  }
+  return out;
+}
+
+function isCondition(c: unknown): c is RuleCondition {
+  if (!c || typeof c !== "object") return false;
+  const o = c as Record<string, unknown>;
+  if (Array.isArray(o.all)) return o.all.every(isCondition);
+  if (Array.isArray(o.any)) return o.any.every(isCondition);
+  if ("not" in o) return isCondition(o.not);
+  return (
+    typeof o.metric === "string" &&
+    typeof o.op === "string" &&
+    ["lt", "lte", "gt", "gte", "eq", "neq"].includes(o.op) &&
+    (typeof o.value === "number" || typeof o.value === "boolean")
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Condition evaluation
+// ---------------------------------------------------------------------------
+
+export function evaluateCondition(cond: RuleCondition, s: RuleSignals): boolean {
+  if ("all" in cond) return cond.all.every((c) => evaluateCondition(c, s));
+  if ("any" in cond) return cond.any.some((c) => evaluateCondition(c, s));
+  if ("not" in cond) return !evaluateCondition(cond.not, s);
+
+  const actual = s[cond.metric] as number | boolean | undefined;
+  if (actual === undefined) return false;
+  const a = typeof actual === "boolean" ? Number(actual) : actual;
+  const b = typeof cond.value === "boolean" ? Number(cond.value) : cond.value;
+  switch (cond.op) {
+    case "lt": return a < b;
+    case "lte": return a <= b;
+    case "gt": return a > b;
+    case "gte": return a >= b;
+    case "eq": return a === b;
+    case "neq": return a !== b;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
+
+export class RuleEngine {
+  private rules: ProctoringRule[];
+  private state = new Map<FlagType, RuleState>();
+
+  constructor(rules: ProctoringRule[]) {
+    this.rules = rules.filter((r) => r.enabled);
+    this.reset();
+  }
+
+  getRules(): ProctoringRule[] {
+    return this.rules;
+  }
+
+  reset(): void {
+    this.state.clear();
+    for (const r of this.rules) {
+      this.state.set(r.type, { since: 0, flagged: false, lastFlagTs: 0, events: [] });
+    }
+  }
+
+  /** Evaluate all detection rules against one frame; returns the rules that fired (in rule order). */
+  evaluateDetection(signals: RuleSignals, now: number): ProctoringRule[] {
+    return this.evaluateSignals("detection", signals, now);
+  }
+
+  /** Evaluate all audio rules against one microphone frame. */
+  evaluateAudio(signals: RuleSignals, now: number): ProctoringRule[] {
+    return this.evaluateSignals("audio", signals, now);
+  }
+
+  /** Evaluate the rules bound to a browser event. */
+  evaluateEvent(event: BrowserEventKind, now: number): ProctoringRule[] {
+    const fired: ProctoringRule[] = [];
+    for (const rule of this.rules) {
+      if (rule.trigger !== event) continue;
+      const st = this.state.get(rule.type)!;
+      const minCount = rule.minCount ?? 1;
+
+      if (minCount > 1) {
+        st.events.push(now);
+        const cutoff = now - (rule.windowMs ?? 0);
+        st.events = st.events.filter((t) => t > cutoff);
+        if (st.events.length < minCount) continue;
+        st.events = [];
+      }
+      if (this.tryFire(rule, st, now)) fired.push(rule);
+    }
+    return fired;
+  }
+
+  /** Milliseconds the rule's condition has currently been holding (0 if not). */
+  getActiveDuration(type: FlagType, now: number): number {
+    const st = this.state.get(type);
+    return st && st.since > 0 ? now - st.since : 0;
+  }
+
+  private evaluateSignals(trigger: "detection" | "audio", signals: RuleSignals, now: number): ProctoringRule[] {
+    const fired: ProctoringRule[] = [];
+    for (const rule of this.rules) {
+      if (rule.trigger !== trigger || !rule.when) continue;
+      const st = this.state.get(rule.type)!;
+
+      if (!evaluateCondition(rule.when, signals)) {
+        st.since = 0;
+        st.flagged = false;
+        continue;
+      }
+
+      if (st.since === 0) st.since = now;
+      if (now - st.since < rule.durationMs) continue;
+      if (rule.oncePerEpisode) {
+        if (st.flagged) continue;
+        st.flagged = true;
+      }
+      if (this.tryFire(rule, st, now)) fired.push(rule);
+    }
+    return fired;
+  }
+
+  private tryFire(rule: ProctoringRule, st: RuleState, now: number): boolean {
+    if (st.lastFlagTs && now - st.lastFlagTs < rule.cooldownMs) return false;
+    st.lastFlagTs = now;
+    return true;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Screen Share — Entire-screen capture for the coding round.
+ *
+ *   - requestEntireScreenShare(): getDisplayMedia, rejecting tab / window
+ *     shares (the track's displaySurface must be "monitor").
+ *   - hasMultipleDisplays() / onDisplaysChange(): Window Management API
+ *     (screen.isExtended + the screen "change" event); null / no-op where
+ *     the browser does not support it.
+ *   - ScreenSampler: grabs a downscaled JPEG from the share at a low rate;
+ *     samples are attached to the session log for reviewers.
+ */
+
+import type { ScreenSample } from "./types";
+import { SCREENSHOT_INTERVAL_MS, SCREENSHOT_MAX_WIDTH } from "./thresholds";
+
+/** Window Management API surface we use (not in lib.dom yet) */
+type ExtendedScreen = Screen & EventTarget & { isExtended?: boolean };
+
+/** First sample shortly after sharing starts so every session has one */
+const FIRST_SAMPLE_DELAY_MS = 5_000;
+const JPEG_QUALITY = 0.5;
+
+/**
+ * Ask the candidate to share their entire screen. Throws with a user-facing
+ * message when sharing is unsupported, cancelled, or not a whole screen.
+ * Browsers that do not report displaySurface are accepted as-is.
+ */
+export async function requestEntireScreenShare(): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    throw new Error("Screen sharing is not supported in this browser. Please use a recent Chrome or Edge.");
+  }
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getDisplayMedia({
+      video: { displaySurface: "monitor", frameRate: 1 },
+      audio: false,
+      // Chrome hints: offer whole screens first, hide this tab, no mid-share switching
+      monitorTypeSurfaces: "include",
+      selfBrowserSurface: "exclude",
+      surfaceSwitching: "exclude",
+    } as DisplayMediaStreamOptions);
+  } catch {
+    throw new Error("Screen sharing was cancelled. Share your entire screen to continue.");
+  }
+
+  const track = stream.getVideoTracks()[0];
+  const surface = track?.getSettings().displaySurface;
+  if (!track || (surface !== undefined && surface !== "monitor")) {
+    stream.getTracks().forEach((t) => t.stop());
+    throw new Error("Please share your entire screen, not a single window or browser tab.");
+  }
+  return stream;
+}
+
+/** true / false from the Window Management API; null when unsupported */
+export function hasMultipleDisplays(): boolean | null {
+  const isExtended = (window.screen as ExtendedScreen).isExtended;
+  return typeof isExtended === "boolean" ? isExtended : null;
+}
+
+/** Call `cb` whenever the display setup changes; returns an unsubscribe function. */
+export function onDisplaysChange(cb: () => void): () => void {
+  if (hasMultipleDisplays() === null) return () => {};
+  const screen = window.screen as ExtendedScreen;
+  screen.addEventListener("change", cb);
+  return () => screen.removeEventListener("change", cb);
+}
+
+// ---------------------------------------------------------------------------
+// Screenshot sampling
+// ---------------------------------------------------------------------------
+
+export class ScreenSampler {
+  private video: HTMLVideoElement | null = null;
+  private canvas: HTMLCanvasElement | null = null;
+  private timer = 0;
+  private firstTimer = 0;
+  private onSample: (sample: Omit<ScreenSample, "t">) => void;
+
+  constructor(onSample: (sample: Omit<ScreenSample, "t">) => void) {
+    this.onSample = onSample;
+  }
+
+  start(stream: MediaStream): void {
+    this.stop();
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    void video.play().catch(() => {});
+    this.video = video;
+    this.canvas = document.createElement("canvas");
+    this.firstTimer = window.setTimeout(() => this.capture(), FIRST_SAMPLE_DELAY_MS);
+    this.timer = window.setInterval(() => this.capture(), SCREENSHOT_INTERVAL_MS);
+  }
+
+  stop(): void {
+    clearTimeout(this.firstTimer);
+    clearInterval(this.timer);
+    this.firstTimer = 0;
+    this.timer = 0;
+    if (this.video) {
+      this.video.pause();
+      this.video.srcObject = null;
+    }
+    this.video = null;
+    this.canvas = null;
+  }
+
+  private capture(): void {
+    const video = this.video;
+    const canvas = this.canvas;
+    if (!video || !canvas || video.readyState < 2 || video.videoWidth === 0) return;
+    const scale = Math.min(1, SCREENSHOT_MAX_WIDTH / video.videoWidth);
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    this.onSample({
+      width: canvas.width,
+      height: canvas.height,
+      image: canvas.toDataURL("image/jpeg", JPEG_QUALITY),
+    });
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Proctoring Session Log — Record every RiskScorer input during a live
+ * session and replay it offline to regenerate the exact flag timeline.
+ *
+ * Recording:
+ *   const recorder = new SessionLogRecorder(interviewStartTs, thresholds, policy);
+ *   const scorer = new RiskScorer(interviewStartTs, thresholds, policy, recorder.scorerOptions());
+ *   ... session ...
+ *   const log = recorder.toLog();      // JSON-serializable, tuple-encoded
+ *
+ * Replay (disputes, threshold tuning against real sessions):
+ *   const { flags, score } = replaySessionLog(log);
+ *   const tuned = replaySessionLog(log, { policy: stricterPolicy });
+ */
+
+import type {
+  ProctoringFlag,
+  ProctoringMetrics,
+  ProctoringPolicy,
+  ProctoringSessionLog,
+  ProctoringThresholds,
+  ScreenSample,
+  SessionLogEntry,
+} from "./types";
+import { RiskScorer, type RiskScorerOptions } from "./riskScorer";
+import { MAX_SCREENSHOTS } from "./thresholds";
+
+/** Hard cap so a runaway session cannot exhaust memory (~20 h at 3 FPS + ticks, less while audio frames are active) */
+const MAX_ENTRIES = 500_000;
+
+// ---------------------------------------------------------------------------
+// Recorder
+// ---------------------------------------------------------------------------
+
+export class SessionLogRecorder {
+  private entries: SessionLogEntry[] = [];
+  private screenshots: ScreenSample[] = [];
+  private clockStart = 0;
+  private recordedAt = Date.now();
+  private truncated: ProctoringSessionLog["truncated"] = undefined;
+  private interviewStartTs: number;
+  private thresholds?: Partial<ProctoringThresholds>;
+  private policy?: ProctoringPolicy | null;
+
+  constructor(
+    interviewStartTs: number,
+    thresholds?: Partial<ProctoringThresholds>,
+    policy?: ProctoringPolicy | null,
+  ) {
+    this.interviewStartTs = interviewStartTs;
+    this.thresholds = thresholds;
+    this.policy = policy;
+  }
+
+  /** Options to pass to the RiskScorer being recorded */
+  scorerOptions(): RiskScorerOptions {
+    return { onInput: (entry) => this.push(entry) };
+  }
+
+  /** Must be called with scorer.getClockStart() right after the scorer is built */
+  setClockStart(clockStart: number): void {
+    this.clockStart = clockStart;
+  }
+
+  /** Mirror RiskScorer.setInterviewStart() so replays use the same anchor */
+  setInterviewStartTs(ts: number): void {
+    this.interviewStartTs = ts;
+  }
+
+  /** Attach a screen-share sample; ignored once MAX_SCREENSHOTS are stored */
+  addScreenshot(sample: ScreenSample): void {
+    if (this.screenshots.length < MAX_SCREENSHOTS) this.screenshots.push(sample);
+  }
+
+  /** Record a detection tier change (degradation.ts); `clock` is the scorer clock */
+  addTierChange(clock: number, level: number): void {
+    this.push([clock, "q", level]);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  isTruncated(): boolean {
+    return this.truncated !== undefined;
+  }
+
+  toLog(): ProctoringSessionLog {
+    return {
+      version: 1,
+      recordedAt: this.recordedAt,
+      interviewStartTs: this.interviewStartTs,
+      clockStart: this.clockStart,
+      ...(this.thresholds && { thresholds: this.thresholds }),
+      ...(this.policy && { policy: this.policy }),
+      entries: this.entries.slice(),
+      ...(this.screenshots.length > 0 && { screenshots: this.screenshots.slice() }),
+      ...(this.truncated && { truncated: { ...this.truncated } }),
+    };
+  }
+
+  private push(entry: SessionLogEntry): void {
+    if (this.entries.length >= MAX_ENTRIES) {
+      if (this.truncated) this.truncated.dropped++;
+      else this.truncated = { at: entry[0], dropped: 1 };
+      return;
+    }
+    this.entries.push(entry);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+export interface ReplayOverrides {
+  /** Replace the recorded thresholds (e.g. to test a threshold change) */
+  thresholds?: Partial<ProctoringThresholds>;
+  /** Replace the recorded policy (null = built-in rules) */
+  policy?: ProctoringPolicy | null;
+  /** Flags to keep in the timeline but score as zero (e.g. accepted appeals) */
+  excludeFlag?: RiskScorerOptions["excludeFlag"];
+}
+
+export interface ReplayResult {
+  flags: ProctoringFlag[];
+  score: number;
+  metrics: ProctoringMetrics;
+}
+
+/**
+ * Feed a recorded log back through a fresh RiskScorer on a virtual clock.
+ * A truncated log (log.truncated) only reproduces the session up to the cut.
+ */
+export function replaySessionLog(log: ProctoringSessionLog, overrides: ReplayOverrides = {}): ReplayResult {
+  let now = log.clockStart;
+  const scorer = new RiskScorer(
+    log.interviewStartTs,
+    "thresholds" in overrides ? overrides.thresholds : log.thresholds,
+    "policy" in overrides ? overrides.policy : log.policy,
+    { clock: () => now, excludeFlag: overrides.excludeFlag },
+  );
+
+  for (const entry of log.entries) {
+    now = entry[0];
+    switch (entry[1]) {
+      case "d": {
+        const [, , faceCount, yaw, pitch, brightness, hand, videoWidth, videoHeight, phoneScore, bookScore, faceSimilarity] = entry;
+        scorer.processDetection({
+          faceCount,
+          yaw,
+          pitch,
+          brightness,
+          handNearFace: hand === 1,
+          timestamp: now,
+          videoWidth,
+          videoHeight,
+          phoneScore: phoneScore ?? 0,
+          bookScore: bookScore ?? 0,
+          ...(faceSimilarity !== undefined && faceSimilarity >= 0 && { faceSimilarity }),
+        });
+        break;
+      }
+      case "a": {
+        const [, , voice, whisper, pitchShift, silenceExpected, aiSpeaking] = entry;
+        scorer.processAudio({
+          voiceActive: voice === 1,
+          whisper: whisper === 1,
+          pitchShift,
+          silenceExpected: silenceExpected === 1,
+          aiSpeaking: aiSpeaking === 1,
+          timestamp: now,
+        });
+        break;
+      }
+      case "h": scorer.processTabHidden(); break;
+      case "v": scorer.processTabVisible(); break;
+      case "b": scorer.processWindowBlur(); break;
+      case "f": scorer.processFullscreenExit(); break;
+      case "k": scorer.processKeydownNoInputFocus(); break;
+      case "s": scorer.processScreenShareStopped(); break;
+      case "m": scorer.processMultipleDisplays(); break;
+      case "l": scorer.processLargePaste(); break;
+      case "p": scorer.processExternalPaste(); break;
+      case "t": scorer.tick(); break;
+      case "r": scorer.reset(); break;
+      // "q" (detection tier change) is evidence for reviewers, not a scorer input
+    }
+  }
+
+  return {
+    flags: scorer.getFlags().slice(),
+    score: scorer.getScore(),
+    metrics: scorer.getMetrics(),
+  };
+}
+
+/**
+ * Compare two flag timelines ignoring `id` (ids embed wall-clock + randomness).
+ * Returns a human-readable list of differences; empty = identical.
+ */
+export function diffFlagTimelines(expected: ProctoringFlag[], actual: ProctoringFlag[]): string[] {
+  const diffs: string[] = [];
+  const len = Math.max(expected.length, actual.length);
+  for (let i = 0; i < len; i++) {
+    const a = expected[i];
+    const b = actual[i];
+    if (!a) {
+      diffs.push(`#${i}: unexpected ${b!.type} at ${b!.timestamp}`);
+    } else if (!b) {
+      diffs.push(`#${i}: missing ${a.type} at ${a.timestamp}`);
+    } else if (a.type !== b.type || a.timestamp !== b.timestamp || a.pointsAdded !== b.pointsAdded || a.message !== b.message) {
+      diffs.push(`#${i}: expected ${a.type}@${a.timestamp} (+${a.pointsAdded}), got ${b.type}@${b.timestamp} (+${b.pointsAdded})`);
+    }
+  }
+  return diffs;
+}
+
+/** Narrow an unknown JSON value (e.g. loaded from the backend) to a session log. */
+export function isProctoringSessionLog(raw: unknown): raw is ProctoringSessionLog {
+  if (!raw || typeof raw !== "object") return false;
+  const o = raw as Record<string, unknown>;
+  return (
+    o.version === 1 &&
+    typeof o.interviewStartTs === "number" &&
+    typeof o.clockStart === "number" &&
+    Array.isArray(o.entries)
+  );
+}
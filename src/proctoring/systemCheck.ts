@@ -0,0 +1,372 @@
+/**
+ * System Check — Probes run before a proctored session starts.
+ *
+ *   - camera / lighting: resolution and brightness of a short preview,
+ *     classified exactly like ProctoringMetrics.cameraQuality
+ *   - microphone: peak AudioCaptureManager energy while the candidate speaks
+ *   - speaker: a test tone through AudioPlaybackManager (the interviewer's
+ *     playback path), confirmed by the candidate
+ *   - network: round trips to GET /settings (an endpoint the app calls
+ *     anyway, so CORS and auth match); cpu: isLowEndDevice(); fullscreen:
+ *     Fullscreen API support
+ *   - face: enrols the reference face for the identity check (faceIdentity.ts)
+ *     from frontal frames, so it never comes from the session itself
+ *
+ * Which probes run, and which failures block the session, depends on the
+ * session's SystemCheckRequirements. The SystemCheckResult is stored with
+ * the session so disputes ("my camera was broken") can be checked later.
+ */
+
+import type {
+  SystemCheckId,
+  SystemCheckItem,
+  SystemCheckNeed,
+  SystemCheckRequirements,
+  SystemCheckResult,
+  SystemCheckStatus,
+} from "./types";
+import { FaceLandmarker, FilesetResolver } from "@mediapipe/tasks-vision";
+import {
+  CAMERA_CHECK_MS,
+  DEFAULT_CONFIG,
+  DEFAULT_THRESHOLDS,
+  FACE_ENROLL_SAMPLE_MS,
+  FACE_ENROLL_TIMEOUT_MS,
+  MIC_CHECK_MIN_ENERGY,
+  MIC_CHECK_MS,
+  NETWORK_CHECK_SAMPLES,
+  NETWORK_CHECK_TIMEOUT_MS,
+  NETWORK_SLOW_RTT_MS,
+  SPEAKER_TONE_HZ,
+  SPEAKER_TONE_MS,
+  isLowEndDevice,
+} from "./thresholds";
+import { cameraQuality } from "./riskScorer";
+import { FaceReferenceBuilder, computeFaceSignature, estimateHeadPose, type FaceReference } from "./faceIdentity";
+import { AudioCaptureManager } from "../lib/audio-capture";
+import { AudioPlaybackManager } from "../lib/audio-player";
+import { getApiBase } from "../lib/apiBase";
+import { computeBrightness } from "../lib/frame-brightness";
+import { getAccessToken } from "../store/api";
+
+export const SYSTEM_CHECK_LABELS: Record<SystemCheckId, string> = {
+  fullscreen: "Fullscreen",
+  cpu: "Device performance",
+  network: "Network",
+  camera: "Camera",
+  lighting: "Lighting",
+  microphone: "Microphone",
+  speaker: "Speakers / headphones",
+  face: "Face enrolment",
+};
+
+/** Brightness samples per camera check */
+const CAMERA_SAMPLE_MS = 200;
+/** How long to wait for the first camera frame */
+const CAMERA_READY_TIMEOUT_MS = 5_000;
+/** Playback output further than this from silence (128) counts as the tone being produced */
+const TONE_OUTPUT_MIN_DEVIATION = 8;
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Failures of optional checks are downgraded to warnings. */
+function item(
+  id: SystemCheckId,
+  need: SystemCheckNeed,
+  status: SystemCheckStatus,
+  detail: string,
+  data?: SystemCheckItem["data"],
+): SystemCheckItem {
+  const required = need === "required";
+  return { id, status: status === "fail" && !required ? "warn" : status, required, detail, data };
+}
+
+export function checkFullscreen(need: SystemCheckNeed): SystemCheckItem {
+  const supported = document.fullscreenEnabled && typeof document.documentElement.requestFullscreen === "function";
+  return supported
+    ? item("fullscreen", need, "pass", "Fullscreen is supported.")
+    : item("fullscreen", need, "fail", "This browser cannot enter fullscreen. Use an up-to-date Chrome, Edge or Firefox.");
+}
+
+export function checkCpu(): SystemCheckItem {
+  const nav = navigator as unknown as { hardwareConcurrency?: number; deviceMemory?: number };
+  const data = { cores: nav.hardwareConcurrency ?? null, memoryGb: nav.deviceMemory ?? null };
+  return isLowEndDevice()
+    ? item("cpu", "optional", "warn", "This device is low on CPU or memory; close other apps and tabs before starting.", data)
+    : item("cpu", "optional", "pass", "Device meets the requirements.", data);
+}
+
+export async function checkNetwork(): Promise<SystemCheckItem> {
+  const conn = (navigator as unknown as { connection?: { effectiveType?: string; downlink?: number } }).connection;
+  const data: NonNullable<SystemCheckItem["data"]> = {
+    online: navigator.onLine,
+    effectiveType: conn?.effectiveType ?? null,
+    downlinkMbps: conn?.downlink ?? null,
+  };
+  if (!navigator.onLine) return item("network", "required", "fail", "You appear to be offline.", data);
+
+  const rtts: number[] = [];
+  for (let i = 0; i < NETWORK_CHECK_SAMPLES; i++) {
+    const started = performance.now();
+    try {
+      // Any HTTP response (even 401) proves the server is reachable
+      const token = getAccessToken();
+      await fetch(`${getApiBase()}/settings`, {
+        cache: "no-store",
+        credentials: "include",
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        signal: AbortSignal.timeout(NETWORK_CHECK_TIMEOUT_MS),
+      });
+      rtts.push(Math.round(performance.now() - started));
+    } catch {
+      // Timed out or blocked; counted by the length check below
+    }
+  }
+  data.samples = NETWORK_CHECK_SAMPLES;
+  data.responses = rtts.length;
+  if (rtts.length === 0) {
+    return item("network", "required", "fail", "Cannot reach the server. Check your internet connection.", data);
+  }
+  const rtt = [...rtts].sort((a, b) => a - b)[Math.floor(rtts.length / 2)]!;
+  data.rttMs = rtt;
+  const slowType = conn?.effectiveType === "slow-2g" || conn?.effectiveType === "2g";
+  if (rtt > NETWORK_SLOW_RTT_MS || slowType || rtts.length < NETWORK_CHECK_SAMPLES) {
+    return item("network", "required", "warn", `Connection is slow or unstable (${rtt} ms). Audio and video may lag.`, data);
+  }
+  return item("network", "required", "pass", `Connected (${rtt} ms).`, data);
+}
+
+/**
+ * Camera + lighting. Shows the preview in `video` while measuring and stops
+ * the stream afterwards (the session opens its own).
+ */
+export async function checkCamera(
+  video: HTMLVideoElement,
+  need: SystemCheckNeed,
+  darkBrightnessThreshold = DEFAULT_THRESHOLDS.darkBrightnessThreshold,
+): Promise<[camera: SystemCheckItem, lighting: SystemCheckItem]> {
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+  } catch (err) {
+    const denied = err instanceof DOMException && err.name === "NotAllowedError";
+    return [
+      item("camera", need, "fail", denied ? "Camera permission was denied. Allow camera access and run the check again." : "No camera was found.", {
+        error: err instanceof Error ? err.name : String(err),
+      }),
+      item("lighting", "optional", "skipped", "Not measured without a camera."),
+    ];
+  }
+
+  try {
+    video.srcObject = stream;
+    video.muted = true;
+    await video.play().catch(() => {});
+    const readyBy = performance.now() + CAMERA_READY_TIMEOUT_MS;
+    while (video.videoWidth === 0 && performance.now() < readyBy) await delay(100);
+    if (video.videoWidth === 0) {
+      return [
+        item("camera", need, "fail", "The camera did not deliver any video. Close other apps using it and try again."),
+        item("lighting", "optional", "skipped", "Not measured without a camera."),
+      ];
+    }
+
+    const samples: number[] = [];
+    for (let elapsed = 0; elapsed < CAMERA_CHECK_MS; elapsed += CAMERA_SAMPLE_MS) {
+      await delay(CAMERA_SAMPLE_MS);
+      samples.push(computeBrightness(video));
+    }
+    const brightness = Math.round(samples.reduce((sum, v) => sum + v, 0) / samples.length);
+    const width = video.videoWidth;
+    const height = video.videoHeight;
+    const quality = cameraQuality(brightness, width, height, darkBrightnessThreshold);
+    const data = { width, height, brightness, cameraQuality: quality };
+
+    const camera =
+      quality === "low_res"
+        ? item("camera", need, "warn", `Camera resolution is low (${width}×${height}); face detection may be unreliable.`, data)
+        : item("camera", need, "pass", `${width}×${height}`, data);
+    const lighting =
+      quality === "dark"
+        ? item("lighting", "optional", "warn", "Your face is too dark. Add light in front of you (not behind).", data)
+        : item("lighting", "optional", "pass", "Lighting is good.", data);
+    return [camera, lighting];
+  } finally {
+    stream.getTracks().forEach((t) => t.stop());
+    video.srcObject = null;
+  }
+}
+
+/**
+ * Enrol the reference face: runs FaceLandmarker on a camera preview in
+ * `video` until enough frontal single-face frames were collected or
+ * FACE_ENROLL_TIMEOUT_MS passes. Always optional; without a reference the
+ * session simply has no identity check.
+ */
+export async function enrollFace(
+  video: HTMLVideoElement,
+  wasmPath = DEFAULT_CONFIG.wasmPath,
+  modelAssetPath = DEFAULT_CONFIG.modelAssetPath,
+): Promise<[face: SystemCheckItem, reference: FaceReference | null]> {
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+  } catch (err) {
+    return [
+      item("face", "optional", "skipped", "Not enrolled without a camera.", { error: err instanceof Error ? err.name : String(err) }),
+      null,
+    ];
+  }
+
+  let landmarker: FaceLandmarker | null = null;
+  try {
+    video.srcObject = stream;
+    video.muted = true;
+    await video.play().catch(() => {});
+    const vision = await FilesetResolver.forVisionTasks(wasmPath);
+    landmarker = await FaceLandmarker.createFromOptions(vision, {
+      baseOptions: { modelAssetPath, delegate: "CPU" },
+      runningMode: "VIDEO",
+      numFaces: 2,
+    });
+
+    const builder = new FaceReferenceBuilder();
+    let frames = 0;
+    for (let elapsed = 0; elapsed < FACE_ENROLL_TIMEOUT_MS; elapsed += FACE_ENROLL_SAMPLE_MS) {
+      await delay(FACE_ENROLL_SAMPLE_MS);
+      if (video.videoWidth === 0) continue;
+      frames++;
+      const faces = landmarker.detectForVideo(video, performance.now()).faceLandmarks;
+      if (faces.length !== 1) continue;
+      const { yaw, pitch } = estimateHeadPose(faces[0]!);
+      const signature = computeFaceSignature(faces[0]!, yaw, pitch);
+      const reference = signature && builder.add(signature);
+      if (reference) {
+        return [item("face", "optional", "pass", "Face enrolled.", { samples: reference.samples, frames }), reference];
+      }
+    }
+    return [
+      item("face", "optional", "warn", "Could not see your face clearly from the front. The identity check is off for this session.", { frames }),
+      null,
+    ];
+  } catch (err) {
+    return [
+      item("face", "optional", "warn", "Face enrolment is unavailable on this device. The identity check is off for this session.", {
+        error: err instanceof Error ? err.message : String(err),
+      }),
+      null,
+    ];
+  } finally {
+    landmarker?.close();
+    stream.getTracks().forEach((t) => t.stop());
+    video.srcObject = null;
+  }
+}
+
+/** Listens for MIC_CHECK_MS; the candidate is asked to speak meanwhile. */
+export async function checkMicrophone(
+  need: SystemCheckNeed,
+  onLevel?: (rms: number) => void,
+): Promise<SystemCheckItem> {
+  let peak = 0;
+  const capture = new AudioCaptureManager({
+    onAudioChunk: () => {},
+    onEnergyLevel: (rms) => {
+      peak = Math.max(peak, rms);
+      onLevel?.(rms);
+    },
+  });
+  try {
+    await capture.start();
+  } catch (err) {
+    const denied = err instanceof DOMException && err.name === "NotAllowedError";
+    return item("microphone", need, "fail", denied ? "Microphone permission was denied." : "No microphone was found.", {
+      error: err instanceof Error ? err.name : String(err),
+    });
+  }
+  await delay(MIC_CHECK_MS);
+  capture.stop();
+
+  const data = { peakEnergy: Math.round(peak * 1000) / 1000 };
+  return peak >= MIC_CHECK_MIN_ENERGY
+    ? item("microphone", need, "pass", "Your voice was picked up.", data)
+    : item("microphone", need, "fail", "No sound was picked up. Check that the right microphone is selected and not muted.", data);
+}
+
+/**
+ * Plays the test tone through AudioPlaybackManager and resolves once it has
+ * finished, with whether the playback graph actually produced output (the
+ * candidate still has to confirm they heard it).
+ */
+export async function playTestTone(): Promise<boolean> {
+  const player = new AudioPlaybackManager();
+  await player.initialize();
+  player.playChunk(testToneBase64());
+  let produced = false;
+  const endBy = performance.now() + SPEAKER_TONE_MS + 300;
+  while (performance.now() < endBy) {
+    await delay(100);
+    if (player.getTimeDomainData().some((v) => Math.abs(v - 128) > TONE_OUTPUT_MIN_DEVIATION)) produced = true;
+  }
+  await player.destroy();
+  return produced;
+}
+
+export function speakerResult(need: SystemCheckNeed, heard: boolean, outputProduced: boolean): SystemCheckItem {
+  const data = { heard, outputProduced };
+  if (heard) return item("speaker", need, "pass", "Test sound was heard.", data);
+  return item(
+    "speaker",
+    need,
+    "fail",
+    outputProduced
+      ? "The test sound played but was not heard. Check your volume and output device."
+      : "The browser could not play sound. Check your output device.",
+    data,
+  );
+}
+
+export function createSystemCheckResult(items: SystemCheckItem[]): SystemCheckResult {
+  return {
+    version: 1,
+    checkedAt: Date.now(),
+    userAgent: navigator.userAgent,
+    passed: !items.some((i) => i.required && i.status === "fail"),
+    items,
+  };
+}
+
+/** Whether an earlier passed check (e.g. a previous full-flow round) satisfies these requirements. */
+export function systemCheckCovers(result: SystemCheckResult, requirements: SystemCheckRequirements): boolean {
+  if (!result.passed) return false;
+  return (Object.keys(requirements) as (keyof SystemCheckRequirements)[]).every((id) => {
+    if (requirements[id] !== "required") return true;
+    const found = result.items.find((i) => i.id === id);
+    return !!found && found.status !== "fail" && found.status !== "skipped";
+  });
+}
+
+/** Narrow an unknown JSON value (e.g. loaded from the backend) to a system check result. */
+export function isSystemCheckResult(raw: unknown): raw is SystemCheckResult {
+  if (!raw || typeof raw !== "object") return false;
+  const o = raw as Record<string, unknown>;
+  return o.version === 1 && typeof o.checkedAt === "number" && typeof o.passed === "boolean" && Array.isArray(o.items);
+}
+
+/** SPEAKER_TONE_MS of a sine at SPEAKER_TONE_HZ as 24 kHz 16-bit PCM (the playback format), base64 */
+function testToneBase64(): string {
+  const rate = 24000;
+  const length = Math.round((rate * SPEAKER_TONE_MS) / 1000);
+  const fade = Math.round(rate * 0.05);
+  const pcm = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const envelope = Math.min(1, i / fade, (length - i) / fade);
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * SPEAKER_TONE_HZ * i) / rate) * envelope * 0.3 * 32767);
+  }
+  const bytes = new Uint8Array(pcm.buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -1,10 +1,12 @@
 /**
  * Proctoring — Default thresholds & configuration.
  *
- * Override any of these via the `thresholds` param of useProctoring().
+ * Override any of these via the `thresholds` param of useProctoring(), or
+ * per organization via useProctoringPolicy().
  */
 
-import type { ProctoringThresholds, ProctoringConfig } from "./types";
+import type { DegradationTier, FlagType, ProctoringThresholds, ProctoringConfig, ProctoringRule } from "./types";
+import { FLAG_MESSAGES, FLAG_POINTS, MALPRACTICE_FLAG_TYPES } from "./types";
 
 /** Minimum width or height to consider camera "ok" (below = low_res) */
 export const MIN_CAMERA_RESOLUTION = 320;
@@ -28,8 +30,180 @@ export const DEFAULT_THRESHOLDS: ProctoringThresholds = {
   darkBrightnessThreshold: 30,
   riskDecayPerSec: 2,
   flagCooldownMs: 10_000,
+  objectScoreThreshold: 0.5,
+  objectPersistMs: 1_500,
+  faceMatchThreshold: 0.6,
+  faceMismatchMs: 6_000,
+  backgroundSpeechMs: 3_000,
+  whisperMs: 2_000,
+  secondVoiceSemitones: 5,
+  secondVoiceMs: 2_000,
 };
 
+/** Accepted [min, max] per threshold; remote values are clamped into range */
+export const THRESHOLD_LIMITS: Record<keyof ProctoringThresholds, readonly [number, number]> = {
+  faceMissingMs: [500, 60_000],
+  lookingAwayMs: [500, 60_000],
+  yawThreshold: [5, 90],
+  pitchThreshold: [5, 90],
+  darkBrightnessThreshold: [0, 255],
+  riskDecayPerSec: [0, 20],
+  flagCooldownMs: [0, 300_000],
+  objectScoreThreshold: [0.1, 1],
+  objectPersistMs: [0, 30_000],
+  faceMatchThreshold: [0, 1],
+  faceMismatchMs: [500, 60_000],
+  backgroundSpeechMs: [500, 60_000],
+  whisperMs: [500, 60_000],
+  secondVoiceSemitones: [1, 24],
+  secondVoiceMs: [500, 60_000],
+};
+
+/**
+ * Built-in rules — one per FlagType, equivalent to the original hard-coded
+ * RiskScorer branches. Org policies patch these (see ruleEngine.ts).
+ */
+export function buildDefaultRules(thresholds: ProctoringThresholds): ProctoringRule[] {
+  const base = (type: FlagType): Pick<ProctoringRule, "type" | "enabled" | "points" | "cooldownMs" | "message" | "durationMs" | "oncePerEpisode"> => ({
+    type,
+    enabled: true,
+    points: FLAG_POINTS[type],
+    cooldownMs: thresholds.flagCooldownMs,
+    message: FLAG_MESSAGES[type],
+    durationMs: 0,
+    oncePerEpisode: false,
+  });
+
+  return [
+    { ...base("TAB_HIDDEN"), trigger: "tab_hidden" },
+    { ...base("WINDOW_BLUR"), trigger: "window_blur" },
+    { ...base("FULLSCREEN_EXIT"), trigger: "fullscreen_exit" },
+    {
+      ...base("KEYBOARD_ACTIVITY_SUSPICIOUS"),
+      trigger: "keydown_no_input",
+      minCount: KEYBOARD_SUSPICION_MIN_KEYS,
+      windowMs: KEYBOARD_SUSPICION_WINDOW_MS,
+    },
+    { ...base("SCREEN_SHARE_STOPPED"), trigger: "screen_share_stopped" },
+    { ...base("MULTIPLE_DISPLAYS"), trigger: "multiple_displays" },
+    { ...base("LARGE_PASTE"), trigger: "large_paste" },
+    { ...base("EXTERNAL_PASTE"), trigger: "external_paste" },
+    {
+      ...base("LOW_FPS"),
+      trigger: "detection",
+      when: { metric: "inferredFps", op: "lt", value: LOW_FPS_THRESHOLD },
+      durationMs: LOW_FPS_DURATION_MS,
+      oncePerEpisode: true,
+    },
+    {
+      ...base("SUSPICIOUS_GAZE_SHIFT"),
+      trigger: "detection",
+      when: {
+        all: [
+          { metric: "faceCount", op: "eq", value: 1 },
+          { metric: "gazeDelta", op: "gte", value: GAZE_SHIFT_DEGREES },
+        ],
+      },
+    },
+    {
+      ...base("MULTI_FACE"),
+      trigger: "detection",
+      when: { metric: "faceCount", op: "gt", value: 1 },
+    },
+    {
+      ...base("NO_FACE"),
+      trigger: "detection",
+      when: { metric: "faceCount", op: "eq", value: 0 },
+      durationMs: thresholds.faceMissingMs,
+      oncePerEpisode: true,
+    },
+    {
+      ...base("LOOKING_AWAY"),
+      trigger: "detection",
+      when: {
+        all: [
+          { metric: "faceCount", op: "eq", value: 1 },
+          {
+            any: [
+              { metric: "absYaw", op: "gt", value: thresholds.yawThreshold },
+              { metric: "absPitch", op: "gt", value: thresholds.pitchThreshold },
+            ],
+          },
+        ],
+      },
+      durationMs: thresholds.lookingAwayMs,
+      oncePerEpisode: true,
+    },
+    {
+      ...base("DARK_FRAME"),
+      trigger: "detection",
+      when: { metric: "brightness", op: "lt", value: thresholds.darkBrightnessThreshold },
+    },
+    {
+      ...base("HAND_NEAR_FACE"),
+      trigger: "detection",
+      when: { metric: "handNearFace", op: "eq", value: true },
+    },
+    {
+      ...base("FACE_MISMATCH"),
+      trigger: "detection",
+      when: {
+        all: [
+          { metric: "faceCount", op: "eq", value: 1 },
+          { metric: "faceSimilarity", op: "lt", value: thresholds.faceMatchThreshold },
+        ],
+      },
+      durationMs: thresholds.faceMismatchMs,
+      oncePerEpisode: true,
+    },
+    {
+      ...base("PHONE_DETECTED"),
+      trigger: "detection",
+      when: { metric: "phoneScore", op: "gte", value: thresholds.objectScoreThreshold },
+      durationMs: thresholds.objectPersistMs,
+      oncePerEpisode: true,
+    },
+    {
+      ...base("BOOK_DETECTED"),
+      trigger: "detection",
+      when: { metric: "bookScore", op: "gte", value: thresholds.objectScoreThreshold },
+      durationMs: thresholds.objectPersistMs,
+      oncePerEpisode: true,
+    },
+    {
+      ...base("SECOND_VOICE"),
+      trigger: "audio",
+      when: { metric: "voicePitchShift", op: "gte", value: thresholds.secondVoiceSemitones },
+      durationMs: thresholds.secondVoiceMs,
+      oncePerEpisode: true,
+    },
+    {
+      ...base("BACKGROUND_SPEECH"),
+      trigger: "audio",
+      when: {
+        all: [
+          { metric: "silenceExpected", op: "eq", value: true },
+          { metric: "voiceActive", op: "eq", value: true },
+        ],
+      },
+      durationMs: thresholds.backgroundSpeechMs,
+      oncePerEpisode: true,
+    },
+    {
+      ...base("WHISPER"),
+      trigger: "audio",
+      when: {
+        all: [
+          { metric: "silenceExpected", op: "eq", value: true },
+          { metric: "whisper", op: "eq", value: true },
+        ],
+      },
+      durationMs: thresholds.whisperMs,
+      oncePerEpisode: true,
+    },
+  ];
+}
+
 /**
  * CDN paths for MediaPipe wasm runtime + model.
  * For production, copy these to /public and use local paths.
@@ -40,19 +214,151 @@ const MEDIAPIPE_CDN_WASM =
 const FACE_LANDMARKER_MODEL =
   "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/latest/face_landmarker.task";
 
+/**
+ * COCO object detector (EfficientDet-Lite0, ~4.4 MB) served from our own
+ * origin; scripts/fetch-models.mjs downloads it into public/models/ on install.
+ */
+const OBJECT_DETECTOR_MODEL = "/models/efficientdet_lite0.tflite";
+
+/** COCO labels the object stage looks for, mapped to the DetectionResult field they feed */
+export const OBJECT_CATEGORIES = {
+  "cell phone": "phoneScore",
+  book: "bookScore",
+} as const;
+
+/** Run the (heavier) object detector on every Nth face frame; scores carry over in between */
+export const OBJECT_DETECTION_EVERY_N_FRAMES = 3;
+
+/** Screen-share sampling: one downscaled JPEG this often, capped per session */
+export const SCREENSHOT_INTERVAL_MS = 60_000;
+export const SCREENSHOT_MAX_WIDTH = 480;
+export const MAX_SCREENSHOTS = 90;
+
+/** Risk time series: one sample this often; past the cap every other sample is dropped */
+export const RISK_SAMPLE_INTERVAL_MS = 5_000;
+export const MAX_RISK_SAMPLES = 1_000;
+
+/** Live observer stream: risk update interval (flags are sent as they are raised) */
+export const LIVE_RISK_INTERVAL_MS = 2_000;
+
+/**
+ * Editor forensics: a single non-paste insertion this long is a LARGE_PASTE;
+ * so is typing above TYPING_BURST_CPS sustained over TYPING_BURST_WINDOW_MS
+ * (fast typists peak around 10–12 characters/second).
+ */
+export const LARGE_INSERT_CHARS = 80;
+export const TYPING_BURST_CPS = 18;
+export const TYPING_BURST_WINDOW_MS = 3_000;
+/** Edit log entries kept per session (~2–3 hours of continuous typing) */
+export const MAX_EDIT_LOG_ENTRIES = 50_000;
+
+/**
+ * Pre-session system check. The mic check passes once the smoothed RMS
+ * (AudioCaptureManager energy, 0–1) reaches MIC_CHECK_MIN_ENERGY while the
+ * candidate speaks; quiet speech sits around 0.03–0.05. Server round trips
+ * above NETWORK_SLOW_RTT_MS are a warning, no response at all is a failure.
+ */
+export const CAMERA_CHECK_MS = 1_500;
+export const MIC_CHECK_MS = 4_000;
+export const MIC_CHECK_MIN_ENERGY = 0.02;
+export const SPEAKER_TONE_HZ = 440;
+export const SPEAKER_TONE_MS = 1_200;
+export const NETWORK_CHECK_SAMPLES = 3;
+export const NETWORK_CHECK_TIMEOUT_MS = 5_000;
+export const NETWORK_SLOW_RTT_MS = 800;
+/** Face enrolment: sample rate and how long to wait for enough frontal frames */
+export const FACE_ENROLL_SAMPLE_MS = 200;
+export const FACE_ENROLL_TIMEOUT_MS = 15_000;
+
+/**
+ * Degradation tiers, full coverage first. The inference FPS never drops
+ * below TIER_MIN_FPS so the LOW_FPS rule (< 1 FPS) does not fire on tiers.
+ */
+export const DEGRADATION_TIERS: readonly DegradationTier[] = [
+  { level: 0, label: "Full", fpsScale: 1, inputWidth: 0, objectDetection: true, gaze: true },
+  { level: 1, label: "Reduced frame rate", fpsScale: 0.75, inputWidth: 640, objectDetection: true, gaze: true },
+  { level: 2, label: "No object detection", fpsScale: 0.5, inputWidth: 480, objectDetection: false, gaze: true },
+  { level: 3, label: "Face presence only", fpsScale: 0.5, inputWidth: 320, objectDetection: false, gaze: false },
+];
+export const TIER_MIN_FPS = 1.5;
+/**
+ * Tier changes: inference time and delivered FPS are averaged over
+ * TIER_WINDOW_MS. Step down when inference exceeds its budget (main thread:
+ * MAIN_THREAD_INFERENCE_BUDGET_MS, so the UI stays responsive; worker:
+ * WORKER_INFERENCE_LOAD of the frame interval) or FPS falls below
+ * TIER_MIN_FPS_RATIO of the target. Step up after TIER_STEP_UP_AFTER_MS
+ * under TIER_STEP_UP_LOAD of the budget. Nothing changes for TIER_HOLD_MS
+ * after a step so the new tier can settle.
+ */
+export const TIER_WINDOW_MS = 5_000;
+export const MAIN_THREAD_INFERENCE_BUDGET_MS = 50;
+export const WORKER_INFERENCE_LOAD = 0.8;
+export const TIER_MIN_FPS_RATIO = 0.6;
+export const TIER_STEP_UP_LOAD = 0.4;
+export const TIER_STEP_UP_AFTER_MS = 30_000;
+export const TIER_HOLD_MS = 10_000;
+
+/** Microphone analysis frame interval (ms) */
+export const AUDIO_ANALYSIS_INTERVAL_MS = 100;
+
 export const DEFAULT_CONFIG: ProctoringConfig = {
   enabled: true,
   fps: 3,
+  workerFps: 8,
+  inferenceMode: "auto",
   numFaces: 2,
   enableHand: false,
+  enableObjectDetection: true,
+  enableAudioProctoring: true,
+  enableScreenShare: false,
   thresholds: DEFAULT_THRESHOLDS,
   wasmPath: MEDIAPIPE_CDN_WASM,
   modelAssetPath: FACE_LANDMARKER_MODEL,
+  objectModelAssetPath: OBJECT_DETECTOR_MODEL,
+  policy: null,
+  malpracticeFlagTypes: MALPRACTICE_FLAG_TYPES,
 };
 
+/** Worker init (MediaPipe bundle + WASM + models) allowed before falling back to the main thread */
+export const WORKER_INIT_TIMEOUT_MS = 15_000;
+
+/**
+ * Capability probe for the worker pipeline: module workers, OffscreenCanvas
+ * 2D (brightness) and createImageBitmap (frame transfer).
+ */
+export function supportsWorkerInference(): boolean {
+  if (
+    typeof Worker === "undefined" ||
+    typeof OffscreenCanvas === "undefined" ||
+    typeof createImageBitmap !== "function"
+  ) {
+    return false;
+  }
+  try {
+    if (!new OffscreenCanvas(1, 1).getContext("2d")) return false;
+  } catch {
+    return false;
+  }
+  // Browsers without module workers never read the `type` option
+  let moduleWorkers = false;
+  try {
+    const options = {
+      get type(): WorkerType {
+        moduleWorkers = true;
+        return "module";
+      },
+    };
+    new Worker("data:,", options).terminate();
+  } catch {
+    // Construction may still fail (CSP); the getter already answered
+  }
+  return moduleWorkers;
+}
+
 /**
- * Detect low-end devices where proctoring may degrade UX.
- * Returns true if device has ≤2 CPU cores or ≤2 GB memory.
+ * Detect low-end devices (≤2 CPU cores or ≤2 GB memory). Only a hint: such
+ * devices start one degradation tier down, and the tier then follows the
+ * measured inference cost (see degradation.ts).
  */
 export function isLowEndDevice(): boolean {
   const nav = navigator as unknown as Record<string, unknown>;
@@ -24,18 +24,74 @@ export interface ProctoringThresholds {
   riskDecayPerSec: number;
   /** Minimum milliseconds between same-type flags to prevent spam (default 10000) */
   flagCooldownMs: number;
+  /** ObjectDetector confidence 0–1 at which a phone/book counts as present (default 0.5) */
+  objectScoreThreshold: number;
+  /** Milliseconds an object must stay in frame before flagging (default 1500) */
+  objectPersistMs: number;
+  /** Face similarity 0–1 to the enrolled reference below which the face "does not match" (default 0.6) */
+  faceMatchThreshold: number;
+  /** Milliseconds of sustained mismatch before flagging (default 6000) */
+  faceMismatchMs: number;
+  /** Milliseconds of speech in a silent round before flagging (default 3000) */
+  backgroundSpeechMs: number;
+  /** Milliseconds of sustained whispering before flagging (default 2000) */
+  whisperMs: number;
+  /** Semitones between a voice and the candidate's pitch profile to count as a different speaker (default 5) */
+  secondVoiceSemitones: number;
+  /** Milliseconds the different voice must persist before flagging (default 2000) */
+  secondVoiceMs: number;
+}
+
+/** Where MediaPipe inference runs; "auto" = worker when the capability probe passes */
+export type InferenceMode = "auto" | "worker" | "main";
+
+/** Pipeline actually in use after probing / fallback */
+export type InferenceBackend = "worker" | "main";
+
+/**
+ * Detection coverage step used on weak devices (see degradation.ts). Level 0
+ * is full coverage; each higher level trades detection for CPU time.
+ */
+export interface DegradationTier {
+  level: number;
+  label: string;
+  /** Multiplier on the configured inference FPS */
+  fpsScale: number;
+  /** Frames wider than this are downscaled before inference (0 = native size) */
+  inputWidth: number;
+  /** Phone / book detection stage */
+  objectDetection: boolean;
+  /** Head pose (LOOKING_AWAY, GAZE_SHIFT) and face identity; off = face presence / count only */
+  gaze: boolean;
 }
 
 export interface ProctoringConfig {
   enabled: boolean;
+  /** Inference FPS on the main thread */
   fps: number;
+  /** Inference FPS when running in the worker (frees the main thread, so it can be higher) */
+  workerFps: number;
+  inferenceMode: InferenceMode;
   numFaces: number;
   enableHand: boolean;
+  /** Run the ObjectDetector stage (phone / book detection) */
+  enableObjectDetection: boolean;
+  /** Analyse the microphone (second voice / background speech / whispering) */
+  enableAudioProctoring: boolean;
+  /** Coding round: require an entire-screen share, sample screenshots, flag extra displays */
+  enableScreenShare: boolean;
+  /** Effective thresholds (defaults + policy); for display, not a useProctoring override */
   thresholds: ProctoringThresholds;
   /** URL for WASM runtime files */
   wasmPath: string;
   /** URL or path for the face_landmarker .task model */
   modelAssetPath: string;
+  /** URL or path for the object detector .tflite model (served from /public) */
+  objectModelAssetPath: string;
+  /** Org rule policy (null = built-in rules) */
+  policy: ProctoringPolicy | null;
+  /** Flag types treated as malpractice (blocking overlay + dismissal warning) */
+  malpracticeFlagTypes: readonly FlagType[];
 }
 
 // ---------------------------------------------------------------------------
@@ -53,7 +109,17 @@ export type FlagType =
   | "HAND_NEAR_FACE"
   | "LOW_FPS"
   | "SUSPICIOUS_GAZE_SHIFT"
-  | "KEYBOARD_ACTIVITY_SUSPICIOUS";
+  | "KEYBOARD_ACTIVITY_SUSPICIOUS"
+  | "PHONE_DETECTED"
+  | "BOOK_DETECTED"
+  | "FACE_MISMATCH"
+  | "SECOND_VOICE"
+  | "BACKGROUND_SPEECH"
+  | "WHISPER"
+  | "SCREEN_SHARE_STOPPED"
+  | "MULTIPLE_DISPLAYS"
+  | "LARGE_PASTE"
+  | "EXTERNAL_PASTE";
 
 export interface ProctoringFlag {
   id: string;
@@ -62,6 +128,8 @@ export interface ProctoringFlag {
   timestamp: number;
   message: string;
   pointsAdded: number;
+  /** FACE_MISMATCH: similarity 0–1 to the enrolled reference when the flag fired */
+  similarity?: number;
 }
 
 /** Points added per flag type */
@@ -77,6 +145,16 @@ export const FLAG_POINTS: Record<FlagType, number> = {
   LOW_FPS: 8,
   SUSPICIOUS_GAZE_SHIFT: 6,
   KEYBOARD_ACTIVITY_SUSPICIOUS: 5,
+  PHONE_DETECTED: 25,
+  BOOK_DETECTED: 15,
+  FACE_MISMATCH: 30,
+  SECOND_VOICE: 20,
+  BACKGROUND_SPEECH: 10,
+  WHISPER: 15,
+  SCREEN_SHARE_STOPPED: 15,
+  MULTIPLE_DISPLAYS: 15,
+  LARGE_PASTE: 15,
+  EXTERNAL_PASTE: 20,
 };
 
 export const FLAG_MESSAGES: Record<FlagType, string> = {
@@ -91,9 +169,22 @@ export const FLAG_MESSAGES: Record<FlagType, string> = {
   LOW_FPS: "Low frame rate (possible CPU throttling)",
   SUSPICIOUS_GAZE_SHIFT: "Sudden gaze shift (possible second screen)",
   KEYBOARD_ACTIVITY_SUSPICIOUS: "Unusual keyboard activity (possible second device)",
+  PHONE_DETECTED: "Mobile phone detected in camera view",
+  BOOK_DETECTED: "Book or printed material detected in camera view",
+  FACE_MISMATCH: "Face does not match the candidate enrolled in the system check",
+  SECOND_VOICE: "A second voice (different speaker) was heard",
+  BACKGROUND_SPEECH: "Speech detected during a round that should be silent",
+  WHISPER: "Whispering detected",
+  SCREEN_SHARE_STOPPED: "Screen sharing was stopped",
+  MULTIPLE_DISPLAYS: "More than one display is connected",
+  LARGE_PASTE: "Large block of code inserted at once or typed at a non-human rate",
+  EXTERNAL_PASTE: "Content pasted or dropped into the editor from outside",
 };
 
-/** Violations that are considered malpractice (tab/window/fullscreen) — may lead to dismissal. */
+/**
+ * Default violations considered malpractice (tab/window/fullscreen) — may lead to dismissal.
+ * Orgs can narrow or widen this via ProctoringConfig.malpracticeFlagTypes.
+ */
 export const MALPRACTICE_FLAG_TYPES: readonly FlagType[] = [
   "TAB_HIDDEN",
   "WINDOW_BLUR",
@@ -103,6 +194,98 @@ export const MALPRACTICE_FLAG_TYPES: readonly FlagType[] = [
 export const DISMISSAL_WARNING =
   "This has been recorded. Repeated violations may result in dismissal of your interview.";
 
+export const APPEAL_HINT =
+  "If this was outside your control, you can contest the flag from your report once the session ends.";
+
+// ---------------------------------------------------------------------------
+// Rules & policy (declarative, JSON-serializable)
+// ---------------------------------------------------------------------------
+
+/** Per-detection / per-audio-frame values a rule condition can test */
+export interface RuleSignals {
+  faceCount: number;
+  yaw: number;
+  pitch: number;
+  absYaw: number;
+  absPitch: number;
+  brightness: number;
+  handNearFace: boolean;
+  inferredFps: number;
+  /** Largest of |Δyaw| and |Δpitch| since the previous frame */
+  gazeDelta: number;
+  /** ObjectDetector confidence 0–1 for a phone / book (0 when the stage is off) */
+  phoneScore: number;
+  bookScore: number;
+  /** Similarity 0–1 to the enrolled face (1 while not comparable) */
+  faceSimilarity: number;
+  /** Audio: voiced speech not attributable to the AI interviewer's playback */
+  voiceActive: boolean;
+  /** Audio: sustained unvoiced, low-level speech */
+  whisper: boolean;
+  /** Audio: semitones between the current voice and the candidate's pitch profile (0 = none / same speaker) */
+  voicePitchShift: number;
+  /** Audio: the round expects the candidate to be silent (aptitude / coding) */
+  silenceExpected: boolean;
+}
+
+export type RuleMetric = keyof RuleSignals;
+
+export type RuleOperator = "lt" | "lte" | "gt" | "gte" | "eq" | "neq";
+
+export type RuleCondition =
+  | { metric: RuleMetric; op: RuleOperator; value: number | boolean }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+/** Browser events that can drive a rule directly */
+export type BrowserEventKind =
+  | "tab_hidden"
+  | "window_blur"
+  | "fullscreen_exit"
+  | "keydown_no_input"
+  | "screen_share_stopped"
+  | "multiple_displays"
+  | "large_paste"
+  | "external_paste";
+
+/** "detection" / "audio" rules run on every inference result / audio frame; the others on the named browser event */
+export type RuleTrigger = "detection" | "audio" | BrowserEventKind;
+
+export interface ProctoringRule {
+  type: FlagType;
+  enabled: boolean;
+  trigger: RuleTrigger;
+  /** Detection rules: condition evaluated against RuleSignals */
+  when?: RuleCondition;
+  /** Condition must hold continuously this long before flagging (0 = immediately) */
+  durationMs: number;
+  /** Flag at most once per continuous episode (until the condition clears) */
+  oncePerEpisode: boolean;
+  /** Event rules: events required within windowMs before flagging (default 1) */
+  minCount?: number;
+  windowMs?: number;
+  points: number;
+  /** Minimum milliseconds between two flags of this type */
+  cooldownMs: number;
+  /** Points/sec this rule's contribution decays; omitted = shared riskDecayPerSec */
+  decayPerSec?: number;
+  message: string;
+}
+
+/** Org-level override of a single rule; anything omitted keeps the built-in value */
+export type ProctoringRuleOverride = Partial<Omit<ProctoringRule, "type">> & { type: FlagType };
+
+/** Org-level proctoring policy, stored and shipped as JSON */
+export interface ProctoringPolicy {
+  id?: string;
+  name?: string;
+  version?: number;
+  /** Threshold overrides applied before the built-in rules are derived */
+  thresholds?: Partial<ProctoringThresholds>;
+  rules?: ProctoringRuleOverride[];
+}
+
 // ---------------------------------------------------------------------------
 // Risk level
 // ---------------------------------------------------------------------------
@@ -138,6 +321,10 @@ export interface ProctoringMetrics {
   videoHeight: number;
   /** Camera quality: ok, low_res, or dark */
   cameraQuality: "ok" | "low_res" | "dark";
+  /** Latest similarity 0–1 to the enrolled face (null = no enrolled face / not comparable) */
+  faceSimilarity: number | null;
+  /** Latest audio frame contained voiced speech (AI playback excluded) */
+  voiceActive: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -154,6 +341,12 @@ export interface DetectionResult {
   brightness: number;
   /** Whether a hand was detected near the face (only when enableHand=true) */
   handNearFace: boolean;
+  /** Highest "cell phone" confidence 0–1 from the ObjectDetector (0 when disabled) */
+  phoneScore?: number;
+  /** Highest "book" confidence 0–1 from the ObjectDetector (0 when disabled) */
+  bookScore?: number;
+  /** Similarity 0–1 to the enrolled face (omitted without an enrolled face / not comparable) */
+  faceSimilarity?: number;
   /** performance.now() timestamp when inference started */
   timestamp: number;
   /** Optional: video width for camera quality (set by hook) */
@@ -162,6 +355,221 @@ export interface DetectionResult {
   videoHeight?: number;
 }
 
+/** One microphone analysis frame (see audioAnalyzer.ts) */
+export interface AudioDetectionResult {
+  voiceActive: boolean;
+  whisper: boolean;
+  /** Semitones from the candidate's pitch profile (0 = no voice / no profile yet) */
+  pitchShift: number;
+  /** The round expects the candidate to be silent */
+  silenceExpected: boolean;
+  /** The AI interviewer's audio was playing (speech during it was discounted as echo) */
+  aiSpeaking: boolean;
+  /** performance.now() timestamp of the frame */
+  timestamp: number;
+}
+
+// ---------------------------------------------------------------------------
+// Session log (recorded live, replayed offline through RiskScorer)
+// ---------------------------------------------------------------------------
+
+/**
+ * One scorer input. First element is the raw scorer clock value
+ * (performance.now() live) so replay reproduces every duration and cooldown.
+ *
+ *   "d" detection: faceCount, yaw, pitch, brightness, handNearFace (0/1), videoWidth, videoHeight,
+ *       phoneScore, bookScore, faceSimilarity (-1 = not comparable); trailing
+ *       fields are absent in logs recorded before those stages existed
+ *   "a" audio frame: voiceActive, whisper (0/1), pitchShift, silenceExpected, aiSpeaking (0/1)
+ *   "h" tab hidden · "v" tab visible · "b" window blur · "f" fullscreen exit
+ *   "k" keydown outside inputs · "s" screen share stopped · "m" multiple displays
+ *   "l" large editor insertion / typing burst · "p" external paste into the editor
+ *   "t" tick (decay) · "r" reset
+ *   "q" detection tier change: new DegradationTier level (not a scorer input; replay skips it)
+ */
+export type SessionLogEntry =
+  | [number, "d", number, number, number, number, 0 | 1, number, number, number?, number?, number?]
+  | [number, "a", 0 | 1, 0 | 1, number, 0 | 1, 0 | 1]
+  | [number, "h" | "v" | "b" | "f" | "k" | "s" | "m" | "l" | "p" | "t" | "r"]
+  | [number, "q", number];
+
+/** Low-rate screen capture attached to the session log (screen-share proctoring) */
+export interface ScreenSample {
+  /** Milliseconds since session start */
+  t: number;
+  width: number;
+  height: number;
+  /** JPEG data URL */
+  image: string;
+}
+
+export interface ProctoringSessionLog {
+  version: 1;
+  /** Wall-clock (Date.now()) when recording started */
+  recordedAt: number;
+  /** interviewStartTs the live RiskScorer was built with */
+  interviewStartTs: number;
+  /** Scorer clock value at construction (initial decay reference) */
+  clockStart: number;
+  thresholds?: Partial<ProctoringThresholds>;
+  policy?: ProctoringPolicy | null;
+  entries: SessionLogEntry[];
+  /** Screen-share samples (not replayed; evidence for reviewers) */
+  screenshots?: ScreenSample[];
+  /** Set once the entry cap was reached: scorer clock of the first dropped input, inputs dropped */
+  truncated?: { at: number; dropped: number };
+}
+
+// ---------------------------------------------------------------------------
+// Risk time series (sampled live, stored with the flags)
+// ---------------------------------------------------------------------------
+
+/** [ms since session start, risk score, yaw, pitch, brightness, faceCount, inferredFps] */
+export type RiskSample = [number, number, number, number, number, number, number];
+
+export interface RiskSeries {
+  version: 1;
+  /** Spacing between samples; doubles when a long session is downsampled */
+  intervalMs: number;
+  samples: RiskSample[];
+}
+
+// ---------------------------------------------------------------------------
+// Editor edit log (coding round forensics, stored with the submission)
+// ---------------------------------------------------------------------------
+
+/**
+ * How an edit reached the editor:
+ *   "k" typed (incl. autocomplete / auto-closing) · "p" paste · "d" drag & drop
+ *   "u" undo / redo · "f" whole-document replace (reset, language switch)
+ */
+export type EditSource = "k" | "p" | "d" | "u" | "f";
+
+/** One content change: [ms since session start, offset, removed length, inserted text, source] */
+export type EditLogEntry = [number, number, number, string, EditSource];
+
+/** Forensic event alongside the edits: [ms since session start, kind, inserted length] */
+export type EditEvent = [number, EditEventKind, number];
+
+/**
+ *   "attempt" paste shortcut pressed (blocked before reaching the editor)
+ *   "internal" paste of text cut/copied inside the editor
+ *   "external" paste / drop of text from outside the editor
+ *   "large" single insertion over the size threshold (not a paste)
+ *   "burst" sustained typing faster than a person can type
+ */
+export type EditEventKind = "attempt" | "internal" | "external" | "large" | "burst";
+
+/** Code execution during the session: [ms, "run", exit code] or [ms, "test", passed, total] */
+export type EditRun = [number, "run", number] | [number, "test", number, number];
+
+export interface EditLog {
+  version: 1;
+  /** Wall-clock (Date.now()) the timestamps are relative to */
+  startedAt: number;
+  /** Document text before the first entry (starter code) */
+  initial: string;
+  entries: EditLogEntry[];
+  events: EditEvent[];
+  /** Absent in logs recorded before runs were tracked */
+  runs?: EditRun[];
+  summary: EditLogSummary;
+  /** Set once MAX_EDIT_LOG_ENTRIES was reached: ms of the first dropped change, changes dropped */
+  truncated?: { at: number; dropped: number };
+}
+
+export interface EditLogSummary {
+  typedChars: number;
+  pastedChars: number;
+  pasteAttempts: number;
+  externalPastes: number;
+  largeInserts: number;
+  typingBursts: number;
+  /** Highest typed characters/second over the burst window */
+  peakCharsPerSec: number;
+}
+
+// ---------------------------------------------------------------------------
+// Pre-session system check
+// ---------------------------------------------------------------------------
+
+export type SystemCheckId =
+  | "camera"
+  | "lighting"
+  | "microphone"
+  | "speaker"
+  | "network"
+  | "cpu"
+  | "fullscreen"
+  | "face";
+
+/** "required" = a failure blocks the session; "optional" = failures are only warnings */
+export type SystemCheckNeed = "required" | "optional" | "off";
+
+/** Per-session needs; lighting follows the camera, network and CPU always run */
+export type SystemCheckRequirements = Record<"camera" | "microphone" | "speaker" | "fullscreen", SystemCheckNeed>;
+
+export type SystemCheckStatus = "pass" | "warn" | "fail" | "skipped";
+
+export interface SystemCheckItem {
+  id: SystemCheckId;
+  status: SystemCheckStatus;
+  /** Whether a "fail" blocks the session */
+  required: boolean;
+  /** What the candidate was shown */
+  detail: string;
+  /** Raw measurements, kept for disputes */
+  data?: Record<string, number | string | boolean | null>;
+}
+
+/** Stored with the session (aptitude / coding create, interview proctoring PATCH) */
+export interface SystemCheckResult {
+  version: 1;
+  /** Date.now() when the check finished */
+  checkedAt: number;
+  userAgent: string;
+  /** No required check failed */
+  passed: boolean;
+  items: SystemCheckItem[];
+}
+
+// ---------------------------------------------------------------------------
+// Live observer stream (LiveKit data channel)
+// ---------------------------------------------------------------------------
+
+/** Proctor action sent from the observer room to the candidate (audited on the interview) */
+export type ObserverIntervention =
+  /** Shown to the candidate in the malpractice overlay */
+  | { type: "warning"; id: string; message: string }
+  /** Freezes the interview timer (and the interviewer) until resumed */
+  | { type: "pause"; id: string }
+  | { type: "resume"; id: string }
+  | { type: "extend"; id: string; minutes: number }
+  /** Ends the session; the reason is shown to the candidate and stored */
+  | { type: "terminate"; id: string; reason: string };
+
+export type InterventionType = ObserverIntervention["type"];
+
+export type ProctoringLiveMessage =
+  /** A flag as it is raised */
+  | { type: "flag"; flag: ProctoringFlag }
+  /** Periodic risk update; `at` is ms since session start */
+  | { type: "risk"; at: number; riskScore: number; riskLevel: RiskLevel; faceCount: number; paused: boolean }
+  /** Everything so far, sent to observers who join mid-session */
+  | {
+      type: "snapshot";
+      at: number;
+      riskScore: number;
+      riskLevel: RiskLevel;
+      flags: ProctoringFlag[];
+      /** Interview the interventions are audited on */
+      interviewId: string | null;
+    }
+  /** Observer → candidate */
+  | { type: "intervention"; intervention: ObserverIntervention }
+  /** Candidate → observer: the intervention with this id was applied */
+  | { type: "ack"; id: string };
+
 // ---------------------------------------------------------------------------
 // Worker messages
 // ---------------------------------------------------------------------------
@@ -174,12 +582,26 @@ export type WorkerInMessage =
       modelAssetPath: string;
       numFaces: number;
       enableHand: boolean;
+      /** Omitted = no object detection stage */
+      objectModelAssetPath?: string;
+    }
+  | {
+      type: "frame";
+      bitmap: ImageBitmap;
+      timestamp: number;
+      /** Current DegradationTier stages */
+      objectDetection: boolean;
+      gaze: boolean;
     }
-  | { type: "frame"; bitmap: ImageBitmap; timestamp: number }
   | { type: "stop" };
 
 /** Worker → Main thread */
 export type WorkerOutMessage =
   | { type: "ready" }
-  | { type: "result"; data: DetectionResult }
+  | {
+      type: "result";
+      data: DetectionResult;
+      /** Face signature for identity continuity (single frontal face only; see faceIdentity.ts) */
+      faceSignature?: number[];
+    }
   | { type: "error"; message: string };
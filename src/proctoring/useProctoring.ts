@@ -1,40 +1,84 @@
 /**
- * useProctoring — React hook that runs MediaPipe FaceLandmarker on the main
- * thread with careful throttling.
+ * useProctoring — React hook that runs MediaPipe FaceLandmarker (plus an
+ * optional ObjectDetector stage for phones / books) with careful throttling,
+ * in ProctoringWorker when possible and on the main thread otherwise.
  *
- * Why main thread instead of Worker?
- *   MediaPipe's WASM/ESM bundle uses `self.import()` internally, which breaks
- *   in module workers due to Vite transforms and browser limitations.
- *   Main-thread execution is safe for the AI voice interview because:
- *     - Audio capture/playback runs in AudioWorklet (separate thread)
- *     - WebSocket I/O is async and non-blocking
- *     - Inference at 3 FPS ≈ 20ms every 333ms = ~6% CPU — no audio glitches
+ * Backend selection (config.inferenceMode):
+ *   - "auto": worker if supportsWorkerInference() passes, else main thread
+ *   - "worker": skip the probe; "main": never try the worker
+ *   A worker that fails to initialise within WORKER_INIT_TIMEOUT_MS, or
+ *   crashes mid-session, is replaced by main-thread inference (same scorer).
+ *   The worker loads MediaPipe's ESM bundle itself (self.import() shim in
+ *   ProctoringWorker.ts) and gets frames as transferred ImageBitmaps, so it
+ *   can run at workerFps without competing with Monaco / React.
+ *
+ * The main-thread fallback is safe for the AI voice interview because:
+ *   - Audio capture/playback runs in AudioWorklet (separate thread)
+ *   - WebSocket I/O is async and non-blocking
+ *   - Inference at 3 FPS ≈ 20ms every 333ms = ~6% CPU — no audio glitches
  *
  * Performance safeguards:
- *   - Throttled to configurable FPS (default 3)
+ *   - Throttled to configurable FPS (default 3 main thread / 8 worker)
+ *   - One frame in flight to the worker at a time
  *   - requestVideoFrameCallback preferred (fires only on new frames)
  *   - React state updates capped at 3×/sec via separate interval
  *   - Brightness computed on tiny 16×12 canvas (reused, no alloc)
+ *   - Object detection only every OBJECT_DETECTION_EVERY_N_FRAMES frames
+ *   - Microphone analysis (audioAnalyzer.ts) at 10 Hz on an AnalyserNode;
+ *     idle audio frames are not fed to the scorer
  *   - ImageBitmap.close() called immediately after use
- *   - Feature flag for low-end device detection
+ *   - Adaptive degradation tiers (degradation.ts): measured inference cost
+ *     steps FPS, input size, object detection and head pose down on weak
+ *     devices (low-end hardware starts one tier down) and back up with
+ *     headroom; each change is recorded in the session log
  */
 
 import { useCallback, useEffect, useRef, useState } from "react";
 import {
   FilesetResolver,
   FaceLandmarker,
+  ObjectDetector,
 } from "@mediapipe/tasks-vision";
 import type {
   ProctoringThresholds,
+  ProctoringPolicy,
   ProctoringFlag,
   ProctoringMetrics,
   RiskLevel,
   DetectionResult,
+  ProctoringSessionLog,
+  RiskSeries,
+  DegradationTier,
+  InferenceBackend,
+  InferenceMode,
+  WorkerInMessage,
+  WorkerOutMessage,
 } from "./types";
 import { getRiskLevel } from "./types";
-import { DEFAULT_CONFIG, isLowEndDevice } from "./thresholds";
+import {
+  AUDIO_ANALYSIS_INTERVAL_MS,
+  DEFAULT_CONFIG,
+  DEGRADATION_TIERS,
+  OBJECT_CATEGORIES,
+  OBJECT_DETECTION_EVERY_N_FRAMES,
+  WORKER_INIT_TIMEOUT_MS,
+  isLowEndDevice,
+  supportsWorkerInference,
+} from "./thresholds";
 import { logErrorToServer } from "../lib/logError";
+import { computeBrightness } from "../lib/frame-brightness";
 import { RiskScorer } from "./riskScorer";
+import { SessionLogRecorder } from "./sessionLog";
+import { RiskSeriesRecorder } from "./riskSeries";
+import { DegradationController, tierFps, type TierChange } from "./degradation";
+import {
+  FaceMatcher,
+  computeFaceSignature,
+  estimateHeadPose,
+  type FaceReference,
+} from "./faceIdentity";
+import { AudioAnalyzer, type AiPlaybackSource } from "./audioAnalyzer";
+import { ScreenSampler, hasMultipleDisplays, onDisplaysChange } from "./screenShare";
 
 // Extend HTMLVideoElement for requestVideoFrameCallback
 declare global {
@@ -53,13 +97,41 @@ declare global {
 export interface UseProctoringParams {
   enabled: boolean;
   videoRef: React.RefObject<HTMLVideoElement | null>;
+  /** Date.now() when the session started (0 = when start() is first called) */
   interviewStartTs: number;
+  /** Main-thread inference FPS */
   fps?: number;
+  /** Inference FPS while the worker backend is in use */
+  workerFps?: number;
+  /** "auto" (default) = worker when supported, with main-thread fallback */
+  inferenceMode?: InferenceMode;
   numFaces?: number;
   enableHand?: boolean;
+  /** Load the ObjectDetector stage (phone / book); init failure only disables this stage */
+  enableObjectDetection?: boolean;
   thresholds?: Partial<ProctoringThresholds>;
+  /** Org-level rule policy (JSON); omitted = built-in rules */
+  policy?: ProctoringPolicy | null;
   wasmPath?: string;
   modelAssetPath?: string;
+  objectModelAssetPath?: string;
+  /**
+   * Face enrolled in the system check (or carried from an earlier round);
+   * may arrive after init. Omitted = no identity check.
+   */
+  faceReference?: FaceReference | null;
+  /** Analyse the microphone of audioStream (second voice / background speech / whispering) */
+  enableAudio?: boolean;
+  /** Stream whose audio track is the candidate's mic; omitted / no audio track = audio stage off */
+  audioStream?: MediaStream | null;
+  /** The candidate should not be talking (aptitude / coding); enables speech and whisper flags */
+  silenceExpected?: boolean;
+  /** AI interviewer playback (voice interviews) so its echo is not mistaken for another person */
+  aiPlayback?: AiPlaybackSource | null;
+  /** Entire-screen share to watch (SCREEN_SHARE_STOPPED) and sample screenshots from */
+  screenStream?: MediaStream | null;
+  /** Flag MULTIPLE_DISPLAYS via the Window Management API where available */
+  detectMultipleDisplays?: boolean;
 }
 
 export interface UseProctoringReturn {
@@ -69,13 +141,27 @@ export interface UseProctoringReturn {
   metrics: ProctoringMetrics;
   isRunning: boolean;
   isReady: boolean;
-  isLowEnd: boolean;
+  /** Current detection tier (level 0 = full coverage) */
+  tier: DegradationTier;
+  /** Where inference is running (null before init) */
+  backend: InferenceBackend | null;
   error: string | null;
   start: () => void;
   stop: () => void;
   reset: () => void;
+  /** Report a code-editor forensics event (coding round); ignored while not running */
+  reportEditorEvent: (event: "large_paste" | "external_paste") => void;
+  /** Full scorer input log for offline replay (null before init) */
+  getSessionLog: () => ProctoringSessionLog | null;
+  /** Sampled risk score + key metrics over the session (null before the first sample) */
+  getRiskSeries: () => RiskSeries | null;
 }
 
+/** A worker frame without a reply after this long is considered lost */
+const WORKER_FRAME_TIMEOUT_MS = 2_000;
+/** Timer resolution when requestVideoFrameCallback is unavailable (FPS is capped at 15) */
+const INTERVAL_POLL_MS = 1000 / 15;
+
 const EMPTY_METRICS: ProctoringMetrics = {
   faceCount: 0,
   faceMissingDuration: 0,
@@ -90,59 +176,50 @@ const EMPTY_METRICS: ProctoringMetrics = {
   videoWidth: 0,
   videoHeight: 0,
   cameraQuality: "ok",
+  faceSimilarity: null,
+  voiceActive: false,
 };
 
 // ---------------------------------------------------------------------------
-// Brightness helper (reusable tiny canvas)
+// Inference input (degradation tiers)
 // ---------------------------------------------------------------------------
 
-let _brightnessCanvas: HTMLCanvasElement | null = null;
-let _brightnessCtx: CanvasRenderingContext2D | null = null;
+let _inputCanvas: HTMLCanvasElement | null = null;
 
-function computeBrightness(source: HTMLVideoElement): number {
-  if (!_brightnessCanvas) {
-    _brightnessCanvas = document.createElement("canvas");
-    _brightnessCanvas.width = 16;
-    _brightnessCanvas.height = 12;
-    _brightnessCtx = _brightnessCanvas.getContext("2d", { willReadFrequently: true });
-  }
-  if (!_brightnessCtx) return 128;
-  _brightnessCtx.drawImage(source, 0, 0, 16, 12);
-  const data = _brightnessCtx.getImageData(0, 0, 16, 12).data;
-  let sum = 0;
-  const px = data.length / 4;
-  for (let i = 0; i < data.length; i += 4) {
-    sum += data[i]! * 0.299 + data[i + 1]! * 0.587 + data[i + 2]! * 0.114;
-  }
-  return Math.round(sum / px);
+/** Size to downscale the frame to for a tier's input width (null = use it as is) */
+function scaledSize(video: HTMLVideoElement, inputWidth: number): { width: number; height: number } | null {
+  if (!inputWidth || video.videoWidth <= inputWidth) return null;
+  return { width: inputWidth, height: Math.round((video.videoHeight * inputWidth) / video.videoWidth) };
+}
+
+/** Main-thread inference input: the video, or a reused canvas with the downscaled frame */
+function inferenceInput(video: HTMLVideoElement, inputWidth: number): HTMLVideoElement | HTMLCanvasElement {
+  const size = scaledSize(video, inputWidth);
+  if (!size) return video;
+  _inputCanvas ??= document.createElement("canvas");
+  if (_inputCanvas.width !== size.width) _inputCanvas.width = size.width;
+  if (_inputCanvas.height !== size.height) _inputCanvas.height = size.height;
+  _inputCanvas.getContext("2d")?.drawImage(video, 0, 0, size.width, size.height);
+  return _inputCanvas;
 }
 
 // ---------------------------------------------------------------------------
-// Head-pose estimation from face landmarks
+// Object detection (phone / book)
 // ---------------------------------------------------------------------------
 
-function estimateHeadPose(
-  landmarks: { x: number; y: number; z: number }[],
-): { yaw: number; pitch: number } {
-  const nose = landmarks[1]!;
-  const leftEye = landmarks[33]!;
-  const rightEye = landmarks[263]!;
-  const chin = landmarks[152]!;
-
-  const leftDist = Math.abs(nose.x - leftEye.x);
-  const rightDist = Math.abs(nose.x - rightEye.x);
-  const total = leftDist + rightDist || 0.001;
-  const yaw = (leftDist / total - 0.5) * -180;
+type ObjectScores = Pick<Required<DetectionResult>, "phoneScore" | "bookScore">;
 
-  const eyeY = (leftEye.y + rightEye.y) / 2;
-  const vertSpan = chin.y - eyeY || 0.001;
-  const noseRatio = (nose.y - eyeY) / vertSpan;
-  const pitch = (noseRatio - 0.62) * 150;
+const NO_OBJECTS: ObjectScores = { phoneScore: 0, bookScore: 0 };
 
-  return {
-    yaw: Math.round(yaw * 10) / 10,
-    pitch: Math.round(pitch * 10) / 10,
-  };
+function detectObjects(detector: ObjectDetector, video: HTMLVideoElement | HTMLCanvasElement, ts: number): ObjectScores {
+  const scores = { ...NO_OBJECTS };
+  for (const det of detector.detectForVideo(video, ts).detections) {
+    for (const cat of det.categories) {
+      const field = OBJECT_CATEGORIES[cat.categoryName as keyof typeof OBJECT_CATEGORIES];
+      if (field && cat.score > scores[field]) scores[field] = cat.score;
+    }
+  }
+  return scores;
 }
 
 // ---------------------------------------------------------------------------
@@ -155,10 +232,22 @@ export function useProctoring(params: UseProctoringParams): UseProctoringReturn
     videoRef,
     interviewStartTs,
     fps = DEFAULT_CONFIG.fps,
+    workerFps = DEFAULT_CONFIG.workerFps,
+    inferenceMode = DEFAULT_CONFIG.inferenceMode,
     numFaces = DEFAULT_CONFIG.numFaces,
+    enableObjectDetection = DEFAULT_CONFIG.enableObjectDetection,
     thresholds,
+    policy,
     wasmPath = DEFAULT_CONFIG.wasmPath,
     modelAssetPath = DEFAULT_CONFIG.modelAssetPath,
+    objectModelAssetPath = DEFAULT_CONFIG.objectModelAssetPath,
+    faceReference,
+    enableAudio = DEFAULT_CONFIG.enableAudioProctoring,
+    audioStream,
+    silenceExpected = false,
+    aiPlayback,
+    screenStream,
+    detectMultipleDisplays = false,
   } = params;
 
   // State
@@ -168,35 +257,160 @@ export function useProctoring(params: UseProctoringParams): UseProctoringReturn
   const [isRunning, setIsRunning] = useState(false);
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [backend, setBackend] = useState<InferenceBackend | null>(null);
 
   // Refs
   const landmarkerRef = useRef<FaceLandmarker | null>(null);
+  const objectDetectorRef = useRef<ObjectDetector | null>(null);
+  const objectFrameRef = useRef(0);
+  const objectScoresRef = useRef<ObjectScores>(NO_OBJECTS);
+  const faceMatcherRef = useRef<FaceMatcher | null>(null);
+  const faceReferenceRef = useRef(faceReference ?? null);
+  faceReferenceRef.current = faceReference ?? null;
+  const faceSimilarityRef = useRef<number | undefined>(undefined);
+  const audioAnalyzerRef = useRef<AudioAnalyzer | null>(null);
+  const audioActiveRef = useRef(false);
+  const audioHandle = useRef(0);
   const scorerRef = useRef<RiskScorer | null>(null);
+  const recorderRef = useRef<SessionLogRecorder | null>(null);
+  const riskSeriesRef = useRef<RiskSeriesRecorder | null>(null);
+  const interviewStartTsRef = useRef(interviewStartTs);
+  interviewStartTsRef.current = interviewStartTs;
+  const anchoredRef = useRef(false);
+  /** Session start on the scorer clock (set when monitoring first starts) */
+  const sessionStartClockRef = useRef(0);
   const runningRef = useRef(false);
   const lastCaptureTs = useRef(0);
   const rvfcHandle = useRef(0);
   const intervalHandle = useRef(0);
   const stateUpdateHandle = useRef(0);
   const processingRef = useRef(false);
-  const lowEnd = useRef(isLowEndDevice());
+  // Low-end hardware starts one tier down; measured inference cost decides from there
+  const initialTierLevel = useRef(isLowEndDevice() ? 1 : 0);
+  const degradationRef = useRef<DegradationController | null>(null);
+  const [tier, setTier] = useState<DegradationTier>(DEGRADATION_TIERS[initialTierLevel.current]!);
+  const tierRef = useRef(tier);
+  const workerRef = useRef<Worker | null>(null);
+  /** performance.now() when the in-flight worker frame was sent (0 = none) */
+  const workerPendingRef = useRef(0);
+  const backendRef = useRef<InferenceBackend | null>(null);
+
+  // Read by the capture loop on every frame, so a mid-session fallback or tier change takes effect immediately
+  const baseFpsRef = useRef(fps);
+  baseFpsRef.current = backend === "worker" ? workerFps : fps;
+  const frameIntervalRef = useRef(0);
+  frameIntervalRef.current = 1000 / tierFps(tierRef.current, baseFpsRef.current);
+
+  // ---- Shared result path (main thread or worker) ----
+  const handleDetection = useCallback((detection: DetectionResult, signature: number[] | null) => {
+    // Identity continuity against the enrolled face (frontal single-face frames only)
+    if (detection.faceCount === 1) {
+      const reference = faceReferenceRef.current;
+      if (signature && reference) {
+        if (faceMatcherRef.current?.reference !== reference) faceMatcherRef.current = new FaceMatcher(reference);
+        faceSimilarityRef.current = faceMatcherRef.current.add(signature) ?? faceSimilarityRef.current;
+      }
+    } else {
+      faceMatcherRef.current?.clear();
+      faceSimilarityRef.current = undefined;
+    }
 
-  const frameInterval = 1000 / fps;
+    scorerRef.current?.processDetection({
+      ...detection,
+      ...(faceSimilarityRef.current !== undefined && { faceSimilarity: faceSimilarityRef.current }),
+    });
+  }, []);
+
+  const handleWorkerMessage = useCallback(
+    (msg: WorkerOutMessage) => {
+      if (msg.type === "result") {
+        workerPendingRef.current = 0;
+        // Round trip incl. bitmap transfer: what a frame costs at this tier
+        degradationRef.current?.noteInference(performance.now(), performance.now() - msg.data.timestamp);
+        if (!runningRef.current) return;
+        const video = videoRef.current;
+        handleDetection(
+          { ...msg.data, videoWidth: video?.videoWidth ?? 0, videoHeight: video?.videoHeight ?? 0 },
+          msg.faceSignature ?? null,
+        );
+      } else if (msg.type === "error") {
+        workerPendingRef.current = 0;
+        console.warn("[Proctoring] Worker:", msg.message);
+      }
+    },
+    [videoRef, handleDetection],
+  );
 
   // ---- Initialize MediaPipe on mount ----
   useEffect(() => {
     if (!enabled) return;
     let cancelled = false;
 
-    console.log("[Proctoring] Initializing MediaPipe on main thread...");
+    const createScorer = () => {
+      const recorder = new SessionLogRecorder(interviewStartTs, thresholds, policy);
+      const scorer = new RiskScorer(interviewStartTs, thresholds, policy, recorder.scorerOptions());
+      recorder.setClockStart(scorer.getClockStart());
+      recorderRef.current = recorder;
+      riskSeriesRef.current = new RiskSeriesRecorder();
+      degradationRef.current = new DegradationController(initialTierLevel.current, performance.now());
+      tierRef.current = degradationRef.current.tier;
+      setTier(degradationRef.current.tier);
+      scorerRef.current = scorer;
+      anchoredRef.current = false;
+      faceMatcherRef.current = null;
+      faceSimilarityRef.current = undefined;
+    };
 
-    const initTimeout = window.setTimeout(() => {
+    const onInitTimeout = () => {
       if (!cancelled) {
         console.warn("[Proctoring] Init timeout — model loading took >30s");
         setError("Proctoring init timed out. Check network / console.");
       }
-    }, 30_000);
+    };
+    let initTimeout = window.setTimeout(onInitTimeout, 30_000);
 
-    (async () => {
+    // The scorer survives a worker → main thread fallback mid-session
+    const markReady = (mode: InferenceBackend) => {
+      clearTimeout(initTimeout);
+      if (!scorerRef.current) createScorer();
+      backendRef.current = mode;
+      setBackend(mode);
+      setIsReady(true);
+      setError(null);
+    };
+
+    // Optional stage: loaded after the face model so a missing/slow object
+    // model never delays or breaks face proctoring.
+    const initObjectDetector = async (
+      vision: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>,
+      delegate: "GPU" | "CPU",
+    ) => {
+      if (!enableObjectDetection) {
+        console.log("[Proctoring] ObjectDetector disabled (enableObjectDetection off)");
+        return;
+      }
+      try {
+        const detector = await ObjectDetector.createFromOptions(vision, {
+          baseOptions: { modelAssetPath: objectModelAssetPath, delegate },
+          runningMode: "VIDEO",
+          scoreThreshold: 0.3,
+          maxResults: 5,
+          categoryAllowlist: Object.keys(OBJECT_CATEGORIES),
+        });
+        if (cancelled) {
+          detector.close();
+          return;
+        }
+        objectDetectorRef.current = detector;
+        console.log(`[Proctoring] ObjectDetector ready ✓ (${delegate} delegate)`);
+      } catch (err) {
+        console.warn("[Proctoring] ObjectDetector unavailable — phone/book detection disabled", err);
+      }
+    };
+
+    const initMainThread = async () => {
+      clearTimeout(initTimeout);
+      initTimeout = window.setTimeout(onInitTimeout, 30_000);
       try {
         console.log("[Proctoring] Loading WASM from:", wasmPath);
         const vision = await FilesetResolver.forVisionTasks(wasmPath);
@@ -219,11 +433,9 @@ export function useProctoring(params: UseProctoringParams): UseProctoringReturn
         }
 
         landmarkerRef.current = landmarker;
-        scorerRef.current = new RiskScorer(interviewStartTs, thresholds);
-        clearTimeout(initTimeout);
-        setIsReady(true);
-        setError(null);
+        markReady("main");
         console.log("[Proctoring] FaceLandmarker ready ✓ (GPU delegate, main thread)");
+        void initObjectDetector(vision, "GPU");
       } catch (err) {
         if (cancelled) return;
         // Retry with CPU if GPU fails
@@ -246,11 +458,9 @@ export function useProctoring(params: UseProctoringParams): UseProctoringReturn
             return;
           }
           landmarkerRef.current = landmarker;
-          scorerRef.current = new RiskScorer(interviewStartTs, thresholds);
-          clearTimeout(initTimeout);
-          setIsReady(true);
-          setError(null);
+          markReady("main");
           console.log("[Proctoring] FaceLandmarker ready ✓ (CPU delegate, main thread)");
+          void initObjectDetector(vision, "CPU");
         } catch (err2) {
           if (cancelled) return;
           clearTimeout(initTimeout);
@@ -260,62 +470,215 @@ export function useProctoring(params: UseProctoringParams): UseProctoringReturn
           logErrorToServer(msg, { details: err2 instanceof Error ? err2.stack : undefined, source: "proctoring" });
         }
       }
+    };
+
+    const onWorkerCrash = (reason: string) => {
+      const worker = workerRef.current;
+      if (!worker || cancelled) return;
+      worker.terminate();
+      workerRef.current = null;
+      workerPendingRef.current = 0;
+      console.error("[Proctoring] Worker crashed — falling back to main thread:", reason);
+      logErrorToServer(`Proctoring worker crashed: ${reason}`, { source: "proctoring" });
+      void initMainThread();
+    };
+
+    // Resolves true once the worker reports ready; false on error / timeout
+    const initWorker = () =>
+      new Promise<boolean>((resolve) => {
+        let worker: Worker;
+        try {
+          worker = new Worker(new URL("./ProctoringWorker.ts", import.meta.url), { type: "module" });
+        } catch (err) {
+          console.warn("[Proctoring] Worker could not be created", err);
+          resolve(false);
+          return;
+        }
+
+        let settled = false;
+        const fail = (reason: string) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timer);
+          worker.terminate();
+          console.warn("[Proctoring] Worker init failed:", reason);
+          resolve(false);
+        };
+        const timer = window.setTimeout(() => fail("timeout"), WORKER_INIT_TIMEOUT_MS);
+
+        worker.onerror = (e) => fail(e.message || "worker error");
+        worker.onmessage = (e: MessageEvent<WorkerOutMessage>) => {
+          if (settled) return;
+          if (e.data.type === "error") {
+            fail(e.data.message);
+          } else if (e.data.type === "ready") {
+            settled = true;
+            clearTimeout(timer);
+            if (cancelled) {
+              worker.terminate();
+            } else {
+              workerRef.current = worker;
+              worker.onmessage = (ev: MessageEvent<WorkerOutMessage>) => handleWorkerMessage(ev.data);
+              worker.onerror = (ev) => onWorkerCrash(ev.message || "worker error");
+            }
+            resolve(true);
+          }
+        };
+
+        const init: WorkerInMessage = {
+          type: "init",
+          wasmPath,
+          modelAssetPath,
+          numFaces,
+          enableHand: false,
+          ...(enableObjectDetection && { objectModelAssetPath }),
+        };
+        worker.postMessage(init);
+      });
+
+    (async () => {
+      const tryWorker = inferenceMode === "worker" || (inferenceMode === "auto" && supportsWorkerInference());
+      if (tryWorker) {
+        console.log("[Proctoring] Initializing MediaPipe in worker...");
+        if (await initWorker()) {
+          if (!cancelled) {
+            markReady("worker");
+            console.log("[Proctoring] Worker ready ✓ (off main thread)");
+          }
+          return;
+        }
+        if (cancelled) return;
+        console.warn("[Proctoring] Worker unavailable — falling back to main thread");
+      }
+      console.log("[Proctoring] Initializing MediaPipe on main thread...");
+      await initMainThread();
     })();
 
     return () => {
       cancelled = true;
       clearTimeout(initTimeout);
+      if (workerRef.current) {
+        const stopMsg: WorkerInMessage = { type: "stop" };
+        workerRef.current.postMessage(stopMsg);
+        workerRef.current.terminate();
+        workerRef.current = null;
+      }
+      workerPendingRef.current = 0;
       if (landmarkerRef.current) {
         landmarkerRef.current.close();
         landmarkerRef.current = null;
       }
+      if (objectDetectorRef.current) {
+        objectDetectorRef.current.close();
+        objectDetectorRef.current = null;
+      }
+      objectScoresRef.current = NO_OBJECTS;
       scorerRef.current = null;
+      backendRef.current = null;
+      setBackend(null);
       setIsReady(false);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [enabled]);
 
+  // ---- Worker frame hand-off ----
+  const sendFrameToWorker = useCallback((video: HTMLVideoElement, worker: Worker) => {
+    const ts = performance.now();
+    workerPendingRef.current = ts;
+    const tier = tierRef.current;
+    const size = scaledSize(video, tier.inputWidth);
+    (size
+      ? createImageBitmap(video, { resizeWidth: size.width, resizeHeight: size.height, resizeQuality: "low" })
+      : createImageBitmap(video)
+    )
+      .then((bitmap) => {
+        if (!runningRef.current || workerRef.current !== worker) {
+          bitmap.close();
+          workerPendingRef.current = 0;
+          return;
+        }
+        const msg: WorkerInMessage = {
+          type: "frame",
+          bitmap,
+          timestamp: ts,
+          objectDetection: tier.objectDetection,
+          gaze: tier.gaze,
+        };
+        worker.postMessage(msg, [bitmap]);
+      })
+      .catch(() => {
+        workerPendingRef.current = 0;
+      });
+  }, []);
+
   // ---- Single inference tick ----
   const runInference = useCallback(() => {
     const video = videoRef.current;
-    const landmarker = landmarkerRef.current;
-    if (!video || !landmarker || !runningRef.current || processingRef.current) return;
+    if (!video || !runningRef.current) return;
     if (video.readyState < 2 || video.videoWidth === 0) return;
 
+    if (backendRef.current === "worker") {
+      const worker = workerRef.current;
+      if (!worker) return; // crashed; main-thread fallback still loading
+      // One frame in flight; a lost reply frees the slot after WORKER_FRAME_TIMEOUT_MS
+      const pending = workerPendingRef.current;
+      if (pending && performance.now() - pending < WORKER_FRAME_TIMEOUT_MS) return;
+      sendFrameToWorker(video, worker);
+      return;
+    }
+
+    const landmarker = landmarkerRef.current;
+    if (!landmarker || processingRef.current) return;
+
     processingRef.current = true;
     const ts = performance.now();
+    const tier = tierRef.current;
 
     try {
       // Brightness (tiny canvas, < 0.1ms)
       const brightness = computeBrightness(video);
 
-      // Face landmarks (~15-25ms on GPU, ~20-35ms on CPU)
-      const result = landmarker.detectForVideo(video, ts);
+      // Face landmarks (~15-25ms on GPU, ~20-35ms on CPU) on the tier's input size
+      const input = inferenceInput(video, tier.inputWidth);
+      const result = landmarker.detectForVideo(input, ts);
 
       const faceCount = result.faceLandmarks.length;
       let yaw = 0;
       let pitch = 0;
-      if (faceCount >= 1 && result.faceLandmarks[0]!.length >= 264) {
+      // Lowest tier: face presence / count only
+      if (tier.gaze && faceCount >= 1 && result.faceLandmarks[0]!.length >= 264) {
         const pose = estimateHeadPose(result.faceLandmarks[0]!);
         yaw = pose.yaw;
         pitch = pose.pitch;
       }
+      const signature = tier.gaze && faceCount === 1 ? computeFaceSignature(result.faceLandmarks[0]!, yaw, pitch) : null;
+
+      // Phone / book (~30-60ms) every Nth frame; last scores carry over in between
+      const detector = objectDetectorRef.current;
+      if (!tier.objectDetection) {
+        objectScoresRef.current = NO_OBJECTS;
+      } else if (detector && objectFrameRef.current++ % OBJECT_DETECTION_EVERY_N_FRAMES === 0) {
+        objectScoresRef.current = detectObjects(detector, input, ts);
+      }
 
-      const detection: DetectionResult = {
-        faceCount,
-        yaw,
-        pitch,
-        brightness,
-        handNearFace: false,
-        timestamp: ts,
-        videoWidth: video.videoWidth,
-        videoHeight: video.videoHeight,
-      };
-
-      scorerRef.current?.processDetection(detection);
+      handleDetection(
+        {
+          faceCount,
+          yaw,
+          pitch,
+          brightness,
+          handNearFace: false,
+          timestamp: ts,
+          videoWidth: video.videoWidth,
+          videoHeight: video.videoHeight,
+          ...objectScoresRef.current,
+        },
+        signature,
+      );
 
       // Warn if inference is too slow
       const elapsed = performance.now() - ts;
+      degradationRef.current?.noteInference(performance.now(), elapsed);
       if (elapsed > 50) {
         console.debug(`[Proctoring] Inference took ${elapsed.toFixed(0)}ms (target <50ms)`);
       }
@@ -324,17 +687,61 @@ export function useProctoring(params: UseProctoringParams): UseProctoringReturn
     } finally {
       processingRef.current = false;
     }
-  }, [videoRef]);
+  }, [videoRef, handleDetection, sendFrameToWorker]);
+
+  // ---- Single audio frame ----
+  const runAudioFrame = useCallback(() => {
+    const analyzer = audioAnalyzerRef.current;
+    const scorer = scorerRef.current;
+    if (!analyzer || !scorer || !runningRef.current) return;
+    const frame = analyzer.analyse(performance.now());
+    const active = frame.voiceActive || frame.whisper || frame.pitchShift > 0;
+    // Back-to-back idle frames change nothing; skip them to keep the session log small
+    if (active || audioActiveRef.current) scorer.processAudio(frame);
+    audioActiveRef.current = active;
+  }, []);
+
+  const stopAudio = useCallback(() => {
+    if (audioHandle.current) {
+      clearInterval(audioHandle.current);
+      audioHandle.current = 0;
+    }
+    audioAnalyzerRef.current?.stop();
+    audioAnalyzerRef.current = null;
+    audioActiveRef.current = false;
+  }, []);
+
+  // ---- Degradation tier change ----
+  const applyTier = useCallback((change: TierChange) => {
+    tierRef.current = change.to;
+    frameIntervalRef.current = 1000 / tierFps(change.to, baseFpsRef.current);
+    recorderRef.current?.addTierChange(performance.now(), change.to.level);
+    setTier(change.to);
+    console.info(
+      `[Proctoring] Detection tier ${change.from.level} → ${change.to.level} (${change.to.label}): ${change.reason}`,
+    );
+  }, []);
 
   // ---- React state sync (throttled) ----
   const syncState = useCallback(() => {
     const scorer = scorerRef.current;
     if (!scorer) return;
     scorer.tick();
-    setRiskScore(scorer.getScore());
+    const score = scorer.getScore();
+    const metrics = scorer.getMetrics();
+    if (anchoredRef.current) {
+      riskSeriesRef.current?.sample(performance.now() - sessionStartClockRef.current, score, metrics);
+    }
+    // Hidden tabs throttle frames regardless of the device; judge tiers only while visible
+    const degradation = degradationRef.current;
+    if (degradation && runningRef.current && backendRef.current && !document.hidden) {
+      const change = degradation.evaluate(performance.now(), metrics.inferredFps, baseFpsRef.current, backendRef.current);
+      if (change) applyTier(change);
+    }
+    setRiskScore(score);
     setFlags([...scorer.getFlags()]);
-    setMetrics(scorer.getMetrics());
-  }, []);
+    setMetrics(metrics);
+  }, [applyTier]);
 
   // ---- Browser event listeners (visibility, blur, fullscreen, keyboard) ----
   useEffect(() => {
@@ -374,6 +781,36 @@ export function useProctoring(params: UseProctoringParams): UseProctoringReturn
     };
   }, [enabled, isReady]);
 
+  // ---- Screen share: stop detection + screenshot sampling ----
+  useEffect(() => {
+    if (!isRunning || !screenStream) return;
+    const track = screenStream.getVideoTracks()[0];
+    if (!track || track.readyState === "ended") return;
+    const onEnded = () => scorerRef.current?.processScreenShareStopped();
+    track.addEventListener("ended", onEnded);
+    const sampler = new ScreenSampler((sample) => {
+      recorderRef.current?.addScreenshot({
+        ...sample,
+        t: Math.round(performance.now() - sessionStartClockRef.current),
+      });
+    });
+    sampler.start(screenStream);
+    return () => {
+      track.removeEventListener("ended", onEnded);
+      sampler.stop();
+    };
+  }, [isRunning, screenStream]);
+
+  // ---- Extra displays (checked at start and whenever the setup changes) ----
+  useEffect(() => {
+    if (!isRunning || !detectMultipleDisplays) return;
+    const check = () => {
+      if (hasMultipleDisplays()) scorerRef.current?.processMultipleDisplays();
+    };
+    check();
+    return onDisplaysChange(check);
+  }, [isRunning, detectMultipleDisplays]);
+
   // ---- Start / Stop / Reset ----
 
   const start = useCallback(() => {
@@ -382,26 +819,67 @@ export function useProctoring(params: UseProctoringParams): UseProctoringReturn
     setIsRunning(true);
     lastCaptureTs.current = 0;
 
+    // Flag timestamps must be "ms since session start" on the scorer's
+    // performance.now() clock, but callers pass a Date.now() start (often set
+    // after the scorer was built). Convert once, when monitoring begins.
+    const scorer = scorerRef.current;
+    if (scorer && !anchoredRef.current) {
+      const wallStart = interviewStartTsRef.current;
+      const startOnClock = performance.now() - (wallStart > 0 ? Math.max(0, Date.now() - wallStart) : 0);
+      scorer.setInterviewStart(startOnClock);
+      recorderRef.current?.setInterviewStartTs(startOnClock);
+      sessionStartClockRef.current = startOnClock;
+      anchoredRef.current = true;
+      // Coverage at the start, so a session that never changes tier is still documented
+      recorderRef.current?.addTierChange(performance.now(), tierRef.current.level);
+    }
+
     const video = videoRef.current;
 
-    // Frame capture loop
+    // Frame capture loop (interval read per frame: the backend can change mid-session)
+    const onTick = (now: number) => {
+      if (now - lastCaptureTs.current >= frameIntervalRef.current) {
+        lastCaptureTs.current = now;
+        runInference();
+      }
+    };
     if (video && typeof video.requestVideoFrameCallback === "function") {
       const onFrame = (now: DOMHighResTimeStamp) => {
         if (!runningRef.current) return;
-        if (now - lastCaptureTs.current >= frameInterval) {
-          lastCaptureTs.current = now;
-          runInference();
-        }
+        onTick(now);
         videoRef.current?.requestVideoFrameCallback?.(onFrame);
       };
       rvfcHandle.current = video.requestVideoFrameCallback(onFrame);
     } else {
-      intervalHandle.current = window.setInterval(runInference, frameInterval);
+      intervalHandle.current = window.setInterval(() => onTick(performance.now()), INTERVAL_POLL_MS);
+    }
+
+    // Microphone analysis (optional stage)
+    if (enableAudio && audioStream) {
+      const analyzer = new AudioAnalyzer({ silenceExpected, aiPlayback });
+      try {
+        if (analyzer.start(audioStream)) {
+          audioAnalyzerRef.current = analyzer;
+          audioHandle.current = window.setInterval(runAudioFrame, AUDIO_ANALYSIS_INTERVAL_MS);
+        }
+      } catch (err) {
+        console.warn("[Proctoring] Audio analysis unavailable", err);
+      }
     }
 
     // State sync 3×/sec
     stateUpdateHandle.current = window.setInterval(syncState, 333);
-  }, [isReady, videoRef, frameInterval, runInference, syncState]);
+  }, [
+    isReady,
+    videoRef,
+    runInference,
+    runAudioFrame,
+    syncState,
+    enableAudio,
+    audioStream,
+    silenceExpected,
+    aiPlayback,
+  ]);
 
   const stop = useCallback(() => {
     runningRef.current = false;
@@ -418,8 +896,9 @@ export function useProctoring(params: UseProctoringParams): UseProctoringReturn
       clearInterval(stateUpdateHandle.current);
       stateUpdateHandle.current = 0;
     }
+    stopAudio();
     syncState();
-  }, [videoRef, syncState]);
+  }, [videoRef, syncState, stopAudio]);
 
   const reset = useCallback(() => {
     scorerRef.current?.reset();
@@ -428,12 +907,31 @@ export function useProctoring(params: UseProctoringParams): UseProctoringReturn
     setMetrics(EMPTY_METRICS);
   }, []);
 
+  const reportEditorEvent = useCallback((event: "large_paste" | "external_paste") => {
+    const scorer = scorerRef.current;
+    if (!scorer || !runningRef.current) return;
+    if (event === "large_paste") scorer.processLargePaste();
+    else scorer.processExternalPaste();
+  }, []);
+
+  const getSessionLog = useCallback(
+    (): ProctoringSessionLog | null => recorderRef.current?.toLog() ?? null,
+    [],
+  );
+
+  const getRiskSeries = useCallback(
+    (): RiskSeries | null => riskSeriesRef.current?.toSeries() ?? null,
+    [],
+  );
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       runningRef.current = false;
       if (intervalHandle.current) clearInterval(intervalHandle.current);
       if (stateUpdateHandle.current) clearInterval(stateUpdateHandle.current);
+      if (audioHandle.current) clearInterval(audioHandle.current);
+      audioAnalyzerRef.current?.stop();
     };
   }, []);
 
@@ -444,10 +942,14 @@ export function useProctoring(params: UseProctoringParams): UseProctoringReturn
     metrics,
     isRunning,
     isReady,
-    isLowEnd: lowEnd.current,
+    tier,
+    backend,
     error,
     start,
     stop,
     reset,
+    reportEditorEvent,
+    getSessionLog,
+    getRiskSeries,
   };
 }
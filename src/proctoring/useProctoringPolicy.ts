@@ -0,0 +1,90 @@
+/**
+ * useProctoringPolicy — Resolves the ProctoringConfig for the current session
+ * from the backend (interview → organization → platform default).
+ *
+ * Falls back to DEFAULT_CONFIG when the request fails so a policy outage never
+ * blocks a candidate from starting; `isLoading` lets callers hold proctoring
+ * init until the policy is known (the RiskScorer is built once per init).
+ */
+
+import { useMemo } from "react";
+import type { FlagType, InferenceMode, ProctoringConfig } from "./types";
+import { FLAG_POINTS } from "./types";
+import { DEFAULT_CONFIG } from "./thresholds";
+import { parseProctoringPolicy, parseThresholds } from "./ruleEngine";
+import {
+  useGetProctoringPolicyQuery,
+  type ProctoringPolicyResponse,
+} from "../store/endpoints/proctoring";
+
+export interface UseProctoringPolicyParams {
+  interviewId?: string | null;
+  /** Skip the request (e.g. before the proctored phase starts) */
+  skip?: boolean;
+}
+
+export interface UseProctoringPolicyReturn {
+  config: ProctoringConfig;
+  source: ProctoringPolicyResponse["source"];
+  isLoading: boolean;
+}
+
+const INFERENCE_MODES: readonly InferenceMode[] = ["auto", "worker", "main"];
+
+/**
+ * Merge a backend policy response over DEFAULT_CONFIG, dropping invalid values.
+ * Remote thresholds are clamped and folded into the policy (the policy's own
+ * thresholds win), so the scorer and the session log apply them at the policy
+ * layer; `thresholds` on the result is the effective set, for display only.
+ */
+export function resolveProctoringConfig(remote: ProctoringPolicyResponse | undefined | null): ProctoringConfig {
+  if (!remote) return DEFAULT_CONFIG;
+  const parsed = parseProctoringPolicy(remote.policy);
+  const remoteThresholds = parseThresholds(remote.thresholds);
+  const policy =
+    remoteThresholds || parsed
+      ? { ...parsed, ...(remoteThresholds && { thresholds: { ...remoteThresholds, ...parsed?.thresholds } }) }
+      : null;
+  const malpracticeFlagTypes = Array.isArray(remote.malpracticeFlagTypes)
+    ? remote.malpracticeFlagTypes.filter((t): t is FlagType => t in FLAG_POINTS)
+    : DEFAULT_CONFIG.malpracticeFlagTypes;
+
+  return {
+    ...DEFAULT_CONFIG,
+    enabled: remote.enabled ?? DEFAULT_CONFIG.enabled,
+    fps: typeof remote.fps === "number" && remote.fps > 0 ? Math.min(remote.fps, 15) : DEFAULT_CONFIG.fps,
+    workerFps:
+      typeof remote.workerFps === "number" && remote.workerFps > 0
+        ? Math.min(remote.workerFps, 15)
+        : DEFAULT_CONFIG.workerFps,
+    inferenceMode:
+      remote.inferenceMode && INFERENCE_MODES.includes(remote.inferenceMode)
+        ? remote.inferenceMode
+        : DEFAULT_CONFIG.inferenceMode,
+    numFaces: typeof remote.numFaces === "number" && remote.numFaces >= 1 ? remote.numFaces : DEFAULT_CONFIG.numFaces,
+    enableHand: remote.enableHand ?? DEFAULT_CONFIG.enableHand,
+    enableObjectDetection: remote.enableObjectDetection ?? DEFAULT_CONFIG.enableObjectDetection,
+    enableAudioProctoring: remote.enableAudioProctoring ?? DEFAULT_CONFIG.enableAudioProctoring,
+    enableScreenShare: remote.enableScreenShare ?? DEFAULT_CONFIG.enableScreenShare,
+    thresholds: { ...DEFAULT_CONFIG.thresholds, ...policy?.thresholds },
+    policy,
+    malpracticeFlagTypes,
+  };
+}
+
+export function useProctoringPolicy(params: UseProctoringPolicyParams = {}): UseProctoringPolicyReturn {
+  const { interviewId, skip = false } = params;
+  const args = interviewId ? { interviewId } : {};
+  const { data, isLoading, isError } = useGetProctoringPolicyQuery(args, { skip });
+
+  const config = useMemo(
+    () => (isError ? DEFAULT_CONFIG : resolveProctoringConfig(data)),
+    [data, isError],
+  );
+
+  return {
+    config,
+    source: isError || !data ? "default" : data.source,
+    isLoading: !skip && isLoading,
+  };
+}
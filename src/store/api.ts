@@ -108,6 +108,6 @@ const baseQueryWithReauth: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQue
 export const api = createApi({
   reducerPath: "api",
   baseQuery: baseQueryWithReauth,
-  tagTypes: ["User", "Interview", "Aptitude", "Coding", "Settings", "Credits", "ErrorLog"],
+  tagTypes: ["User", "Interview", "Aptitude", "Coding", "Settings", "Credits", "ErrorLog", "Proctoring", "Appeal", "FlagReview", "QuestionBank", "ScoringProfile"],
   endpoints: () => ({}),
 });
@@ -0,0 +1,84 @@
+/**
+ * Proctoring Appeals API — Candidates contest individual proctoring flags;
+ * reviewers accept/reject them. Accepted flags are excluded when the backend
+ * recomputes the session's risk score.
+ */
+
+import { api } from "../api";
+import type { PaginatedResponse } from "./interviews";
+import type { ProctoredSessionType } from "./proctoring";
+
+export type AppealSessionType = ProctoredSessionType;
+export type AppealStatus = "PENDING" | "ACCEPTED" | "REJECTED";
+
+export interface FlagAppeal {
+  id: string;
+  sessionType: AppealSessionType;
+  sessionId: string;
+  flagId: string;
+  flagType: string;
+  /** Milliseconds since session start (copied from the flag) */
+  flagTimestamp: number;
+  flagMessage: string;
+  reason: string;
+  note: string | null;
+  status: AppealStatus;
+  reviewerNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  candidate: { id: string; name: string; email: string };
+  reviewer: { id: string; name: string } | null;
+}
+
+export interface CreateFlagAppealsBody {
+  sessionType: AppealSessionType;
+  sessionId: string;
+  appeals: {
+    flagId: string;
+    flagType: string;
+    flagTimestamp: number;
+    flagMessage: string;
+    reason: string;
+    note?: string;
+  }[];
+}
+
+export interface ReviewAppealResponse {
+  appeal: FlagAppeal;
+  /** Session risk score after excluding all accepted flags */
+  adjustedRiskScore: number | null;
+}
+
+const appealsApi = api.injectEndpoints({
+  endpoints: (builder) => ({
+    createFlagAppeals: builder.mutation<FlagAppeal[], CreateFlagAppealsBody>({
+      query: (body) => ({ url: "/appeals", method: "POST", body }),
+      invalidatesTags: ["Appeal"],
+    }),
+    listSessionAppeals: builder.query<FlagAppeal[], { sessionType: AppealSessionType; sessionId: string }>({
+      query: (params) => ({ url: "/appeals/session", params }),
+      providesTags: ["Appeal"],
+    }),
+    listAppeals: builder.query<
+      PaginatedResponse<FlagAppeal>,
+      { page?: number; limit?: number; status?: AppealStatus; sessionType?: AppealSessionType } | void
+    >({
+      query: (params) => ({ url: "/appeals", params: params || {} }),
+      providesTags: ["Appeal"],
+    }),
+    reviewAppeal: builder.mutation<
+      ReviewAppealResponse,
+      { id: string; status: Exclude<AppealStatus, "PENDING">; reviewerNote?: string }
+    >({
+      query: ({ id, ...body }) => ({ url: `/appeals/${id}/review`, method: "PATCH", body }),
+      invalidatesTags: ["Appeal", "Interview", "Aptitude", "Coding"],
+    }),
+  }),
+});
+
+export const {
+  useCreateFlagAppealsMutation,
+  useListSessionAppealsQuery,
+  useListAppealsQuery,
+  useReviewAppealMutation,
+} = appealsApi;
@@ -3,7 +3,7 @@
  */
 
 import { api } from "../api";
-import type { PaginatedResponse } from "./interviews";
+import type { PaginatedResponse, SessionRecording } from "./interviews";
 
 export interface AptitudeListItem {
   id: string;
@@ -18,6 +18,12 @@ export interface AptitudeListItem {
   candidate: { id: string; name: string };
 }
 
+/** Stored attempt; only the recording fields are typed, the views read the rest as they need */
+export interface AptitudeRecord extends SessionRecording {
+  id: string;
+  [key: string]: unknown;
+}
+
 const aptitudeApi = api.injectEndpoints({
   endpoints: (builder) => ({
     createAptitude: builder.mutation<any, Record<string, unknown>>({
@@ -31,7 +37,7 @@ const aptitudeApi = api.injectEndpoints({
       }),
       providesTags: ["Aptitude"],
     }),
-    getAptitude: builder.query<any, string>({
+    getAptitude: builder.query<AptitudeRecord, string>({
       query: (id) => `/aptitude/${id}`,
       providesTags: ["Aptitude"],
     }),
@@ -3,7 +3,7 @@
  */
 
 import { api } from "../api";
-import type { PaginatedResponse } from "./interviews";
+import type { PaginatedResponse, SessionRecording } from "./interviews";
 
 export interface CodingListItem {
   id: string;
@@ -18,6 +18,12 @@ export interface CodingListItem {
   candidate: { id: string; name: string };
 }
 
+/** Stored attempt; only the recording fields are typed, the views read the rest as they need */
+export interface CodingRecord extends SessionRecording {
+  id: string;
+  [key: string]: unknown;
+}
+
 const codingApi = api.injectEndpoints({
   endpoints: (builder) => ({
     createCoding: builder.mutation<any, Record<string, unknown>>({
@@ -31,7 +37,7 @@ const codingApi = api.injectEndpoints({
       }),
       providesTags: ["Coding"],
     }),
-    getCoding: builder.query<any, string>({
+    getCoding: builder.query<CodingRecord, string>({
       query: (id) => `/coding/${id}`,
       providesTags: ["Coding"],
     }),
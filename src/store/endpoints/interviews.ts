@@ -3,6 +3,7 @@
  */
 
 import { api } from "../api";
+import type { ObserverIntervention } from "../../proctoring/types";
 
 export interface InterviewListItem {
   id: string;
@@ -16,6 +17,14 @@ export interface InterviewListItem {
   template: { id: string; name: string };
 }
 
+/** Session recording on a stored aptitude, coding or interview record (flag review seek) */
+export interface SessionRecording {
+  /** Stored session recording (cloud recording), when the backend kept one */
+  recordingUrl?: string | null;
+  /** Recording start minus session start (the flags' clock), in ms; sent with the session's update */
+  recordingOffsetMs?: number | null;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {
@@ -55,6 +64,10 @@ const interviewsApi = api.injectEndpoints({
     updateProctoring: builder.mutation<any, { id: string; data: Record<string, unknown> }>({
       query: ({ id, data }) => ({ url: `/interviews/${id}/proctoring`, method: "PATCH", body: data }),
     }),
+    /** Audit trail of live proctor actions (warning, pause, extend, terminate) */
+    recordIntervention: builder.mutation<any, { id: string; intervention: ObserverIntervention; roomName?: string }>({
+      query: ({ id, ...body }) => ({ url: `/interviews/${id}/interventions`, method: "POST", body }),
+    }),
   }),
 });
 
@@ -64,4 +77,5 @@ export const {
   useGetInterviewQuery,
   useUpdateInterviewMutation,
   useUpdateProctoringMutation,
+  useRecordInterventionMutation,
 } = interviewsApi;
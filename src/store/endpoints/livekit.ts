@@ -17,6 +17,16 @@ export interface LiveKitTokenResponse {
   agentDispatched?: boolean;
 }
 
+/** A professional interview currently in progress (for the proctor wall) */
+export interface LiveSession {
+  interviewId: string;
+  roomName: string;
+  candidateName: string;
+  candidateEmail?: string;
+  templateName?: string;
+  startedAt: string;
+}
+
 const livekitApi = api.injectEndpoints({
   endpoints: (builder) => ({
     getLiveKitConfig: builder.query<LiveKitConfigResponse, void>({
@@ -28,6 +38,9 @@ const livekitApi = api.injectEndpoints({
     >({
       query: (body) => ({ url: "/livekit/token", method: "POST", body: body || {} }),
     }),
+    listLiveSessions: builder.query<LiveSession[], void>({
+      query: () => "/livekit/sessions",
+    }),
     reportLiveKitQuality: builder.mutation<
       { ok: boolean },
       { quality: string; roomName?: string }
@@ -40,5 +53,6 @@ const livekitApi = api.injectEndpoints({
 export const {
   useGetLiveKitConfigQuery,
   useGetLiveKitTokenMutation,
+  useListLiveSessionsQuery,
   useReportLiveKitQualityMutation,
 } = livekitApi;
@@ -0,0 +1,92 @@
+/**
+ * Proctoring API Endpoints — Org/assignment-level proctoring config and
+ * reviewer annotations on recorded flags.
+ *
+ * The backend resolves the most specific policy for the caller:
+ * assignment → candidate's organization → platform default.
+ */
+
+import { api } from "../api";
+import type { FlagType, InferenceMode, ProctoringThresholds } from "../../proctoring/types";
+
+export interface ProctoringPolicyResponse {
+  /** Which level the policy was resolved from */
+  source: "assignment" | "organization" | "default";
+  organizationId?: string | null;
+  /** Master switch; false = no camera proctoring for this session */
+  enabled?: boolean;
+  fps?: number;
+  /** Inference FPS when the worker pipeline is in use */
+  workerFps?: number;
+  /** "auto" (default) probes for worker support; "main" forces main-thread inference */
+  inferenceMode?: InferenceMode;
+  numFaces?: number;
+  enableHand?: boolean;
+  /** Phone / book ObjectDetector stage */
+  enableObjectDetection?: boolean;
+  /** Microphone analysis (second voice / background speech / whispering) */
+  enableAudioProctoring?: boolean;
+  /** Coding round: entire-screen share + screenshot sampling + multi-display check */
+  enableScreenShare?: boolean;
+  thresholds?: Partial<ProctoringThresholds>;
+  /** Rule policy document (see proctoring/ruleEngine.ts); validated client-side */
+  policy?: unknown;
+  /** Flag types that show the blocking malpractice overlay */
+  malpracticeFlagTypes?: FlagType[];
+}
+
+/** Session kinds that record proctoring flags */
+export type ProctoredSessionType = "INTERVIEW" | "APTITUDE" | "CODING";
+
+export type FlagReviewVerdict = "CONFIRMED" | "FALSE_POSITIVE" | "NEEDS_DISCUSSION";
+
+/** A reviewer's annotation on one flag (one per flag, last write wins) */
+export interface FlagReview {
+  flagId: string;
+  verdict: FlagReviewVerdict | null;
+  note: string | null;
+  reviewer: { id: string; name: string } | null;
+  updatedAt: string;
+}
+
+export interface SaveFlagReviewBody {
+  sessionType: ProctoredSessionType;
+  sessionId: string;
+  flagId: string;
+  verdict: FlagReviewVerdict | null;
+  note?: string | null;
+}
+
+const proctoringApi = api.injectEndpoints({
+  endpoints: (builder) => ({
+    getProctoringPolicy: builder.query<
+      ProctoringPolicyResponse,
+      { interviewId?: string } | void
+    >({
+      query: (params) => ({ url: "/proctoring/policy", params: params || {} }),
+      providesTags: ["Proctoring"],
+    }),
+    updateOrganizationProctoringPolicy: builder.mutation<
+      ProctoringPolicyResponse,
+      Omit<ProctoringPolicyResponse, "source" | "organizationId">
+    >({
+      query: (body) => ({ url: "/proctoring/policy", method: "PUT", body }),
+      invalidatesTags: ["Proctoring"],
+    }),
+    listFlagReviews: builder.query<FlagReview[], { sessionType: ProctoredSessionType; sessionId: string }>({
+      query: (params) => ({ url: "/proctoring/reviews", params }),
+      providesTags: ["FlagReview"],
+    }),
+    saveFlagReview: builder.mutation<FlagReview, SaveFlagReviewBody>({
+      query: (body) => ({ url: "/proctoring/reviews", method: "PUT", body }),
+      invalidatesTags: ["FlagReview"],
+    }),
+  }),
+});
+
+export const {
+  useGetProctoringPolicyQuery,
+  useUpdateOrganizationProctoringPolicyMutation,
+  useListFlagReviewsQuery,
+  useSaveFlagReviewMutation,
+} = proctoringApi;
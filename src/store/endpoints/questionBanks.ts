@@ -0,0 +1,60 @@
+/**
+ * Question Banks API — Reusable interview questions (competency, difficulty,
+ * expected-answer rubric) that templates can attach so every candidate for a
+ * role is asked the same questions in the same order.
+ */
+
+import { api } from "../api";
+import type { PaginatedResponse } from "./interviews";
+import type { BankQuestion } from "../../types/gemini";
+
+export interface QuestionBank {
+  id: string;
+  name: string;
+  description: string | null;
+  /** In the order they are asked */
+  questions: BankQuestion[];
+  createdAt: string;
+  creator: { id: string; name: string };
+}
+
+/** Questions without ids are new; the backend assigns them */
+export type QuestionBankInput = {
+  name: string;
+  description?: string | null;
+  questions: Array<Omit<BankQuestion, "id"> & { id?: string }>;
+};
+
+const questionBanksApi = api.injectEndpoints({
+  endpoints: (builder) => ({
+    listQuestionBanks: builder.query<PaginatedResponse<QuestionBank>, { page?: number; limit?: number } | void>({
+      query: (params) => ({ url: "/question-banks", params: params || {} }),
+      providesTags: ["QuestionBank"],
+    }),
+    getQuestionBank: builder.query<QuestionBank, string>({
+      query: (id) => `/question-banks/${id}`,
+      providesTags: ["QuestionBank"],
+    }),
+    createQuestionBank: builder.mutation<QuestionBank, QuestionBankInput>({
+      query: (body) => ({ url: "/question-banks", method: "POST", body }),
+      invalidatesTags: ["QuestionBank"],
+    }),
+    updateQuestionBank: builder.mutation<QuestionBank, { id: string; data: QuestionBankInput }>({
+      query: ({ id, data }) => ({ url: `/question-banks/${id}`, method: "PUT", body: data }),
+      // Templates embed their bank's questions
+      invalidatesTags: ["QuestionBank", "Interview"],
+    }),
+    deleteQuestionBank: builder.mutation<{ message: string }, string>({
+      query: (id) => ({ url: `/question-banks/${id}`, method: "DELETE" }),
+      invalidatesTags: ["QuestionBank", "Interview"],
+    }),
+  }),
+});
+
+export const {
+  useListQuestionBanksQuery,
+  useGetQuestionBankQuery,
+  useCreateQuestionBankMutation,
+  useUpdateQuestionBankMutation,
+  useDeleteQuestionBankMutation,
+} = questionBanksApi;
@@ -0,0 +1,53 @@
+/**
+ * Scoring Profiles API — Per-role / per-organization weights, red-flag
+ * penalties and recommendation cut-offs for the report score. Updating a
+ * profile stores a new version; each ComputedScoring keeps a copy of the
+ * version it used.
+ */
+
+import { api } from "../api";
+import type { ScoringProfile } from "../../lib/scoring-profile";
+
+export interface ScoringProfileRecord extends ScoringProfile {
+  description: string | null;
+  /** Used for templates without their own profile */
+  isOrgDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+  creator: { id: string; name: string };
+}
+
+export type ScoringProfileInput = Omit<ScoringProfile, "id" | "version"> & {
+  description?: string | null;
+  isOrgDefault?: boolean;
+};
+
+const scoringProfilesApi = api.injectEndpoints({
+  endpoints: (builder) => ({
+    listScoringProfiles: builder.query<ScoringProfileRecord[], void>({
+      query: () => "/scoring-profiles",
+      providesTags: ["ScoringProfile"],
+    }),
+    createScoringProfile: builder.mutation<ScoringProfileRecord, ScoringProfileInput>({
+      query: (body) => ({ url: "/scoring-profiles", method: "POST", body }),
+      invalidatesTags: ["ScoringProfile"],
+    }),
+    /** Saves a new version */
+    updateScoringProfile: builder.mutation<ScoringProfileRecord, { id: string; data: ScoringProfileInput }>({
+      query: ({ id, data }) => ({ url: `/scoring-profiles/${id}`, method: "PUT", body: data }),
+      // Templates embed their resolved profile
+      invalidatesTags: ["ScoringProfile", "Interview"],
+    }),
+    deleteScoringProfile: builder.mutation<{ message: string }, string>({
+      query: (id) => ({ url: `/scoring-profiles/${id}`, method: "DELETE" }),
+      invalidatesTags: ["ScoringProfile", "Interview"],
+    }),
+  }),
+});
+
+export const {
+  useListScoringProfilesQuery,
+  useCreateScoringProfileMutation,
+  useUpdateScoringProfileMutation,
+  useDeleteScoringProfileMutation,
+} = scoringProfilesApi;
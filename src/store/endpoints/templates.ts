@@ -4,6 +4,8 @@
 
 import { api } from "../api";
 import type { PaginatedResponse } from "./interviews";
+import type { BankQuestion, InterviewPlan } from "../../types/gemini";
+import type { ScoringProfile } from "../../lib/scoring-profile";
 
 export interface Template {
   id: string;
@@ -11,6 +13,15 @@ export interface Template {
   aiBehavior: string;
   customerWants: string;
   candidateOffers: string;
+  /** Interview phases and budgets; null = default plan */
+  plan?: InterviewPlan | null;
+  /** Attached question bank; its questions are asked in order instead of generated ones */
+  questionBankId?: string | null;
+  questionBank?: { id: string; name: string; questions: BankQuestion[] } | null;
+  /** Scoring profile for reports; null = the organization's default */
+  scoringProfileId?: string | null;
+  /** Resolved profile (template's, else the organization's) at its current version */
+  scoringProfile?: ScoringProfile | null;
   isPublic: boolean;
   /** True when created via "Custom" in interview flow; only these can be edited by creator */
   isCustom: boolean;
@@ -20,7 +31,7 @@ export interface Template {
 
 const templatesApi = api.injectEndpoints({
   endpoints: (builder) => ({
-    createTemplate: builder.mutation<Template, { name: string; aiBehavior: string; customerWants: string; candidateOffers: string; isPublic?: boolean; isCustom?: boolean }>({
+    createTemplate: builder.mutation<Template, { name: string; aiBehavior: string; customerWants: string; candidateOffers: string; plan?: InterviewPlan | null; questionBankId?: string | null; scoringProfileId?: string | null; isPublic?: boolean; isCustom?: boolean }>({
       query: (body) => ({ url: "/templates", method: "POST", body }),
       invalidatesTags: ["Interview"],
     }),
@@ -6,11 +6,13 @@
  *   template   – set by TemplateForm, read by VoiceChat + Report
  *   transcript – set by VoiceChat on end, read by Report
  *   videoUrl   – objectURL created from the recorded Blob, read by Report
+ *   toolLog    – interviewer's function calls, set on end, read by Report
  *   guardrails – EEO/do-not-ask from org, used to build AI system instruction
  */
 
 import { createSlice, type PayloadAction } from "@reduxjs/toolkit";
 import type { ConversationTemplate, TranscriptEntry } from "../types/gemini";
+import type { InterviewToolRecord } from "../lib/interview-tools";
 import type { RootState } from "./store";
 
 export interface OrgGuardrails {
@@ -28,6 +30,8 @@ interface InterviewState {
   videoUrl: string | null;
   interviewId: string | null;
   guardrails: OrgGuardrails | null;
+  /** Interviewer's function calls; the report shows the rubric scores it recorded */
+  toolLog: InterviewToolRecord[];
   /** Set by Professional session; shown on report as "Network: Stable/Moderate/Poor" */
   networkQuality: NetworkQuality | null;
   /** Full flow: selected template id (use existing template for video interview) */
@@ -42,6 +46,7 @@ const initialState: InterviewState = {
   videoUrl: null,
   interviewId: null,
   guardrails: null,
+  toolLog: [],
   networkQuality: null,
   selectedTemplateIdForFullFlow: null,
   selectedTemplateNameForFullFlow: null,
@@ -68,11 +73,13 @@ const interviewSlice = createSlice({
       action: PayloadAction<{
         transcript: TranscriptEntry[];
         videoUrl: string | null;
+        toolLog?: InterviewToolRecord[];
         networkQuality?: NetworkQuality | null;
       }>,
     ) {
       state.transcript = action.payload.transcript;
       state.videoUrl = action.payload.videoUrl;
+      state.toolLog = action.payload.toolLog ?? [];
       if (action.payload.networkQuality !== undefined) {
         state.networkQuality = action.payload.networkQuality;
       }
@@ -94,6 +101,7 @@ const interviewSlice = createSlice({
       state.videoUrl = null;
       state.interviewId = null;
       state.guardrails = null;
+      state.toolLog = [];
       state.networkQuality = null;
       state.selectedTemplateIdForFullFlow = null;
       state.selectedTemplateNameForFullFlow = null;
@@ -112,6 +120,7 @@ export const selectTranscript = (state: RootState) => state.interview.transcript
 export const selectVideoUrl = (state: RootState) => state.interview.videoUrl;
 export const selectInterviewId = (state: RootState) => state.interview.interviewId;
 export const selectGuardrails = (state: RootState) => state.interview.guardrails;
+export const selectToolLog = (state: RootState) => state.interview.toolLog;
 export const selectNetworkQuality = (state: RootState) => state.interview.networkQuality;
 
 export default interviewSlice.reducer;
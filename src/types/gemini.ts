@@ -1,3 +1,5 @@
+import type { ScoringProfile } from "../lib/scoring-profile";
+
 // ---------------------------------------------------------------------------
 // Gemini Live API – WebSocket message types
 // ---------------------------------------------------------------------------
@@ -22,6 +24,8 @@ export interface TranscriptEntry {
   role: "user" | "assistant";
   text: string;
   timestamp: number;
+  /** Question-bank question this turn asked (assistant) or answered (user) */
+  questionId?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -59,6 +63,41 @@ export interface GeminiSetupMessage {
     sessionResumption?: Record<string, never> | { handle: string };
     /** Extend session beyond 15 min audio-only limit */
     contextWindowCompression?: { slidingWindow?: Record<string, unknown> };
+    /** Functions the model may call (answered with a toolResponse) */
+    tools?: GeminiTool[];
+  };
+}
+
+/** OpenAPI-style schema subset accepted for function parameters */
+export interface GeminiSchema {
+  type: "OBJECT" | "STRING" | "INTEGER" | "NUMBER" | "BOOLEAN" | "ARRAY";
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, GeminiSchema>;
+  required?: string[];
+  items?: GeminiSchema;
+}
+
+export interface GeminiFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters?: GeminiSchema;
+}
+
+export interface GeminiTool {
+  functionDeclarations: GeminiFunctionDeclaration[];
+}
+
+export interface GeminiFunctionResponse {
+  /** Id of the function call being answered */
+  id: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface GeminiToolResponseMessage {
+  toolResponse: {
+    functionResponses: GeminiFunctionResponse[];
   };
 }
 
@@ -114,8 +153,24 @@ export interface GeminiServerMessage {
     interrupted?: boolean;
     generationComplete?: boolean;
   };
-  toolCall?: unknown;
-  toolCallCancellation?: unknown;
+  /** Model asks the client to run functions; answer each id with sendToolResponse */
+  toolCall?: GeminiToolCall;
+  /** Calls the model no longer wants answered (e.g. the user interrupted) */
+  toolCallCancellation?: GeminiToolCallCancellation;
+}
+
+export interface GeminiFunctionCall {
+  id: string;
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+export interface GeminiToolCall {
+  functionCalls: GeminiFunctionCall[];
+}
+
+export interface GeminiToolCallCancellation {
+  ids: string[];
 }
 
 // ---------------------------------------------------------------------------
@@ -131,6 +186,8 @@ export interface GeminiLiveConfig {
   silenceDurationMs: number;
   /** Milliseconds of speech required before start-of-speech is committed */
   prefixPaddingMs: number;
+  /** Functions the model may call during the session */
+  tools?: GeminiFunctionDeclaration[];
 }
 
 // ---------------------------------------------------------------------------
@@ -146,4 +203,51 @@ export interface ConversationTemplate {
   customerWants: string;
   /** What the candidate / agent can offer */
   candidateOffers: string;
+  /** Phases the interviewer is steered through; the default plan when absent */
+  plan?: InterviewPlan;
+  /** Question bank attached to the template, in the order they are asked */
+  questions?: BankQuestion[];
+  /** Weights and cut-offs for the report score; the standard profile when absent */
+  scoringProfile?: ScoringProfile;
+}
+
+// ---------------------------------------------------------------------------
+// Question bank — fixed questions so candidates are comparable
+// ---------------------------------------------------------------------------
+
+export type QuestionDifficulty = "easy" | "medium" | "hard";
+
+export interface BankQuestion {
+  id: string;
+  text: string;
+  /** Competency it assesses (e.g. "System design", "Ownership") */
+  competency: string;
+  difficulty: QuestionDifficulty;
+  /** What a good answer covers; used for scoring, never read to the candidate */
+  rubric: string;
+}
+
+// ---------------------------------------------------------------------------
+// Interview plan — phases with time budgets, set per template
+// ---------------------------------------------------------------------------
+
+export type InterviewPhaseKind = "intro" | "technical" | "behavioral" | "candidate_questions" | "close";
+
+export interface InterviewPhase {
+  kind: InterviewPhaseKind;
+  /** Shown in the phase progress (e.g. "System design") */
+  name: string;
+  /** Time budget for the phase */
+  minutes: number;
+  /** Move on after this many interviewer questions, even if time is left (omit = time only) */
+  maxQuestions?: number;
+  /** Extra guidance for the interviewer, injected when the phase starts */
+  instructions?: string;
+}
+
+export interface InterviewPlan {
+  /** In order; the last phase is always the close (wrap-up) */
+  phases: InterviewPhase[];
+  /** Candidate silence before the interviewer asks "Are you there?" */
+  silencePromptAfterSec?: number;
 }